@@ -20,4 +20,10 @@ export default defineConfig([
       globals: globals.browser,
     },
   },
+  {
+    files: ['src/cli/**/*.ts', 'vite.cli.config.ts'],
+    languageOptions: {
+      globals: globals.node,
+    },
+  },
 ])
@@ -1,16 +1,59 @@
 import { useEffect, useMemo, useState } from "react";
+import { FFmpeg } from "@ffmpeg/ffmpeg";
 import { useFFmpeg } from "./shared/lib/useFFmpeg";
 import {
   convertToWebp as convertToWebpLib,
   convertToWebpOptimized,
+  toConversionResult,
   type ConversionResult,
 } from "./features/convert/lib/convertToWebp";
+import {
+  DEFAULT_RENDITION_WIDTHS,
+  optimizeRenditions,
+  type RenditionSet,
+} from "./features/convert/lib/renditions";
 import { ConversionControls } from "./widgets/conversion/ConversionControls";
+import { TransformControls } from "./widgets/conversion/TransformControls";
+import { FrameInspector } from "./widgets/conversion/FrameInspector";
 import { ResultPanel } from "./widgets/result/ResultPanel";
+import { CandidateTable } from "./widgets/result/CandidateTable";
 import { THEME } from "./shared/config/theme";
 import { ProgressBar } from "./shared/ui/ProgressBar";
 import { SAMPLE_GIF } from "./shared/constants/sample";
 import type { QualityMetrics } from "./features/convert/lib/qualityMetrics";
+import type { CandidateReport } from "./features/convert/lib/optimizer";
+import {
+  OUTPUT_FORMATS,
+  outputFormatOf,
+  type OutputFormat,
+} from "./features/convert/lib/outputFormat";
+import { getSupportedOutputFormats } from "./features/convert/lib/encoderSupport";
+import { setFrameDecoder } from "./features/convert/lib/animationFrames";
+import { createFfmpegFrameDecoder } from "./features/convert/lib/ffmpegFrameDecoder";
+import {
+  INPUT_FORMATS,
+  type InputFormat,
+} from "./features/convert/lib/inputFormat";
+import { isAbortError } from "./features/convert/lib/abort";
+import {
+  EMPTY_FRAME_EDITS,
+  type FrameEdits,
+  type OutputTransform,
+} from "./features/convert/lib/outputTransform";
+import {
+  inspectGifFrames,
+  readInputBytes,
+  type InspectedFrame,
+} from "./features/convert/lib/gifAnalyzer";
+import { readInputMetadata } from "./features/convert/lib/inputSource";
+import type { QualityTarget } from "./features/convert/lib/targetQuality";
+import {
+  SCORING_POLICIES,
+  type ScoringPolicyName,
+} from "./features/convert/lib/scoringPolicy";
+import { BatchModeToggle } from "./widgets/batch/BatchModeToggle";
+import { BatchPanel } from "./widgets/batch/BatchPanel";
+import { useBatchConversion } from "./widgets/batch/useBatchConversion";
 
 export default function App() {
   const {
@@ -21,6 +64,8 @@ export default function App() {
     setProgress,
     setLoadingMessage,
     resetProgress,
+    createAbortSignal,
+    cancel,
   } = useFFmpeg();
   const [inputFile, setInputFile] = useState<File | null>(null);
   const [outputUrl, setOutputUrl] = useState<string | null>(null);
@@ -36,6 +81,7 @@ export default function App() {
     null
   );
   const [metadata, setMetadata] = useState<{
+    format: InputFormat;
     frameCount: number;
     fps: number;
     width: number;
@@ -51,10 +97,69 @@ export default function App() {
     isLargerThanOriginal: boolean;
     bitsPerPixel: number;
   } | null>(null);
+  const [targetSizeKB, setTargetSizeKB] = useState<number | null>(null); // 목표 용량 모드
+  const [qualityTarget, setQualityTarget] = useState<QualityTarget | null>(null); // 목표 품질 모드
+  const [scoringPolicy, setScoringPolicy] = useState<ScoringPolicyName | null>(null); // null: 모드별 기본 정책
+  const [candidates, setCandidates] = useState<CandidateReport[]>([]); // 최적화 후보 리더보드
+  const [activeCandidate, setActiveCandidate] = useState<number | null>(null); // 결과로 표시 중인 후보
+  const [outputFormats, setOutputFormats] = useState<OutputFormat[]>(["webp"]); // 여러 개면 최적화 모드에서 비교
+  const [supportedFormats, setSupportedFormats] = useState<OutputFormat[]>(["webp"]); // 로드된 ffmpeg 빌드에 인코더가 있는 형식
+  const [gifFallback, setGifFallback] = useState(true); // 원본보다 커지면 재최적화 GIF로 대체
+  const [transform, setTransform] = useState<OutputTransform>({}); // 크기/크롭/프레임레이트/구간/속도
+  const [renditionWidths, setRenditionWidths] = useState<string | null>(null); // 반응형 세트 표시 너비 (쉼표 구분)
+  const [includeRetina, setIncludeRetina] = useState(true); // 반응형 세트에 2x 포함
+  const [renditionSet, setRenditionSet] = useState<RenditionSet | null>(null);
+  const [inspectedFrames, setInspectedFrames] = useState<InspectedFrame[] | null>(null); // 프레임 검사 결과
+  const [inspecting, setInspecting] = useState(false);
+  const [inspectError, setInspectError] = useState<string | null>(null);
+  const [frameEdits, setFrameEdits] = useState<FrameEdits>(EMPTY_FRAME_EDITS); // 프레임 제외/표시 시간 변경 (현재 입력 기준)
+  const [batchMode, setBatchMode] = useState(false); // 일괄 변환 모드
+
+  // 기본 변환은 단일 포맷만 지원 (비교 선택 시 WebP)
+  const basicFormat = outputFormats.length === 1 ? outputFormats[0] : "webp";
+
+  const batch = useBatchConversion({
+    useOptimizer,
+    lossless: useLossless,
+    quality,
+    compression,
+    format: basicFormat,
+    targetSizeKB,
+    qualityTarget,
+    scoringPolicy,
+    outputFormats,
+    gifFallback,
+    transform,
+  });
+
   const onToggleSample = () => {
     setOutputUrl(null);
   };
 
+  // 프레임 편집은 입력의 프레임 인덱스 기준이므로 입력이 바뀌면 초기화
+  const resetInspection = () => {
+    setInspectedFrames(null);
+    setInspectError(null);
+    setFrameEdits(EMPTY_FRAME_EDITS);
+  };
+
+  const handleInspect = async () => {
+    const input = isSample ? SAMPLE_GIF : inputFile;
+    if (!ffmpeg || !input) return;
+
+    setInspecting(true);
+    setInspectError(null);
+    try {
+      const inputMetadata = readInputMetadata(await readInputBytes(input));
+      setInspectedFrames(await inspectGifFrames(ffmpeg, input, inputMetadata));
+    } catch (error) {
+      console.error("프레임 분석 실패:", error);
+      setInspectError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setInspecting(false);
+    }
+  };
+
   const originalUrl = useMemo(() => {
     if (isSample) return null;
     if (!inputFile) return null;
@@ -73,59 +178,114 @@ export default function App() {
     };
   }, [outputUrl]);
 
+  // 품질 측정의 디코딩도 로드된 ffmpeg로 (브라우저 캔버스의 색 관리/알파 곱셈과 무관하게 CLI와 같은 픽셀)
+  useEffect(() => {
+    if (!ffmpeg) return;
+    setFrameDecoder(createFfmpegFrameDecoder(ffmpeg));
+    return () => setFrameDecoder(null);
+  }, [ffmpeg]);
+
+  // 기본 ffmpeg.wasm 코어에는 AV1 인코더가 없으므로 실제로 인코딩되는 형식만 선택지로 표시
+  // 인코더 확인은 별도 인스턴스에서 (인코더가 wasm 메모리 오류로 중단되면 그 인스턴스는 다시 쓸 수 없음)
+  useEffect(() => {
+    if (!ready) return;
+    let active = true;
+    const probe = new FFmpeg();
+    probe
+      .load()
+      .then(() => getSupportedOutputFormats(probe))
+      .then((formats) => {
+        if (active) setSupportedFormats(formats);
+      })
+      .catch(console.error)
+      .finally(() => probe.terminate());
+    return () => {
+      active = false;
+    };
+  }, [ready]);
+
   const handleConvert = async () => {
     if (!ffmpeg) return;
     setOutputUrl(null);
     setConvertedSize(null);
     setQualityMetrics(null);
     setMetadata(null);
+    setCandidates([]);
+    setActiveCandidate(null);
+    setRenditionSet(null);
     resetProgress();
+    const signal = createAbortSignal();
+    // 단일 변환에만 프레임 검사기의 편집을 적용
+    const singleTransform: OutputTransform = { ...transform, frameEdits };
+
+    // 최적화 모드 (반응형 세트면 너비별로 최적화하고 가장 큰 렌디션을 결과로 표시)
+    const runOptimized = async (input: File | string) => {
+      const options = {
+        ffmpeg,
+        input,
+        progressCallback: (prog: number, msg: string) => {
+          setProgress(prog);
+          setLoadingMessage(msg);
+        },
+        lossless: useLossless,
+        signal,
+        targetSizeKB: targetSizeKB ?? undefined,
+        qualityTarget: qualityTarget ?? undefined,
+        scoringPolicy: scoringPolicy ?? undefined,
+        outputFormats,
+        gifFallback,
+        transform: singleTransform,
+      };
+      if (renditionWidths === null) return convertToWebpOptimized(options);
+
+      const widths = renditionWidths
+        .split(",")
+        .map((value) => Number(value.trim()))
+        .filter((width) => width > 0);
+      const set = await optimizeRenditions({
+        ...options,
+        widths: widths.length > 0 ? widths : DEFAULT_RENDITION_WIDTHS,
+        densities: includeRetina ? [1, 2] : [1],
+      });
+      setRenditionSet(set);
+      return toConversionResult(set.renditions[set.renditions.length - 1].result);
+    };
 
     try {
       let result: ConversionResult | null = null;
 
       if (isSample) {
-        const res = await fetch(SAMPLE_GIF);
+        const res = await fetch(SAMPLE_GIF, { signal });
         const blob = await res.blob();
         setOriginalSize(blob.size / 1024);
 
         if (useOptimizer) {
-          result = await convertToWebpOptimized({
-            ffmpeg,
-            input: SAMPLE_GIF,
-            progressCallback: (prog, msg) => {
-              setProgress(prog);
-              setLoadingMessage(msg);
-            },
-            lossless: useLossless,
-          });
+          result = await runOptimized(SAMPLE_GIF);
         } else {
           result = await convertToWebpLib({
             ffmpeg,
             input: SAMPLE_GIF,
             quality,
             compression,
+            format: basicFormat,
+            signal,
+            transform: singleTransform,
           });
         }
       } else if (inputFile) {
         setOriginalSize(inputFile.size / 1024);
 
         if (useOptimizer) {
-          result = await convertToWebpOptimized({
-            ffmpeg,
-            input: inputFile,
-            progressCallback: (prog, msg) => {
-              setProgress(prog);
-              setLoadingMessage(msg);
-            },
-            lossless: useLossless,
-          });
+          result = await runOptimized(inputFile);
         } else {
           result = await convertToWebpLib({
             ffmpeg,
             input: inputFile,
             quality,
             compression,
+            format: basicFormat,
+            signal,
+            transform: singleTransform,
           });
         }
       }
@@ -138,16 +298,44 @@ export default function App() {
         setMetadata(result.metadata || null);
         setEncodingStrategy(result.encodingStrategy || null);
         setCompressionStats(result.compressionStats || null);
+        setCandidates(result.candidates ?? []);
+        setActiveCandidate(result.candidates?.find((c) => c.selected)?.index ?? null);
         setProgress(100);
         setLoadingMessage("");
       }
     } catch (error) {
+      if (isAbortError(error)) {
+        setLoadingMessage("변환이 취소되었습니다");
+        setProgress(0);
+        return;
+      }
       console.error("변환 실패:", error);
       setLoadingMessage(`변환 실패: ${error}`);
       setProgress(0);
     }
   };
 
+  // 자동 선택 대신 다른 후보를 결과로 사용
+  const handleUseCandidate = (candidate: CandidateReport) => {
+    setOutputUrl(URL.createObjectURL(candidate.blob));
+    setConvertedSize(candidate.sizeKB);
+    setQualityMetrics(candidate.metrics ?? null);
+    setEncodingStrategy(candidate.config.encodingStrategy ?? null);
+    setCompressionStats((stats) => {
+      if (!stats) return null;
+      const savingsKB = stats.originalSizeKB - candidate.sizeKB;
+      return {
+        ...stats,
+        compressedSizeKB: candidate.sizeKB,
+        savingsKB,
+        savingsPercent: (savingsKB / stats.originalSizeKB) * 100,
+        isLargerThanOriginal: candidate.sizeKB > stats.originalSizeKB,
+        bitsPerPixel: (stats.bitsPerPixel * candidate.sizeKB) / stats.compressedSizeKB,
+      };
+    });
+    setActiveCandidate(candidate.index);
+  };
+
   const handleAddPortfolio = () => {
     alert("✅ 포트폴리오에 추가되었습니다!");
   };
@@ -178,33 +366,63 @@ export default function App() {
         바나나브레드 GIF → WebP 변환기
       </h1>
 
-      <ConversionControls
+      <BatchModeToggle
         theme={THEME}
-        isSample={isSample}
-        setIsSample={(v) => {
-          setIsSample(
-            typeof v === "function"
-              ? (v as (p: boolean) => boolean)(isSample)
-              : v
-          );
-        }}
-        inputFile={inputFile}
-        setInputFile={(f) => {
-          setInputFile(f);
-          if (f) {
-            setIsSample(false);
-            setOutputUrl(null);
-          }
-        }}
-        quality={quality}
-        setQuality={setQuality}
-        compression={compression}
-        setCompression={setCompression}
-        onConvert={handleConvert}
-        ready={ready}
-        onToggleSample={onToggleSample}
+        batchMode={batchMode}
+        setBatchMode={setBatchMode}
       />
 
+      {batchMode ? (
+        <BatchPanel
+          theme={THEME}
+          ready={ready}
+          batch={batch}
+        />
+      ) : (
+        <ConversionControls
+          theme={THEME}
+          isSample={isSample}
+          setIsSample={(v) => {
+            setIsSample(
+              typeof v === "function"
+                ? (v as (p: boolean) => boolean)(isSample)
+                : v
+            );
+            resetInspection();
+          }}
+          inputFile={inputFile}
+          setInputFile={(f) => {
+            setInputFile(f);
+            resetInspection();
+            if (f) {
+              setIsSample(false);
+              setOutputUrl(null);
+            }
+          }}
+          quality={quality}
+          setQuality={setQuality}
+          compression={compression}
+          setCompression={setCompression}
+          onConvert={handleConvert}
+          ready={ready}
+          onToggleSample={onToggleSample}
+        />
+      )}
+
+      {/* 프레임 검사기 (GIF 단일 변환) */}
+      {!batchMode && (isSample || inputFile) && (
+        <FrameInspector
+          theme={THEME}
+          ready={ready}
+          frames={inspectedFrames}
+          inspecting={inspecting}
+          error={inspectError}
+          onInspect={handleInspect}
+          edits={frameEdits}
+          setEdits={setFrameEdits}
+        />
+      )}
+
       {/* 최적화 모드 토글 */}
       <div
         style={{
@@ -235,6 +453,36 @@ export default function App() {
             자동 최적화 모드 (AI 품질 분석)
           </span>
         </label>
+        <label
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: 8,
+            marginTop: 12,
+            fontSize: "0.95rem",
+            fontWeight: 500,
+          }}
+        >
+          출력 형식
+          <select
+            value={outputFormats.join(",")}
+            onChange={(e) => setOutputFormats(e.target.value.split(",") as OutputFormat[])}
+            style={{ padding: "4px 8px", borderRadius: 6, border: "1px solid #ccc" }}
+          >
+            {supportedFormats.map((format) => (
+              <option key={format} value={format}>
+                {OUTPUT_FORMATS[format].label}
+              </option>
+            ))}
+            {useOptimizer && supportedFormats.includes("avif") && (
+              <option value="webp,avif">WebP + AVIF 비교</option>
+            )}
+            {useOptimizer && supportedFormats.includes("mp4") && supportedFormats.includes("webm") && (
+              <option value="webp,mp4,webm">WebP + 동영상 비교</option>
+            )}
+          </select>
+        </label>
+        <TransformControls transform={transform} setTransform={setTransform} />
         {useOptimizer && (
           <>
             <p
@@ -292,21 +540,290 @@ export default function App() {
                 )}
               </p>
             </div>
+
+            {/* GIF 폴백 */}
+            <div style={{ marginTop: 12, paddingTop: 12, borderTop: "1px solid #eee" }}>
+              <label
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  cursor: "pointer",
+                  gap: 8,
+                }}
+              >
+                <input
+                  type="checkbox"
+                  checked={gifFallback}
+                  onChange={(e) => setGifFallback(e.target.checked)}
+                  style={{ cursor: "pointer" }}
+                />
+                <span style={{ fontSize: "0.95rem", fontWeight: 500 }}>
+                  원본보다 커지면 최적화 GIF로 대체
+                </span>
+              </label>
+              <p
+                style={{
+                  marginTop: 6,
+                  fontSize: "0.8rem",
+                  color: "#666",
+                  lineHeight: 1.4,
+                  marginLeft: 24,
+                }}
+              >
+                팔레트 재생성, 변경 영역 자르기, 프레임 간 투명 차분으로 GIF를 다시 압축해 더 작은 결과를 찾습니다.
+              </p>
+            </div>
+
+            {/* 반응형 세트 */}
+            <div style={{ marginTop: 12, paddingTop: 12, borderTop: "1px solid #eee" }}>
+              <label
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  cursor: "pointer",
+                  gap: 8,
+                }}
+              >
+                <input
+                  type="checkbox"
+                  checked={renditionWidths !== null}
+                  onChange={(e) =>
+                    setRenditionWidths(e.target.checked ? DEFAULT_RENDITION_WIDTHS.join(", ") : null)
+                  }
+                  style={{ cursor: "pointer" }}
+                />
+                <span style={{ fontSize: "0.95rem", fontWeight: 500 }}>
+                  반응형 세트 (여러 해상도)
+                </span>
+              </label>
+              {renditionWidths !== null && (
+                <>
+                  <div
+                    style={{
+                      display: "flex",
+                      alignItems: "center",
+                      gap: 8,
+                      marginTop: 8,
+                      marginLeft: 24,
+                      fontSize: "0.85rem",
+                      color: "#666",
+                    }}
+                  >
+                    표시 너비
+                    <input
+                      type="text"
+                      value={renditionWidths}
+                      onChange={(e) => setRenditionWidths(e.target.value)}
+                      style={{ width: 140, padding: "4px 8px", borderRadius: 6, border: "1px solid #ccc" }}
+                    />
+                    px
+                    <label style={{ display: "flex", alignItems: "center", gap: 4, cursor: "pointer" }}>
+                      <input
+                        type="checkbox"
+                        checked={includeRetina}
+                        onChange={(e) => setIncludeRetina(e.target.checked)}
+                        style={{ cursor: "pointer" }}
+                      />
+                      2x 포함
+                    </label>
+                  </div>
+                  <p
+                    style={{
+                      marginTop: 6,
+                      fontSize: "0.8rem",
+                      color: "#666",
+                      lineHeight: 1.4,
+                      marginLeft: 24,
+                    }}
+                  >
+                    너비 × 밀도 조합마다 따로 최적화하고 &lt;picture&gt;/srcset 마크업과 GIF 폴백을 함께 만듭니다.
+                    원본보다 큰 조합은 건너뛰며, 동영상 형식은 제외됩니다.
+                  </p>
+                </>
+              )}
+            </div>
+
+            {/* 목표 용량 모드 */}
+            <div style={{ marginTop: 12, paddingTop: 12, borderTop: "1px solid #eee" }}>
+              <label
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  cursor: "pointer",
+                  gap: 8,
+                }}
+              >
+                <input
+                  type="checkbox"
+                  checked={targetSizeKB !== null}
+                  onChange={(e) => {
+                    setTargetSizeKB(e.target.checked ? 500 : null);
+                    if (e.target.checked) setQualityTarget(null);
+                  }}
+                  style={{ cursor: "pointer" }}
+                />
+                <span style={{ fontSize: "0.95rem", fontWeight: 500 }}>
+                  목표 용량 맞추기
+                </span>
+                {targetSizeKB !== null && (
+                  <>
+                    <input
+                      type="number"
+                      min={1}
+                      value={targetSizeKB}
+                      onChange={(e) => setTargetSizeKB(Math.max(1, Number(e.target.value) || 1))}
+                      style={{
+                        width: 80,
+                        padding: "4px 8px",
+                        borderRadius: 6,
+                        border: "1px solid #ccc",
+                      }}
+                    />
+                    <span style={{ fontSize: "0.85rem", color: "#666" }}>KB 이하</span>
+                  </>
+                )}
+              </label>
+              {targetSizeKB !== null && (
+                <p
+                  style={{
+                    marginTop: 6,
+                    fontSize: "0.8rem",
+                    color: "#666",
+                    lineHeight: 1.4,
+                    marginLeft: 24,
+                  }}
+                >
+                  품질 → 해상도 → 프레임 수 순으로 줄여가며 용량 안에서 가장 SSIM이 높은 결과를 찾습니다.
+                  무손실 설정은 무시됩니다.
+                </p>
+              )}
+            </div>
+
+            {/* 목표 품질 모드 */}
+            <div style={{ marginTop: 12, paddingTop: 12, borderTop: "1px solid #eee" }}>
+              <label
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  cursor: "pointer",
+                  gap: 8,
+                }}
+              >
+                <input
+                  type="checkbox"
+                  checked={qualityTarget !== null}
+                  onChange={(e) => {
+                    setQualityTarget(e.target.checked ? { minSsim: 0.98, maxDeltaE: 2.3 } : null);
+                    if (e.target.checked) setTargetSizeKB(null);
+                  }}
+                  style={{ cursor: "pointer" }}
+                />
+                <span style={{ fontSize: "0.95rem", fontWeight: 500 }}>
+                  목표 품질 맞추기
+                </span>
+              </label>
+              {qualityTarget !== null && (
+                <>
+                  <div
+                    style={{
+                      display: "flex",
+                      alignItems: "center",
+                      gap: 8,
+                      marginTop: 8,
+                      marginLeft: 24,
+                      fontSize: "0.85rem",
+                      color: "#666",
+                    }}
+                  >
+                    SSIM ≥
+                    <input
+                      type="number"
+                      min={0}
+                      max={1}
+                      step={0.005}
+                      value={qualityTarget.minSsim}
+                      onChange={(e) =>
+                        setQualityTarget({
+                          ...qualityTarget,
+                          minSsim: Math.min(1, Math.max(0, Number(e.target.value) || 0)),
+                        })
+                      }
+                      style={{ width: 80, padding: "4px 8px", borderRadius: 6, border: "1px solid #ccc" }}
+                    />
+                    ΔE ≤
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.1}
+                      value={qualityTarget.maxDeltaE}
+                      onChange={(e) =>
+                        setQualityTarget({
+                          ...qualityTarget,
+                          maxDeltaE: Math.max(0, Number(e.target.value) || 0),
+                        })
+                      }
+                      style={{ width: 70, padding: "4px 8px", borderRadius: 6, border: "1px solid #ccc" }}
+                    />
+                  </div>
+                  <p
+                    style={{
+                      marginTop: 6,
+                      fontSize: "0.8rem",
+                      color: "#666",
+                      lineHeight: 1.4,
+                      marginLeft: 24,
+                    }}
+                  >
+                    -q:v를 이분 탐색해 기준을 만족하는 가장 작은 파일을 찾고, 손실로 맞출 수 없으면 무손실을 시도합니다.
+                  </p>
+                </>
+              )}
+            </div>
+
+            {/* 후보 선택 정책 */}
+            <div style={{ marginTop: 12, paddingTop: 12, borderTop: "1px solid #eee" }}>
+              <label
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  gap: 8,
+                  fontSize: "0.95rem",
+                  fontWeight: 500,
+                }}
+              >
+                선택 기준
+                <select
+                  value={scoringPolicy ?? ""}
+                  onChange={(e) =>
+                    setScoringPolicy((e.target.value || null) as ScoringPolicyName | null)
+                  }
+                  style={{ padding: "4px 8px", borderRadius: 6, border: "1px solid #ccc" }}
+                >
+                  <option value="">자동 (모드별 기본)</option>
+                  {Object.entries(SCORING_POLICIES).map(([name, policy]) => (
+                    <option key={name} value={name}>
+                      {policy.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
           </>
         )}
       </div>
 
       {/* 진행률 */}
-      {progress > 0 && progress < 100 && (
+      {!batchMode && progress > 0 && progress < 100 && (
         <ProgressBar
           progress={progress}
           theme={THEME}
           message={loadingMessage}
+          onCancel={cancel}
         />
       )}
 
       {/* 품질 메트릭 표시 */}
-      {qualityMetrics && (
+      {!batchMode && qualityMetrics && (
         <div
           style={{
             marginTop: 24,
@@ -381,6 +898,13 @@ export default function App() {
                   변환된 파일이 원본보다 큽니다. 원본 GIF가 이미 최적화되어 있거나, WebP 형식이 이 파일에 적합하지 않을 수 있습니다.
                 </div>
               )}
+              {!compressionStats.isLargerThanOriginal &&
+                outputFormatOf(outputFileName) === "gif" &&
+                !outputFormats.includes("gif") && (
+                  <div style={{ marginTop: 8, padding: 8, backgroundColor: "#fef9c3", borderRadius: 4, fontSize: "0.75rem", color: "#854d0e" }}>
+                    변환 결과가 원본보다 커서 재최적화한 GIF를 대신 제공합니다.
+                  </div>
+                )}
             </div>
           )}
           <div style={{ display: "grid", gap: 12 }}>
@@ -408,11 +932,26 @@ export default function App() {
               target="≥ 95%"
               pass={qualityMetrics.edgePreservation >= 0.95}
             />
+            {metadata?.hasAlpha && qualityMetrics.alphaMismatch !== undefined && (
+              <MetricRow
+                label="알파 불일치 (투명도)"
+                value={`${(qualityMetrics.alphaMismatch * 100).toFixed(2)}%`}
+                target="≤ 1%"
+                pass={(qualityMetrics.transparencyLoss ?? 0) <= 0.01}
+              />
+            )}
           </div>
+          {qualityMetrics.animation && (
+            <p style={{ marginTop: 12, fontSize: "0.8rem", color: "#666" }}>
+              전체 애니메이션 {qualityMetrics.animation.frames.length}개 프레임 평균 | 최저 SSIM{" "}
+              {qualityMetrics.animation.min.ssim.toFixed(4)} (프레임 #
+              {qualityMetrics.animation.worstFrameIndex + 1})
+            </p>
+          )}
           {metadata && (
             <div style={{ marginTop: 16, paddingTop: 16, borderTop: "1px solid #eee" }}>
               <p style={{ fontSize: "0.9rem", color: "#666", margin: "4px 0" }}>
-                프레임: {metadata.frameCount}개 | FPS: {metadata.fps} | 해상도: {metadata.width}×{metadata.height}
+                입력 형식: {INPUT_FORMATS[metadata.format].label} | 프레임: {metadata.frameCount}개 | FPS: {metadata.fps.toFixed(1)} | 해상도: {metadata.width}×{metadata.height}
               </p>
               <p style={{ fontSize: "0.9rem", color: "#666", margin: "4px 0" }}>
                 알파 채널: {metadata.hasAlpha ? "있음" : "없음"}
@@ -423,16 +962,29 @@ export default function App() {
       )}
 
       {/* 결과 섹션 */}
-      <ResultPanel
-        theme={THEME}
-        outputUrl={outputUrl}
-        outputFileName={outputFileName}
-        isSample={isSample}
-        originalUrl={originalUrl}
-        originalSize={originalSize}
-        convertedSize={convertedSize}
-        onAddPortfolio={handleAddPortfolio}
-      />
+      {!batchMode && (
+        <ResultPanel
+          theme={THEME}
+          outputUrl={outputUrl}
+          outputFileName={outputFileName}
+          isSample={isSample}
+          originalUrl={originalUrl}
+          originalIsVideo={inputFile?.type.startsWith("video/") ?? false}
+          originalSize={originalSize}
+          convertedSize={convertedSize}
+          renditionSet={renditionSet}
+          onAddPortfolio={handleAddPortfolio}
+        />
+      )}
+      {!batchMode && outputUrl && (
+        <CandidateTable
+          theme={THEME}
+          candidates={candidates}
+          activeIndex={activeCandidate}
+          outputFileName={outputFileName}
+          onUse={handleUseCandidate}
+        />
+      )}
     </div>
   );
 }
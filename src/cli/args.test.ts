@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { CliUsageError, parseCliArgs } from './args';
+
+describe('CLI Arguments', () => {
+  it('should map options to optimizer settings', () => {
+    const options = parseCliArgs([
+      'input.gif',
+      '-o',
+      'out.webp',
+      '--lossless',
+      '--target-kb',
+      '500',
+      '--format',
+      'webp, AVIF,webp',
+      '--report',
+      'report.json',
+    ]);
+
+    expect(options).toMatchObject({
+      inputs: ['input.gif'],
+      output: 'out.webp',
+      lossless: true,
+      targetSizeKB: 500,
+      outputFormats: ['webp', 'avif'],
+      report: 'report.json',
+      verbose: false,
+    });
+    expect(options.qualityTarget).toBeUndefined();
+  });
+
+  it('should fill the missing quality criterion with the default', () => {
+    expect(parseCliArgs(['a.gif', '--min-ssim', '0.99']).qualityTarget).toEqual({ minSsim: 0.99, maxDeltaE: 2.3 });
+  });
+
+  it('should reject invalid arguments as usage errors', () => {
+    expect(() => parseCliArgs([])).toThrow(CliUsageError);
+    expect(() => parseCliArgs(['a.gif', '--unknown'])).toThrow(CliUsageError);
+    expect(() => parseCliArgs(['a.gif', '--target-kb', '0'])).toThrow('--target-kb');
+    expect(() => parseCliArgs(['a.gif', '--min-ssim', '1.5'])).toThrow('--min-ssim');
+    expect(() => parseCliArgs(['a.gif', '--format', 'bmp'])).toThrow('bmp');
+    expect(() => parseCliArgs(['a.gif', '--policy', 'fastest'])).toThrow('fastest');
+    expect(() => parseCliArgs(['a.gif', '-o', 'a.webp', '-d', 'out'])).toThrow(CliUsageError);
+  });
+
+  it('should allow help without inputs', () => {
+    expect(parseCliArgs(['--help']).help).toBe(true);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * gif2webp-opt 명령줄 인자 해석
+ */
+import { parseArgs } from "node:util";
+import { OUTPUT_FORMATS, type OutputFormat } from "../features/convert/lib/outputFormat";
+import {
+  SCORING_POLICIES,
+  type ScoringPolicyName,
+} from "../features/convert/lib/scoringPolicy";
+import type { QualityTarget } from "../features/convert/lib/targetQuality";
+
+export interface CliOptions {
+  inputs: string[]; // 파일, 디렉터리 또는 glob 패턴
+  output?: string; // 단일 입력의 출력 경로
+  outDir?: string; // 출력 디렉터리 (없으면 입력 파일 옆에 저장)
+  lossless: boolean;
+  targetSizeKB?: number;
+  qualityTarget?: QualityTarget;
+  outputFormats?: OutputFormat[];
+  scoringPolicy?: ScoringPolicyName;
+  report?: string; // JSON 리포트 경로
+  verbose: boolean;
+  help: boolean;
+}
+
+/**
+ * 잘못된 인자 (종료 코드 2)
+ */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CliUsageError";
+  }
+}
+
+// 목표 품질 옵션 중 하나만 지정했을 때 나머지 기준 (앱의 기본값과 동일)
+const DEFAULT_QUALITY_TARGET: QualityTarget = { minSsim: 0.98, maxDeltaE: 2.3 };
+
+export const USAGE = `사용법: gif2webp-opt <입력...> [옵션]
+
+입력은 파일, 디렉터리(하위 폴더 포함) 또는 glob 패턴 (예: "assets/**/*.gif")
+
+옵션:
+  -o, --output <파일>       출력 경로 (입력이 하나일 때만)
+  -d, --out-dir <폴더>      출력 디렉터리 (기본값: 입력 파일과 같은 폴더)
+      --lossless            무손실 모드
+      --target-kb <KB>      목표 용량 이하에서 SSIM이 가장 높은 결과 탐색
+      --min-ssim <값>       목표 품질: 최소 SSIM (기본값 ${DEFAULT_QUALITY_TARGET.minSsim})
+      --max-delta-e <값>    목표 품질: 최대 평균 ΔE (기본값 ${DEFAULT_QUALITY_TARGET.maxDeltaE})
+  -f, --format <목록>       후보 출력 포맷 (쉼표 구분: ${Object.keys(OUTPUT_FORMATS).join(", ")})
+                            avif는 AV1 인코더가 포함된 ffmpeg 빌드에서만 사용 가능
+      --policy <이름>       후보 선택 정책 (${Object.keys(SCORING_POLICIES).join(", ")})
+      --report <파일>       파일별 결과/품질 지표를 JSON으로 저장
+  -v, --verbose             진행 상황, 후보별 경고, ffmpeg 로그 출력
+  -h, --help                도움말
+
+종료 코드: 0 성공, 1 변환 실패, 2 잘못된 인자/입력 없음,
+           3 목표 용량·품질 미달 또는 원본보다 작은 결과 없음`;
+
+/**
+ * 명령줄 인자를 변환 옵션으로 해석 (형식이 잘못되면 CliUsageError)
+ */
+export function parseCliArgs(argv: string[]): CliOptions {
+  let parsed: ReturnType<typeof parseRawArgs>;
+  try {
+    parsed = parseRawArgs(argv);
+  } catch (error) {
+    throw new CliUsageError(error instanceof Error ? error.message : String(error));
+  }
+  const { values, positionals } = parsed;
+
+  if (values.help) {
+    return { inputs: positionals, lossless: false, verbose: false, help: true };
+  }
+  if (positionals.length === 0) {
+    throw new CliUsageError("입력 파일을 지정하세요");
+  }
+  if (values.output !== undefined && values["out-dir"] !== undefined) {
+    throw new CliUsageError("--output과 --out-dir은 함께 사용할 수 없습니다");
+  }
+
+  const minSsim = parseNumber(values["min-ssim"], "--min-ssim", 0, 1);
+  const maxDeltaE = parseNumber(values["max-delta-e"], "--max-delta-e", 0);
+
+  return {
+    inputs: positionals,
+    output: values.output,
+    outDir: values["out-dir"],
+    lossless: values.lossless ?? false,
+    targetSizeKB: parseNumber(values["target-kb"], "--target-kb", Number.MIN_VALUE),
+    qualityTarget:
+      minSsim === undefined && maxDeltaE === undefined
+        ? undefined
+        : {
+            minSsim: minSsim ?? DEFAULT_QUALITY_TARGET.minSsim,
+            maxDeltaE: maxDeltaE ?? DEFAULT_QUALITY_TARGET.maxDeltaE,
+          },
+    outputFormats: values.format === undefined ? undefined : parseFormats(values.format),
+    scoringPolicy: parsePolicy(values.policy),
+    report: values.report,
+    verbose: values.verbose ?? false,
+    help: false,
+  };
+}
+
+function parseRawArgs(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    strict: true,
+    options: {
+      output: { type: "string", short: "o" },
+      "out-dir": { type: "string", short: "d" },
+      lossless: { type: "boolean" },
+      "target-kb": { type: "string" },
+      "min-ssim": { type: "string" },
+      "max-delta-e": { type: "string" },
+      format: { type: "string", short: "f" },
+      policy: { type: "string" },
+      report: { type: "string" },
+      verbose: { type: "boolean", short: "v" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+}
+
+function parseNumber(
+  value: string | undefined,
+  name: string,
+  min: number,
+  max = Infinity
+): number | undefined {
+  if (value === undefined) return undefined;
+
+  const number = Number(value);
+  if (value.trim() === "" || !Number.isFinite(number) || number < min || number > max) {
+    throw new CliUsageError(`${name} 값이 올바르지 않습니다: ${value}`);
+  }
+  return number;
+}
+
+function parseFormats(value: string): OutputFormat[] {
+  const formats = value
+    .split(",")
+    .map((format) => format.trim().toLowerCase())
+    .filter(Boolean);
+
+  for (const format of formats) {
+    if (!(format in OUTPUT_FORMATS)) {
+      throw new CliUsageError(`지원하지 않는 출력 포맷입니다: ${format}`);
+    }
+  }
+  if (formats.length === 0) {
+    throw new CliUsageError("--format에 출력 포맷을 지정하세요");
+  }
+  return [...new Set(formats)] as OutputFormat[];
+}
+
+function parsePolicy(value: string | undefined): ScoringPolicyName | undefined {
+  if (value === undefined) return undefined;
+  if (!(value in SCORING_POLICIES)) {
+    throw new CliUsageError(`알 수 없는 선택 정책입니다: ${value}`);
+  }
+  return value as ScoringPolicyName;
+}
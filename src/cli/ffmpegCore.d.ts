@@ -0,0 +1,11 @@
+/**
+ * @ffmpeg/core 타입 선언 (패키지에 타입 정의가 포함되어 있지 않음)
+ */
+declare module "@ffmpeg/core" {
+  import type { FFmpegCoreModule } from "@ffmpeg/types";
+
+  const createFFmpegCore: (
+    moduleOverrides?: Partial<FFmpegCoreModule> & { wasmBinary?: Uint8Array }
+  ) => Promise<FFmpegCoreModule>;
+  export default createFFmpegCore;
+}
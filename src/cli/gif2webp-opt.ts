@@ -0,0 +1,16 @@
+/**
+ * gif2webp-opt: 브라우저 없이 변환 파이프라인을 실행하는 Node CLI
+ * 앱과 같은 optimizeGifToWebp/analyzeGifMetadata를 사용하고, ffmpeg.wasm은 @ffmpeg/core로,
+ * 품질 측정용 프레임 디코딩은 ffmpeg rawvideo 디코더로 대체
+ */
+import { EXIT_CODES, run } from "./run";
+
+run(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error) => {
+    console.error(error);
+    process.exitCode = EXIT_CODES.failed;
+  }
+);
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { globToRegExp } from './glob';
+
+describe('Glob Matching', () => {
+  it('should keep single-segment wildcards inside one directory', () => {
+    const matcher = globToRegExp('*.gif');
+
+    expect(matcher.test('cat.gif')).toBe(true);
+    expect(matcher.test('sub/cat.gif')).toBe(false);
+    expect(matcher.test('cat.gif.bak')).toBe(false);
+  });
+
+  it('should match any depth with ** including the base directory', () => {
+    const matcher = globToRegExp('**/*.gif');
+
+    expect(matcher.test('cat.gif')).toBe(true);
+    expect(matcher.test('a/b/cat.gif')).toBe(true);
+  });
+
+  it('should support ? and brace alternatives while escaping literal characters', () => {
+    const matcher = globToRegExp('frame-?.{gif,webp}');
+
+    expect(matcher.test('frame-1.gif')).toBe(true);
+    expect(matcher.test('frame-2.webp')).toBe(true);
+    expect(matcher.test('frame-10.gif')).toBe(false);
+    expect(matcher.test('frame-1xgif')).toBe(false);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * 입력 경로 확장
+ * 파일은 그대로, 디렉터리는 하위 GIF 전체, glob 패턴(*, ?, **, {a,b})은 일치하는 파일로 확장
+ */
+import { readdir, stat } from "node:fs/promises";
+import path from "node:path";
+
+const GLOB_CHARS = /[*?{]/;
+
+/**
+ * glob 패턴을 경로 전체와 일치하는 정규식으로 변환 (구분자는 "/")
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === "*" && pattern[i + 1] === "*") {
+      // "**/"는 0개 이상의 디렉터리, 끝의 "**"는 나머지 전체
+      if (pattern[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{") {
+      const end = pattern.indexOf("}", i);
+      if (end === -1) {
+        source += "\\{";
+        continue;
+      }
+      const options = pattern.slice(i + 1, end).split(",").map(escapeRegExp);
+      source += `(?:${options.join("|")})`;
+      i = end;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * 입력 인자를 실제 파일 목록으로 확장 (중복 제거, 인자 순서 유지)
+ * 일치하는 파일이 없는 인자는 unmatched로 반환
+ */
+export async function expandInputs(
+  inputs: string[],
+  cwd: string = process.cwd()
+): Promise<{ files: string[]; unmatched: string[] }> {
+  const files = new Set<string>();
+  const unmatched: string[] = [];
+
+  for (const input of inputs) {
+    const matches = GLOB_CHARS.test(input)
+      ? await expandGlob(input, cwd)
+      : await expandPath(input, cwd);
+
+    if (matches.length === 0) unmatched.push(input);
+    matches.forEach((file) => files.add(file));
+  }
+
+  return { files: [...files], unmatched };
+}
+
+async function expandPath(input: string, cwd: string): Promise<string[]> {
+  const target = path.resolve(cwd, input);
+  const info = await stat(target).catch(() => null);
+
+  if (!info) return [];
+  if (info.isFile()) return [target];
+  if (!info.isDirectory()) return [];
+
+  const files = await walk(target);
+  return files.filter((file) => file.toLowerCase().endsWith(".gif"));
+}
+
+async function expandGlob(pattern: string, cwd: string): Promise<string[]> {
+  const normalized = pattern.split(path.sep).join("/");
+  const segments = normalized.split("/");
+  // 와일드카드가 나오기 전까지의 고정 경로에서부터 탐색
+  const staticCount = segments.findIndex((segment) => GLOB_CHARS.test(segment));
+  const base = path.resolve(cwd, segments.slice(0, staticCount).join("/") || ".");
+  const matcher = globToRegExp(segments.slice(staticCount).join("/"));
+
+  const files = await walk(base);
+  return files.filter((file) =>
+    matcher.test(path.relative(base, file).split(path.sep).join("/"))
+  );
+}
+
+/**
+ * 디렉터리 하위 파일 전체 (이름순, node_modules/숨김 폴더 제외)
+ */
+async function walk(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true }).catch(() => []);
+  const files: string[] = [];
+
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (entry.name.startsWith(".") || entry.name === "node_modules") continue;
+      files.push(...(await walk(fullPath)));
+    } else if (entry.isFile()) {
+      files.push(fullPath);
+    }
+  }
+
+  return files;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
@@ -0,0 +1,95 @@
+import { afterAll, beforeAll, describe, it, expect } from 'vitest';
+import type { FFmpeg } from '@ffmpeg/ffmpeg';
+import { decodeAnimationFrames, setFrameDecoder } from '../features/convert/lib/animationFrames';
+import { buildApng, encodeRgbaPng } from '../features/convert/lib/apng';
+import { EncoderError, execEncoder } from '../features/convert/lib/encoderExec';
+import { createFfmpegFrameDecoder } from '../features/convert/lib/ffmpegFrameDecoder';
+import { decodeImage } from '../features/convert/lib/imageDecoder';
+import { calculateAllMetrics } from '../features/convert/lib/qualityMetrics';
+import { loadNodeFFmpeg } from './nodeFFmpeg';
+
+describe('Node ffmpeg Decoding', () => {
+  // 반투명 픽셀 포함 2×2 (캔버스 경로라면 알파 곱셈 반올림으로 값이 바뀌는 픽셀)
+  const pixels = new Uint8ClampedArray([
+    255, 0, 0, 255, 10, 20, 30, 77, 0, 0, 255, 0, 201, 99, 7, 254,
+  ]);
+  let ffmpeg: FFmpeg;
+  let png: Blob;
+
+  beforeAll(async () => {
+    ffmpeg = await loadNodeFFmpeg();
+    setFrameDecoder(createFfmpegFrameDecoder(ffmpeg));
+    png = new Blob([(await encodeRgbaPng(pixels, 2, 2)).slice().buffer], { type: 'image/png' });
+  }, 30000);
+
+  afterAll(() => {
+    setFrameDecoder(null);
+  });
+
+  it('should decode real images to the exact stored RGBA values', async () => {
+    const image = await decodeImage(png);
+
+    expect(image).toMatchObject({ width: 2, height: 2 });
+    expect([...image.data]).toEqual([...pixels]);
+  });
+
+  it('should decode the same frame to equal pixels through the still and animation paths', async () => {
+    // 완전 투명 픽셀은 무손실 WebP가 색을 버리므로 반투명 값만 사용
+    const frame = new Uint8ClampedArray([255, 0, 0, 255, 10, 20, 30, 77, 0, 0, 255, 1, 201, 99, 7, 254]);
+    const still = await encodeRgbaPng(frame, 2, 2);
+    const apng = buildApng([still, await encodeRgbaPng(frame.slice().reverse(), 2, 2)], [100, 100]);
+
+    // 같은 프레임을 무손실 애니메이션 WebP로 만들어 ANMF 합성 경로로 디코딩
+    await ffmpeg.writeFile('paths.apng', apng);
+    await ffmpeg.exec(['-i', 'paths.apng', '-c:v', 'libwebp', '-lossless', '1', '-loop', '0', '-y', 'paths.webp']);
+    const webp = (await ffmpeg.readFile('paths.webp')) as Uint8Array;
+
+    const fromStill = await decodeImage(new Blob([still.slice().buffer], { type: 'image/png' }));
+    const [fromAnimation] = await decodeAnimationFrames(new Blob([webp.slice().buffer], { type: 'image/webp' }), [0]);
+
+    expect([...fromAnimation.data]).toEqual([...fromStill.data]);
+    expect([...fromStill.data]).toEqual([...frame]);
+  });
+
+  it('should run the quality metrics without a DOM', async () => {
+    const metrics = await calculateAllMetrics(png, png);
+
+    expect(metrics.ssim).toBeCloseTo(1, 6);
+    expect(metrics.alphaMismatch).toBe(0);
+  });
+});
+
+describe('Node ffmpeg Crash Recovery', () => {
+  it('should keep working after an encoder aborts the wasm runtime', async () => {
+    const ffmpeg = await loadNodeFFmpeg();
+    await ffmpeg.writeFile('kept.txt', 'kept');
+
+    // 기본 코어의 VP9 인코더는 여러 프레임에서 메모리 오류로 중단됨
+    await expect(
+      ffmpeg.exec([
+        '-f', 'lavfi', '-i', 'testsrc=size=64x48:rate=10:duration=0.5',
+        '-c:v', 'libvpx-vp9', '-crf', '30', '-b:v', '0', '-deadline', 'good', '-cpu-used', '2',
+        '-row-mt', '1', '-pix_fmt', 'yuv420p', '-f', 'webm', '-y', 'crash.webm',
+      ])
+    ).rejects.toBeInstanceOf(WebAssembly.RuntimeError);
+
+    expect(await ffmpeg.readFile('kept.txt', 'utf8')).toBe('kept');
+    expect(
+      await ffmpeg.exec(['-f', 'lavfi', '-i', 'color=size=16x16', '-frames:v', '1', '-c:v', 'libwebp', '-y', 'after.webp'])
+    ).toBe(0);
+    expect(((await ffmpeg.readFile('after.webp')) as Uint8Array).byteLength).toBeGreaterThan(0);
+  }, 60000);
+});
+
+describe('Node ffmpeg Logging', () => {
+  it('should pass the core log to encode failures', async () => {
+    const ffmpeg = await loadNodeFFmpeg();
+
+    const error = await execEncoder(ffmpeg, [
+      '-f', 'lavfi', '-i', 'color=size=16x16', '-frames:v', '1', '-c:v', 'libwebp', '-no_such_option', '1', '-y', 'out.webp',
+    ]).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(EncoderError);
+    expect((error as EncoderError).log.join('\n')).toContain('no_such_option');
+  });
+});
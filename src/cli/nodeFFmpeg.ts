@@ -0,0 +1,123 @@
+/**
+ * Node용 ffmpeg.wasm 로더
+ * @ffmpeg/ffmpeg는 Web Worker 전용이라 Node에서 생성할 수 없으므로
+ * 싱글스레드 @ffmpeg/core를 직접 불러와 같은 인터페이스(exec/writeFile/readFile/deleteFile/로그 이벤트)로 감쌈
+ * 인코더가 실행 중 예외로 중단되면 코어를 다시 불러와 이후 명령을 계속 실행할 수 있게 함
+ */
+import { readFile } from "node:fs/promises";
+import { createRequire } from "node:module";
+import type { FFmpeg } from "@ffmpeg/ffmpeg";
+import type { FFmpegCoreModule, Log } from "@ffmpeg/types";
+import { AbortError } from "../features/convert/lib/abort";
+
+class NodeFFmpeg {
+  loaded = true;
+  #core: FFmpegCoreModule;
+  #createCore: () => Promise<FFmpegCoreModule>;
+  #logListeners = new Set<(log: Log) => void>();
+
+  constructor(
+    core: FFmpegCoreModule,
+    createCore: () => Promise<FFmpegCoreModule>
+  ) {
+    this.#core = this.#attach(core);
+    this.#createCore = createCore;
+  }
+
+  on(event: "log", callback: (log: Log) => void) {
+    if (event === "log") this.#logListeners.add(callback);
+  }
+
+  off(event: "log", callback: (log: Log) => void) {
+    if (event === "log") this.#logListeners.delete(callback);
+  }
+
+  // 코어의 로그를 등록된 리스너로 전달 (코어를 교체해도 리스너 유지)
+  #attach(core: FFmpegCoreModule): FFmpegCoreModule {
+    core.setLogger((log) => {
+      for (const listener of this.#logListeners) listener(log);
+    });
+    return core;
+  }
+
+  /**
+   * ffmpeg 실행 (동기 실행이므로 취소는 시작 전에만 확인)
+   * 실행 중 예외(wasm 메모리 오류 등)는 그대로 던지되, 중단된 코어는 이후 실행이 모두 실패하므로 교체
+   */
+  async exec(
+    args: string[],
+    timeout = -1,
+    { signal }: { signal?: AbortSignal } = {}
+  ): Promise<number> {
+    if (signal?.aborted) throw new AbortError();
+
+    try {
+      this.#core.setTimeout(timeout);
+      this.#core.exec(...args);
+    } catch (error) {
+      await this.#restart();
+      throw error;
+    }
+    const ret = this.#core.ret;
+    this.#core.reset();
+    return ret;
+  }
+
+  /**
+   * 중단된 코어의 메모리는 재사용할 수 없으므로 새 코어로 교체
+   * MEMFS 파일은 JS 쪽에 있어 그대로 읽을 수 있으므로 작업 디렉터리의 파일을 옮김
+   */
+  async #restart() {
+    const { FS } = this.#core;
+    const files = FS.readdir(".")
+      .filter((name) => FS.isFile(FS.stat(name).mode))
+      .map((name) => [name, FS.readFile(name, { encoding: "binary" })] as const);
+
+    this.#core = this.#attach(await this.#createCore());
+    for (const [name, data] of files) {
+      this.#core.FS.writeFile(name, data);
+    }
+  }
+
+  async writeFile(path: string, data: Uint8Array | string): Promise<boolean> {
+    this.#core.FS.writeFile(path, data);
+    return true;
+  }
+
+  async readFile(path: string, encoding = "binary"): Promise<Uint8Array | string> {
+    return this.#core.FS.readFile(path, { encoding });
+  }
+
+  async deleteFile(path: string): Promise<boolean> {
+    this.#core.FS.unlink(path);
+    return true;
+  }
+
+  terminate() {
+    this.loaded = false;
+  }
+}
+
+/**
+ * @ffmpeg/core를 불러와 FFmpeg 호환 인스턴스 생성
+ * verbose 지정 시 ffmpeg 로그를 stderr로 출력
+ */
+export async function loadNodeFFmpeg({ verbose = false } = {}): Promise<FFmpeg> {
+  // Emscripten 글루 코드가 self.location으로 스크립트 경로를 계산하므로 최소한만 정의
+  const scope = globalThis as { self?: unknown };
+  scope.self ??= { location: { href: import.meta.url } };
+
+  const require = createRequire(import.meta.url);
+  const { default: createFFmpegCore } = await import("@ffmpeg/core");
+  const wasmBinary = await readFile(require.resolve("@ffmpeg/core/wasm"));
+
+  const createCore = () => createFFmpegCore({ wasmBinary });
+  const ffmpeg = new NodeFFmpeg(await createCore(), createCore);
+  if (verbose) {
+    ffmpeg.on("log", ({ message }) => process.stderr.write(`${message}\n`));
+  }
+
+  // 변환 라이브러리는 exec/writeFile/readFile/deleteFile/on/off만 사용하므로 구조적으로 호환
+  // (FFmpeg 클래스는 #private 필드 때문에 타입상 직접 구현할 수 없음)
+  return ffmpeg as unknown as FFmpeg;
+}
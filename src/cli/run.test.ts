@@ -0,0 +1,110 @@
+import { afterAll, beforeAll, describe, it, expect, vi } from 'vitest';
+import { mkdtemp, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { setFrameDecoder } from '../features/convert/lib/animationFrames';
+import { loadNodeFFmpeg } from './nodeFFmpeg';
+import { EXIT_CODES, run } from './run';
+
+interface ReportFile {
+  files: {
+    status: string;
+    output: string | null;
+    sizeKB?: number;
+    metrics?: { ssim: number; deltaE: number };
+    config?: { outputFormat?: string };
+    error?: string;
+  }[];
+}
+
+// 번들된 ffmpeg 코어로 CLI 전체 흐름(인자 → 변환 → 파일/보고서 출력 → 종료 코드)을 실행
+describe('gif2webp-opt CLI', () => {
+  let directory: string;
+  let input: string;
+
+  beforeAll(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'gif2webp-opt-'));
+    input = path.join(directory, 'pattern.gif');
+
+    // 색이 많아 WebP가 더 작아지는 GIF (10프레임)
+    const ffmpeg = await loadNodeFFmpeg();
+    await ffmpeg.exec(['-f', 'lavfi', '-i', 'mandelbrot=size=80x60:rate=10,trim=duration=1', '-y', 'pattern.gif']);
+    await writeFile(input, (await ffmpeg.readFile('pattern.gif')) as Uint8Array);
+  }, 30000);
+
+  afterAll(async () => {
+    setFrameDecoder(null);
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  // 요약 출력은 console.log/error로 나오므로 호출 인자를 모아 반환 (--verbose의 ffmpeg 로그는 버림)
+  async function runCli(...args: string[]) {
+    vi.mocked(console.warn).mockClear();
+    const log = vi.spyOn(console, 'log');
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const stderr = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    const report = path.join(directory, `report-${Date.now()}.json`);
+    try {
+      const code = await run([input, '-d', path.join(directory, 'out'), '--report', report, ...args]);
+      const output = [...log.mock.calls, ...error.mock.calls].map((call) => call.join(' ')).join('\n');
+      const parsed = code === EXIT_CODES.usage ? null : (JSON.parse(await readFile(report, 'utf8')) as ReportFile);
+      return { code, output, report: parsed };
+    } finally {
+      log.mockClear();
+      error.mockRestore();
+      stderr.mockRestore();
+    }
+  }
+
+  it('should convert to WebP and write the output and report', async () => {
+    const { code, report } = await runCli();
+
+    expect(code).toBe(EXIT_CODES.ok);
+    const [file] = report!.files;
+    expect(file.status).toBe('converted');
+    expect(file.output).toMatch(/pattern\.webp$/);
+    expect((await stat(file.output!)).size).toBeGreaterThan(0);
+  }, 120000);
+
+  it('should print candidate warnings only with --verbose', async () => {
+    // 무손실 조합에는 번들된 코어가 거부하는 후보가 있어 실패 경고가 발생
+    await runCli('--lossless');
+    expect(console.warn).not.toHaveBeenCalled();
+
+    await runCli('--lossless', '--verbose');
+    expect(console.warn).toHaveBeenCalled();
+  }, 120000);
+
+  it('should keep the output within --target-kb', async () => {
+    const { code, report } = await runCli('--target-kb', '3');
+
+    expect(code).toBe(EXIT_CODES.ok);
+    const [file] = report!.files;
+    expect(file.sizeKB).toBeLessThanOrEqual(3);
+    expect((await stat(file.output!)).size).toBeLessThanOrEqual(3 * 1024);
+  }, 120000);
+
+  it('should exit with the unmet code when --target-kb cannot be reached', async () => {
+    const { code, output, report } = await runCli('--target-kb', '0.1');
+
+    expect(code).toBe(EXIT_CODES.unmet);
+    expect(report!.files[0]).toMatchObject({ status: 'unmet', output: null });
+    expect(output).toContain('목표 미달');
+  }, 120000);
+
+  it('should meet the --min-ssim quality target', async () => {
+    const { code, report } = await runCli('--min-ssim', '0.95', '--max-delta-e', '5');
+
+    expect(code).toBe(EXIT_CODES.ok);
+    const [file] = report!.files;
+    expect(file.metrics!.ssim).toBeGreaterThanOrEqual(0.95);
+    expect(file.metrics!.deltaE).toBeLessThanOrEqual(5);
+  }, 120000);
+
+  it('should reject -f avif before converting when the core has no AV1 encoder', async () => {
+    const { code, output } = await runCli('-f', 'avif');
+
+    expect(code).toBe(EXIT_CODES.usage);
+    expect(output).toContain('AVIF(libaom-av1) 인코딩을 지원하지 않습니다');
+  }, 60000);
+});
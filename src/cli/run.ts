@@ -0,0 +1,215 @@
+/**
+ * gif2webp-opt 실행: 인자 해석 → 입력 확장 → 파일별 변환 → 요약/보고서 출력
+ * 프로세스를 종료하지 않고 종료 코드를 반환하므로 테스트에서 그대로 호출 가능
+ */
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { setFrameDecoder } from "../features/convert/lib/animationFrames";
+import {
+  assertOutputFormatsSupported,
+  UnsupportedOutputFormatError,
+} from "../features/convert/lib/encoderSupport";
+import { createFfmpegFrameDecoder } from "../features/convert/lib/ffmpegFrameDecoder";
+import {
+  analyzeGifMetadata,
+  type GifMetadata,
+} from "../features/convert/lib/gifAnalyzer";
+import { INPUT_FORMATS, sniffInputFormat } from "../features/convert/lib/inputFormat";
+import {
+  NoSmallerOutputError,
+  optimizeGifToWebp,
+  type OptimizationConfig,
+  type OptimizationResult,
+  type OptimizerLogger,
+} from "../features/convert/lib/optimizer";
+import type { QualityMetrics } from "../features/convert/lib/qualityMetrics";
+import { QualityTargetUnreachableError } from "../features/convert/lib/targetQuality";
+import { TargetSizeUnreachableError } from "../features/convert/lib/targetSize";
+import { CliUsageError, parseCliArgs, USAGE, type CliOptions } from "./args";
+import { expandInputs } from "./glob";
+import { loadNodeFFmpeg } from "./nodeFFmpeg";
+
+export const EXIT_CODES = {
+  ok: 0,
+  failed: 1, // 변환 중 에러
+  usage: 2, // 잘못된 인자 또는 일치하는 입력 없음
+  unmet: 3, // 목표 용량/품질을 맞추지 못했거나 원본보다 작은 결과가 없음
+} as const;
+
+const SILENT_LOGGER: OptimizerLogger = { warn: () => {} };
+
+interface FileReport {
+  input: string;
+  output: string | null;
+  status: "converted" | "unmet" | "failed";
+  error?: string;
+  originalSizeKB: number;
+  sizeKB?: number;
+  savingsPercent?: number;
+  config?: OptimizationConfig;
+  metrics?: QualityMetrics;
+  passed?: boolean; // 선택된 후보가 정책의 엄격 기준을 통과했는지
+  gifFallback?: boolean; // 요청한 포맷이 원본보다 커서 재최적화 GIF로 대체됨
+  metadata?: GifMetadata;
+}
+
+/**
+ * CLI 실행 후 종료 코드 반환
+ */
+export async function run(argv: string[]): Promise<number> {
+  let options: CliOptions;
+  try {
+    options = parseCliArgs(argv);
+  } catch (error) {
+    if (!(error instanceof CliUsageError)) throw error;
+    console.error(`${error.message}\n\n${USAGE}`);
+    return EXIT_CODES.usage;
+  }
+
+  if (options.help) {
+    console.log(USAGE);
+    return EXIT_CODES.ok;
+  }
+
+  const { files, unmatched } = await expandInputs(options.inputs);
+  for (const input of unmatched) {
+    console.error(`일치하는 파일이 없습니다: ${input}`);
+  }
+  if (files.length === 0) return EXIT_CODES.usage;
+  if (options.output !== undefined && files.length > 1) {
+    console.error(`--output은 입력이 하나일 때만 사용할 수 있습니다 (입력 ${files.length}개)`);
+    return EXIT_CODES.usage;
+  }
+
+  const ffmpeg = await loadNodeFFmpeg({ verbose: options.verbose });
+  setFrameDecoder(createFfmpegFrameDecoder(ffmpeg));
+
+  // 번들된 ffmpeg 코어에 없는 인코더(AVIF 등)는 변환을 시작하기 전에 거부
+  try {
+    await assertOutputFormatsSupported(ffmpeg, options.outputFormats ?? ["webp"]);
+  } catch (error) {
+    if (!(error instanceof UnsupportedOutputFormatError)) throw error;
+    console.error(error.message);
+    return EXIT_CODES.usage;
+  }
+
+  const reports: FileReport[] = [];
+  for (let i = 0; i < files.length; i++) {
+    const file = files[i];
+    const label = `[${i + 1}/${files.length}] ${path.relative(process.cwd(), file) || file}`;
+    const report = await convertFile(file, options, ffmpeg, (progress, message) => {
+      if (options.verbose) console.error(`${label} ${Math.round(progress)}% ${message}`);
+    });
+    reports.push(report);
+    console.log(`${label} ${formatSummary(report)}`);
+  }
+
+  if (options.report) {
+    await writeFile(
+      options.report,
+      `${JSON.stringify({ generatedAt: new Date().toISOString(), files: reports }, null, 2)}\n`
+    );
+  }
+
+  if (reports.some((report) => report.status === "failed")) return EXIT_CODES.failed;
+  if (reports.some((report) => report.status === "unmet")) return EXIT_CODES.unmet;
+  return EXIT_CODES.ok;
+}
+
+async function convertFile(
+  filePath: string,
+  options: CliOptions,
+  ffmpeg: Awaited<ReturnType<typeof loadNodeFFmpeg>>,
+  progressCallback: (progress: number, message: string) => void
+): Promise<FileReport> {
+  const bytes = new Uint8Array(await readFile(filePath));
+  const report: FileReport = {
+    input: filePath,
+    output: null,
+    status: "failed",
+    originalSizeKB: bytes.byteLength / 1024,
+  };
+
+  try {
+    const format = sniffInputFormat(bytes);
+    const input = new File([bytes], path.basename(filePath), {
+      type: INPUT_FORMATS[format].mimeType,
+    });
+
+    const result = await optimizeGifToWebp({
+      ffmpeg,
+      input,
+      lossless: options.lossless,
+      targetSizeKB: options.targetSizeKB,
+      qualityTarget: options.qualityTarget,
+      scoringPolicy: options.scoringPolicy,
+      outputFormats: options.outputFormats,
+      progressCallback,
+      // 후보별 실패 경고는 결과 요약에 포함되므로 --verbose일 때만 출력
+      logger: options.verbose ? console : SILENT_LOGGER,
+    });
+    if (!result) throw new Error("변환 결과가 없습니다");
+
+    const output = resolveOutputPath(filePath, result, options);
+    await mkdir(path.dirname(output), { recursive: true });
+    await writeFile(output, new Uint8Array(await result.blob.arrayBuffer()));
+
+    // GIF 입력은 프레임별 정보까지 포함한 원본 메타데이터를 기록
+    const metadata = format === "gif" ? await analyzeGifMetadata(input) : result.metadata;
+
+    return {
+      ...report,
+      output,
+      status: "converted",
+      sizeKB: result.sizeKB,
+      savingsPercent: (1 - result.sizeKB / report.originalSizeKB) * 100,
+      config: result.config,
+      metrics: result.metrics,
+      passed: result.candidates.find((candidate) => candidate.selected)?.passed,
+      gifFallback:
+        result.config.outputFormat === "gif" &&
+        !(options.outputFormats ?? ["webp"]).includes("gif"),
+      metadata,
+    };
+  } catch (error) {
+    return {
+      ...report,
+      status:
+        error instanceof TargetSizeUnreachableError ||
+        error instanceof QualityTargetUnreachableError ||
+        error instanceof NoSmallerOutputError
+          ? "unmet"
+          : "failed",
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * --output > --out-dir > 입력 파일과 같은 폴더 순으로 출력 경로 결정
+ */
+function resolveOutputPath(
+  filePath: string,
+  result: OptimizationResult,
+  options: CliOptions
+): string {
+  if (options.output !== undefined) return path.resolve(options.output);
+
+  // 결과 확장자는 선택된 포맷을 따르고, 파일명은 원본 기준
+  const extension = path.extname(result.outputName);
+  const name = `${path.basename(filePath, path.extname(filePath))}${extension}`;
+  const directory = options.outDir ?? path.dirname(filePath);
+  const output = path.resolve(directory, name);
+
+  // 입력과 같은 경로(예: WebP → WebP)면 덮어쓰지 않도록 접미사 추가
+  return output === path.resolve(filePath)
+    ? path.resolve(directory, path.basename(result.outputName))
+    : output;
+}
+
+function formatSummary(report: FileReport): string {
+  if (report.status !== "converted") {
+    return `${report.status === "unmet" ? "목표 미달" : "실패"}: ${report.error}`;
+  }
+  return `→ ${path.relative(process.cwd(), report.output!) || report.output} ${report.originalSizeKB.toFixed(1)}KB → ${report.sizeKB!.toFixed(1)}KB (${report.savingsPercent!.toFixed(1)}% 절감, SSIM ${report.metrics!.ssim.toFixed(4)})${report.gifFallback ? " [요청한 포맷이 원본보다 커서 재최적화 GIF로 대체]" : ""}`;
+}
@@ -0,0 +1,96 @@
+import { beforeAll, afterAll, describe, it, expect } from 'vitest';
+import type { FFmpeg } from '@ffmpeg/ffmpeg';
+import { setFrameDecoder } from '../features/convert/lib/animationFrames';
+import { getSupportedOutputFormats } from '../features/convert/lib/encoderSupport';
+import { createFfmpegFrameDecoder } from '../features/convert/lib/ffmpegFrameDecoder';
+import { optimizeGifToWebp } from '../features/convert/lib/optimizer';
+import { loadNodeFFmpeg } from './nodeFFmpeg';
+
+// 모의 인코더가 아닌 번들된 ffmpeg 코어로 탐색 모드의 실제 인코더 인자를 실행
+describe('Search Modes on the Bundled ffmpeg Core', () => {
+  let ffmpeg: FFmpeg;
+  let input: File;
+
+  beforeAll(async () => {
+    ffmpeg = await loadNodeFFmpeg();
+    setFrameDecoder(createFfmpegFrameDecoder(ffmpeg));
+
+    // 디테일이 많은 테스트 패턴 GIF (5프레임)
+    await ffmpeg.exec(['-f', 'lavfi', '-i', 'testsrc=size=32x24:rate=10:duration=0.5', '-y', 'search.gif']);
+    const bytes = (await ffmpeg.readFile('search.gif')) as Uint8Array;
+    await ffmpeg.deleteFile('search.gif');
+    input = new File([bytes.slice().buffer], 'search.gif', { type: 'image/gif' });
+  }, 30000);
+
+  afterAll(() => {
+    setFrameDecoder(null);
+  });
+
+  it('should meet a quality target with lossy WebP', async () => {
+    const messages: string[] = [];
+    const result = await optimizeGifToWebp({
+      ffmpeg,
+      input,
+      qualityTarget: { minSsim: 0.9, maxDeltaE: 5 },
+      gifFallback: false,
+      progressCallback: (_, message) => messages.push(message),
+    });
+
+    expect(messages.some((message) => message.startsWith('품질 탐색'))).toBe(true);
+    expect(result!.outputName).toMatch(/\.webp$/);
+    expect(result!.metrics.ssim).toBeGreaterThanOrEqual(0.9);
+    expect(result!.metrics.deltaE).toBeLessThanOrEqual(5);
+  }, 120000);
+
+  it('should fall back to lossless WebP when lossy cannot meet the target', async () => {
+    const result = await optimizeGifToWebp({
+      ffmpeg,
+      input,
+      qualityTarget: { minSsim: 0.99999, maxDeltaE: 0 },
+      gifFallback: false,
+    });
+
+    expect(result!.config.lossless).toBe(true);
+    expect(result!.metrics.ssim).toBeGreaterThanOrEqual(0.99999);
+  }, 120000);
+
+  it('should only offer the video formats a fresh core can encode', async () => {
+    // 앱과 CLI처럼 새 인스턴스에서 확인 (기본 코어의 VP9는 중단되므로 WebM 제외), 확인 후에도 인스턴스는 사용 가능
+    const fresh = await loadNodeFFmpeg();
+
+    expect(await getSupportedOutputFormats(fresh)).toEqual(['webp', 'gif', 'mp4']);
+    expect(
+      await fresh.exec(['-f', 'lavfi', '-i', 'color=size=16x16', '-frames:v', '1', '-c:v', 'libwebp', '-y', 'after.webp'])
+    ).toBe(0);
+  }, 60000);
+
+  it('should keep WebP candidates when every video encode fails', async () => {
+    // 인코더 확인(lavfi 입력)은 통과시키고 실제 H.264 인코딩만 중단되는 ffmpeg
+    const crashing = new Proxy(ffmpeg, {
+      get(target, key) {
+        if (key === 'exec') {
+          return (args: string[]) =>
+            args.includes('libx264') && !args.includes('lavfi')
+              ? Promise.reject(new WebAssembly.RuntimeError('memory access out of bounds'))
+              : target.exec(args);
+        }
+        const value = Reflect.get(target, key) as unknown;
+        return typeof value === 'function' ? (value as (...args: unknown[]) => unknown).bind(target) : value;
+      },
+    });
+    const messages: string[] = [];
+
+    const result = await optimizeGifToWebp({
+      ffmpeg: crashing,
+      input,
+      outputFormats: ['webp', 'mp4'],
+      gifFallback: false,
+      progressCallback: (_, message) => messages.push(message),
+    });
+
+    expect(messages.some((message) => message.includes('인코딩 실패'))).toBe(true);
+    expect(result!.outputName).toMatch(/\.webp$/);
+    expect(result!.candidates.length).toBeGreaterThan(0);
+    expect(result!.candidates.every((candidate) => candidate.config.outputFormat !== 'mp4')).toBe(true);
+  }, 120000);
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { parseGif } from '../features/convert/lib/gifParser';
+import { readWebpFrameDurations, retimeAnimatedWebp } from '../features/convert/lib/webpAnimation';
+import { loadNodeFFmpeg } from './nodeFFmpeg';
+
+// 가짜 ANMF가 아닌 번들된 ffmpeg 코어의 libwebp 출력으로 프레임 타이밍 복원 확인
+describe('Animated WebP Timing on the Bundled ffmpeg Core', () => {
+  it('should match the per-frame and total durations of the source GIF', async () => {
+    // 프레임마다 다른 표시 시간을 가진 GIF (3번째 프레임에서 1.6초 정지)
+    const ffmpeg = await loadNodeFFmpeg();
+    await ffmpeg.exec([
+      '-f', 'lavfi', '-i', 'testsrc=size=32x24:rate=25:duration=0.2',
+      '-vf', "setpts='(N+if(gte(N,3),40,0)+if(gte(N,4),3,0))*0.04/TB'", '-y', 'timing.gif',
+    ]);
+    const delays = parseGif((await ffmpeg.readFile('timing.gif')) as Uint8Array).frames.map((f) => f.delay);
+
+    await ffmpeg.exec(['-i', 'timing.gif', '-c:v', 'libwebp', '-loop', '0', '-an', '-vsync', '0', '-y', 'timing.webp']);
+    const encoded = (await ffmpeg.readFile('timing.webp')) as Uint8Array;
+
+    const output = readWebpFrameDurations(retimeAnimatedWebp(encoded, delays));
+
+    expect(new Set(delays).size).toBeGreaterThan(1);
+    expect(output).toEqual(delays);
+    expect(output.reduce((a, b) => a + b, 0)).toBe(delays.reduce((a, b) => a + b, 0));
+  }, 30000);
+});
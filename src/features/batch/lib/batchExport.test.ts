@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { batchZipName, buildBatchManifest, createBatchZip } from './batchExport';
+import { collectDroppedFiles } from './collectFiles';
+import type { BatchItem } from './conversionQueue';
+import type { ConversionResult } from '../../convert/lib/convertToWebp';
+
+function doneItem(name: string, outputName: string, extra: Partial<ConversionResult> = {}): BatchItem<ConversionResult> {
+  const blob = new Blob([new Uint8Array([0x52, 0x49, 0x46, 0x46])], { type: 'image/webp' });
+  return {
+    id: name,
+    file: new File([new Uint8Array(2048)], name, { type: 'image/gif' }),
+    status: 'done',
+    progress: 100,
+    message: '',
+    attempts: 1,
+    result: { url: 'blob:test', blob, outputName, sizeKB: blob.size / 1024, ...extra },
+  };
+}
+
+describe('Batch Export', () => {
+  it('should record each finished conversion in the manifest', () => {
+    const metrics = { ssim: 0.99, psnr: 42, deltaE: 0.8, edgePreservation: 0.97 };
+    const items: BatchItem<ConversionResult>[] = [
+      doneItem('a.gif', 'a_optimized.webp', { metrics }),
+      { ...doneItem('b.gif', 'b.webp'), status: 'error', result: undefined, error: 'boom' },
+    ];
+
+    const manifest = buildBatchManifest(items, new Date('2025-01-02T03:04:05Z'));
+
+    expect(manifest.generatedAt).toBe('2025-01-02T03:04:05.000Z');
+    expect(manifest.fileCount).toBe(1);
+    expect(manifest.files[0]).toMatchObject({
+      originalName: 'a.gif',
+      outputName: 'a_optimized.webp',
+      originalSizeKB: 2,
+      metrics,
+      config: null,
+      metadata: null,
+    });
+  });
+
+  it('should disambiguate duplicate output names', () => {
+    const manifest = buildBatchManifest([
+      doneItem('x/a.gif', 'a.webp'),
+      doneItem('y/a.gif', 'a.webp'),
+      doneItem('manifest.gif', 'manifest.json'),
+    ]);
+
+    expect(manifest.files.map((f) => f.outputName)).toEqual(['a.webp', 'a (1).webp', 'manifest (1).json']);
+  });
+
+  it('should refuse to export when nothing has finished', async () => {
+    await expect(createBatchZip([])).rejects.toThrow('내보낼 변환 결과가 없습니다');
+  });
+
+  it('should keep the folder path of files from a dropped directory', async () => {
+    // 드롭한 폴더 구조: clips/a.gif, clips/sub/b.gif, clips/notes.txt
+    const fileEntry = (file: File, fullPath: string) =>
+      ({ isFile: true, isDirectory: false, fullPath, file: (resolve: (file: File) => void) => resolve(file) }) as unknown as FileSystemEntry;
+    const directoryEntry = (children: FileSystemEntry[]) =>
+      ({
+        isFile: false,
+        isDirectory: true,
+        createReader: () => {
+          let read = false;
+          return {
+            readEntries: (resolve: (entries: FileSystemEntry[]) => void) => {
+              resolve(read ? [] : children);
+              read = true;
+            },
+          };
+        },
+      }) as unknown as FileSystemEntry;
+
+    const gif = (name: string) => new File([new Uint8Array(4)], name, { type: 'image/gif' });
+    const root = directoryEntry([
+      fileEntry(gif('a.gif'), '/clips/a.gif'),
+      directoryEntry([fileEntry(gif('b.gif'), '/clips/sub/b.gif')]),
+      fileEntry(new File(['x'], 'notes.txt', { type: 'text/plain' }), '/clips/notes.txt'),
+    ]);
+    const dataTransfer = {
+      items: [{ kind: 'file', webkitGetAsEntry: () => root, getAsFile: () => null }],
+      files: [],
+    } as unknown as DataTransfer;
+
+    const files = await collectDroppedFiles(dataTransfer);
+    const manifest = buildBatchManifest(
+      files.map((file) => ({ ...doneItem(file.name, file.name.replace('.gif', '.webp')), file }))
+    );
+
+    expect(manifest.files.map((f) => f.originalPath)).toEqual(['clips/a.gif', 'clips/sub/b.gif']);
+  });
+
+  it('should name the ZIP after the output formats it contains', () => {
+    expect(batchZipName([doneItem('a.gif', 'a.webp')])).toBe('converted_webp.zip');
+    expect(batchZipName([doneItem('a.gif', 'a.webp'), doneItem('b.gif', 'b.mp4'), doneItem('c.gif', 'c.webp')])).toBe(
+      'converted_webp_mp4.zip'
+    );
+    expect(batchZipName([{ ...doneItem('a.gif', 'a.gif'), status: 'error', result: undefined }])).toBe('converted.zip');
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * 일괄 변환 결과 ZIP 내보내기
+ * 완료된 변환 파일과 변환 내역(manifest.json)을 브라우저에서 하나의 ZIP으로 묶음
+ */
+import type { ConversionResult } from "../../convert/lib/convertToWebp";
+import type { GifMetadata } from "../../convert/lib/gifAnalyzer";
+import type { OptimizationConfig } from "../../convert/lib/optimizer";
+import type { QualityMetrics } from "../../convert/lib/qualityMetrics";
+import { createZip, type ZipEntry } from "../../../shared/lib/zip";
+import { getRelativePath } from "./collectFiles";
+import type { BatchItem } from "./conversionQueue";
+
+export const MANIFEST_FILE_NAME = "manifest.json";
+
+export interface BatchManifestEntry {
+  originalName: string;
+  originalPath: string; // 폴더 드롭 시 상대 경로, 아니면 파일명
+  outputName: string; // ZIP 내부 파일명
+  originalSizeKB: number;
+  sizeKB: number;
+  config: OptimizationConfig | null; // 수동 변환은 null
+  metrics: QualityMetrics | null;
+  compressionStats: ConversionResult["compressionStats"] | null;
+  metadata: GifMetadata | null;
+}
+
+export interface BatchManifest {
+  generatedAt: string; // ISO 8601
+  fileCount: number;
+  files: BatchManifestEntry[];
+}
+
+/**
+ * 완료된 항목으로 매니페스트 생성 (ZIP 내부 파일명 중복은 " (n)" 접미사로 구분)
+ */
+export function buildBatchManifest(
+  items: BatchItem<ConversionResult>[],
+  generatedAt: Date = new Date()
+): BatchManifest {
+  const usedNames = new Set<string>([MANIFEST_FILE_NAME]);
+  const files: BatchManifestEntry[] = [];
+
+  for (const item of items) {
+    if (item.status !== "done" || !item.result) continue;
+    const { result, file } = item;
+
+    files.push({
+      originalName: file.name,
+      originalPath: getRelativePath(file),
+      outputName: uniqueName(result.outputName, usedNames),
+      originalSizeKB: file.size / 1024,
+      sizeKB: result.sizeKB,
+      config: result.config ?? null,
+      metrics: result.metrics ?? null,
+      compressionStats: result.compressionStats ?? null,
+      metadata: result.metadata ?? null,
+    });
+  }
+
+  return {
+    generatedAt: generatedAt.toISOString(),
+    fileCount: files.length,
+    files,
+  };
+}
+
+/**
+ * 완료된 변환 결과 + manifest.json을 ZIP으로 묶기
+ */
+export async function createBatchZip(
+  items: BatchItem<ConversionResult>[]
+): Promise<Blob> {
+  const done = items.filter((item) => item.status === "done" && item.result);
+  if (done.length === 0) {
+    throw new Error("내보낼 변환 결과가 없습니다");
+  }
+
+  const manifest = buildBatchManifest(done);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < done.length; i++) {
+    const result = done[i].result!;
+    entries.push({
+      name: manifest.files[i].outputName,
+      data: new Uint8Array(await result.blob.arrayBuffer()),
+    });
+  }
+
+  entries.push({
+    name: MANIFEST_FILE_NAME,
+    data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)),
+  });
+
+  return createZip(entries);
+}
+
+/**
+ * 완료된 결과의 출력 형식으로 ZIP 파일명 생성 (예: converted_webp_mp4.zip)
+ */
+export function batchZipName(items: BatchItem<ConversionResult>[]): string {
+  const extensions = new Set<string>();
+  for (const item of items) {
+    if (item.status !== "done" || !item.result) continue;
+    const { outputName } = item.result;
+    const dot = outputName.lastIndexOf(".");
+    if (dot > 0) extensions.add(outputName.slice(dot + 1).toLowerCase());
+  }
+  return extensions.size > 0
+    ? `converted_${[...extensions].join("_")}.zip`
+    : "converted.zip";
+}
+
+function uniqueName(name: string, used: Set<string>): string {
+  let candidate = name;
+  const dot = name.lastIndexOf(".");
+  const base = dot > 0 ? name.slice(0, dot) : name;
+  const ext = dot > 0 ? name.slice(dot) : "";
+
+  for (let n = 1; used.has(candidate); n++) {
+    candidate = `${base} (${n})${ext}`;
+  }
+  used.add(candidate);
+  return candidate;
+}
@@ -0,0 +1,78 @@
+/**
+ * 드롭/선택된 항목에서 변환 가능한 파일 수집
+ * 폴더를 드롭하면 webkitGetAsEntry로 하위 폴더까지 재귀 탐색
+ * 드롭한 폴더의 파일은 webkitRelativePath가 비어 있으므로 엔트리 경로를 따로 기록
+ */
+import { isSupportedInputFile } from "../../convert/lib/inputFormat";
+
+// 드롭한 폴더에서 읽은 파일의 상대 경로 (엔트리의 fullPath 기준)
+const droppedPaths = new WeakMap<File, string>();
+
+/**
+ * 파일의 상대 경로 (폴더 선택은 webkitRelativePath, 폴더 드롭은 엔트리 경로, 아니면 파일명)
+ */
+export function getRelativePath(file: File): string {
+  return file.webkitRelativePath || droppedPaths.get(file) || file.name;
+}
+
+/**
+ * DataTransfer(드래그 앤 드롭)에서 입력 파일 목록 추출 (GIF, APNG, WebP, MP4, WebM)
+ */
+export async function collectDroppedFiles(
+  dataTransfer: DataTransfer
+): Promise<File[]> {
+  // 비동기 탐색 전에 엔트리를 먼저 확보 (이벤트 핸들러 종료 후에는 items가 비워짐)
+  const entries: FileSystemEntry[] = [];
+  const looseFiles: File[] = [];
+
+  for (const item of Array.from(dataTransfer.items)) {
+    if (item.kind !== "file") continue;
+    const entry = item.webkitGetAsEntry?.();
+    if (entry) {
+      entries.push(entry);
+    } else {
+      const file = item.getAsFile();
+      if (file) looseFiles.push(file);
+    }
+  }
+
+  if (entries.length === 0 && looseFiles.length === 0) {
+    looseFiles.push(...Array.from(dataTransfer.files));
+  }
+
+  const files = [...looseFiles];
+  for (const entry of entries) {
+    files.push(...(await readEntry(entry)));
+  }
+
+  return files.filter(isSupportedInputFile);
+}
+
+async function readEntry(entry: FileSystemEntry): Promise<File[]> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(resolve, reject)
+    );
+    droppedPaths.set(file, entry.fullPath.replace(/^\//, ""));
+    return [file];
+  }
+
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const files: File[] = [];
+
+    // readEntries는 한 번에 일부(보통 100개)만 반환하므로 빈 배열이 나올 때까지 반복
+    for (;;) {
+      const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+        reader.readEntries(resolve, reject)
+      );
+      if (batch.length === 0) break;
+      for (const child of batch) {
+        files.push(...(await readEntry(child)));
+      }
+    }
+    return files;
+  }
+
+  return [];
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { createConversionQueue, type BatchTaskContext } from './conversionQueue';
+
+interface Deferred {
+  file: File;
+  context: BatchTaskContext;
+  resolve: (value: string) => void;
+  reject: (error: Error) => void;
+}
+
+function createControlledRunner() {
+  const calls: Deferred[] = [];
+  const run = (file: File, context: BatchTaskContext) =>
+    new Promise<string>((resolve, reject) => {
+      calls.push({ file, context, resolve, reject });
+    });
+  return { calls, run };
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const gif = (name: string) => new File([new Uint8Array([0x47, 0x49, 0x46])], name, { type: 'image/gif' });
+
+describe('Conversion Queue', () => {
+  it('should run no more jobs than the configured concurrency', async () => {
+    const { calls, run } = createControlledRunner();
+    const queue = createConversionQueue({ run, concurrency: 2 });
+
+    queue.add([gif('a.gif'), gif('b.gif'), gif('c.gif')]);
+    expect(calls).toHaveLength(2);
+    expect(queue.getItems().map((item) => item.status)).toEqual(['running', 'running', 'queued']);
+
+    calls[0].resolve('a.webp');
+    await flush();
+
+    expect(calls).toHaveLength(3);
+    expect(calls[2].file.name).toBe('c.gif');
+    expect(queue.getItems()[0]).toMatchObject({ status: 'done', progress: 100, result: 'a.webp' });
+  });
+
+  it('should track per-item progress', () => {
+    const { calls, run } = createControlledRunner();
+    const queue = createConversionQueue({ run });
+
+    const [item] = queue.add([gif('a.gif')]);
+    calls[0].context.onProgress(40, '품질 측정');
+
+    expect(queue.getItems().find((i) => i.id === item.id)).toMatchObject({
+      progress: 40,
+      message: '품질 측정',
+    });
+  });
+
+  it('should record failures and retry them', async () => {
+    const { calls, run } = createControlledRunner();
+    const queue = createConversionQueue({ run });
+
+    const [item] = queue.add([gif('broken.gif')]);
+    calls[0].reject(new Error('Not a valid GIF file'));
+    await flush();
+
+    expect(queue.getItems()[0]).toMatchObject({ status: 'error', error: 'Not a valid GIF file', attempts: 1 });
+
+    queue.retry(item.id);
+    expect(calls).toHaveLength(2);
+    expect(queue.getItems()[0]).toMatchObject({ status: 'running', attempts: 2 });
+
+    calls[1].resolve('ok');
+    await flush();
+    expect(queue.getItems()[0]).toMatchObject({ status: 'done', result: 'ok' });
+    expect(queue.getItems()[0].error).toBeUndefined();
+  });
+
+  it('should abort a running job and start the next one', async () => {
+    const { calls, run } = createControlledRunner();
+    const queue = createConversionQueue({ run });
+
+    const [first] = queue.add([gif('a.gif'), gif('b.gif')]);
+    queue.cancel(first.id);
+
+    expect(calls[0].context.signal.aborted).toBe(true);
+    expect(queue.getItems()[0].status).toBe('cancelled');
+    expect(calls).toHaveLength(2);
+
+    // 취소된 작업의 늦은 결과는 반영하지 않음
+    calls[0].resolve('late');
+    await flush();
+    expect(queue.getItems()[0].status).toBe('cancelled');
+    expect(queue.getItems()[0].result).toBeUndefined();
+  });
+
+  it('should start queued jobs when concurrency increases', () => {
+    const { calls, run } = createControlledRunner();
+    const queue = createConversionQueue({ run, concurrency: 1 });
+
+    queue.add([gif('a.gif'), gif('b.gif'), gif('c.gif')]);
+    expect(calls).toHaveLength(1);
+
+    queue.setConcurrency(3);
+    expect(calls).toHaveLength(3);
+  });
+
+  it('should notify subscribers with new item snapshots', () => {
+    const { run } = createControlledRunner();
+    const queue = createConversionQueue({ run });
+    const snapshots: unknown[] = [];
+
+    const unsubscribe = queue.subscribe(() => snapshots.push(queue.getItems()));
+    queue.add([gif('a.gif')]);
+    unsubscribe();
+    queue.add([gif('b.gif')]);
+
+    expect(snapshots.length).toBeGreaterThan(0);
+    expect(new Set(snapshots).size).toBe(snapshots.length);
+    expect(queue.getItems()).toHaveLength(2);
+  });
+});
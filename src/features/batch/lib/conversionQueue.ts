@@ -0,0 +1,208 @@
+/**
+ * 일괄 변환 작업 큐
+ * 파일별 상태/진행률/결과를 관리하고 동시 실행 수(concurrency)만큼 작업을 병렬 처리
+ * 항목은 변경될 때마다 새 객체로 교체되므로 React 상태로 그대로 사용 가능
+ */
+
+export type BatchItemStatus =
+  | "queued"
+  | "running"
+  | "done"
+  | "error"
+  | "cancelled";
+
+export interface BatchItem<T> {
+  id: string;
+  file: File;
+  status: BatchItemStatus;
+  progress: number; // 0-100
+  message: string;
+  attempts: number; // 실행 횟수 (재시도 포함)
+  result?: T;
+  error?: string;
+}
+
+export interface BatchTaskContext {
+  id: string;
+  signal: AbortSignal;
+  onProgress: (progress: number, message: string) => void;
+}
+
+export interface ConversionQueue<T> {
+  add: (files: File[]) => BatchItem<T>[];
+  retry: (id: string) => void;
+  cancel: (id: string) => void;
+  cancelAll: () => void;
+  remove: (id: string) => void;
+  clear: () => void;
+  setConcurrency: (concurrency: number) => void;
+  getItems: () => BatchItem<T>[];
+  subscribe: (listener: () => void) => () => void;
+}
+
+/**
+ * 변환 큐 생성
+ */
+export function createConversionQueue<T>({
+  run,
+  concurrency = 1,
+}: {
+  run: (file: File, context: BatchTaskContext) => Promise<T>;
+  concurrency?: number;
+}): ConversionQueue<T> {
+  let items: BatchItem<T>[] = [];
+  let limit = normalizeConcurrency(concurrency);
+  let nextId = 1;
+  const controllers = new Map<string, AbortController>();
+  const listeners = new Set<() => void>();
+
+  const notify = () => {
+    for (const listener of listeners) listener();
+  };
+
+  const update = (id: string, patch: Partial<BatchItem<T>>) => {
+    items = items.map((item) => (item.id === id ? { ...item, ...patch } : item));
+    notify();
+  };
+
+  const find = (id: string) => items.find((item) => item.id === id);
+
+  const pump = () => {
+    let running = items.filter((item) => item.status === "running").length;
+
+    for (const item of items) {
+      if (running >= limit) break;
+      if (item.status !== "queued") continue;
+      running++;
+      start(item);
+    }
+  };
+
+  const start = (item: BatchItem<T>) => {
+    const controller = new AbortController();
+    controllers.set(item.id, controller);
+    update(item.id, {
+      status: "running",
+      progress: 0,
+      message: "",
+      attempts: item.attempts + 1,
+      error: undefined,
+    });
+
+    run(item.file, {
+      id: item.id,
+      signal: controller.signal,
+      onProgress: (progress, message) => {
+        // 취소 후 늦게 도착한 진행률은 무시
+        if (controller.signal.aborted) return;
+        update(item.id, { progress, message });
+      },
+    })
+      .then((result) => {
+        if (controller.signal.aborted) return;
+        update(item.id, { status: "done", progress: 100, message: "", result });
+      })
+      .catch((error: unknown) => {
+        if (controller.signal.aborted) return;
+        update(item.id, {
+          status: "error",
+          message: "",
+          error: error instanceof Error ? error.message : String(error),
+        });
+      })
+      .finally(() => {
+        if (controllers.get(item.id) === controller) {
+          controllers.delete(item.id);
+        }
+        pump();
+      });
+  };
+
+  const abort = (id: string) => {
+    controllers.get(id)?.abort();
+    controllers.delete(id);
+  };
+
+  return {
+    add(files) {
+      const added = files.map(
+        (file): BatchItem<T> => ({
+          id: `batch-${nextId++}`,
+          file,
+          status: "queued",
+          progress: 0,
+          message: "",
+          attempts: 0,
+        })
+      );
+      items = [...items, ...added];
+      notify();
+      pump();
+      return added;
+    },
+
+    retry(id) {
+      const item = find(id);
+      if (!item || (item.status !== "error" && item.status !== "cancelled")) {
+        return;
+      }
+      update(id, { status: "queued", progress: 0, error: undefined });
+      pump();
+    },
+
+    cancel(id) {
+      const item = find(id);
+      if (!item || (item.status !== "queued" && item.status !== "running")) {
+        return;
+      }
+      abort(id);
+      update(id, { status: "cancelled", message: "" });
+      pump();
+    },
+
+    cancelAll() {
+      for (const item of items) {
+        if (item.status === "queued" || item.status === "running") {
+          abort(item.id);
+        }
+      }
+      items = items.map((item) =>
+        item.status === "queued" || item.status === "running"
+          ? { ...item, status: "cancelled", message: "" }
+          : item
+      );
+      notify();
+    },
+
+    remove(id) {
+      abort(id);
+      items = items.filter((item) => item.id !== id);
+      notify();
+      pump();
+    },
+
+    clear() {
+      for (const id of controllers.keys()) abort(id);
+      items = [];
+      notify();
+    },
+
+    setConcurrency(value) {
+      limit = normalizeConcurrency(value);
+      pump();
+    },
+
+    getItems: () => items,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+function normalizeConcurrency(value: number): number {
+  return Math.max(1, Math.floor(value) || 1);
+}
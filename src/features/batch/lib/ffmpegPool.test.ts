@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import type { FFmpeg } from '@ffmpeg/ffmpeg';
+import { createFFmpegPool } from './ffmpegPool';
+
+function createFakeLoader() {
+  const created: { terminated: boolean }[] = [];
+  const create = async () => {
+    const instance = {
+      terminated: false,
+      terminate() {
+        this.terminated = true;
+      },
+    };
+    created.push(instance);
+    return instance as unknown as FFmpeg;
+  };
+  return { created, create };
+}
+
+describe('FFmpeg Pool', () => {
+  it('should give concurrent jobs separate instances', async () => {
+    const { created, create } = createFakeLoader();
+    const pool = createFFmpegPool(create);
+
+    const [a, b] = await Promise.all([pool.acquire(), pool.acquire()]);
+
+    expect(a).not.toBe(b);
+    expect(created).toHaveLength(2);
+    expect(pool.size()).toBe(2);
+  });
+
+  it('should reuse released instances instead of loading new ones', async () => {
+    const { created, create } = createFakeLoader();
+    const pool = createFFmpegPool(create);
+
+    const first = await pool.acquire();
+    pool.release(first);
+    pool.release(first);
+
+    expect(await pool.acquire()).toBe(first);
+    expect(await pool.acquire()).not.toBe(first);
+    expect(created).toHaveLength(2);
+  });
+
+  it('should terminate every instance, busy or idle', async () => {
+    const { created, create } = createFakeLoader();
+    const pool = createFFmpegPool(create);
+
+    const busy = await pool.acquire();
+    pool.release(await pool.acquire());
+    pool.terminate();
+
+    expect(created.every((instance) => instance.terminated)).toBe(true);
+    expect(pool.size()).toBe(0);
+
+    // 종료된 인스턴스는 반납해도 재사용하지 않음
+    pool.release(busy);
+    expect(await pool.acquire()).not.toBe(busy);
+  });
+
+  it('should terminate instances that finish loading after the pool is terminated', async () => {
+    const { created, create } = createFakeLoader();
+    const pool = createFFmpegPool(create);
+
+    const pending = pool.acquire();
+    pool.terminate();
+
+    await expect(pending).rejects.toThrow('FFmpeg pool terminated');
+    expect(created[0].terminated).toBe(true);
+    expect(pool.size()).toBe(0);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * 일괄 변환용 FFmpeg 인스턴스 풀
+ * 한 인스턴스의 exec는 순차 실행되므로 동시에 실행되는 작업마다 별도 인스턴스를 빌려줌
+ * 인스턴스는 필요할 때 로드하고, 반납된 인스턴스는 다음 작업에 재사용
+ */
+import { FFmpeg } from "@ffmpeg/ffmpeg";
+
+export interface FFmpegPool {
+  acquire: () => Promise<FFmpeg>;
+  release: (ffmpeg: FFmpeg) => void;
+  terminate: () => void;
+  size: () => number;
+}
+
+/**
+ * FFmpeg 풀 생성
+ * create는 로드가 끝난 새 인스턴스를 반환해야 함
+ */
+export function createFFmpegPool(
+  create: () => Promise<FFmpeg> = loadFFmpeg
+): FFmpegPool {
+  const idle: FFmpeg[] = [];
+  const all = new Set<FFmpeg>();
+  let generation = 0;
+
+  return {
+    async acquire() {
+      const reused = idle.pop();
+      if (reused) return reused;
+
+      const started = generation;
+      const ffmpeg = await create();
+      // 로드 중에 풀이 종료된 경우 새 인스턴스도 바로 종료
+      if (started !== generation) {
+        ffmpeg.terminate();
+        throw new Error("FFmpeg pool terminated");
+      }
+      all.add(ffmpeg);
+      return ffmpeg;
+    },
+
+    release(ffmpeg) {
+      if (!all.has(ffmpeg) || idle.includes(ffmpeg)) return;
+      idle.push(ffmpeg);
+    },
+
+    terminate() {
+      generation++;
+      for (const ffmpeg of all) ffmpeg.terminate();
+      all.clear();
+      idle.length = 0;
+    },
+
+    size: () => all.size,
+  };
+}
+
+async function loadFFmpeg(): Promise<FFmpeg> {
+  const ffmpeg = new FFmpeg();
+  await ffmpeg.load();
+  return ffmpeg;
+}
@@ -0,0 +1,38 @@
+import { useEffect, useRef, useState, useSyncExternalStore } from "react";
+import {
+  createConversionQueue,
+  type BatchTaskContext,
+  type ConversionQueue,
+} from "./conversionQueue";
+
+/**
+ * 변환 큐를 React 상태로 구독
+ * run은 매 렌더의 최신 함수를 사용 (설정 변경이 대기 중인 작업에도 반영)
+ */
+export function useConversionQueue<T>(
+  run: (file: File, context: BatchTaskContext) => Promise<T>,
+  concurrency: number
+) {
+  const runRef = useRef(run);
+  useEffect(() => {
+    runRef.current = run;
+  }, [run]);
+
+  const [queue] = useState<ConversionQueue<T>>(() =>
+    createConversionQueue<T>({
+      run: (file, context) => runRef.current(file, context),
+      concurrency,
+    })
+  );
+
+  useEffect(() => {
+    queue.setConcurrency(concurrency);
+  }, [queue, concurrency]);
+
+  // 언마운트 시 실행 중인 작업 취소
+  useEffect(() => () => queue.cancelAll(), [queue]);
+
+  const items = useSyncExternalStore(queue.subscribe, queue.getItems);
+
+  return { queue, items } as const;
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { AbortError, isAbortError, throwIfAborted, toAbortError } from './abort';
+
+describe('Abort helpers', () => {
+  it('should throw an AbortError only when the signal is aborted', () => {
+    const controller = new AbortController();
+    expect(() => throwIfAborted(controller.signal)).not.toThrow();
+    expect(() => throwIfAborted(undefined)).not.toThrow();
+
+    controller.abort();
+    expect(() => throwIfAborted(controller.signal)).toThrow(AbortError);
+  });
+
+  it('should recognise DOM-style abort errors', () => {
+    const domAbort = new Error('Message # 3 was aborted');
+    domAbort.name = 'AbortError';
+
+    expect(isAbortError(new AbortError())).toBe(true);
+    expect(isAbortError(domAbort)).toBe(true);
+    expect(isAbortError(new Error('boom'))).toBe(false);
+    expect(isAbortError('AbortError')).toBe(false);
+  });
+
+  it('should convert errors raised after cancellation into AbortError', () => {
+    const controller = new AbortController();
+    const failure = new Error('called FFmpeg.terminate()');
+
+    expect(toAbortError(failure, controller.signal)).toBe(failure);
+
+    controller.abort();
+    const converted = toAbortError(failure, controller.signal);
+    expect(converted).toBeInstanceOf(AbortError);
+    expect((converted as AbortError).name).toBe('AbortError');
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * 변환 취소 지원
+ * AbortSignal 기반 취소를 AbortError 하나로 통일 (ffmpeg.wasm의 DOMException 포함)
+ */
+
+export class AbortError extends Error {
+  constructor(message: string = "변환이 취소되었습니다") {
+    super(message);
+    this.name = "AbortError";
+  }
+}
+
+/**
+ * 신호가 이미 취소되었으면 AbortError 발생
+ */
+export function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new AbortError();
+  }
+}
+
+/**
+ * 취소로 인한 에러인지 확인 (AbortError / DOMException("AbortError") 모두 해당)
+ */
+export function isAbortError(error: unknown): boolean {
+  return (
+    error instanceof AbortError ||
+    (error instanceof Error && error.name === "AbortError")
+  );
+}
+
+/**
+ * 취소된 작업에서 발생한 에러를 AbortError로 변환
+ * ffmpeg 인스턴스 종료 시 발생하는 "called FFmpeg.terminate()" 같은 에러도 취소로 처리
+ */
+export function toAbortError(error: unknown, signal?: AbortSignal): unknown {
+  if (error instanceof AbortError) return error;
+  if (signal?.aborted || isAbortError(error)) return new AbortError();
+  return error;
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateAlphaMetrics,
+  compositeOverBackground,
+  hasTransparentPixels,
+} from './alphaMetrics';
+import { calculateFrameMetrics, type ImageData } from './qualityMetrics';
+
+// 왼쪽 절반이 투명한 빨간 이미지
+function halfTransparent(width: number, height: number): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data.set([255, 0, 0, x < width / 2 ? 0 : 255], (y * width + x) * 4);
+    }
+  }
+  return { data, width, height };
+}
+
+// 투명도를 잃고 숨은 색(검정)이 드러난 이미지 (yuv420p 인코딩 결과와 유사)
+function flattened(img: ImageData): ImageData {
+  const data = new Uint8ClampedArray(img.data);
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) data.set([0, 0, 0], i);
+    data[i + 3] = 255;
+  }
+  return { ...img, data };
+}
+
+describe('Alpha-aware Quality Metrics', () => {
+  const original = halfTransparent(32, 32);
+
+  it('should report no mismatch for identical alpha', () => {
+    expect(calculateAlphaMetrics(original, original)).toEqual({
+      alphaMismatch: 0,
+      transparencyLoss: 0,
+    });
+  });
+
+  it('should detect lost transparency', () => {
+    const metrics = calculateAlphaMetrics(original, flattened(original));
+
+    expect(metrics.alphaMismatch).toBeCloseTo(0.5, 10);
+    expect(metrics.transparencyLoss).toBe(1);
+  });
+
+  it('should composite over white, black and checkerboard backgrounds', () => {
+    const white = compositeOverBackground(original, 'white');
+    const black = compositeOverBackground(original, 'black');
+    const checker = compositeOverBackground(original, 'checkerboard', 4);
+
+    expect(Array.from(white.data.slice(0, 4))).toEqual([255, 255, 255, 255]);
+    expect(Array.from(black.data.slice(0, 4))).toEqual([0, 0, 0, 255]);
+    // (0,0)은 밝은 칸, (4,0)은 어두운 칸
+    expect(checker.data[0]).toBe(255);
+    expect(checker.data[4 * 4]).toBe(204);
+    // 불투명 영역은 그대로
+    expect(Array.from(white.data.slice(31 * 4, 32 * 4))).toEqual([255, 0, 0, 255]);
+    expect(hasTransparentPixels(white)).toBe(false);
+  });
+
+  it('should penalize lost transparency in SSIM and ΔE after compositing', () => {
+    const metrics = calculateFrameMetrics(original, flattened(original));
+    const identical = calculateFrameMetrics(original, original);
+
+    expect(identical.ssim).toBe(1);
+    expect(identical.deltaE).toBe(0);
+    expect(metrics.ssim).toBeLessThan(0.9);
+    expect(metrics.deltaE).toBeGreaterThan(10);
+    expect(metrics.transparencyLoss).toBe(1);
+  });
+
+  it('should use the worst result across backgrounds', () => {
+    const converted = flattened(original);
+    const overBlack = calculateFrameMetrics(original, converted, { backgrounds: ['black'] });
+    const overAll = calculateFrameMetrics(original, converted, {
+      backgrounds: ['black', 'white', 'checkerboard'],
+    });
+
+    // 숨은 색이 검정이라 검정 배경에서는 차이가 보이지 않음
+    expect(overBlack.ssim).toBe(1);
+    expect(overAll.ssim).toBeLessThan(overBlack.ssim);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * 알파 채널 품질 비교
+ * 투명도 불일치 측정과 배경 합성(체커보드/흰색/검정) 후 비교용 이미지 생성
+ */
+import type { ImageData } from "./qualityMetrics";
+
+export type BackgroundMode = "checkerboard" | "white" | "black";
+
+export interface AlphaMetrics {
+  alphaMismatch: number; // 평균 |α1 - α2| / 255 (0=완전 일치)
+  transparencyLoss: number; // 원본에서 투명(α<128)했던 픽셀 중 불투명해진 비율
+}
+
+// 투명/불투명 판단 기준 (GIF는 1비트 투명도라 중간값이면 충분)
+const VISIBILITY_THRESHOLD = 128;
+
+// 체커보드 색상 (이미지 편집기의 투명 배경과 동일)
+const CHECKER_LIGHT = 255;
+const CHECKER_DARK = 204;
+
+/**
+ * 두 이미지의 알파 채널 차이 계산
+ */
+export function calculateAlphaMetrics(
+  original: ImageData,
+  converted: ImageData
+): AlphaMetrics {
+  if (
+    original.width !== converted.width ||
+    original.height !== converted.height ||
+    original.data.length !== converted.data.length
+  ) {
+    throw new Error("Image dimensions must match");
+  }
+
+  let diffSum = 0;
+  let transparentCount = 0;
+  let lostCount = 0;
+
+  for (let i = 3; i < original.data.length; i += 4) {
+    const a1 = original.data[i];
+    const a2 = converted.data[i];
+    diffSum += Math.abs(a1 - a2);
+
+    if (a1 < VISIBILITY_THRESHOLD) {
+      transparentCount++;
+      if (a2 >= VISIBILITY_THRESHOLD) lostCount++;
+    }
+  }
+
+  const pixelCount = original.data.length / 4;
+  return {
+    alphaMismatch: pixelCount > 0 ? diffSum / (pixelCount * 255) : 0,
+    transparencyLoss: transparentCount > 0 ? lostCount / transparentCount : 0,
+  };
+}
+
+/**
+ * 완전히 불투명하지 않은 픽셀이 있는지 확인
+ */
+export function hasTransparentPixels(img: ImageData): boolean {
+  for (let i = 3; i < img.data.length; i += 4) {
+    if (img.data[i] < 255) return true;
+  }
+  return false;
+}
+
+/**
+ * 배경 위에 이미지를 합성한 불투명 이미지 생성
+ * 투명 영역이 다르게 처리된 경우 RGB 메트릭(SSIM/ΔE)에서도 차이가 드러나게 함
+ */
+export function compositeOverBackground(
+  img: ImageData,
+  background: BackgroundMode,
+  cellSize: number = 8
+): ImageData {
+  const { width, height } = img;
+  const data = new Uint8ClampedArray(img.data.length);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = (y * width + x) * 4;
+      const alpha = img.data[idx + 3] / 255;
+
+      let bg: number;
+      if (background === "white") bg = 255;
+      else if (background === "black") bg = 0;
+      else {
+        const isLight =
+          (Math.floor(x / cellSize) + Math.floor(y / cellSize)) % 2 === 0;
+        bg = isLight ? CHECKER_LIGHT : CHECKER_DARK;
+      }
+
+      data[idx] = Math.round(img.data[idx] * alpha + bg * (1 - alpha));
+      data[idx + 1] = Math.round(img.data[idx + 1] * alpha + bg * (1 - alpha));
+      data[idx + 2] = Math.round(img.data[idx + 2] * alpha + bg * (1 - alpha));
+      data[idx + 3] = 255;
+    }
+  }
+
+  return { data, width, height };
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { alignFramesByTimestamp, readAnimationTimeline, sampleIndices } from './animationFrames';
+import { buildGif } from '../../../test/gifFixture';
+import { buildAnimatedWebp } from '../../../test/webpFixture';
+import { buildAvifSequence } from '../../../test/avifFixture';
+
+describe('Animation Frame Alignment', () => {
+  it('should pair frames one-to-one when timelines match', () => {
+    const pairs = alignFramesByTimestamp([100, 100, 100], [100, 100, 100]);
+
+    expect(pairs).toEqual([
+      { sourceIndex: 0, candidateIndex: 0, timestamp: 50 },
+      { sourceIndex: 1, candidateIndex: 1, timestamp: 150 },
+      { sourceIndex: 2, candidateIndex: 2, timestamp: 250 },
+    ]);
+  });
+
+  it('should pair dropped source frames with the candidate frame still on screen', () => {
+    // 원본 2번째 프레임이 중복 제거되어 변환본 1번째 프레임이 200ms 동안 표시됨
+    const pairs = alignFramesByTimestamp([100, 100, 100], [200, 100]);
+
+    expect(pairs.map((p) => p.candidateIndex)).toEqual([0, 0, 1]);
+  });
+
+  it('should compare every source frame against a still candidate frame', () => {
+    const pairs = alignFramesByTimestamp([40, 40], [Infinity]);
+    expect(pairs.map((p) => p.candidateIndex)).toEqual([0, 0]);
+  });
+
+  it('should sample frames evenly including the first and last', () => {
+    expect(sampleIndices(10, 4)).toEqual([0, 3, 6, 9]);
+    expect(sampleIndices(3, 30)).toEqual([0, 1, 2]);
+    expect(sampleIndices(5, 1)).toEqual([0]);
+
+    const pairs = alignFramesByTimestamp(new Array(100).fill(50), new Array(100).fill(50), 5);
+    expect(pairs.map((p) => p.sourceIndex)).toEqual([0, 25, 50, 74, 99]);
+  });
+
+  it('should read timelines from GIF, WebP and AVIF containers', () => {
+    const gif = buildGif({ width: 2, height: 2, frames: [{ delay: 5 }, { delay: 200 }] });
+
+    expect(readAnimationTimeline(gif, 'image/gif')).toEqual([50, 2000]);
+    expect(readAnimationTimeline(buildAnimatedWebp([30, 60]), 'image/webp')).toEqual([30, 60]);
+    const avif = buildAvifSequence([{ handler: 'pict', timescale: 100, sttsEntries: [[1, 3], [1, 6]] }]);
+    expect(readAnimationTimeline(avif, 'image/avif')).toEqual([30, 60]);
+    expect(readAnimationTimeline(new Uint8Array(8), 'image/png')).toEqual([Infinity]);
+  });
+});
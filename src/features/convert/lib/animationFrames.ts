@@ -0,0 +1,218 @@
+/**
+ * 애니메이션 프레임 디코딩 및 타임스탬프 정렬
+ * 원본과 변환본의 프레임을 같은 재생 시각 기준으로 짝지어 비교할 수 있게 함
+ */
+import { parseApng } from "./apng";
+import { readAvifFrameDurations } from "./avifSequence";
+import { parseGif } from "./gifParser";
+import type { ImageData } from "./qualityMetrics";
+import { readWebpFrameDurations } from "./webpAnimation";
+
+export interface FramePair {
+  sourceIndex: number;
+  candidateIndex: number;
+  timestamp: number; // 비교 시각 (ms, 원본 프레임 표시 구간의 중앙)
+}
+
+/**
+ * 컨테이너를 파싱하여 프레임별 표시 시간 (ms) 반환
+ * 정지 이미지이거나 알 수 없는 형식이면 단일 프레임으로 취급
+ */
+export function readAnimationTimeline(
+  data: Uint8Array,
+  mimeType: string
+): number[] {
+  try {
+    if (mimeType === "image/gif") {
+      const delays = parseGif(data).frames.map((frame) => frame.delay);
+      if (delays.length > 0) return delays;
+    } else if (mimeType === "image/webp") {
+      const durations = readWebpFrameDurations(data);
+      if (durations.length > 0) return durations;
+    } else if (mimeType === "image/png") {
+      const delays = parseApng(data).frames.map((frame) => frame.delay);
+      if (delays.length > 1) return delays;
+    } else if (mimeType === "image/avif") {
+      const durations = readAvifFrameDurations(data);
+      if (durations.length > 0) return durations;
+    }
+  } catch {
+    // 파싱 실패 시 단일 프레임으로 처리
+  }
+  return [Infinity];
+}
+
+/**
+ * 원본 프레임 표시 구간의 중앙 시각마다 변환본에서 같은 시각에 보이는 프레임을 짝지음
+ * maxFrames가 원본 프레임 수보다 작으면 처음/끝을 포함해 균등 샘플링
+ */
+export function alignFramesByTimestamp(
+  sourceDurations: number[],
+  candidateDurations: number[],
+  maxFrames: number = Infinity
+): FramePair[] {
+  const sourceIndices = sampleIndices(sourceDurations.length, maxFrames);
+  const sourceStarts = cumulativeStarts(sourceDurations);
+  const candidateStarts = cumulativeStarts(candidateDurations);
+
+  return sourceIndices.map((sourceIndex) => {
+    const duration = sourceDurations[sourceIndex];
+    const timestamp =
+      sourceStarts[sourceIndex] + (Number.isFinite(duration) ? duration / 2 : 0);
+
+    // timestamp 이전에 시작한 마지막 변환본 프레임
+    let candidateIndex = 0;
+    while (
+      candidateIndex + 1 < candidateStarts.length &&
+      candidateStarts[candidateIndex + 1] <= timestamp
+    ) {
+      candidateIndex++;
+    }
+
+    return { sourceIndex, candidateIndex, timestamp };
+  });
+}
+
+/**
+ * 0..count-1 범위에서 최대 maxCount개의 인덱스를 균등하게 선택
+ */
+export function sampleIndices(count: number, maxCount: number): number[] {
+  if (count <= maxCount) {
+    return Array.from({ length: count }, (_, i) => i);
+  }
+  if (maxCount <= 1) return [0];
+
+  const indices = new Set<number>();
+  for (let i = 0; i < maxCount; i++) {
+    indices.add(Math.round((i * (count - 1)) / (maxCount - 1)));
+  }
+  return [...indices].sort((a, b) => a - b);
+}
+
+function cumulativeStarts(durations: number[]): number[] {
+  const starts: number[] = [];
+  let time = 0;
+  for (const duration of durations) {
+    starts.push(time);
+    time += duration;
+  }
+  return starts;
+}
+
+export interface FrameDecoder {
+  // 지정한 인덱스의 합성된 프레임을 RGBA로 디코딩 (범위를 넘는 인덱스는 마지막 프레임)
+  decodeFrames(blob: Blob, frameIndices: number[]): Promise<ImageData[]>;
+}
+
+// 등록된 디코더 (앱과 Node CLI는 ffmpeg 디코더를 등록해 환경 간 같은 픽셀을 사용)
+let frameDecoder: FrameDecoder | null = null;
+
+/**
+ * 프레임 디코더 교체 (null이면 WebCodecs ImageDecoder 사용)
+ */
+export function setFrameDecoder(decoder: FrameDecoder | null) {
+  frameDecoder = decoder;
+}
+
+/**
+ * 교체된 프레임 디코더 (기본 경로면 null)
+ */
+export function getFrameDecoder(): FrameDecoder | null {
+  return frameDecoder;
+}
+
+/**
+ * 애니메이션 프레임 디코딩 가능 여부 (교체된 디코더 또는 WebCodecs ImageDecoder)
+ */
+export function supportsAnimationDecoding(): boolean {
+  return frameDecoder !== null || typeof ImageDecoder !== "undefined";
+}
+
+// 같은 원본을 여러 후보와 비교할 때 재디코딩 방지
+const frameCache = new WeakMap<Blob, Map<number, Promise<ImageData>>>();
+
+/**
+ * 지정한 인덱스의 합성된(디스포즈 처리 완료) 프레임을 RGBA로 디코딩
+ */
+export async function decodeAnimationFrames(
+  blob: Blob,
+  frameIndices: number[]
+): Promise<ImageData[]> {
+  let cache = frameCache.get(blob);
+  if (!cache) {
+    cache = new Map();
+    frameCache.set(blob, cache);
+  }
+
+  const missing = [...new Set(frameIndices.filter((index) => !cache.has(index)))];
+  if (missing.length > 0) {
+    const decoding = frameDecoder
+      ? frameDecoder.decodeFrames(blob, missing)
+      : decodeWithImageDecoder(blob, missing);
+    missing.forEach((index, i) => {
+      const frame = decoding.then((frames) => frames[i]);
+      frame.catch(() => {}); // 실패는 아래에서 한 번만 전파
+      cache.set(index, frame);
+    });
+
+    try {
+      await decoding;
+    } catch (error) {
+      missing.forEach((index) => cache.delete(index));
+      throw error;
+    }
+  }
+
+  return Promise.all(frameIndices.map((index) => cache.get(index)!));
+}
+
+async function decodeWithImageDecoder(
+  blob: Blob,
+  frameIndices: number[]
+): Promise<ImageData[]> {
+  const decoder = new ImageDecoder({
+    data: await blob.arrayBuffer(),
+    type: blob.type,
+    colorSpaceConversion: "none", // 정지 이미지 디코더와 같이 색 관리 없이 원본 값 사용
+  });
+
+  try {
+    await decoder.tracks.ready;
+    const frameCount = decoder.tracks.selectedTrack?.frameCount ?? 1;
+
+    return await Promise.all(
+      frameIndices.map((index) =>
+        decoder
+          .decode({ frameIndex: Math.min(index, frameCount - 1) })
+          .then(({ image }) => videoFrameToImageData(image))
+      )
+    );
+  } finally {
+    decoder.close();
+  }
+}
+
+function videoFrameToImageData(frame: VideoFrame): ImageData {
+  const width = frame.displayWidth;
+  const height = frame.displayHeight;
+
+  try {
+    const canvas =
+      typeof OffscreenCanvas !== "undefined"
+        ? new OffscreenCanvas(width, height)
+        : Object.assign(document.createElement("canvas"), { width, height });
+    const ctx = canvas.getContext("2d", { willReadFrequently: true }) as
+      | CanvasRenderingContext2D
+      | OffscreenCanvasRenderingContext2D
+      | null;
+    if (!ctx) {
+      throw new Error("Failed to get canvas context");
+    }
+
+    ctx.drawImage(frame, 0, 0);
+    const imageData = ctx.getImageData(0, 0, width, height);
+    return { data: imageData.data, width, height };
+  } finally {
+    frame.close();
+  }
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { buildApng, encodeRgbaPng, isAnimatedPng, parseApng, retimeApng } from './apng';
+import { crc32 } from '../../../shared/lib/zip';
+import { buildPng } from '../../../test/pngFixture';
+
+describe('APNG Parser', () => {
+  it('should read fcTL delays with browser-equivalent clamping', () => {
+    const apng = parseApng(
+      buildPng({
+        width: 8,
+        height: 6,
+        loopCount: 2,
+        frames: [
+          { delayNum: 1, delayDen: 25 }, // 40ms
+          { delayNum: 5, delayDen: 0 }, // 분모 0 → 1/100초 단위
+          { delayNum: 0, delayDen: 100, dispose: 1, blend: 1 }, // 0ms → 100ms
+        ],
+      })
+    );
+
+    expect(apng.width).toBe(8);
+    expect(apng.height).toBe(6);
+    expect(apng.loopCount).toBe(2);
+    expect(apng.frames.map((f) => f.delay)).toEqual([40, 50, 100]);
+    expect(apng.frames[2].disposal).toBe('background');
+    expect(apng.frames[2].blend).toBe('over');
+  });
+
+  it('should detect alpha from the color type or a tRNS chunk', () => {
+    const frames = [{ delayNum: 1, delayDen: 10 }];
+
+    expect(parseApng(buildPng({ width: 1, height: 1, colorType: 6, frames })).hasAlpha).toBe(true);
+    expect(parseApng(buildPng({ width: 1, height: 1, colorType: 2, frames })).hasAlpha).toBe(false);
+    expect(
+      parseApng(buildPng({ width: 1, height: 1, colorType: 2, transparency: true, frames })).hasAlpha
+    ).toBe(true);
+  });
+
+  it('should treat a still PNG as a single frame and only flag acTL files as animated', () => {
+    const still = buildPng({ width: 4, height: 4 });
+
+    expect(isAnimatedPng(still)).toBe(false);
+    expect(isAnimatedPng(buildPng({ width: 4, height: 4, frames: [{ delayNum: 1, delayDen: 10 }] }))).toBe(true);
+    expect(parseApng(still).frames).toHaveLength(1);
+    expect(() => parseApng(new Uint8Array(16))).toThrow('Not a valid PNG file');
+  });
+});
+
+describe('APNG Assembly', () => {
+  it('should join still PNGs into an APNG with per-frame delays', () => {
+    const frames = [1, 2, 3].map((n) => buildPng({ width: 5, height: 3, idat: [0x78, 0x9c, n] }));
+
+    const apng = buildApng(frames, [40, 70, 2000]);
+    const parsed = parseApng(apng);
+
+    expect(isAnimatedPng(apng)).toBe(true);
+    expect(parsed.loopCount).toBe(0);
+    expect(parsed.frames.map((f) => f.delay)).toEqual([40, 70, 2000]);
+    expect(parsed.frames.every((f) => f.width === 5 && f.height === 3)).toBe(true);
+  });
+
+  it('should reject frames with different headers or palettes', () => {
+    expect(() =>
+      buildApng([buildPng({ width: 5, height: 3 }), buildPng({ width: 6, height: 3 })], [100, 100])
+    ).toThrow('PNG 시퀀스의 해상도 또는 색상 형식이 서로 다릅니다');
+    expect(() =>
+      buildApng(
+        [
+          buildPng({ width: 2, height: 2, colorType: 3, palette: [0, 0, 0] }),
+          buildPng({ width: 2, height: 2, colorType: 3, palette: [255, 255, 255] }),
+        ],
+        [100, 100]
+      )
+    ).toThrow('PNG 시퀀스의 해상도 또는 색상 형식이 서로 다릅니다');
+  });
+});
+
+describe('APNG Retiming', () => {
+  it('should rewrite fcTL delays in milliseconds and recompute their CRCs', () => {
+    const apng = buildPng({
+      width: 4,
+      height: 4,
+      frames: [
+        { delayNum: 1, delayDen: 10 },
+        { delayNum: 1, delayDen: 10 },
+        { delayNum: 1, delayDen: 10 },
+      ],
+    });
+
+    const retimed = retimeApng(apng, [30, 250]);
+
+    // 지연 목록보다 프레임이 많으면 마지막 지연 반복
+    expect(parseApng(retimed).frames.map((f) => f.delay)).toEqual([30, 250, 250]);
+    expect(parseApng(apng).frames.map((f) => f.delay)).toEqual([100, 100, 100]);
+
+    // 픽스처 CRC는 더미이므로 다시 기록한 fcTL 청크만 검증
+    const view = new DataView(retimed.buffer, retimed.byteOffset);
+    let fctlCount = 0;
+    for (let offset = 8; offset + 12 <= retimed.length; ) {
+      const length = view.getUint32(offset);
+      const body = retimed.subarray(offset + 4, offset + 8 + length);
+      if (String.fromCharCode(...body.subarray(0, 4)) === 'fcTL') {
+        expect(view.getUint32(offset + 8 + length)).toBe(crc32(body));
+        fctlCount++;
+      }
+      offset += length + 12;
+    }
+    expect(fctlCount).toBe(3);
+  });
+});
+
+describe('PNG Encoding', () => {
+  it('should encode RGBA pixels as a still PNG that APNG assembly accepts', async () => {
+    const pixels = new Uint8ClampedArray([255, 0, 0, 255, 0, 255, 0, 128]);
+    const png = await encodeRgbaPng(pixels, 2, 1);
+
+    expect(parseApng(png)).toMatchObject({ width: 2, height: 1, hasAlpha: true });
+    expect(isAnimatedPng(buildApng([png, png], [100, 100]))).toBe(true);
+  });
+});
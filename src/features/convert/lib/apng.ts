@@ -0,0 +1,359 @@
+/**
+ * APNG 컨테이너 유틸리티
+ * PNG 청크를 직접 읽어 fcTL 프레임 정보를 추출/수정하고, 정지 PNG 시퀀스를 APNG로 조립
+ */
+import { crc32 } from "../../../shared/lib/zip";
+
+export type ApngDisposalMethod =
+  | "none" // 0: 그대로 유지
+  | "background" // 1: 프레임 영역을 투명으로 지움
+  | "previous"; // 2: 이전 상태로 복원
+
+export interface ApngFrame {
+  index: number;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  delay: number; // 표시 시간 (ms, 브라우저와 동일하게 보정된 값)
+  disposal: ApngDisposalMethod;
+  blend: "source" | "over"; // over: 이전 캔버스 위에 알파 합성
+}
+
+export interface ApngContainer {
+  width: number;
+  height: number;
+  hasAlpha: boolean; // 알파 색상 형식이거나 tRNS 청크가 있음
+  loopCount: number; // acTL num_plays (0=무한)
+  frames: ApngFrame[];
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// 브라우저는 10ms 이하 지연을 100ms로 취급
+const MIN_DELAY_MS = 11;
+const DEFAULT_DELAY_MS = 100;
+
+const DISPOSAL_METHODS: ApngDisposalMethod[] = ["none", "background", "previous"];
+
+interface Chunk {
+  type: string;
+  start: number; // 데이터 시작 위치
+  end: number;
+}
+
+/**
+ * PNG 시그니처 확인
+ */
+export function isPng(data: Uint8Array): boolean {
+  return (
+    data.length >= PNG_SIGNATURE.length &&
+    PNG_SIGNATURE.every((byte, i) => data[i] === byte)
+  );
+}
+
+/**
+ * 애니메이션 PNG 여부 (IDAT 이전에 acTL 청크가 있어야 함)
+ */
+export function isAnimatedPng(data: Uint8Array): boolean {
+  if (!isPng(data)) return false;
+  for (const chunk of readChunks(data)) {
+    if (chunk.type === "acTL") return true;
+    if (chunk.type === "IDAT") return false;
+  }
+  return false;
+}
+
+/**
+ * APNG 바이트 배열을 파싱하여 컨테이너 정보 반환
+ * 정지 PNG는 전체 캔버스를 덮는 단일 프레임으로 취급
+ */
+export function parseApng(data: Uint8Array): ApngContainer {
+  if (!isPng(data)) {
+    throw new Error("Not a valid PNG file");
+  }
+
+  const chunks = readChunks(data);
+  const ihdr = chunks[0];
+  if (ihdr?.type !== "IHDR") {
+    throw new Error("Not a valid PNG file");
+  }
+
+  const width = readUint32(data, ihdr.start);
+  const height = readUint32(data, ihdr.start + 4);
+  const colorType = data[ihdr.start + 9];
+  const hasAlpha =
+    colorType === 4 || colorType === 6 || chunks.some((chunk) => chunk.type === "tRNS");
+
+  const actl = chunks.find((chunk) => chunk.type === "acTL");
+  const frames: ApngFrame[] = [];
+
+  for (const chunk of chunks) {
+    if (chunk.type !== "fcTL" || chunk.end - chunk.start < 26) continue;
+
+    // fcTL: sequence(4) width(4) height(4) x(4) y(4) delay_num(2) delay_den(2) dispose(1) blend(1)
+    const delayNum = readUint16(data, chunk.start + 20);
+    const delayDen = readUint16(data, chunk.start + 22) || 100; // 0이면 1/100초 단위
+    const delay = Math.round((delayNum * 1000) / delayDen);
+
+    frames.push({
+      index: frames.length,
+      width: readUint32(data, chunk.start + 4),
+      height: readUint32(data, chunk.start + 8),
+      left: readUint32(data, chunk.start + 12),
+      top: readUint32(data, chunk.start + 16),
+      delay: delay < MIN_DELAY_MS ? DEFAULT_DELAY_MS : delay,
+      disposal: DISPOSAL_METHODS[data[chunk.start + 24]] ?? "none",
+      blend: data[chunk.start + 25] === 1 ? "over" : "source",
+    });
+  }
+
+  if (!actl || frames.length === 0) {
+    return {
+      width,
+      height,
+      hasAlpha,
+      loopCount: 0,
+      frames: [
+        {
+          index: 0,
+          left: 0,
+          top: 0,
+          width,
+          height,
+          delay: DEFAULT_DELAY_MS,
+          disposal: "none",
+          blend: "source",
+        },
+      ],
+    };
+  }
+
+  return {
+    width,
+    height,
+    hasAlpha,
+    loopCount: readUint32(data, actl.start + 4),
+    frames,
+  };
+}
+
+/**
+ * 같은 해상도/색상 형식의 정지 PNG들을 순서대로 이어 APNG로 조립
+ * 첫 프레임의 IDAT는 그대로, 이후 프레임은 fdAT로 옮겨 담음 (재압축 없음)
+ *
+ * @param delays 프레임별 표시 시간 (ms)
+ * @param loopCount 반복 횟수 (0=무한)
+ */
+export function buildApng(
+  pngs: Uint8Array[],
+  delays: number[],
+  loopCount = 0
+): Uint8Array {
+  if (pngs.length === 0) {
+    throw new Error("PNG 시퀀스에 프레임이 없습니다");
+  }
+
+  const parsed = pngs.map((png) => {
+    if (!isPng(png)) throw new Error("Not a valid PNG file");
+    const chunks = readChunks(png);
+    if (chunks[0]?.type !== "IHDR") throw new Error("Not a valid PNG file");
+    return { png, chunks };
+  });
+
+  const [first] = parsed;
+  const header = chunkData(first.png, first.chunks[0]);
+  const palette = first.chunks.find((chunk) => chunk.type === "PLTE");
+  const transparency = first.chunks.find((chunk) => chunk.type === "tRNS");
+
+  // 모든 프레임이 첫 프레임의 IHDR/PLTE를 공유해야 함
+  for (const { png, chunks } of parsed) {
+    const framePalette = chunks.find((chunk) => chunk.type === "PLTE");
+    if (
+      !sameBytes(chunkData(png, chunks[0]), header) ||
+      !sameBytes(
+        framePalette ? chunkData(png, framePalette) : null,
+        palette ? chunkData(first.png, palette) : null
+      )
+    ) {
+      throw new Error("PNG 시퀀스의 해상도 또는 색상 형식이 서로 다릅니다");
+    }
+  }
+
+  const width = readUint32(header, 0);
+  const height = readUint32(header, 4);
+  const output: Uint8Array[] = [
+    new Uint8Array(PNG_SIGNATURE),
+    createChunk("IHDR", header),
+    createChunk("acTL", concatBytes([uint32(pngs.length), uint32(loopCount)])),
+  ];
+  if (palette) output.push(createChunk("PLTE", chunkData(first.png, palette)));
+  if (transparency) {
+    output.push(createChunk("tRNS", chunkData(first.png, transparency)));
+  }
+
+  let sequence = 0;
+  parsed.forEach(({ png, chunks }, i) => {
+    const delay = Math.min(0xffff, Math.max(0, Math.round(delays[i] ?? DEFAULT_DELAY_MS)));
+    output.push(
+      createChunk(
+        "fcTL",
+        concatBytes([
+          uint32(sequence++),
+          uint32(width),
+          uint32(height),
+          uint32(0),
+          uint32(0),
+          uint16(delay),
+          uint16(1000), // 지연 단위: ms
+          new Uint8Array([0, 0]), // dispose: none, blend: source
+        ])
+      )
+    );
+
+    for (const chunk of chunks) {
+      if (chunk.type !== "IDAT") continue;
+      const data = chunkData(png, chunk);
+      output.push(
+        i === 0
+          ? createChunk("IDAT", data)
+          : createChunk("fdAT", concatBytes([uint32(sequence++), data]))
+      );
+    }
+  });
+
+  output.push(createChunk("IEND", new Uint8Array(0)));
+  return concatBytes(output);
+}
+
+/**
+ * APNG의 fcTL 표시 시간을 지정한 지연으로 재설정 (ms 단위로 기록)
+ * 프레임 수가 지연 목록보다 많으면 마지막 지연을 반복 적용
+ */
+export function retimeApng(data: Uint8Array, delays: number[]): Uint8Array {
+  if (!isPng(data)) {
+    throw new Error("Not a valid PNG file");
+  }
+
+  const result = data.slice();
+  let frameIndex = 0;
+
+  for (const chunk of readChunks(result)) {
+    if (chunk.type !== "fcTL" || chunk.end - chunk.start < 26) continue;
+
+    const delay = delays[Math.min(frameIndex++, delays.length - 1)] ?? DEFAULT_DELAY_MS;
+    result.set(uint16(Math.min(0xffff, Math.max(0, Math.round(delay)))), chunk.start + 20);
+    result.set(uint16(1000), chunk.start + 22);
+    // CRC는 타입 + 데이터 기준
+    result.set(uint32(crc32(result.subarray(chunk.start - 4, chunk.end))), chunk.end);
+  }
+
+  return result;
+}
+
+/**
+ * RGBA 픽셀을 정지 PNG로 인코딩 (캔버스 없이 CompressionStream의 zlib 압축 사용)
+ */
+export async function encodeRgbaPng(
+  pixels: Uint8Array | Uint8ClampedArray,
+  width: number,
+  height: number
+): Promise<Uint8Array> {
+  // 스캔라인마다 필터 타입 0(None) 바이트를 앞에 붙임
+  const stride = width * 4;
+  const raw = new Uint8Array((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw.set(pixels.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  const compressed = new Uint8Array(
+    await new Response(
+      new Blob([raw]).stream().pipeThrough(new CompressionStream("deflate"))
+    ).arrayBuffer()
+  );
+
+  // IHDR: 8비트 RGBA(color type 6), 기본 압축/필터, 인터레이스 없음
+  const header = concatBytes([uint32(width), uint32(height), new Uint8Array([8, 6, 0, 0, 0])]);
+  return concatBytes([
+    new Uint8Array(PNG_SIGNATURE),
+    createChunk("IHDR", header),
+    createChunk("IDAT", compressed),
+    createChunk("IEND", new Uint8Array(0)),
+  ]);
+}
+
+function readChunks(data: Uint8Array): Chunk[] {
+  const chunks: Chunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+
+  // 청크: length(4) + type(4) + data + crc(4)
+  while (offset + 12 <= data.length) {
+    const length = readUint32(data, offset);
+    const type = String.fromCharCode(
+      data[offset + 4],
+      data[offset + 5],
+      data[offset + 6],
+      data[offset + 7]
+    );
+    const start = offset + 8;
+    if (start + length + 4 > data.length) break; // 잘린 청크
+
+    chunks.push({ type, start, end: start + length });
+    if (type === "IEND") break;
+    offset = start + length + 4;
+  }
+
+  return chunks;
+}
+
+function chunkData(data: Uint8Array, chunk: Chunk): Uint8Array {
+  return data.subarray(chunk.start, chunk.end);
+}
+
+function createChunk(type: string, data: Uint8Array): Uint8Array {
+  const typeBytes = Uint8Array.from(type, (c) => c.charCodeAt(0));
+  const body = concatBytes([typeBytes, data]);
+  return concatBytes([uint32(data.length), body, uint32(crc32(body))]);
+}
+
+function sameBytes(a: Uint8Array | null, b: Uint8Array | null): boolean {
+  if (a === null || b === null) return a === b;
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function uint16(value: number): Uint8Array {
+  return new Uint8Array([(value >>> 8) & 0xff, value & 0xff]);
+}
+
+function uint32(value: number): Uint8Array {
+  return new Uint8Array([
+    (value >>> 24) & 0xff,
+    (value >>> 16) & 0xff,
+    (value >>> 8) & 0xff,
+    value & 0xff,
+  ]);
+}
+
+function readUint16(data: Uint8Array, offset: number): number {
+  return (data[offset] << 8) | data[offset + 1];
+}
+
+function readUint32(data: Uint8Array, offset: number): number {
+  return (
+    ((data[offset] << 24) |
+      (data[offset + 1] << 16) |
+      (data[offset + 2] << 8) |
+      data[offset + 3]) >>>
+    0
+  );
+}
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { readAvifFrameDurations } from './avifSequence';
+import { buildAvifSequence } from '../../../test/avifFixture';
+
+describe('AVIF Sequence Frame Timing', () => {
+  it('should expand stts entries into per-frame durations', () => {
+    const data = buildAvifSequence([
+      { handler: 'pict', timescale: 100, sttsEntries: [[2, 4], [1, 7], [1, 200]] },
+    ]);
+
+    expect(readAvifFrameDurations(data)).toEqual([40, 40, 70, 2000]);
+  });
+
+  it('should read the color track rather than the alpha track', () => {
+    const data = buildAvifSequence([
+      { handler: 'auxv', timescale: 1000, sttsEntries: [[1, 999]] },
+      { handler: 'pict', timescale: 1000, sttsEntries: [[3, 50]], mdhdVersion: 1 },
+    ]);
+
+    expect(readAvifFrameDurations(data)).toEqual([50, 50, 50]);
+  });
+
+  it('should return no durations for a still image and reject non-AVIF data', () => {
+    const still = new Uint8Array([0, 0, 0, 12, ...Array.from('ftypavif', (c) => c.charCodeAt(0))]);
+
+    expect(readAvifFrameDurations(still)).toEqual([]);
+    expect(() => readAvifFrameDurations(new Uint8Array(16))).toThrow('Not a valid AVIF file');
+  });
+});
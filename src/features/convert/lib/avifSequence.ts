@@ -0,0 +1,156 @@
+/**
+ * AVIF 이미지 시퀀스/MP4(ISOBMFF) 유틸리티
+ * moov 트랙의 mdhd 타임스케일과 stts 표를 읽어 프레임별 표시 시간을 조회
+ */
+
+interface Box {
+  type: string;
+  start: number; // 페이로드 시작 위치
+  end: number;
+}
+
+// 자식 박스를 포함하는 컨테이너 박스
+const CONTAINER_BOXES = new Set(["moov", "trak", "mdia", "minf", "stbl"]);
+
+// 색상 트랙 핸들러 (알파 보조 트랙은 "auxv")
+const COLOR_HANDLERS = new Set(["pict", "vide"]);
+
+export interface Mp4VideoTrack {
+  width: number;
+  height: number;
+  frameDurations: number[]; // ms
+}
+
+/**
+ * AVIF 시퀀스의 프레임별 표시 시간 (ms)
+ * 정지 AVIF(moov 없음)이면 빈 배열 반환
+ */
+export function readAvifFrameDurations(data: Uint8Array): number[] {
+  const track = findColorTrack(data, "Not a valid AVIF file");
+  return track ? readTrackDurations(data, track) : [];
+}
+
+/**
+ * MP4 비디오 트랙의 표시 크기와 프레임별 표시 시간
+ */
+export function readMp4VideoTrack(data: Uint8Array): Mp4VideoTrack {
+  const track = findColorTrack(data, "Not a valid MP4 file");
+  const tkhd = track && findBox(data, track, ["tkhd"]);
+  if (!track || !tkhd) {
+    throw new Error("MP4에 비디오 트랙이 없습니다");
+  }
+
+  // tkhd 끝의 width/height는 16.16 고정소수점 (version 1은 시각/길이 필드가 64비트)
+  const sizeOffset = tkhd.start + (data[tkhd.start] === 1 ? 88 : 76);
+  return {
+    width: readUint32(data, sizeOffset) >>> 16,
+    height: readUint32(data, sizeOffset + 4) >>> 16,
+    frameDurations: readTrackDurations(data, track),
+  };
+}
+
+/**
+ * 색상 트랙 탐색 (없으면 첫 트랙, moov가 없으면 null)
+ */
+function findColorTrack(data: Uint8Array, invalidMessage: string): Box | null {
+  const topLevel = readBoxes(data, 0, data.length);
+  if (topLevel[0]?.type !== "ftyp") {
+    throw new Error(invalidMessage);
+  }
+
+  const moov = topLevel.find((box) => box.type === "moov");
+  if (!moov) return null;
+
+  const tracks = childrenOf(data, moov).filter((box) => box.type === "trak");
+  return (
+    tracks.find((trak) => {
+      const hdlr = findBox(data, trak, ["mdia", "hdlr"]);
+      // hdlr: version/flags(4) + pre_defined(4) + handler_type(4)
+      return hdlr !== null && COLOR_HANDLERS.has(readFourCC(data, hdlr.start + 8));
+    }) ??
+    tracks[0] ??
+    null
+  );
+}
+
+function readTrackDurations(data: Uint8Array, track: Box): number[] {
+  const mdhd = findBox(data, track, ["mdia", "mdhd"]);
+  const stts = findBox(data, track, ["mdia", "minf", "stbl", "stts"]);
+  if (!mdhd || !stts) return [];
+
+  // mdhd: version 1은 생성/수정 시각이 64비트
+  const version = data[mdhd.start];
+  const timescale = readUint32(data, mdhd.start + (version === 1 ? 20 : 12));
+  if (timescale === 0) return [];
+
+  const durations: number[] = [];
+  const entryCount = readUint32(data, stts.start + 4);
+  for (let i = 0; i < entryCount; i++) {
+    const offset = stts.start + 8 + i * 8;
+    if (offset + 8 > stts.end) break;
+    const sampleCount = readUint32(data, offset);
+    const sampleDelta = readUint32(data, offset + 4);
+    const duration = (sampleDelta * 1000) / timescale;
+    for (let j = 0; j < sampleCount; j++) durations.push(duration);
+  }
+
+  return durations;
+}
+
+function readBoxes(data: Uint8Array, start: number, end: number): Box[] {
+  const boxes: Box[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = readUint32(data, offset);
+    const type = readFourCC(data, offset + 4);
+    let headerSize = 8;
+
+    if (size === 1) {
+      // 64비트 크기 (상위 32비트가 0이 아니면 처리 불가한 크기)
+      if (offset + 16 > end || readUint32(data, offset + 8) !== 0) break;
+      size = readUint32(data, offset + 12);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset; // 파일 끝까지
+    }
+    if (size < headerSize || offset + size > end) break;
+
+    boxes.push({ type, start: offset + headerSize, end: offset + size });
+    offset += size;
+  }
+
+  return boxes;
+}
+
+function childrenOf(data: Uint8Array, box: Box): Box[] {
+  return CONTAINER_BOXES.has(box.type) ? readBoxes(data, box.start, box.end) : [];
+}
+
+function findBox(data: Uint8Array, parent: Box, path: string[]): Box | null {
+  let current: Box | undefined = parent;
+  for (const type of path) {
+    current = childrenOf(data, current).find((box) => box.type === type);
+    if (!current) return null;
+  }
+  return current;
+}
+
+function readFourCC(data: Uint8Array, offset: number): string {
+  return String.fromCharCode(
+    data[offset],
+    data[offset + 1],
+    data[offset + 2],
+    data[offset + 3]
+  );
+}
+
+function readUint32(data: Uint8Array, offset: number): number {
+  return (
+    ((data[offset] << 24) |
+      (data[offset + 1] << 16) |
+      (data[offset + 2] << 8) |
+      data[offset + 3]) >>>
+    0
+  );
+}
@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import { buildCandidateReports, type ReportableCandidate } from './candidateReport';
+import type { OptimizationConfig } from './optimizer';
+import type { QualityMetrics } from './qualityMetrics';
+import { BALANCED_POLICY, evaluateCandidates, SMALLEST_PASSING_POLICY } from './scoringPolicy';
+
+const baseConfig: OptimizationConfig = {
+  quality: 80,
+  compression: 6,
+  preset: 'picture',
+  scaleFilter: 'lanczos',
+  ditherMethod: 'none',
+  pixelFormat: 'yuva420p',
+  usePalette: false,
+  lossless: false,
+  encodingStrategy: 'optimized-lossy',
+};
+
+const candidate = (sizeKB: number, quality = 80): ReportableCandidate => ({
+  blob: new Blob([new Uint8Array(sizeKB)]),
+  config: { ...baseConfig, quality },
+  sizeKB,
+});
+
+const metrics = (ssim: number, deltaE: number, edgePreservation: number): QualityMetrics => ({
+  ssim,
+  psnr: 40,
+  deltaE,
+  edgePreservation,
+});
+
+// 최적화기와 같은 순서로 평가 대상만 골라 점수 계산
+function evaluate(
+  candidates: ReportableCandidate[],
+  measured: Map<ReportableCandidate, QualityMetrics>,
+  rejected: Set<ReportableCandidate>,
+  policy = BALANCED_POLICY
+) {
+  const scoring = candidates
+    .filter((c) => measured.has(c) && !rejected.has(c))
+    .map((c) => ({ sizeKB: c.sizeKB, config: c.config, metrics: measured.get(c)!, source: c }));
+  return evaluateCandidates(scoring, policy, { lossless: false });
+}
+
+describe('Candidate Reports', () => {
+  it('should report every candidate in attempt order with its evaluation', () => {
+    const candidates = [candidate(100, 90), candidate(40, 75)];
+    const measured = new Map([
+      [candidates[0], metrics(0.99, 1, 0.98)],
+      [candidates[1], metrics(0.96, 3, 0.93)],
+    ]);
+    const evaluations = evaluate(candidates, measured, new Set<ReportableCandidate>());
+
+    const reports = buildCandidateReports({
+      candidates,
+      metrics: measured,
+      evaluations,
+      rejected: new Set<ReportableCandidate>(),
+      selected: candidates[1],
+    });
+
+    expect(reports.map((report) => report.index)).toEqual([0, 1]);
+    expect(reports.map((report) => report.selected)).toEqual([false, true]);
+    expect(reports[0]).toMatchObject({
+      blob: candidates[0].blob,
+      config: candidates[0].config,
+      sizeKB: 100,
+      metrics: measured.get(candidates[0]),
+      passed: true,
+      score: evaluations[0].score,
+    });
+    expect(reports[0].criteria.map((criterion) => criterion.name)).toEqual(
+      evaluations[0].criteria.map((criterion) => criterion.name)
+    );
+    expect(reports[0].failureReason).toBeUndefined();
+  });
+
+  it('should carry the policy failure reason for candidates below the thresholds', () => {
+    const candidates = [candidate(20, 50), candidate(60, 90)];
+    const measured = new Map([
+      [candidates[0], metrics(0.8, 12, 0.7)],
+      [candidates[1], metrics(0.99, 1, 0.98)],
+    ]);
+    const evaluations = evaluate(candidates, measured, new Set(), SMALLEST_PASSING_POLICY);
+
+    const [failed] = buildCandidateReports({
+      candidates,
+      metrics: measured,
+      evaluations,
+      rejected: new Set<ReportableCandidate>(),
+      selected: candidates[1],
+    });
+
+    expect(failed.passed).toBe(false);
+    expect(failed.score).toBe(evaluations[0].score);
+    expect(failed.failureReason).toBe(evaluations[0].failureReason);
+    expect(failed.failureReason).toBeTruthy();
+    expect(failed.criteria.some((criterion) => !criterion.passed)).toBe(true);
+  });
+
+  it('should explain candidates excluded before scoring', () => {
+    const [unmeasured, transparent, kept] = [candidate(10), candidate(15), candidate(30)];
+    const candidates = [unmeasured, transparent, kept];
+    const measured = new Map([
+      [transparent, { ...metrics(0.99, 1, 0.98), transparencyLoss: 0.125 }],
+      [kept, metrics(0.99, 1, 0.98)],
+    ]);
+    const rejected = new Set([transparent]);
+
+    const reports = buildCandidateReports({
+      candidates,
+      metrics: measured,
+      evaluations: evaluate(candidates, measured, rejected),
+      rejected,
+      selected: kept,
+    });
+
+    expect(reports[0]).toMatchObject({
+      metrics: undefined,
+      criteria: [],
+      passed: false,
+      score: null,
+      failureReason: '품질 측정 실패',
+    });
+    expect(reports[1]).toMatchObject({
+      criteria: [],
+      passed: false,
+      score: null,
+      failureReason: '투명도 손실 12.5%',
+    });
+    expect(reports[2]).toMatchObject({ passed: true, selected: true });
+  });
+
+  it('should mark a fallback pick as selected even when it failed the policy', () => {
+    const candidates = [candidate(20, 50), candidate(25, 60)];
+    const measured = new Map([
+      [candidates[0], metrics(0.7, 20, 0.6)],
+      [candidates[1], metrics(0.75, 18, 0.65)],
+    ]);
+
+    const reports = buildCandidateReports({
+      candidates,
+      metrics: measured,
+      evaluations: evaluate(candidates, measured, new Set(), SMALLEST_PASSING_POLICY),
+      rejected: new Set<ReportableCandidate>(),
+      selected: candidates[1],
+    });
+
+    expect(reports[1]).toMatchObject({ selected: true, passed: false });
+    expect(reports[0].selected).toBe(false);
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * 후보 리더보드 생성
+ * 평가에서 제외된 후보(측정 실패, 투명도 손실)도 사유와 함께 시도 순서대로 포함
+ */
+import type { CandidateReport, OptimizationConfig } from "./optimizer";
+import type { QualityMetrics } from "./qualityMetrics";
+import type { CandidateEvaluation, ScoringCandidate } from "./scoringPolicy";
+
+export interface ReportableCandidate {
+  blob: Blob;
+  config: OptimizationConfig;
+  sizeKB: number;
+}
+
+/**
+ * 시도한 모든 후보의 평가 결과를 리포트로 변환
+ * evaluations의 candidate.source는 candidates의 원소를 가리켜야 함
+ */
+export function buildCandidateReports<T extends ReportableCandidate>({
+  candidates,
+  metrics,
+  evaluations,
+  rejected,
+  selected,
+}: {
+  candidates: T[];
+  metrics: Map<T, QualityMetrics>; // 측정에 성공한 후보만
+  evaluations: CandidateEvaluation<ScoringCandidate & { source: T }>[];
+  rejected: Set<T>; // 투명도 손실로 평가 전에 탈락한 후보
+  selected: T;
+}): CandidateReport[] {
+  const evaluationBySource = new Map(
+    evaluations.map((evaluation) => [evaluation.candidate.source, evaluation])
+  );
+
+  return candidates.map((candidate, index) => {
+    const candidateMetrics = metrics.get(candidate);
+    const evaluation = evaluationBySource.get(candidate);
+
+    let failureReason = evaluation?.failureReason;
+    if (!candidateMetrics) {
+      failureReason = "품질 측정 실패";
+    } else if (rejected.has(candidate)) {
+      failureReason = `투명도 손실 ${((candidateMetrics.transparencyLoss ?? 0) * 100).toFixed(1)}%`;
+    }
+
+    return {
+      index,
+      blob: candidate.blob,
+      config: candidate.config,
+      sizeKB: candidate.sizeKB,
+      metrics: candidateMetrics,
+      criteria: evaluation?.criteria ?? [],
+      passed: evaluation?.passed ?? false,
+      score: evaluation?.score ?? null,
+      selected: candidate === selected,
+      failureReason,
+    };
+  });
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { deltaE, deltaE2000, deltaE76, deltaE94, rgbToLab, type Lab } from './colorDifference';
+
+// Sharma, Wu, Dalal (2005) "The CIEDE2000 Color-Difference Formula" Table 1
+const SHARMA_TEST_DATA: [number, number, number, number, number, number, number][] = [
+  [50.0, 2.6772, -79.7751, 50.0, 0.0, -82.7485, 2.0425],
+  [50.0, 3.1571, -77.2803, 50.0, 0.0, -82.7485, 2.8615],
+  [50.0, 2.8361, -74.02, 50.0, 0.0, -82.7485, 3.4412],
+  [50.0, -1.3802, -84.2814, 50.0, 0.0, -82.7485, 1.0],
+  [50.0, -1.1848, -84.8006, 50.0, 0.0, -82.7485, 1.0],
+  [50.0, -0.9009, -85.5211, 50.0, 0.0, -82.7485, 1.0],
+  [50.0, 0.0, 0.0, 50.0, -1.0, 2.0, 2.3669],
+  [50.0, -1.0, 2.0, 50.0, 0.0, 0.0, 2.3669],
+  [50.0, 2.49, -0.001, 50.0, -2.49, 0.0009, 7.1792],
+  [50.0, 2.49, -0.001, 50.0, -2.49, 0.001, 7.1792],
+  [50.0, 2.49, -0.001, 50.0, -2.49, 0.0011, 7.2195],
+  [50.0, 2.49, -0.001, 50.0, -2.49, 0.0012, 7.2195],
+  [50.0, -0.001, 2.49, 50.0, 0.0009, -2.49, 4.8045],
+  [50.0, -0.001, 2.49, 50.0, 0.001, -2.49, 4.8045],
+  [50.0, -0.001, 2.49, 50.0, 0.0011, -2.49, 4.7461],
+  [50.0, 2.5, 0.0, 50.0, 0.0, -2.5, 4.3065],
+  [50.0, 2.5, 0.0, 73.0, 25.0, -18.0, 27.1492],
+  [50.0, 2.5, 0.0, 61.0, -5.0, 29.0, 22.8977],
+  [50.0, 2.5, 0.0, 56.0, -27.0, -3.0, 31.903],
+  [50.0, 2.5, 0.0, 58.0, 24.0, 15.0, 19.4535],
+  [50.0, 2.5, 0.0, 50.0, 3.1736, 0.5854, 1.0],
+  [50.0, 2.5, 0.0, 50.0, 3.2972, 0.0, 1.0],
+  [50.0, 2.5, 0.0, 50.0, 1.8634, 0.5757, 1.0],
+  [50.0, 2.5, 0.0, 50.0, 3.2592, 0.335, 1.0],
+  [60.2574, -34.0099, 36.2677, 60.4626, -34.1751, 39.4387, 1.2644],
+  [63.0109, -31.0961, -5.8663, 62.8187, -29.7946, -4.0864, 1.263],
+  [61.2901, 3.7196, -5.3901, 61.4292, 2.248, -4.962, 1.8731],
+  [35.0831, -44.1164, 3.7933, 35.0232, -40.0716, 1.5901, 1.8645],
+  [22.7233, 20.0904, -46.694, 23.0331, 14.973, -42.5619, 2.0373],
+  [36.4612, 47.858, 18.3852, 36.2715, 50.5065, 21.2231, 1.4146],
+  [90.8027, -2.0831, 1.441, 91.1528, -1.6435, 0.0447, 1.4441],
+  [90.9257, -0.5406, -0.9208, 88.6381, -0.8985, -0.7239, 1.5381],
+  [6.7747, -0.2908, -2.4247, 5.8714, -0.0985, -2.2286, 0.6377],
+  [2.0776, 0.0795, -1.135, 0.9033, -0.0636, -0.5514, 0.9082],
+];
+
+describe('Color Difference Formulas', () => {
+  describe('CIEDE2000 (Sharma test vectors)', () => {
+    it.each(SHARMA_TEST_DATA.map((row, i) => [i + 1, ...row]))(
+      'pair %i',
+      (_pair, L1, a1, b1, L2, a2, b2, expected) => {
+        const lab1: Lab = { L: L1, a: a1, b: b1 };
+        const lab2: Lab = { L: L2, a: a2, b: b2 };
+
+        expect(deltaE2000(lab1, lab2)).toBeCloseTo(expected, 4);
+        // CIEDE2000은 대칭
+        expect(deltaE2000(lab2, lab1)).toBeCloseTo(expected, 4);
+      }
+    );
+
+    it('should be zero for identical colors', () => {
+      const lab = { L: 42, a: -12.5, b: 30 };
+      expect(deltaE2000(lab, lab)).toBe(0);
+    });
+  });
+
+  describe('CIE76', () => {
+    it('should be the euclidean distance in LAB', () => {
+      expect(deltaE76({ L: 50, a: 0, b: 0 }, { L: 53, a: 4, b: 0 })).toBeCloseTo(5, 10);
+    });
+  });
+
+  describe('CIE94', () => {
+    it('should equal the lightness difference for neutral colors', () => {
+      expect(deltaE94({ L: 50, a: 0, b: 0 }, { L: 47, a: 0, b: 0 })).toBeCloseTo(3, 10);
+    });
+
+    it('should weight chroma differences down for saturated reference colors', () => {
+      const reference = { L: 50, a: 60, b: 0 };
+      const sample = { L: 50, a: 65, b: 0 };
+
+      // ΔC = 5, SC = 1 + 0.045 * 60 = 3.7
+      expect(deltaE94(reference, sample)).toBeCloseTo(5 / 3.7, 10);
+      expect(deltaE94(reference, sample)).toBeLessThan(deltaE76(reference, sample));
+    });
+  });
+
+  it('should select the formula by name', () => {
+    const lab1 = { L: 50, a: 2.5, b: 0 };
+    const lab2 = { L: 58, a: 24, b: 15 };
+
+    expect(deltaE(lab1, lab2)).toBe(deltaE2000(lab1, lab2));
+    expect(deltaE(lab1, lab2, 'cie76')).toBe(deltaE76(lab1, lab2));
+    expect(deltaE(lab1, lab2, 'cie94')).toBe(deltaE94(lab1, lab2));
+  });
+
+  it('should convert sRGB primaries to CIELAB', () => {
+    const white = rgbToLab({ r: 255, g: 255, b: 255 });
+    expect(white.L).toBeCloseTo(100, 2);
+    expect(white.a).toBeCloseTo(0, 2);
+    expect(white.b).toBeCloseTo(0, 2);
+
+    const red = rgbToLab({ r: 255, g: 0, b: 0 });
+    expect(red.L).toBeCloseTo(53.24, 1);
+    expect(red.a).toBeCloseTo(80.09, 1);
+    expect(red.b).toBeCloseTo(67.2, 1);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * 색차 공식 모듈
+ * sRGB → CIELAB 변환과 ΔE76 / ΔE94 / CIEDE2000 색차 계산
+ */
+
+export interface Lab {
+  L: number;
+  a: number;
+  b: number;
+}
+
+export type DeltaEFormula = "cie76" | "cie94" | "ciede2000";
+
+/**
+ * sRGB(0-255) → CIELAB (D65)
+ */
+export function rgbToLab(rgb: { r: number; g: number; b: number }): Lab {
+  // RGB → XYZ
+  let r = rgb.r / 255;
+  let g = rgb.g / 255;
+  let b = rgb.b / 255;
+
+  r = r > 0.04045 ? Math.pow((r + 0.055) / 1.055, 2.4) : r / 12.92;
+  g = g > 0.04045 ? Math.pow((g + 0.055) / 1.055, 2.4) : g / 12.92;
+  b = b > 0.04045 ? Math.pow((b + 0.055) / 1.055, 2.4) : b / 12.92;
+
+  let x = r * 0.4124564 + g * 0.3575761 + b * 0.1804375;
+  let y = r * 0.2126729 + g * 0.7151522 + b * 0.072175;
+  let z = r * 0.0193339 + g * 0.119192 + b * 0.9503041;
+
+  // XYZ → LAB (D65 illuminant)
+  x /= 0.95047;
+  y /= 1.0;
+  z /= 1.08883;
+
+  x = x > 0.008856 ? Math.pow(x, 1 / 3) : 7.787 * x + 16 / 116;
+  y = y > 0.008856 ? Math.pow(y, 1 / 3) : 7.787 * y + 16 / 116;
+  z = z > 0.008856 ? Math.pow(z, 1 / 3) : 7.787 * z + 16 / 116;
+
+  return { L: 116 * y - 16, a: 500 * (x - y), b: 200 * (y - z) };
+}
+
+/**
+ * ΔE*ab (CIE76): LAB 공간의 유클리드 거리
+ */
+export function deltaE76(lab1: Lab, lab2: Lab): number {
+  const deltaL = lab1.L - lab2.L;
+  const deltaA = lab1.a - lab2.a;
+  const deltaB = lab1.b - lab2.b;
+
+  return Math.sqrt(deltaL * deltaL + deltaA * deltaA + deltaB * deltaB);
+}
+
+/**
+ * ΔE*94 (CIE94, 그래픽 아트 가중치 kL=1, K1=0.045, K2=0.015)
+ * lab1을 기준색으로 사용하므로 비대칭
+ */
+export function deltaE94(lab1: Lab, lab2: Lab): number {
+  const deltaL = lab1.L - lab2.L;
+  const C1 = Math.hypot(lab1.a, lab1.b);
+  const C2 = Math.hypot(lab2.a, lab2.b);
+  const deltaC = C1 - C2;
+  const deltaA = lab1.a - lab2.a;
+  const deltaB = lab1.b - lab2.b;
+  // 반올림 오차로 음수가 되는 경우 방지
+  const deltaHSq = Math.max(
+    0,
+    deltaA * deltaA + deltaB * deltaB - deltaC * deltaC
+  );
+
+  const SC = 1 + 0.045 * C1;
+  const SH = 1 + 0.015 * C1;
+
+  return Math.sqrt(
+    deltaL * deltaL + Math.pow(deltaC / SC, 2) + deltaHSq / (SH * SH)
+  );
+}
+
+/**
+ * CIEDE2000 (kL = kC = kH = 1)
+ * Sharma, Wu, Dalal (2005) 구현 노트 기준: a' 보정, 색상각 회전 항(RT), 명도/채도/색상 가중치 포함
+ */
+export function deltaE2000(lab1: Lab, lab2: Lab): number {
+  const C1 = Math.hypot(lab1.a, lab1.b);
+  const C2 = Math.hypot(lab2.a, lab2.b);
+  const CBar7 = Math.pow((C1 + C2) / 2, 7);
+  const G = 0.5 * (1 - Math.sqrt(CBar7 / (CBar7 + POW25_7)));
+
+  const a1p = (1 + G) * lab1.a;
+  const a2p = (1 + G) * lab2.a;
+  const C1p = Math.hypot(a1p, lab1.b);
+  const C2p = Math.hypot(a2p, lab2.b);
+  const h1p = hueAngle(lab1.b, a1p);
+  const h2p = hueAngle(lab2.b, a2p);
+
+  const deltaLp = lab2.L - lab1.L;
+  const deltaCp = C2p - C1p;
+
+  let deltahp = 0;
+  if (C1p * C2p !== 0) {
+    deltahp = h2p - h1p;
+    if (deltahp > 180) deltahp -= 360;
+    else if (deltahp < -180) deltahp += 360;
+  }
+  const deltaHp = 2 * Math.sqrt(C1p * C2p) * Math.sin(toRadians(deltahp / 2));
+
+  const LBarp = (lab1.L + lab2.L) / 2;
+  const CBarp = (C1p + C2p) / 2;
+
+  let hBarp = h1p + h2p;
+  if (C1p * C2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) hBarp = (h1p + h2p) / 2;
+    else if (h1p + h2p < 360) hBarp = (h1p + h2p + 360) / 2;
+    else hBarp = (h1p + h2p - 360) / 2;
+  }
+
+  const T =
+    1 -
+    0.17 * Math.cos(toRadians(hBarp - 30)) +
+    0.24 * Math.cos(toRadians(2 * hBarp)) +
+    0.32 * Math.cos(toRadians(3 * hBarp + 6)) -
+    0.2 * Math.cos(toRadians(4 * hBarp - 63));
+
+  const deltaTheta = 30 * Math.exp(-Math.pow((hBarp - 275) / 25, 2));
+  const CBarp7 = Math.pow(CBarp, 7);
+  const RC = 2 * Math.sqrt(CBarp7 / (CBarp7 + POW25_7));
+  const LBarpSq = Math.pow(LBarp - 50, 2);
+
+  const SL = 1 + (0.015 * LBarpSq) / Math.sqrt(20 + LBarpSq);
+  const SC = 1 + 0.045 * CBarp;
+  const SH = 1 + 0.015 * CBarp * T;
+  const RT = -Math.sin(toRadians(2 * deltaTheta)) * RC;
+
+  const lightness = deltaLp / SL;
+  const chroma = deltaCp / SC;
+  const hue = deltaHp / SH;
+
+  return Math.sqrt(
+    lightness * lightness + chroma * chroma + hue * hue + RT * chroma * hue
+  );
+}
+
+/**
+ * 공식 이름으로 색차 계산
+ */
+export function deltaE(
+  lab1: Lab,
+  lab2: Lab,
+  formula: DeltaEFormula = "ciede2000"
+): number {
+  switch (formula) {
+    case "cie76":
+      return deltaE76(lab1, lab2);
+    case "cie94":
+      return deltaE94(lab1, lab2);
+    default:
+      return deltaE2000(lab1, lab2);
+  }
+}
+
+const POW25_7 = Math.pow(25, 7);
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+// 0 ≤ h < 360 (도 단위), a = b = 0이면 0
+function hueAngle(b: number, a: number): number {
+  if (a === 0 && b === 0) return 0;
+  const h = (Math.atan2(b, a) * 180) / Math.PI;
+  return h >= 0 ? h : h + 360;
+}
@@ -1,28 +1,46 @@
 import { FFmpeg } from "@ffmpeg/ffmpeg";
-import { fetchFile } from "@ffmpeg/util";
-import { optimizeGifToWebp } from "./optimizer";
+import { throwIfAborted, toAbortError } from "./abort";
+import { execEncoder } from "./encoderExec";
+import { assertOutputFormatsSupported } from "./encoderSupport";
+import type { GifMetadata } from "./gifAnalyzer";
+import { prepareInput } from "./inputSource";
+import {
+  optimizeGifToWebp,
+  type CandidateReport,
+  type OptimizationConfig,
+  type OptimizationResult,
+} from "./optimizer";
+import {
+  buildAvifArgs,
+  buildGifArgs,
+  buildVideoArgs,
+  isVideoFormat,
+  MAX_CRF,
+  OUTPUT_FORMATS,
+  qualityToCrf,
+  type OutputFormat,
+} from "./outputFormat";
+import {
+  applyOutputTransform,
+  hasOutputTransform,
+  type OutputTransform,
+} from "./outputTransform";
 import type { QualityMetrics } from "./qualityMetrics";
+import type { ScoringPolicy, ScoringPolicyName } from "./scoringPolicy";
+import type { QualityTarget } from "./targetQuality";
+import { deleteTempFiles } from "./tempFiles";
+import { retimeAnimatedWebp } from "./webpAnimation";
 
 export interface ConversionResult {
   url: string;
+  blob: Blob; // ZIP 내보내기 등 URL 외 접근용
   outputName: string;
   sizeKB: number;
   metrics?: QualityMetrics;
   compressionRatio?: number;
-  metadata?: {
-    frameCount: number;
-    fps: number;
-    width: number;
-    height: number;
-    hasAlpha: boolean;
-  };
+  metadata?: GifMetadata;
   encodingStrategy?: string;
-  config?: {
-    method?: number;
-    nearLossless?: number;
-    useSharpYuv?: boolean;
-    lossless: boolean;
-  };
+  config?: OptimizationConfig; // 최적화 모드에서 선택된 전체 설정
   compressionStats?: {
     originalSizeKB: number;
     compressedSizeKB: number;
@@ -31,6 +49,7 @@ export interface ConversionResult {
     isLargerThanOriginal: boolean;
     bitsPerPixel: number;
   };
+  candidates?: CandidateReport[]; // 최적화 모드에서 시도한 모든 후보
 }
 
 /**
@@ -41,11 +60,19 @@ export async function convertToWebp({
   input,
   quality,
   compression,
+  signal,
+  jobId,
+  format = "webp",
+  transform,
 }: {
   ffmpeg: FFmpeg;
   input: File | string;
   quality: number;
   compression: number;
+  signal?: AbortSignal;
+  jobId?: string; // 동시 실행 시 MEMFS 파일명 구분용
+  format?: OutputFormat; // avif: quality는 CRF로, compression은 인코딩 속도로 변환 / gif: quality는 색상 수로 변환 / mp4·webm: quality는 CRF로 변환
+  transform?: OutputTransform; // 크기/크롭/프레임레이트/구간/속도 변환
 }): Promise<ConversionResult | null> {
   if (!ffmpeg) return null;
 
@@ -56,47 +83,125 @@ export async function convertToWebp({
     baseName = input.split("/").pop()?.replace(/\.[^/.]+$/, "") || "sample";
   }
 
-  const inputName = "input.gif";
-  const outputName = `${baseName}.webp`;
-
-  await ffmpeg.writeFile(inputName, await fetchFile(input));
-
-  await ffmpeg.exec([
-    "-i",
-    inputName,
-    "-filter:v",
-    "scale=iw:-1:flags=lanczos,format=rgba",
-    "-c:v",
-    "libwebp",
-    "-q:v",
-    String(quality),
-    "-compression_level",
-    String(compression),
-    "-preset",
-    "picture",
-    "-pix_fmt",
-    "rgba",
-    "-loop",
-    "0",
-    "-an",
-    "-vsync",
-    "0",
-    outputName,
-  ]);
-
-  const data = (await ffmpeg.readFile(outputName)) as Uint8Array;
-  const blob = new Blob([data.slice().buffer], { type: "image/webp" });
-  const url = URL.createObjectURL(blob);
-
-  // 정리
+  const outputName = `${baseName}.${OUTPUT_FORMATS[format].extension}`;
+  const filePrefix = jobId ? `${jobId}_` : "";
+  const outputFile = `${filePrefix}out_${outputName}`; // 출력이 입력 파일명과 겹치지 않도록 구분
+  let inputName = `${filePrefix}input`;
+  const transformedName = `${filePrefix}input_transformed.apng`;
+
   try {
-    await ffmpeg.deleteFile(inputName);
-    await ffmpeg.deleteFile(outputName);
-  } catch {
-    // 정리 실패 무시
-  }
+    await assertOutputFormatsSupported(ffmpeg, [format]);
+    const prepared = await prepareInput(input, signal);
+    throwIfAborted(signal);
+    let { metadata } = prepared;
+    inputName = `${filePrefix}input.${prepared.extension}`;
+    await ffmpeg.writeFile(inputName, prepared.data, { signal });
+
+    // 출력 변환은 무손실 APNG 중간본으로 먼저 적용 (인코딩 필터 체인은 그대로 유지)
+    let sourceName = inputName;
+    if (transform && hasOutputTransform(transform)) {
+      const transformed = await applyOutputTransform({
+        ffmpeg,
+        inputName,
+        outputName: transformedName,
+        metadata,
+        transform,
+        signal,
+      });
+      await ffmpeg.writeFile(transformedName, transformed.data, { signal });
+      metadata = transformed.metadata;
+      sourceName = transformedName;
+    }
+    const { frameDelays, hasAlpha } = metadata;
+
+    // AVIF/GIF/동영상: 컨테이너가 프레임 지연을 그대로 기록하므로 retime 불필요
+    if (format !== "webp") {
+      const filterChain = "scale=iw:-1:flags=lanczos";
+      const args = isVideoFormat(format)
+        ? buildVideoArgs({
+            format,
+            inputName: sourceName,
+            outputName: outputFile,
+            filterChain,
+            options: {
+              crf: qualityToCrf(quality, MAX_CRF[format]),
+              speed: Math.max(0, 8 - compression),
+              alpha: hasAlpha,
+            },
+          })
+        : format === "avif"
+          ? buildAvifArgs({
+              inputName: sourceName,
+              outputName: outputFile,
+              filterChain,
+              options: {
+                crf: qualityToCrf(quality),
+                cpuUsed: Math.max(0, 8 - compression), // 압축 레벨이 높을수록 느리고 작게
+                chromaSubsampling: quality >= 90 ? "444" : "420",
+                alphaPlane: hasAlpha,
+              },
+            })
+          : buildGifArgs({
+              inputName: sourceName,
+              outputName: outputFile,
+              filterChain,
+              options: {
+                maxColors: Math.max(16, Math.round((quality / 100) * 256)), // 품질에 비례한 색상 수
+                statsMode: "diff",
+                dither: quality >= 90 ? "none" : "bayer:bayer_scale=3",
+                transparencyDiff: true,
+              },
+            });
+      await execEncoder(ffmpeg, args, signal);
+
+      const data = (await ffmpeg.readFile(outputFile, undefined, {
+        signal,
+      })) as Uint8Array;
+      const blob = new Blob([data.slice().buffer], {
+        type: OUTPUT_FORMATS[format].mimeType,
+      });
+      const url = URL.createObjectURL(blob);
 
-  return { url, outputName, sizeKB: blob.size / 1024 };
+      return { url, blob, outputName, sizeKB: blob.size / 1024 };
+    }
+
+    await execEncoder(ffmpeg, [
+      "-i",
+      sourceName,
+      "-filter:v",
+      "scale=iw:-1:flags=lanczos,format=rgba",
+      "-c:v",
+      "libwebp",
+      "-q:v",
+      String(quality),
+      "-compression_level",
+      String(compression),
+      "-preset",
+      "picture",
+      "-pix_fmt",
+      "rgba",
+      "-loop",
+      "0",
+      "-an",
+      "-vsync",
+      "0",
+      outputFile,
+    ], signal);
+
+    const data = (await ffmpeg.readFile(outputFile, undefined, {
+      signal,
+    })) as Uint8Array;
+    const retimed = retimeAnimatedWebp(data, frameDelays);
+    const blob = new Blob([retimed.slice().buffer], { type: "image/webp" });
+    const url = URL.createObjectURL(blob);
+
+    return { url, blob, outputName, sizeKB: blob.size / 1024 };
+  } catch (error) {
+    throw toAbortError(error, signal);
+  } finally {
+    // 정리 (취소/실패 시에도 MEMFS 파일 삭제)
+    await deleteTempFiles(ffmpeg, [inputName, transformedName, outputFile]);
+  }
 }
 
 /**
@@ -107,11 +212,27 @@ export async function convertToWebpOptimized({
   input,
   progressCallback,
   lossless = false,
+  signal,
+  jobId,
+  targetSizeKB,
+  qualityTarget,
+  scoringPolicy,
+  outputFormats,
+  gifFallback,
+  transform,
 }: {
   ffmpeg: FFmpeg;
   input: File | string;
   progressCallback?: (progress: number, message: string) => void;
   lossless?: boolean;
+  signal?: AbortSignal;
+  jobId?: string;
+  targetSizeKB?: number; // 목표 용량 모드 (KB)
+  qualityTarget?: QualityTarget; // 목표 품질 모드
+  scoringPolicy?: ScoringPolicy | ScoringPolicyName; // 후보 선택 정책
+  outputFormats?: OutputFormat[]; // 후보로 비교할 출력 포맷 (기본값: WebP)
+  gifFallback?: boolean; // 원본보다 작은 결과가 없으면 재최적화 GIF 시도
+  transform?: OutputTransform; // 출력 변환 (모든 후보와 품질 비교 기준에 동일 적용)
 }): Promise<ConversionResult | null> {
   if (!ffmpeg) return null;
 
@@ -120,30 +241,34 @@ export async function convertToWebpOptimized({
     input,
     progressCallback,
     lossless,
+    signal,
+    jobId,
+    targetSizeKB,
+    qualityTarget,
+    scoringPolicy,
+    outputFormats,
+    gifFallback,
+    transform,
   });
 
-  if (!result) return null;
+  return result ? toConversionResult(result) : null;
+}
 
+/**
+ * 최적화 결과 → 화면/내보내기용 변환 결과
+ */
+export function toConversionResult(result: OptimizationResult): ConversionResult {
   return {
     url: result.url,
+    blob: result.blob,
     outputName: result.outputName,
     sizeKB: result.sizeKB,
     metrics: result.metrics,
     compressionRatio: result.compressionRatio,
-    metadata: {
-      frameCount: result.metadata.frameCount,
-      fps: result.metadata.fps,
-      width: result.metadata.width,
-      height: result.metadata.height,
-      hasAlpha: result.metadata.hasAlpha,
-    },
+    metadata: result.metadata,
     encodingStrategy: result.config.encodingStrategy,
-    config: {
-      method: result.config.method,
-      nearLossless: result.config.nearLossless,
-      useSharpYuv: result.config.useSharpYuv,
-      lossless: result.config.lossless,
-    },
+    config: result.config,
     compressionStats: result.compressionStats,
+    candidates: result.candidates,
   };
 }
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { searchCrf } from './crfSearch';
+import type { QualityMetrics } from './qualityMetrics';
+
+interface FakeVideo {
+  crf: number;
+  sizeKB: number;
+}
+
+// 가상 인코더: CRF가 높을수록 작고 흐려짐
+const encode = async (crf: number): Promise<FakeVideo> => ({ crf, sizeKB: 200 - crf * 4 });
+const measure = async ({ crf }: FakeVideo): Promise<QualityMetrics> => ({
+  ssim: 1 - crf * 0.002,
+  psnr: 40,
+  deltaE: crf / 10,
+  edgePreservation: 0.95,
+});
+
+describe('CRF Search', () => {
+  it('should find the highest CRF that meets the quality target', async () => {
+    // SSIM ≥ 0.95 → CRF ≤ 25, ΔE ≤ 3 → CRF ≤ 30 ⇒ CRF 24~25
+    const { best, measured } = await searchCrf({
+      minCrf: 10,
+      maxCrf: 50,
+      target: { minSsim: 0.95, maxDeltaE: 3 },
+      encode,
+      measure,
+    });
+
+    expect(best).not.toBeNull();
+    expect(best!.candidate.crf).toBeGreaterThanOrEqual(23);
+    expect(best!.candidate.crf).toBeLessThanOrEqual(25);
+    expect(measured.length).toBeLessThanOrEqual(6);
+  });
+
+  it('should return null when even the lowest CRF fails', async () => {
+    const { best, measured } = await searchCrf({
+      minCrf: 10,
+      maxCrf: 50,
+      target: { minSsim: 0.999, maxDeltaE: 0.1 },
+      encode,
+      measure,
+    });
+
+    expect(best).toBeNull();
+    expect(measured.length).toBeGreaterThan(0);
+  });
+
+  it('should treat a failed encode as a miss and keep searching', async () => {
+    const attempts: (number | null)[] = [];
+    const { best, measured } = await searchCrf({
+      minCrf: 10,
+      maxCrf: 50,
+      target: { minSsim: 0.95, maxDeltaE: 3 },
+      // CRF 30 이상에서는 인코더가 중단됨
+      encode: async (crf) => {
+        if (crf >= 30) throw new Error('memory access out of bounds');
+        return encode(crf);
+      },
+      measure,
+      onAttempt: (crf, result) => attempts.push(result && crf),
+    });
+
+    expect(attempts).toContain(null);
+    expect(best!.candidate.crf).toBeGreaterThanOrEqual(23);
+    expect(best!.candidate.crf).toBeLessThanOrEqual(25);
+    expect(measured.every(({ candidate }) => candidate.crf < 30)).toBe(true);
+  });
+
+  it('should stop when the signal is aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      searchCrf({ minCrf: 10, maxCrf: 50, encode, measure, signal: controller.signal })
+    ).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
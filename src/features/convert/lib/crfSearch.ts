@@ -0,0 +1,77 @@
+/**
+ * 동영상 CRF 탐색
+ * 품질 기준을 만족하는 가장 높은 CRF(가장 작은 파일)를 이분 탐색으로 찾음
+ * 측정은 기존 품질 메트릭(SSIM/ΔE)을 그대로 사용
+ * 인코딩/측정에 실패한 CRF는 기준 미달과 같이 취급하고 탐색을 계속함
+ */
+import { isAbortError, throwIfAborted } from "./abort";
+import { bisectParameter } from "./parameterSearch";
+import type { QualityMetrics } from "./qualityMetrics";
+import {
+  meetsQualityTarget,
+  type MeasuredCandidate,
+  type QualityTarget,
+} from "./targetQuality";
+
+export interface CrfSearchResult<T> {
+  best: MeasuredCandidate<T> | null; // 기준을 만족하는 가장 높은 CRF 후보
+  measured: MeasuredCandidate<T>[]; // 평가 순서대로 기록
+}
+
+// 목표 품질 미지정 시 기준 (최적화 손실 표준 기준과 동일)
+export const DEFAULT_VIDEO_QUALITY_TARGET: QualityTarget = {
+  minSsim: 0.95,
+  maxDeltaE: 5.0,
+};
+
+/**
+ * 기준을 만족하는 최대 CRF 탐색
+ */
+export async function searchCrf<T extends { sizeKB: number }>({
+  minCrf,
+  maxCrf,
+  target = DEFAULT_VIDEO_QUALITY_TARGET,
+  encode,
+  measure,
+  signal,
+  onAttempt,
+}: {
+  minCrf: number;
+  maxCrf: number;
+  target?: QualityTarget;
+  encode: (crf: number) => Promise<T>;
+  measure: (candidate: T) => Promise<QualityMetrics>;
+  signal?: AbortSignal;
+  onAttempt?: (crf: number, result: MeasuredCandidate<T> | null, attempt: number) => void; // 실패 시 result는 null
+}): Promise<CrfSearchResult<T>> {
+  const measured: MeasuredCandidate<T>[] = [];
+  let attempts = 0;
+
+  const { best } = await bisectParameter({
+    low: minCrf,
+    high: maxCrf,
+    evaluate: async (crf): Promise<MeasuredCandidate<T> | null> => {
+      throwIfAborted(signal);
+      let result: MeasuredCandidate<T> | null = null;
+      try {
+        const candidate = await encode(crf);
+        throwIfAborted(signal);
+        result = { candidate, metrics: await measure(candidate) };
+        measured.push(result);
+      } catch (error) {
+        // 취소는 탐색 전체 중단, 인코딩/측정 실패는 이 CRF만 제외 (기준 미달과 같이 취급)
+        if (signal?.aborted || isAbortError(error)) throw error;
+      }
+      attempts++;
+      onAttempt?.(crf, result, attempts);
+      return result;
+    },
+    accept: (result) =>
+      result !== null && meetsQualityTarget(result.metrics, target),
+    prefer: "high",
+    precision: 2,
+    maxSteps: 6,
+  });
+
+  return { best: best?.result ?? null, measured };
+}
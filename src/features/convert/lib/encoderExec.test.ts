@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import type { FFmpeg } from '@ffmpeg/ffmpeg';
+import { EncoderError, execEncoder } from './encoderExec';
+
+// 실행할 때 로그를 출력하고 지정한 종료 코드를 반환하는 가짜 ffmpeg
+function fakeFFmpeg(code: number, lines: string[]) {
+  const listeners = new Set<(log: { type: string; message: string }) => void>();
+  const ffmpeg = {
+    on: (_: string, callback: (log: { type: string; message: string }) => void) => listeners.add(callback),
+    off: (_: string, callback: (log: { type: string; message: string }) => void) => listeners.delete(callback),
+    exec: async () => {
+      for (const message of lines) {
+        for (const listener of listeners) listener({ type: 'stderr', message });
+      }
+      return code;
+    },
+  } as unknown as FFmpeg;
+  return { ffmpeg, listeners };
+}
+
+describe('Encoder Exec', () => {
+  it('should resolve on a zero exit code and stop listening to the log', async () => {
+    const { ffmpeg, listeners } = fakeFFmpeg(0, ['frame=1']);
+
+    await expect(execEncoder(ffmpeg, ['-i', 'in.gif', 'out.webp'])).resolves.toBeUndefined();
+    expect(listeners.size).toBe(0);
+  });
+
+  it('should throw with the exit code and the tail of the encoder log', async () => {
+    const lines = Array.from({ length: 15 }, (_, i) => `line ${i}`);
+    const { ffmpeg, listeners } = fakeFFmpeg(1, [...lines, 'Unrecognized option \'foo\'']);
+
+    const error = await execEncoder(ffmpeg, ['-foo']).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(EncoderError);
+    expect((error as EncoderError).code).toBe(1);
+    expect((error as EncoderError).log).toHaveLength(10);
+    expect((error as Error).message).toMatch(/^ffmpeg 인코딩 실패 \(종료 코드 1\)\n/);
+    expect((error as Error).message).toContain('Unrecognized option \'foo\'');
+    expect((error as Error).message).not.toContain('line 0');
+    expect(listeners.size).toBe(0);
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * ffmpeg 인코딩 실행
+ * 종료 코드를 확인하고, 실패하면 실행 중 출력된 ffmpeg 로그의 마지막 부분을 에러에 담음
+ * (지원하지 않는 옵션 등으로 실패하면 출력 파일이 없으므로 readFile의 FS 에러 대신 원인을 알 수 있게 함)
+ */
+import { FFmpeg } from "@ffmpeg/ffmpeg";
+
+const LOG_TAIL_LINES = 10;
+
+/**
+ * ffmpeg가 0이 아닌 종료 코드로 끝난 경우
+ */
+export class EncoderError extends Error {
+  readonly code: number;
+  readonly log: string[]; // 실패 직전의 ffmpeg 로그 (최대 LOG_TAIL_LINES줄)
+
+  constructor(code: number, log: string[]) {
+    super(
+      [`ffmpeg 인코딩 실패 (종료 코드 ${code})`, ...log].join("\n")
+    );
+    this.name = "EncoderError";
+    this.code = code;
+    this.log = log;
+  }
+}
+
+/**
+ * ffmpeg 실행 후 종료 코드 확인 (실패 시 EncoderError)
+ */
+export async function execEncoder(
+  ffmpeg: FFmpeg,
+  args: string[],
+  signal?: AbortSignal
+): Promise<void> {
+  const log: string[] = [];
+  const onLog = ({ message }: { message: string }) => {
+    log.push(message);
+    if (log.length > LOG_TAIL_LINES) log.shift();
+  };
+
+  ffmpeg.on("log", onLog);
+  try {
+    const code = await ffmpeg.exec(args, undefined, { signal });
+    if (code !== 0) {
+      throw new EncoderError(code, log);
+    }
+  } finally {
+    ffmpeg.off("log", onLog);
+  }
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import type { FFmpeg } from '@ffmpeg/ffmpeg';
+import {
+  assertOutputFormatsSupported,
+  getSupportedOutputFormats,
+  supportsOutputFormat,
+  UnsupportedOutputFormatError,
+} from './encoderSupport';
+
+// 기본 @ffmpeg/core처럼 AV1 인코더만 없는 가짜 ffmpeg (실행한 인자 기록)
+function fakeFFmpeg(missingEncoders = ['libaom-av1']) {
+  const calls: string[][] = [];
+  const ffmpeg = {
+    exec: async (args: string[]) => {
+      calls.push(args);
+      return missingEncoders.includes(args[args.indexOf('-c:v') + 1]) ? 1 : 0;
+    },
+    deleteFile: async () => true,
+  } as unknown as FFmpeg;
+  return { ffmpeg, calls };
+}
+
+describe('Encoder Support', () => {
+  it('should report formats whose encoder fails as unsupported', async () => {
+    const { ffmpeg } = fakeFFmpeg();
+
+    expect(await getSupportedOutputFormats(ffmpeg)).toEqual(['webp', 'gif', 'mp4', 'webm']);
+    expect(await supportsOutputFormat(ffmpeg, 'avif')).toBe(false);
+  });
+
+  it('should probe each encoder only once per instance', async () => {
+    const { ffmpeg, calls } = fakeFFmpeg();
+
+    await Promise.all([supportsOutputFormat(ffmpeg, 'avif'), supportsOutputFormat(ffmpeg, 'avif')]);
+    await supportsOutputFormat(ffmpeg, 'avif');
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0]).toContain('libaom-av1');
+  });
+
+  it('should reject requests that include an unsupported format', async () => {
+    const { ffmpeg } = fakeFFmpeg();
+
+    await expect(assertOutputFormatsSupported(ffmpeg, ['webp'])).resolves.toBeUndefined();
+
+    const error = await assertOutputFormatsSupported(ffmpeg, ['webp', 'avif']).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(UnsupportedOutputFormatError);
+    expect((error as UnsupportedOutputFormatError).formats).toEqual(['avif']);
+    expect((error as Error).message).toBe('현재 ffmpeg 빌드는 AVIF(libaom-av1) 인코딩을 지원하지 않습니다');
+  });
+});
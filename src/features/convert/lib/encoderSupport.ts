@@ -0,0 +1,123 @@
+/**
+ * 출력 포맷별 인코더 지원 확인
+ * ffmpeg.wasm 빌드마다 포함된 인코더가 다르므로 (기본 @ffmpeg/core에는 AV1 인코더가 없음)
+ * 짧은 입력을 실제로 인코딩해 보고 종료 코드로 판단 (인스턴스별로 한 번만 확인)
+ * 동영상은 인코더가 있어도 실제 옵션으로 여러 프레임을 인코딩할 때 실패할 수 있으므로
+ * (기본 코어의 VP9는 작은 크기에서만 간혹 성공하고 실제 입력에서는 중단됨) 변환과 같은 인자로 여러 프레임을 인코딩해 확인
+ */
+import { FFmpeg } from "@ffmpeg/ffmpeg";
+import {
+  buildVideoArgs,
+  isVideoFormat,
+  OUTPUT_FORMATS,
+  type OutputFormat,
+} from "./outputFormat";
+import { deleteTempFiles } from "./tempFiles";
+
+/**
+ * 현재 ffmpeg 빌드에 요청한 포맷의 인코더가 없는 경우
+ */
+export class UnsupportedOutputFormatError extends Error {
+  readonly formats: OutputFormat[];
+
+  constructor(formats: OutputFormat[]) {
+    super(
+      `현재 ffmpeg 빌드는 ${formats
+        .map((format) => `${OUTPUT_FORMATS[format].label}(${OUTPUT_FORMATS[format].encoder})`)
+        .join(", ")} 인코딩을 지원하지 않습니다`
+    );
+    this.name = "UnsupportedOutputFormatError";
+    this.formats = formats;
+  }
+}
+
+const probes = new WeakMap<FFmpeg, Map<OutputFormat, Promise<boolean>>>();
+
+/**
+ * 포맷의 인코더로 짧은 입력을 인코딩할 수 있는지 확인
+ */
+export function supportsOutputFormat(
+  ffmpeg: FFmpeg,
+  format: OutputFormat
+): Promise<boolean> {
+  let cache = probes.get(ffmpeg);
+  if (!cache) {
+    cache = new Map();
+    probes.set(ffmpeg, cache);
+  }
+
+  let probe = cache.get(format);
+  if (!probe) {
+    probe = probeEncoder(ffmpeg, format);
+    cache.set(format, probe);
+  }
+  return probe;
+}
+
+/**
+ * 지원되는 포맷만 골라 반환 (순서 유지)
+ */
+export async function getSupportedOutputFormats(
+  ffmpeg: FFmpeg,
+  formats: OutputFormat[] = Object.keys(OUTPUT_FORMATS) as OutputFormat[]
+): Promise<OutputFormat[]> {
+  const supported: OutputFormat[] = [];
+  for (const format of formats) {
+    if (await supportsOutputFormat(ffmpeg, format)) supported.push(format);
+  }
+  return supported;
+}
+
+/**
+ * 요청한 포맷 중 하나라도 인코더가 없으면 UnsupportedOutputFormatError
+ */
+export async function assertOutputFormatsSupported(
+  ffmpeg: FFmpeg,
+  formats: OutputFormat[]
+): Promise<void> {
+  const supported = await getSupportedOutputFormats(ffmpeg, formats);
+  const unsupported = formats.filter((format) => !supported.includes(format));
+  if (unsupported.length > 0) {
+    throw new UnsupportedOutputFormatError(unsupported);
+  }
+}
+
+async function probeEncoder(ffmpeg: FFmpeg, format: OutputFormat): Promise<boolean> {
+  const { encoder, extension } = OUTPUT_FORMATS[format];
+  const outputName = `encoder_probe.${extension}`;
+
+  const args = isVideoFormat(format)
+    ? [
+        "-f",
+        "lavfi",
+        ...buildVideoArgs({
+          format,
+          inputName: "testsrc=size=128x96:rate=10:duration=1",
+          outputName,
+          filterChain: "null",
+          options: { crf: 30, speed: 2, alpha: false },
+        }),
+      ]
+    : [
+        "-f",
+        "lavfi",
+        "-i",
+        "color=size=16x16:duration=0.1",
+        "-frames:v",
+        "1",
+        "-c:v",
+        encoder,
+        "-f",
+        format,
+        "-y",
+        outputName,
+      ];
+
+  try {
+    return (await ffmpeg.exec(args)) === 0;
+  } catch {
+    return false;
+  } finally {
+    await deleteTempFiles(ffmpeg, [outputName]);
+  }
+}
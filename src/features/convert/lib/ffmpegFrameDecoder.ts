@@ -0,0 +1,230 @@
+/**
+ * ffmpeg 기반 프레임 디코더 (DOM/WebCodecs 불필요)
+ * 캔버스를 거치지 않아 알파 곱셈/색 관리 없이 파일에 기록된 RGBA를 그대로 얻으므로
+ * ffmpeg가 로드된 모든 환경(브라우저 앱, Node CLI)에서 품질 측정의 기본 디코더로 등록
+ * 프레임을 -f rawvideo -pix_fmt rgba로 디코딩하고, ffmpeg가 읽지 못하는 애니메이션 WebP는
+ * ANMF 프레임을 정지 WebP로 분리해 하나씩 디코딩한 뒤 캔버스에 직접 합성
+ */
+import { FFmpeg } from "@ffmpeg/ffmpeg";
+import { isAnimatedPng, parseApng } from "./apng";
+import { readAnimationTimeline, type FrameDecoder } from "./animationFrames";
+import { readMp4VideoTrack } from "./avifSequence";
+import { parseGif } from "./gifParser";
+import { buildSelectExpression } from "./outputTransform";
+import type { ImageData } from "./qualityMetrics";
+import { deleteTempFiles } from "./tempFiles";
+import {
+  readWebpCanvas,
+  readWebpFrameImages,
+  type WebpFrameImage,
+} from "./webpAnimation";
+import { parseWebm } from "./webmParser";
+
+interface SourceInfo {
+  extension: string; // MEMFS 파일 확장자 (ffmpeg demuxer 선택용)
+  width: number;
+  height: number;
+  frameCount: number;
+}
+
+/**
+ * ffmpeg 인스턴스로 프레임을 디코딩하는 FrameDecoder 생성
+ */
+export function createFfmpegFrameDecoder(ffmpeg: FFmpeg): FrameDecoder {
+  let sequence = 0;
+  const nextKey = () => `framedecode_${sequence++}`;
+
+  return {
+    async decodeFrames(blob, frameIndices) {
+      const data = new Uint8Array(await blob.arrayBuffer());
+
+      if (blob.type === "image/webp") {
+        const frames = readWebpFrameImages(data);
+        if (frames.length > 0) {
+          return decodeAnimatedWebp(ffmpeg, data, frames, frameIndices, nextKey);
+        }
+      }
+
+      const info = readSourceInfo(data, blob.type);
+      const indices = frameIndices.map((index) => Math.min(index, info.frameCount - 1));
+      const unique = [...new Set(indices)].sort((a, b) => a - b);
+
+      const frames = await decodeRawFrames(ffmpeg, data, info, unique, nextKey());
+      return indices.map((index) => frames[Math.min(unique.indexOf(index), frames.length - 1)]);
+    },
+  };
+}
+
+/**
+ * 지정한 프레임만 골라 RGBA로 디코딩 (모든 프레임이면 select 생략)
+ */
+async function decodeRawFrames(
+  ffmpeg: FFmpeg,
+  data: Uint8Array,
+  info: SourceInfo,
+  indices: number[],
+  fileKey: string
+): Promise<ImageData[]> {
+  const inputName = `${fileKey}.${info.extension}`;
+  const outputName = `${fileKey}.rgba`;
+
+  try {
+    await ffmpeg.writeFile(inputName, data);
+    await ffmpeg.exec([
+      "-i",
+      inputName,
+      ...(indices.length < info.frameCount
+        ? ["-filter:v", `select=${buildSelectExpression(indices)}`]
+        : []),
+      "-vsync",
+      "0",
+      "-f",
+      "rawvideo",
+      "-pix_fmt",
+      "rgba",
+      outputName,
+    ]);
+
+    const raw = (await ffmpeg.readFile(outputName)) as Uint8Array;
+    const frameSize = info.width * info.height * 4;
+    const count = Math.floor(raw.length / frameSize);
+    if (count === 0) {
+      throw new Error("프레임을 디코딩하지 못했습니다");
+    }
+
+    return Array.from({ length: Math.min(count, indices.length) }, (_, i) => ({
+      data: new Uint8ClampedArray(raw.slice(i * frameSize, (i + 1) * frameSize).buffer),
+      width: info.width,
+      height: info.height,
+    }));
+  } finally {
+    await deleteTempFiles(ffmpeg, [inputName, outputName]);
+  }
+}
+
+/**
+ * 애니메이션 WebP: 필요한 마지막 프레임까지 순서대로 합성하며 요청한 프레임을 복사
+ */
+async function decodeAnimatedWebp(
+  ffmpeg: FFmpeg,
+  data: Uint8Array,
+  frames: WebpFrameImage[],
+  frameIndices: number[],
+  nextKey: () => string
+): Promise<ImageData[]> {
+  const { width, height } = readWebpCanvas(data);
+  const indices = frameIndices.map((index) => Math.min(index, frames.length - 1));
+  const lastIndex = Math.max(...indices);
+
+  // 브라우저 디코더와 같이 배경색 대신 투명 캔버스에서 시작
+  const canvas = new Uint8ClampedArray(width * height * 4);
+  const snapshots = new Map<number, Uint8ClampedArray>();
+
+  for (let i = 0; i <= lastIndex; i++) {
+    const frame = frames[i];
+    const [pixels] = await decodeRawFrames(
+      ffmpeg,
+      frame.image,
+      { extension: "webp", width: frame.width, height: frame.height, frameCount: 1 },
+      [0],
+      nextKey()
+    );
+    drawFrame(canvas, width, height, frame, pixels.data);
+
+    if (indices.includes(i)) snapshots.set(i, canvas.slice());
+    if (frame.disposal === "background") {
+      clearRect(canvas, width, height, frame);
+    }
+  }
+
+  return indices.map((index) => ({ data: snapshots.get(index)!, width, height }));
+}
+
+/**
+ * 프레임 영역을 캔버스에 그리기 (over: straight alpha 합성, source: 덮어쓰기)
+ */
+function drawFrame(
+  canvas: Uint8ClampedArray,
+  canvasWidth: number,
+  canvasHeight: number,
+  frame: WebpFrameImage,
+  pixels: Uint8ClampedArray
+) {
+  const right = Math.min(canvasWidth, frame.left + frame.width);
+  const bottom = Math.min(canvasHeight, frame.top + frame.height);
+
+  for (let y = frame.top; y < bottom; y++) {
+    for (let x = frame.left; x < right; x++) {
+      const src = ((y - frame.top) * frame.width + (x - frame.left)) * 4;
+      const dst = (y * canvasWidth + x) * 4;
+      const alpha = pixels[src + 3] / 255;
+
+      if (frame.blend === "source" || alpha === 1) {
+        canvas.set(pixels.subarray(src, src + 4), dst);
+        continue;
+      }
+
+      const below = (canvas[dst + 3] / 255) * (1 - alpha);
+      const outAlpha = alpha + below;
+      for (let c = 0; c < 3; c++) {
+        canvas[dst + c] =
+          outAlpha > 0 ? (pixels[src + c] * alpha + canvas[dst + c] * below) / outAlpha : 0;
+      }
+      canvas[dst + 3] = outAlpha * 255;
+    }
+  }
+}
+
+function clearRect(
+  canvas: Uint8ClampedArray,
+  canvasWidth: number,
+  canvasHeight: number,
+  frame: WebpFrameImage
+) {
+  const right = Math.min(canvasWidth, frame.left + frame.width);
+  const bottom = Math.min(canvasHeight, frame.top + frame.height);
+  for (let y = frame.top; y < bottom; y++) {
+    canvas.fill(0, (y * canvasWidth + frame.left) * 4, (y * canvasWidth + right) * 4);
+  }
+}
+
+/**
+ * MIME 타입별 컨테이너에서 해상도/프레임 수 읽기 (rawvideo 출력 분할용)
+ */
+function readSourceInfo(data: Uint8Array, mimeType: string): SourceInfo {
+  switch (mimeType) {
+    case "image/gif": {
+      const { width, height } = parseGif(data);
+      return { extension: "gif", width, height, frameCount: readAnimationTimeline(data, mimeType).length };
+    }
+    case "image/png": {
+      const { width, height } = parseApng(data);
+      return {
+        extension: isAnimatedPng(data) ? "apng" : "png",
+        width,
+        height,
+        frameCount: readAnimationTimeline(data, mimeType).length,
+      };
+    }
+    case "image/webp": {
+      const { width, height } = readWebpCanvas(data);
+      return { extension: "webp", width, height, frameCount: 1 };
+    }
+    case "image/avif":
+    case "video/mp4": {
+      const { width, height, frameDurations } = readMp4VideoTrack(data);
+      return {
+        extension: mimeType === "image/avif" ? "avif" : "mp4",
+        width,
+        height,
+        frameCount: frameDurations.length,
+      };
+    }
+    case "video/webm": {
+      const { width, height, frameDurations } = parseWebm(data);
+      return { extension: "webm", width, height, frameCount: frameDurations.length };
+    }
+    default:
+      throw new Error(`디코딩할 수 없는 형식입니다: ${mimeType || "알 수 없음"}`);
+  }
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createDuplicateDetector,
+  hashPixels,
+  isNearDuplicate,
+  mergeDuplicateFrames,
+} from './frameDuplicates';
+import type { ImageData } from './qualityMetrics';
+
+// 가로 그라디언트 (블록마다 다른 값이라 바이트 비교만으로는 구분이 안 되는 변화를 만들기 쉬움)
+function gradient(width: number, height: number, offset = 0): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data.set([(x * 8 + offset) % 256, y * 4, 128, 255], (y * width + x) * 4);
+    }
+  }
+  return { data, width, height };
+}
+
+function withPixel(image: ImageData, x: number, y: number, rgba: number[]): ImageData {
+  const data = new Uint8ClampedArray(image.data);
+  data.set(rgba, (y * image.width + x) * 4);
+  return { ...image, data };
+}
+
+describe('Frame Duplicate Detection', () => {
+  it('should hash identical pixels equally and any change differently', () => {
+    const image = gradient(16, 16);
+
+    expect(hashPixels(gradient(16, 16))).toBe(hashPixels(image));
+    expect(hashPixels(withPixel(image, 3, 3, [0, 0, 0, 255]))).not.toBe(hashPixels(image));
+    expect(hashPixels({ ...image, width: 8, height: 32 })).not.toBe(hashPixels(image));
+  });
+
+  it('should treat tiny noise as a near duplicate but not a real change', () => {
+    const image = gradient(32, 32);
+    const noisy = withPixel(image, 5, 5, [image.data[20] + 3, 20, 128, 255]);
+    // 한 블록 전체가 바뀜 (블록 차이 합이 hi를 넘음)
+    let moved = image;
+    for (let y = 8; y < 16; y++) {
+      for (let x = 8; x < 16; x++) moved = withPixel(moved, x, y, [255, 255, 255, 255]);
+    }
+
+    expect(isNearDuplicate(image, noisy)).toBe(true);
+    expect(isNearDuplicate(image, moved)).toBe(false);
+    expect(isNearDuplicate(image, gradient(32, 32, 64))).toBe(false);
+  });
+
+  it('should count alpha changes as differences', () => {
+    const image = gradient(8, 8);
+    // 색은 그대로 두고 첫 줄만 투명하게
+    let hidden = image;
+    for (let x = 0; x < 8; x++) hidden = withPixel(hidden, x, 0, [x * 8, 0, 128, 0]);
+
+    expect(isNearDuplicate(image, hidden)).toBe(false);
+    expect(hashPixels(hidden)).not.toBe(hashPixels(image));
+  });
+
+  it('should compare against the last kept frame so slow drift is not merged away', () => {
+    const isDuplicate = createDuplicateDetector({ hi: 512, lo: 64, frac: 0 });
+    // 프레임마다 세 픽셀이 20씩 밝아짐 (직전 프레임과는 블록 차이 60으로 거의 같음)
+    const frames = [0, 1, 2, 3].map((step) => {
+      let image = gradient(8, 8);
+      for (let x = 0; x < 3; x++) image = withPixel(image, x, 0, [x * 8 + step * 20, 0, 128, 255]);
+      return image;
+    });
+
+    expect(frames.map((frame) => isDuplicate(frame))).toEqual([false, true, false, true]);
+  });
+
+  it('should merge duplicate delays into the preceding kept frame', () => {
+    expect(mergeDuplicateFrames([100, 40, 40, 70, 30], [false, true, true, false, true])).toEqual({
+      indices: [0, 3],
+      delays: [180, 100],
+    });
+    // 첫 프레임은 중복으로 표시되어도 유지
+    expect(mergeDuplicateFrames([50, 50], [true, false])).toEqual({ indices: [0, 1], delays: [50, 50] });
+  });
+});
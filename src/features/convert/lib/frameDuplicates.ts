@@ -0,0 +1,120 @@
+/**
+ * 디코딩된 픽셀 기준 중복 프레임 판정
+ * 완전히 같은 프레임은 픽셀 해시로, 거의 같은 프레임은 8×8 블록 차이 임계값(mpdecimate와 같은 방식)으로 찾고
+ * 중복 프레임의 표시 시간은 직전 유지 프레임에 합산해 전체 재생 시간을 보존
+ */
+import type { FrameTimeline } from "./outputTransform";
+import type { ImageData } from "./qualityMetrics";
+
+export interface DuplicateThreshold {
+  hi: number; // 블록 차이 합이 이 값을 넘는 블록이 하나라도 있으면 다른 프레임
+  lo: number; // 블록 차이 합이 이 값을 넘는 블록의 비율이
+  frac: number; // 이 값 이하일 때만 중복으로 판정
+}
+
+// 매우 유사한 프레임만 중복으로 취급 (기존 mpdecimate 필터와 같은 민감도)
+export const DEFAULT_DUPLICATE_THRESHOLD: DuplicateThreshold = {
+  hi: 512,
+  lo: 64,
+  frac: 0.1,
+};
+
+const BLOCK_SIZE = 8;
+
+/**
+ * RGBA 픽셀 해시 (두 갈래 FNV-1a, 해상도 포함)
+ */
+export function hashPixels({ data, width, height }: ImageData): string {
+  let h1 = 0x811c9dc5;
+  let h2 = 0x01000193 ^ width ^ (height << 16);
+
+  for (let i = 0; i < data.length; i++) {
+    h1 = Math.imul(h1 ^ data[i], 0x01000193);
+    h2 = Math.imul(h2 ^ data[i], 0x5bd1e995);
+    h2 ^= h2 >>> 15;
+  }
+
+  return `${width}x${height}:${(h1 >>> 0).toString(16).padStart(8, "0")}${(h2 >>> 0).toString(16).padStart(8, "0")}`;
+}
+
+/**
+ * 거의 같은 프레임인지 판정
+ * 픽셀별 최대 채널(RGBA) 차이를 8×8 블록 단위로 합산해 임계값과 비교
+ */
+export function isNearDuplicate(
+  a: ImageData,
+  b: ImageData,
+  threshold: DuplicateThreshold = DEFAULT_DUPLICATE_THRESHOLD
+): boolean {
+  if (a.width !== b.width || a.height !== b.height) return false;
+
+  const { width, height } = a;
+  const blocksX = Math.ceil(width / BLOCK_SIZE);
+  const blocksY = Math.ceil(height / BLOCK_SIZE);
+  const maxChanged = threshold.frac * blocksX * blocksY;
+  let changed = 0;
+
+  for (let by = 0; by < blocksY; by++) {
+    for (let bx = 0; bx < blocksX; bx++) {
+      let sum = 0;
+      for (let y = by * BLOCK_SIZE; y < Math.min(height, (by + 1) * BLOCK_SIZE); y++) {
+        for (let x = bx * BLOCK_SIZE; x < Math.min(width, (bx + 1) * BLOCK_SIZE); x++) {
+          const i = (y * width + x) * 4;
+          sum += Math.max(
+            Math.abs(a.data[i] - b.data[i]),
+            Math.abs(a.data[i + 1] - b.data[i + 1]),
+            Math.abs(a.data[i + 2] - b.data[i + 2]),
+            Math.abs(a.data[i + 3] - b.data[i + 3])
+          );
+        }
+      }
+
+      if (sum > threshold.hi) return false;
+      if (sum > threshold.lo && ++changed > maxChanged) return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * 순서대로 들어오는 프레임의 중복 여부를 판정하는 검사기
+ * 변화가 조금씩 누적되지 않도록 직전 프레임이 아닌 마지막 유지 프레임과 비교 (첫 프레임은 항상 유지)
+ */
+export function createDuplicateDetector(
+  threshold: DuplicateThreshold = DEFAULT_DUPLICATE_THRESHOLD
+) {
+  let reference: { image: ImageData; hash: string } | null = null;
+
+  return (image: ImageData): boolean => {
+    const hash = hashPixels(image);
+    const duplicate =
+      reference !== null &&
+      (hash === reference.hash || isNearDuplicate(reference.image, image, threshold));
+
+    if (!duplicate) reference = { image, hash };
+    return duplicate;
+  };
+}
+
+/**
+ * 중복 프레임을 제외한 타임라인 (중복 프레임의 표시 시간은 직전 유지 프레임에 합산)
+ */
+export function mergeDuplicateFrames(
+  frameDelays: number[],
+  duplicates: boolean[]
+): FrameTimeline {
+  const indices: number[] = [];
+  const delays: number[] = [];
+
+  frameDelays.forEach((delay, i) => {
+    if (duplicates[i] && indices.length > 0) {
+      delays[delays.length - 1] += delay;
+    } else {
+      indices.push(i);
+      delays.push(delay);
+    }
+  });
+
+  return { indices, delays };
+}
@@ -1,14 +1,29 @@
 import { FFmpeg } from "@ffmpeg/ffmpeg";
-import { fetchFile } from "@ffmpeg/util";
+import { throwIfAborted } from "./abort";
+import {
+  createDuplicateDetector,
+  type DuplicateThreshold,
+} from "./frameDuplicates";
+import { parseGif, type GifContainer, type GifFrame } from "./gifParser";
+import type { InputFormat } from "./inputFormat";
+import type { ImageData } from "./qualityMetrics";
+import { deleteTempFiles } from "./tempFiles";
+
+// 한 번에 디코딩할 RGBA 프레임 용량
+const DECODE_BATCH_BYTES = 32 * 1024 * 1024;
 
 export interface GifMetadata {
+  format: InputFormat; // 입력 포맷 (GIF 외 입력도 같은 메타데이터로 표현)
   frameCount: number;
-  fps: number;
+  fps: number; // 평균 프레임레이트 (frameCount / duration)
   width: number;
   height: number;
   hasAlpha: boolean;
-  duration: number;
+  duration: number; // 전체 재생 시간 (초)
   avgBitrate: number;
+  frames: GifFrame[]; // 프레임별 지연, 처리 방식, 투명 인덱스, 영역 (GIF 입력만, 그 외 빈 배열)
+  frameDelays: number[]; // 프레임별 표시 시간 (ms)
+  loopCount: number | null; // 0=무한 반복, null=반복 확장 없음
 }
 
 export interface FrameAnalysis {
@@ -16,97 +31,76 @@ export interface FrameAnalysis {
   uniqueFrames: number;
   duplicateFrames: number;
   compressionRatio: number;
+  duplicates: boolean[]; // 프레임별: 마지막 유지 프레임과 같은 내용 (병합 대상)
 }
 
 /**
  * GIF 메타데이터 분석
- * ffprobe를 사용하여 프레임 수, FPS, 해상도 등을 추출
+ * GIF 블록을 직접 파싱하여 프레임 수, 실제 지연 시간, 해상도 등을 추출 (FFmpeg 불필요)
  */
 export async function analyzeGifMetadata(
-  ffmpeg: FFmpeg,
   input: File | string
 ): Promise<GifMetadata> {
-  const inputName = "analyze_input.gif";
-  await ffmpeg.writeFile(inputName, await fetchFile(input));
-
-  // FFmpeg로 GIF 정보 추출
-  // 첫 프레임을 PNG로 변환하여 알파 채널 확인
-  const testOutput = "alpha_test.png";
-  await ffmpeg.exec([
-    "-i",
-    inputName,
-    "-vframes",
-    "1",
-    "-f",
-    "image2",
-    testOutput,
-  ]);
-
-  const alphaData = (await ffmpeg.readFile(testOutput)) as Uint8Array;
-  const hasAlpha = await checkAlphaChannel(alphaData);
-
-  // GIF 프레임 수 계산을 위해 모든 프레임 추출
-  await ffmpeg.exec([
-    "-i",
-    inputName,
-    "-vsync",
-    "0",
-    "frame_%04d.png",
-  ]);
-
-  // 생성된 프레임 파일 확인
-  let frameCount = 0;
-  const maxFrames = 1000; // 최대 체크 범위
-
-  for (let i = 1; i <= maxFrames; i++) {
-    const frameName = `frame_${String(i).padStart(4, "0")}.png`;
-    try {
-      await ffmpeg.readFile(frameName);
-      frameCount++;
-    } catch {
-      break;
-    }
-  }
-
-  // 파일 크기 확인
-  const inputData = (await ffmpeg.readFile(inputName)) as Uint8Array;
-  const fileSize = inputData.length;
-
-  // 첫 프레임으로 해상도 확인
-  const firstFrame = (await ffmpeg.readFile("frame_0001.png")) as Uint8Array;
-  const { width, height } = await getImageDimensions(firstFrame);
+  return readGifMetadata(await readInputBytes(input));
+}
 
-  // FPS 추정 (기본 GIF는 10fps, 실제로는 delay 시간으로 계산해야 함)
-  const estimatedFps = 10; // GIF 표준 기본값
-  const duration = frameCount / estimatedFps;
-  const avgBitrate = (fileSize * 8) / duration / 1000; // kbps
+/**
+ * GIF 바이트 배열에서 메타데이터 추출
+ */
+export function readGifMetadata(data: Uint8Array): GifMetadata {
+  const gif = parseGif(data);
 
-  // 임시 파일 정리
-  try {
-    await ffmpeg.deleteFile(inputName);
-    await ffmpeg.deleteFile(testOutput);
-    for (let i = 1; i <= frameCount; i++) {
-      const frameName = `frame_${String(i).padStart(4, "0")}.png`;
-      await ffmpeg.deleteFile(frameName);
-    }
-  } catch {
-    // 정리 실패는 무시
+  if (gif.frames.length === 0) {
+    throw new Error("GIF에 프레임이 없습니다");
   }
 
+  const frameCount = gif.frames.length;
+  const frameDelays = gif.frames.map((frame) => frame.delay);
+  const duration = frameDelays.reduce((sum, delay) => sum + delay, 0) / 1000;
+  const fps = frameCount / duration;
+  const avgBitrate = (data.length * 8) / duration / 1000; // kbps
+
   return {
+    format: "gif",
     frameCount,
-    fps: estimatedFps,
-    width,
-    height,
-    hasAlpha,
+    fps,
+    width: gif.width,
+    height: gif.height,
+    hasAlpha: detectTransparency(gif),
     duration,
     avgBitrate,
+    frames: gif.frames,
+    frameDelays,
+    loopCount: gif.loopCount,
   };
 }
 
+/**
+ * 렌더링 결과에 투명 픽셀이 생길 수 있는지 판단
+ * 첫 프레임의 투명 색상/부분 영역, 또는 배경으로 지우는 프레임이 있으면 투명으로 간주
+ */
+function detectTransparency(gif: GifContainer): boolean {
+  const [first] = gif.frames;
+  const coversCanvas =
+    first.left === 0 &&
+    first.top === 0 &&
+    first.width >= gif.width &&
+    first.height >= gif.height;
+
+  if (first.transparentIndex !== null || !coversCanvas) return true;
+
+  return gif.frames.some((frame) => frame.disposal === "background");
+}
+
+export interface InspectedFrame {
+  frame: GifFrame; // 지연, 처리 방식, 영역, 로컬 팔레트 크기
+  image: Blob; // 이전 프레임까지 합성된 전체 프레임 (PNG)
+  duplicate: boolean; // 직전 유지 프레임과 내용이 같음
+}
+
 /**
  * 프레임 중복도 분석
- * 연속된 프레임 간의 유사도를 계산하여 중복 프레임 감지
+ * 합성된 프레임을 픽셀 단위로 비교해 완전히 같거나 거의 같은 프레임 감지
  */
 export async function analyzeFrameDuplication(
   ffmpeg: FFmpeg,
@@ -114,123 +108,174 @@ export async function analyzeFrameDuplication(
   metadata: GifMetadata
 ): Promise<FrameAnalysis> {
   const inputName = "dup_input.gif";
-  await ffmpeg.writeFile(inputName, await fetchFile(input));
-
-  // 모든 프레임을 PNG로 추출
-  await ffmpeg.exec([
-    "-i",
-    inputName,
-    "-vsync",
-    "0",
-    "dup_frame_%04d.png",
-  ]);
-
-  let duplicateCount = 0;
-  const threshold = 0.99; // PSNR 유사도 임계값
-
-  // 연속 프레임 간 비교
-  for (let i = 1; i < metadata.frameCount; i++) {
-    const frame1 = `dup_frame_${String(i).padStart(4, "0")}.png`;
-    const frame2 = `dup_frame_${String(i + 1).padStart(4, "0")}.png`;
-
-    try {
-      const similarity = await compareFrames(ffmpeg, frame1, frame2);
-      if (similarity > threshold) {
-        duplicateCount++;
-      }
-    } catch {
-      // 비교 실패 시 계속 진행
-      continue;
-    }
-  }
-
-  const uniqueFrames = metadata.frameCount - duplicateCount;
-  const compressionRatio = uniqueFrames / metadata.frameCount;
+  await ffmpeg.writeFile(inputName, await readInputBytes(input));
 
-  // 임시 파일 정리
   try {
-    await ffmpeg.deleteFile(inputName);
-    for (let i = 1; i <= metadata.frameCount; i++) {
-      const frameName = `dup_frame_${String(i).padStart(4, "0")}.png`;
-      await ffmpeg.deleteFile(frameName);
-    }
-  } catch {
-    // 정리 실패는 무시
+    return await detectDuplicateFrames(ffmpeg, inputName, metadata);
+  } finally {
+    await deleteTempFiles(ffmpeg, [inputName]);
   }
+}
+
+/**
+ * MEMFS에 기록된 입력의 중복 프레임 분석 (최적화 파이프라인에서 준비된 입력을 그대로 사용)
+ */
+export async function detectDuplicateFrames(
+  ffmpeg: FFmpeg,
+  inputName: string,
+  metadata: Pick<GifMetadata, "width" | "height" | "frameCount">,
+  {
+    prefix = "dup",
+    threshold,
+    signal,
+  }: { prefix?: string; threshold?: DuplicateThreshold; signal?: AbortSignal } = {}
+): Promise<FrameAnalysis> {
+  const { frameCount } = metadata;
+  const isDuplicate = createDuplicateDetector(threshold);
+  const flags: boolean[] = [];
+
+  await decodeFrameBatches(ffmpeg, inputName, metadata, prefix, signal, (image) => {
+    flags.push(isDuplicate(image));
+  });
+
+  // ffmpeg가 디코딩하지 못한 뒤쪽 프레임은 유지 프레임으로 취급
+  const duplicates = Array.from({ length: frameCount }, (_, i) => flags[i] ?? false);
+
+  const duplicateCount = duplicates.filter(Boolean).length;
+  const uniqueFrames = frameCount - duplicateCount;
+  const compressionRatio = uniqueFrames / frameCount;
 
   return {
-    totalFrames: metadata.frameCount,
+    totalFrames: frameCount,
     uniqueFrames,
     duplicateFrames: duplicateCount,
     compressionRatio,
+    duplicates,
   };
 }
 
 /**
- * 두 프레임 간 유사도 계산 (간소화 버전)
- * 실제로는 PSNR 또는 SSIM을 사용하지만, 여기서는 파일 크기로 근사
+ * 프레임 검사기용 프레임별 정보
+ * 합성된 프레임 이미지와 GIF 블록 정보(지연, 처리 방식, 영역, 로컬 팔레트), 중복 여부를 함께 반환
  */
-async function compareFrames(
+export async function inspectGifFrames(
   ffmpeg: FFmpeg,
-  frame1: string,
-  frame2: string
-): Promise<number> {
-  try {
-    const data1 = (await ffmpeg.readFile(frame1)) as Uint8Array;
-    const data2 = (await ffmpeg.readFile(frame2)) as Uint8Array;
-
-    // 간단한 바이트 비교 (실제로는 픽셀 레벨 비교 필요)
-    if (data1.length !== data2.length) return 0;
-
-    let matchingBytes = 0;
-    const sampleSize = Math.min(data1.length, 10000); // 샘플링으로 성능 개선
+  input: File | string,
+  metadata: GifMetadata
+): Promise<InspectedFrame[]> {
+  if (metadata.frames.length === 0) {
+    throw new Error("프레임 검사는 GIF 입력만 지원합니다");
+  }
 
-    for (let i = 0; i < sampleSize; i++) {
-      if (data1[i] === data2[i]) matchingBytes++;
-    }
+  const inputName = "inspect_input.gif";
+  await ffmpeg.writeFile(inputName, await readInputBytes(input));
 
-    return matchingBytes / sampleSize;
-  } catch {
-    return 0;
+  try {
+    const images = await extractFramePngs(ffmpeg, inputName, metadata.frameCount, "inspect");
+    const { duplicates } = await detectDuplicateFrames(ffmpeg, inputName, metadata, {
+      prefix: "inspect",
+    });
+
+    // ffmpeg가 디코딩하지 못한 뒤쪽 프레임은 제외
+    return images.map((image, i) => ({
+      frame: metadata.frames[i],
+      image: new Blob([image.slice().buffer], { type: "image/png" }),
+      duplicate: duplicates[i],
+    }));
+  } finally {
+    await deleteTempFiles(ffmpeg, [inputName]);
   }
 }
 
 /**
- * PNG 데이터에서 알파 채널 존재 여부 확인
+ * MEMFS의 입력에서 모든 프레임을 합성된 PNG로 추출하고 프레임 파일 정리
  */
-async function checkAlphaChannel(pngData: Uint8Array): Promise<boolean> {
-  // PNG 시그니처 확인
-  if (
-    pngData[0] !== 0x89 ||
-    pngData[1] !== 0x50 ||
-    pngData[2] !== 0x4e ||
-    pngData[3] !== 0x47
-  ) {
-    return false;
-  }
+async function extractFramePngs(
+  ffmpeg: FFmpeg,
+  inputName: string,
+  frameCount: number,
+  prefix: string
+): Promise<Uint8Array[]> {
+  const frameName = (i: number) => `${prefix}_frame_${String(i).padStart(4, "0")}.png`;
+  const frames: Uint8Array[] = [];
+
+  try {
+    await ffmpeg.exec(["-i", inputName, "-vsync", "0", `${prefix}_frame_%04d.png`]);
 
-  // IHDR 청크에서 컬러 타입 확인
-  // PNG 구조: 시그니처(8) + IHDR 청크
-  // IHDR: 길이(4) + "IHDR"(4) + 데이터(13) + CRC(4)
-  // 컬러 타입은 IHDR 데이터의 9번째 바이트 (인덱스 25)
-  const colorType = pngData[25];
+    for (let i = 1; i <= frameCount; i++) {
+      try {
+        frames.push((await ffmpeg.readFile(frameName(i))) as Uint8Array);
+      } catch {
+        break;
+      }
+    }
+  } finally {
+    await deleteTempFiles(
+      ffmpeg,
+      Array.from({ length: frameCount }, (_, i) => frameName(i + 1))
+    );
+  }
 
-  // 컬러 타입: 0=Grayscale, 2=RGB, 3=Indexed, 4=Grayscale+Alpha, 6=RGBA
-  return colorType === 4 || colorType === 6;
+  return frames;
 }
 
 /**
- * PNG 이미지의 크기 추출
+ * 합성된 프레임을 순서대로 RGBA로 디코딩해 전달
+ * 구간별로 나눠 디코딩해 긴 애니메이션도 한 번에 DECODE_BATCH_BYTES 이하만 메모리에 올림
  */
-async function getImageDimensions(
-  pngData: Uint8Array
-): Promise<{ width: number; height: number }> {
-  // IHDR 청크에서 width(4바이트)와 height(4바이트) 읽기
-  const dataView = new DataView(pngData.buffer);
-  const width = dataView.getUint32(16, false); // big-endian
-  const height = dataView.getUint32(20, false);
-
-  return { width, height };
+async function decodeFrameBatches(
+  ffmpeg: FFmpeg,
+  inputName: string,
+  { width, height, frameCount }: Pick<GifMetadata, "width" | "height" | "frameCount">,
+  prefix: string,
+  signal: AbortSignal | undefined,
+  onFrame: (image: ImageData) => void
+): Promise<void> {
+  const outputName = `${prefix}_frames.rgba`;
+  const frameSize = width * height * 4;
+  const batchSize = Math.max(1, Math.floor(DECODE_BATCH_BYTES / frameSize));
+
+  try {
+    for (let start = 0; start < frameCount; start += batchSize) {
+      throwIfAborted(signal);
+      const count = Math.min(batchSize, frameCount - start);
+
+      // 구간의 마지막 프레임까지만 디코딩하고 종료
+      await ffmpeg.exec(
+        [
+          "-i",
+          inputName,
+          "-filter:v",
+          `select=between(n\\,${start}\\,${start + count - 1})`,
+          "-vsync",
+          "0",
+          "-frames:v",
+          String(count),
+          "-f",
+          "rawvideo",
+          "-pix_fmt",
+          "rgba",
+          "-y",
+          outputName,
+        ],
+        undefined,
+        { signal }
+      );
+
+      const raw = (await ffmpeg.readFile(outputName, undefined, { signal })) as Uint8Array;
+      const decoded = Math.floor(raw.length / frameSize);
+      for (let i = 0; i < decoded; i++) {
+        onFrame({
+          data: new Uint8ClampedArray(raw.buffer, raw.byteOffset + i * frameSize, frameSize),
+          width,
+          height,
+        });
+      }
+      if (decoded < count) break; // 입력 끝
+    }
+  } finally {
+    await deleteTempFiles(ffmpeg, [outputName]);
+  }
 }
 
 /**
@@ -241,16 +286,8 @@ export async function analyzePaletteSize(
   input: File | string
 ): Promise<number> {
   // GIF 파일 헤더 읽기
-  let data: ArrayBuffer;
-
-  if (input instanceof File) {
-    data = await input.arrayBuffer();
-  } else {
-    const response = await fetch(input);
-    data = await response.arrayBuffer();
-  }
-
-  const view = new DataView(data);
+  const data = await readInputBytes(input);
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
 
   // GIF 시그니처 확인 (GIF89a 또는 GIF87a)
   const sig1 = view.getUint8(0);
@@ -275,3 +312,14 @@ export async function analyzePaletteSize(
 
   return paletteSize;
 }
+
+/**
+ * 입력(File 또는 URL)을 바이트 배열로 읽기 (FileReader 없이 읽어 Node에서도 동작)
+ */
+export async function readInputBytes(input: File | string): Promise<Uint8Array> {
+  if (input instanceof File) {
+    return new Uint8Array(await input.arrayBuffer());
+  }
+  const response = await fetch(input);
+  return new Uint8Array(await response.arrayBuffer());
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { parseGif } from './gifParser';
+import { buildGif } from '../../../test/gifFixture';
+
+describe('GIF Container Parser', () => {
+  it('should read the logical screen descriptor', () => {
+    const gif = parseGif(
+      buildGif({ width: 320, height: 240, globalPaletteSize: 256, frames: [{ delay: 10 }] })
+    );
+
+    expect(gif.version).toBe('89a');
+    expect(gif.width).toBe(320);
+    expect(gif.height).toBe(240);
+    expect(gif.globalPaletteSize).toBe(256);
+  });
+
+  it('should return real per-frame delays in milliseconds', () => {
+    const gif = parseGif(
+      buildGif({
+        width: 10,
+        height: 10,
+        frames: [{ delay: 4 }, { delay: 4 }, { delay: 200 }],
+      })
+    );
+
+    expect(gif.frames.map((f) => f.delay)).toEqual([40, 40, 2000]);
+    expect(gif.frames.map((f) => f.rawDelay)).toEqual([4, 4, 200]);
+  });
+
+  it('should clamp 0-1 centisecond delays to 100ms like browsers', () => {
+    const gif = parseGif(
+      buildGif({ width: 10, height: 10, frames: [{ delay: 0 }, { delay: 1 }, { delay: 2 }] })
+    );
+
+    expect(gif.frames.map((f) => f.delay)).toEqual([100, 100, 20]);
+  });
+
+  it('should read disposal methods, transparency and frame rectangles', () => {
+    const gif = parseGif(
+      buildGif({
+        width: 100,
+        height: 80,
+        frames: [
+          { delay: 10, disposal: 1 },
+          {
+            delay: 10,
+            disposal: 2,
+            transparentIndex: 3,
+            left: 5,
+            top: 6,
+            width: 20,
+            height: 30,
+            localPaletteSize: 16,
+            interlaced: true,
+          },
+          { delay: 10, disposal: 3 },
+        ],
+      })
+    );
+
+    const [first, second, third] = gif.frames;
+    expect(first.disposal).toBe('keep');
+    expect(first.transparentIndex).toBeNull();
+    expect(second).toMatchObject({
+      index: 1,
+      left: 5,
+      top: 6,
+      width: 20,
+      height: 30,
+      disposal: 'background',
+      transparentIndex: 3,
+      localPaletteSize: 16,
+      interlaced: true,
+    });
+    expect(third.disposal).toBe('previous');
+  });
+
+  it('should read the NETSCAPE2.0 loop count', () => {
+    const infinite = parseGif(
+      buildGif({ width: 1, height: 1, loopCount: 0, frames: [{ delay: 10 }] })
+    );
+    const threeTimes = parseGif(
+      buildGif({ width: 1, height: 1, loopCount: 3, frames: [{ delay: 10 }] })
+    );
+    const noExtension = parseGif(buildGif({ width: 1, height: 1, frames: [{ delay: 10 }] }));
+
+    expect(infinite.loopCount).toBe(0);
+    expect(threeTimes.loopCount).toBe(3);
+    expect(noExtension.loopCount).toBeNull();
+  });
+
+  it('should parse GIF87a files without a global color table', () => {
+    const gif = parseGif(
+      buildGif({
+        width: 4,
+        height: 4,
+        version: '87a',
+        globalPaletteSize: 0,
+        frames: [{ delay: 10, localPaletteSize: 2 }],
+      })
+    );
+
+    expect(gif.version).toBe('87a');
+    expect(gif.globalPaletteSize).toBe(0);
+    expect(gif.frames[0].localPaletteSize).toBe(2);
+  });
+
+  it('should keep complete frames of a truncated file', () => {
+    const data = buildGif({
+      width: 10,
+      height: 10,
+      frames: [{ delay: 10 }, { delay: 20 }, { delay: 30 }],
+    });
+
+    const gif = parseGif(data.subarray(0, data.length - 4));
+
+    expect(gif.frames.map((f) => f.delay)).toEqual([100, 200]);
+  });
+
+  it('should reject non-GIF data', () => {
+    const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0, 0]);
+    expect(() => parseGif(png)).toThrow('Not a valid GIF file');
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * GIF 컨테이너 파서
+ * GIF87a/89a 블록 구조를 직접 읽어 프레임 타이밍과 구성 정보를 추출 (픽셀 디코딩은 하지 않음)
+ */
+
+export type GifDisposalMethod =
+  | "none" // 0: 지정 안 함
+  | "keep" // 1: 다음 프레임 아래에 그대로 유지
+  | "background" // 2: 프레임 영역을 배경(투명)으로 지움
+  | "previous"; // 3: 이전 상태로 복원
+
+export interface GifFrame {
+  index: number;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  delay: number; // 표시 시간 (ms, 브라우저와 동일하게 보정된 값)
+  rawDelay: number; // GCE에 기록된 원본 지연 값 (1/100초)
+  disposal: GifDisposalMethod;
+  transparentIndex: number | null; // 투명 색상 인덱스 (없으면 null)
+  interlaced: boolean;
+  localPaletteSize: number; // 로컬 색상 테이블 크기 (없으면 0)
+}
+
+export interface GifContainer {
+  version: "87a" | "89a";
+  width: number;
+  height: number;
+  globalPaletteSize: number; // 전역 색상 테이블 크기 (없으면 0)
+  backgroundColorIndex: number;
+  loopCount: number | null; // NETSCAPE2.0 반복 횟수 (0=무한, null=확장 없음 → 1회 재생)
+  frames: GifFrame[];
+}
+
+// 브라우저와 FFmpeg 모두 0~1cs 지연을 100ms로 취급
+const MIN_DELAY_CS = 2;
+const DEFAULT_DELAY_MS = 100;
+
+const DISPOSAL_METHODS: GifDisposalMethod[] = [
+  "none",
+  "keep",
+  "background",
+  "previous",
+];
+
+/**
+ * GIF 바이트 배열을 파싱하여 컨테이너 정보 반환
+ * 잘린 파일은 브라우저처럼 읽을 수 있는 프레임까지만 반환
+ */
+export function parseGif(data: Uint8Array): GifContainer {
+  if (
+    data.length < 13 ||
+    data[0] !== 0x47 ||
+    data[1] !== 0x49 ||
+    data[2] !== 0x46
+  ) {
+    throw new Error("Not a valid GIF file");
+  }
+
+  const versionText = String.fromCharCode(data[3], data[4], data[5]);
+  const version = versionText === "87a" ? "87a" : "89a";
+
+  // Logical Screen Descriptor
+  const width = readUint16(data, 6);
+  const height = readUint16(data, 8);
+  const screenPacked = data[10];
+  const backgroundColorIndex = data[11];
+  const globalPaletteSize =
+    screenPacked & 0x80 ? 1 << ((screenPacked & 0x07) + 1) : 0;
+
+  let offset = 13 + globalPaletteSize * 3;
+  let loopCount: number | null = null;
+  const frames: GifFrame[] = [];
+
+  // 다음 Image Descriptor에 적용될 Graphic Control Extension
+  let pendingControl: {
+    rawDelay: number;
+    disposal: GifDisposalMethod;
+    transparentIndex: number | null;
+  } | null = null;
+
+  while (offset < data.length) {
+    const introducer = data[offset];
+
+    if (introducer === 0x3b) {
+      // Trailer
+      break;
+    }
+
+    if (introducer === 0x21) {
+      // Extension
+      const label = data[offset + 1];
+      offset += 2;
+
+      if (label === 0xf9 && data[offset] >= 4 && offset + 5 < data.length) {
+        // Graphic Control Extension
+        const packed = data[offset + 1];
+        pendingControl = {
+          rawDelay: readUint16(data, offset + 2),
+          disposal: DISPOSAL_METHODS[(packed >> 2) & 0x07] ?? "none",
+          transparentIndex: packed & 0x01 ? data[offset + 4] : null,
+        };
+      } else if (label === 0xff && data[offset] === 11) {
+        // Application Extension (NETSCAPE2.0 / ANIMEXTS1.0 반복 정보)
+        const identifier = String.fromCharCode(
+          ...data.subarray(offset + 1, offset + 12)
+        );
+        const subBlock = offset + 12;
+        if (
+          (identifier === "NETSCAPE2.0" || identifier === "ANIMEXTS1.0") &&
+          data[subBlock] >= 3 &&
+          data[subBlock + 1] === 0x01
+        ) {
+          loopCount = readUint16(data, subBlock + 2);
+        }
+      }
+
+      offset = skipSubBlocks(data, offset);
+      continue;
+    }
+
+    if (introducer === 0x2c) {
+      // Image Descriptor
+      if (offset + 10 > data.length) break;
+
+      const packed = data[offset + 9];
+      const localPaletteSize = packed & 0x80 ? 1 << ((packed & 0x07) + 1) : 0;
+      const rawDelay = pendingControl?.rawDelay ?? 0;
+
+      const frame: GifFrame = {
+        index: frames.length,
+        left: readUint16(data, offset + 1),
+        top: readUint16(data, offset + 3),
+        width: readUint16(data, offset + 5),
+        height: readUint16(data, offset + 7),
+        delay: rawDelay < MIN_DELAY_CS ? DEFAULT_DELAY_MS : rawDelay * 10,
+        rawDelay,
+        disposal: pendingControl?.disposal ?? "none",
+        transparentIndex: pendingControl?.transparentIndex ?? null,
+        interlaced: (packed & 0x40) !== 0,
+        localPaletteSize,
+      };
+      pendingControl = null;
+
+      // 로컬 색상 테이블 + LZW 최소 코드 크기(1바이트) 건너뛰기
+      offset += 10 + localPaletteSize * 3 + 1;
+      if (offset > data.length) break;
+
+      const end = skipSubBlocks(data, offset);
+      if (end > data.length) break; // 이미지 데이터가 잘린 프레임은 제외
+      frames.push(frame);
+      offset = end;
+      continue;
+    }
+
+    // 알 수 없는 블록: 더 이상 안전하게 진행할 수 없음
+    break;
+  }
+
+  return {
+    version,
+    width,
+    height,
+    globalPaletteSize,
+    backgroundColorIndex,
+    loopCount,
+    frames,
+  };
+}
+
+/**
+ * 데이터 서브 블록 시퀀스를 건너뛰고 블록 종료자 다음 위치 반환
+ */
+function skipSubBlocks(data: Uint8Array, offset: number): number {
+  while (offset < data.length) {
+    const size = data[offset];
+    offset += 1;
+    if (size === 0) return offset;
+    offset += size;
+  }
+  return data.length + 1;
+}
+
+function readUint16(data: Uint8Array, offset: number): number {
+  return data[offset] | (data[offset + 1] << 8);
+}
@@ -0,0 +1,35 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { setFrameDecoder } from './animationFrames';
+import { decodeImage, selectPixelDecoder } from './imageDecoder';
+
+describe('Pixel Decoder Selection', () => {
+  afterEach(() => {
+    setFrameDecoder(null);
+    vi.unstubAllGlobals();
+  });
+
+  it('should prefer a registered frame decoder and return its first frame', async () => {
+    const frame = { data: new Uint8ClampedArray([1, 2, 3, 4]), width: 1, height: 1 };
+    const decodeFrames = vi.fn(async () => [frame]);
+    setFrameDecoder({ decodeFrames });
+
+    expect(selectPixelDecoder().name).toBe('frame-decoder');
+    await expect(decodeImage(new Blob([]))).resolves.toBe(frame);
+    expect(decodeFrames).toHaveBeenCalledWith(expect.any(Blob), [0]);
+  });
+
+  it('should use createImageBitmap + OffscreenCanvas before the DOM canvas', () => {
+    vi.stubGlobal('createImageBitmap', vi.fn());
+    vi.stubGlobal('OffscreenCanvas', class {});
+    expect(selectPixelDecoder().name).toBe('offscreen');
+
+    vi.stubGlobal('OffscreenCanvas', undefined);
+    expect(selectPixelDecoder().name).toBe('canvas');
+  });
+
+  it('should fail clearly when no decoder is available', () => {
+    vi.stubGlobal('OffscreenCanvas', undefined);
+    vi.stubGlobal('document', undefined);
+    expect(() => selectPixelDecoder()).toThrow('setFrameDecoder');
+  });
+});
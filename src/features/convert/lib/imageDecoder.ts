@@ -0,0 +1,137 @@
+/**
+ * 정지 이미지(애니메이션은 첫 프레임) 픽셀 디코더
+ * 등록된 프레임 디코더(ffmpeg rawvideo), createImageBitmap + OffscreenCanvas, DOM canvas 중
+ * 현재 환경에서 사용할 수 있는 구현을 순서대로 자동 선택
+ * ffmpeg가 로드된 환경(앱, CLI, 앱의 메트릭 워커)에서는 항상 ffmpeg 디코더를 사용해 환경 간 픽셀이 같음
+ * 캔버스 경로는 알파를 곱한(premultiplied) 값으로 저장하므로 반투명 픽셀의 색이 반올림되어 달라질 수 있음
+ */
+import { getFrameDecoder } from "./animationFrames";
+import type { ImageData } from "./qualityMetrics";
+
+export type PixelDecoderName = "frame-decoder" | "offscreen" | "canvas";
+
+export interface PixelDecoder {
+  name: PixelDecoderName;
+  isSupported(): boolean;
+  decode(blob: Blob): Promise<ImageData>;
+}
+
+// 브라우저 색 관리/알파 곱셈을 끄고 최대한 파일에 기록된 값에 가깝게 읽음
+// (캔버스에 그리는 순간 다시 알파가 곱해지므로 반투명 픽셀은 ffmpeg 디코더와 완전히 같지 않음)
+const BITMAP_OPTIONS: ImageBitmapOptions = {
+  colorSpaceConversion: "none",
+  premultiplyAlpha: "none",
+};
+
+/**
+ * setFrameDecoder로 등록한 디코더(앱과 Node CLI의 ffmpeg 디코더)의 첫 프레임
+ */
+export const frameDecoderPixelDecoder: PixelDecoder = {
+  name: "frame-decoder",
+  isSupported: () => getFrameDecoder() !== null,
+  async decode(blob) {
+    const decoder = getFrameDecoder();
+    if (!decoder) throw new Error("등록된 프레임 디코더가 없습니다");
+
+    const [frame] = await decoder.decodeFrames(blob, [0]);
+    return frame;
+  },
+};
+
+/**
+ * createImageBitmap + OffscreenCanvas (ffmpeg가 없을 때, 메인 스레드와 Web Worker 모두 사용 가능)
+ */
+export const offscreenPixelDecoder: PixelDecoder = {
+  name: "offscreen",
+  isSupported: () =>
+    typeof createImageBitmap === "function" && typeof OffscreenCanvas !== "undefined",
+  async decode(blob) {
+    const bitmap = await createImageBitmap(blob, BITMAP_OPTIONS);
+    try {
+      const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+      const ctx = canvas.getContext("2d", { willReadFrequently: true });
+      if (!ctx) {
+        throw new Error("Failed to get canvas context");
+      }
+
+      ctx.drawImage(bitmap, 0, 0);
+      const imageData = ctx.getImageData(0, 0, bitmap.width, bitmap.height);
+      return {
+        data: imageData.data,
+        width: bitmap.width,
+        height: bitmap.height,
+      };
+    } finally {
+      bitmap.close();
+    }
+  },
+};
+
+/**
+ * <img> + DOM canvas (OffscreenCanvas가 없는 구형 브라우저용)
+ */
+export const canvasPixelDecoder: PixelDecoder = {
+  name: "canvas",
+  isSupported: () => typeof document !== "undefined" && typeof Image !== "undefined",
+  decode: (blob) =>
+    new Promise((resolve, reject) => {
+      const img = new Image();
+      const url = URL.createObjectURL(blob);
+
+      img.onload = () => {
+        URL.revokeObjectURL(url);
+
+        const canvas = document.createElement("canvas");
+        canvas.width = img.width;
+        canvas.height = img.height;
+
+        const ctx = canvas.getContext("2d", { willReadFrequently: true });
+        if (!ctx) {
+          reject(new Error("Failed to get canvas context"));
+          return;
+        }
+
+        ctx.drawImage(img, 0, 0);
+        const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+        resolve({
+          data: imageData.data,
+          width: canvas.width,
+          height: canvas.height,
+        });
+      };
+
+      img.onerror = () => {
+        URL.revokeObjectURL(url);
+        reject(new Error("Failed to load image"));
+      };
+
+      img.src = url;
+    }),
+};
+
+// 우선순위: 명시적으로 등록한 디코더 > 색 관리 없는 비트맵 디코딩 > DOM
+const PIXEL_DECODERS: PixelDecoder[] = [
+  frameDecoderPixelDecoder,
+  offscreenPixelDecoder,
+  canvasPixelDecoder,
+];
+
+/**
+ * 현재 환경에서 사용할 픽셀 디코더 선택
+ */
+export function selectPixelDecoder(): PixelDecoder {
+  const decoder = PIXEL_DECODERS.find((candidate) => candidate.isSupported());
+  if (!decoder) {
+    throw new Error(
+      "이미지를 디코딩할 수 없는 환경입니다 (setFrameDecoder로 ffmpeg 디코더를 등록하세요)"
+    );
+  }
+  return decoder;
+}
+
+/**
+ * 자동 선택된 디코더로 RGBA 픽셀 디코딩
+ */
+export function decodeImage(blob: Blob): Promise<ImageData> {
+  return selectPixelDecoder().decode(blob);
+}
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { isSupportedInputFile, sniffInputFormat } from './inputFormat';
+import { buildGif } from '../../../test/gifFixture';
+import { buildPng } from '../../../test/pngFixture';
+import { buildAnimatedWebp } from '../../../test/webpFixture';
+import { buildAvifSequence } from '../../../test/avifFixture';
+import { buildWebm } from '../../../test/webmFixture';
+
+describe('Input Format Sniffing', () => {
+  it('should detect each supported container by its signature', () => {
+    const mp4 = buildAvifSequence([{ handler: 'vide', timescale: 1000, sttsEntries: [[1, 40]] }], 'isom');
+    const webm = buildWebm({ tracks: [{ number: 1, type: 1 }], clusters: [] });
+
+    expect(sniffInputFormat(buildGif({ width: 1, height: 1, frames: [{ delay: 10 }] }))).toBe('gif');
+    expect(sniffInputFormat(buildPng({ width: 1, height: 1, frames: [{ delayNum: 1, delayDen: 10 }] }))).toBe('apng');
+    expect(sniffInputFormat(buildAnimatedWebp([100]))).toBe('webp');
+    expect(sniffInputFormat(mp4)).toBe('mp4');
+    expect(sniffInputFormat(webm)).toBe('webm');
+  });
+
+  it('should reject still PNGs, AVIF images and unknown data', () => {
+    const avif = buildAvifSequence([{ handler: 'pict', timescale: 1000, sttsEntries: [[1, 40]] }]);
+
+    expect(() => sniffInputFormat(buildPng({ width: 1, height: 1 }))).toThrow('시퀀스');
+    expect(() => sniffInputFormat(avif)).toThrow('지원하지 않는 입력 형식입니다');
+    expect(() => sniffInputFormat(new Uint8Array(16))).toThrow('지원하지 않는 입력 형식입니다');
+  });
+
+  it('should accept files by MIME type or extension', () => {
+    expect(isSupportedInputFile(new File([], 'clip.mp4', { type: 'video/mp4' }))).toBe(true);
+    expect(isSupportedInputFile(new File([], 'anim.APNG'))).toBe(true);
+    expect(isSupportedInputFile(new File([], 'notes.txt', { type: 'text/plain' }))).toBe(false);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * 입력 포맷 정의 및 판별
+ * 확장자/MIME 타입 대신 파일 시그니처(매직 바이트)로 실제 형식을 판별
+ */
+import { isAnimatedPng, isPng } from "./apng";
+
+export type InputFormat = "gif" | "apng" | "webp" | "mp4" | "webm";
+
+export type VideoInputFormat = Extract<InputFormat, "mp4" | "webm">;
+
+export const INPUT_FORMATS: Record<
+  InputFormat,
+  { label: string; extension: string; mimeType: string }
+> = {
+  gif: { label: "GIF", extension: "gif", mimeType: "image/gif" },
+  // ffmpeg는 .apng 확장자로 APNG demuxer를 선택, 브라우저 디코더는 image/png로 APNG 재생
+  apng: { label: "APNG", extension: "apng", mimeType: "image/png" },
+  webp: { label: "애니메이션 WebP", extension: "webp", mimeType: "image/webp" },
+  mp4: { label: "MP4", extension: "mp4", mimeType: "video/mp4" },
+  webm: { label: "WebM", extension: "webm", mimeType: "video/webm" },
+};
+
+// 파일 선택기 accept 속성 (정확한 판별은 sniffInputFormat)
+export const INPUT_ACCEPT =
+  "image/gif,image/png,image/apng,image/webp,video/mp4,video/webm,.apng";
+
+// 이미지 트랙으로 인식되는 ISOBMFF 브랜드 (MP4로 취급하지 않음)
+const IMAGE_BRANDS = new Set(["avif", "avis", "heic", "heix", "mif1", "msf1"]);
+
+/**
+ * 바이트 시그니처로 입력 포맷 판별
+ * 지원하지 않는 형식이거나 정지 PNG(시퀀스로만 변환 가능)이면 에러
+ */
+export function sniffInputFormat(data: Uint8Array): InputFormat {
+  if (startsWith(data, 0, "GIF8")) return "gif";
+
+  if (isPng(data)) {
+    if (isAnimatedPng(data)) return "apng";
+    throw new Error("정지 PNG는 여러 장을 선택해 시퀀스로 변환할 수 있습니다");
+  }
+
+  if (startsWith(data, 0, "RIFF") && startsWith(data, 8, "WEBP")) return "webp";
+
+  // ISOBMFF: size(4) + "ftyp" + major brand(4)
+  if (startsWith(data, 4, "ftyp")) {
+    const brand = String.fromCharCode(...data.subarray(8, 12));
+    if (!IMAGE_BRANDS.has(brand)) return "mp4";
+  }
+
+  // EBML 헤더 (WebM/Matroska)
+  if (
+    data[0] === 0x1a &&
+    data[1] === 0x45 &&
+    data[2] === 0xdf &&
+    data[3] === 0xa3
+  ) {
+    return "webm";
+  }
+
+  throw new Error("지원하지 않는 입력 형식입니다 (GIF, APNG, WebP, MP4, WebM)");
+}
+
+/**
+ * 동영상 입력인지 확인
+ */
+export function isVideoInput(format: InputFormat): format is VideoInputFormat {
+  return format === "mp4" || format === "webm";
+}
+
+/**
+ * 선택/드롭된 파일이 입력 후보인지 (MIME 타입이 비어 있는 경우 확장자로 판단)
+ */
+export function isSupportedInputFile(file: File): boolean {
+  return (
+    /^(image\/(gif|png|apng|webp)|video\/(mp4|webm))$/.test(file.type) ||
+    /\.(gif|png|apng|webp|mp4|webm)$/i.test(file.name)
+  );
+}
+
+/**
+ * PNG 시퀀스 프레임 후보 (정지 PNG 여부는 조립 시 확인)
+ */
+export function isPngFile(file: File): boolean {
+  return file.type === "image/png" || /\.png$/i.test(file.name);
+}
+
+function startsWith(data: Uint8Array, offset: number, text: string): boolean {
+  return Array.from(text).every(
+    (char, i) => data[offset + i] === char.charCodeAt(0)
+  );
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { buildPngSequence, readInputMetadata } from './inputSource';
+import { parseApng } from './apng';
+import { buildGif } from '../../../test/gifFixture';
+import { buildPng } from '../../../test/pngFixture';
+import { buildAnimatedWebp } from '../../../test/webpFixture';
+import { buildAvifSequence } from '../../../test/avifFixture';
+import { buildWebm } from '../../../test/webmFixture';
+
+describe('Input Metadata', () => {
+  it('should keep GIF frame details and leave them empty for other formats', () => {
+    const gif = readInputMetadata(buildGif({ width: 4, height: 4, frames: [{ delay: 10 }, { delay: 30 }] }));
+    const apng = readInputMetadata(
+      buildPng({ width: 4, height: 4, frames: [{ delayNum: 1, delayDen: 10 }, { delayNum: 3, delayDen: 10 }] })
+    );
+
+    expect(gif.format).toBe('gif');
+    expect(gif.frames).toHaveLength(2);
+    expect(apng.format).toBe('apng');
+    expect(apng.frames).toEqual([]);
+    expect(apng.frameDelays).toEqual(gif.frameDelays);
+    expect(apng.duration).toBeCloseTo(0.4);
+    expect(apng.fps).toBeCloseTo(5);
+  });
+
+  it('should extract size, alpha and timing from WebP, MP4 and WebM containers', () => {
+    const webp = readInputMetadata(buildAnimatedWebp([50, 150], { width: 64, height: 32, alpha: true }));
+    const mp4 = readInputMetadata(
+      buildAvifSequence([{ handler: 'vide', timescale: 12800, sttsEntries: [[3, 512]], size: [640, 360] }], 'isom')
+    );
+    const webm = readInputMetadata(
+      buildWebm({
+        tracks: [{ number: 1, type: 1, width: 100, height: 50, alphaMode: 1 }],
+        clusters: [{ timecode: 0, blocks: [{ track: 1, relative: 0 }, { track: 1, relative: 100 }] }],
+      })
+    );
+
+    expect(webp).toMatchObject({ format: 'webp', width: 64, height: 32, hasAlpha: true, frameDelays: [50, 150] });
+    expect(mp4).toMatchObject({ format: 'mp4', width: 640, height: 360, hasAlpha: false, frameDelays: [40, 40, 40] });
+    expect(webm).toMatchObject({ format: 'webm', width: 100, height: 50, hasAlpha: true, frameDelays: [100, 100] });
+  });
+
+  it('should assemble PNG files in natural name order', async () => {
+    const frames = [10, 2, 1].map(
+      (n) => new File([buildPng({ width: 2, height: 2, idat: [0x78, 0x9c, n] }).slice().buffer], `frame_${n}.png`)
+    );
+
+    const sequence = await buildPngSequence(frames, 50);
+    const bytes = new Uint8Array(await sequence.arrayBuffer());
+    const apng = parseApng(bytes);
+    const idat = bytes.findIndex((_, i) => String.fromCharCode(...bytes.subarray(i, i + 4)) === 'IDAT');
+
+    expect(sequence.name).toBe('frame.apng');
+    expect(bytes[idat + 6]).toBe(1); // frame_1이 첫 프레임
+    expect(apng.frames.map((f) => f.delay)).toEqual([50, 50, 50]);
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * 변환 입력 준비
+ * 시그니처로 포맷을 판별해 포맷별 컨테이너에서 메타데이터를 추출하고,
+ * ffmpeg.wasm이 디코딩할 수 있는 바이트로 변환 (애니메이션 WebP는 APNG로 옮겨 담음)
+ */
+import { throwIfAborted } from "./abort";
+import { decodeAnimationFrames } from "./animationFrames";
+import { buildApng, encodeRgbaPng, parseApng } from "./apng";
+import { readMp4VideoTrack } from "./avifSequence";
+import { readGifMetadata, readInputBytes, type GifMetadata } from "./gifAnalyzer";
+import {
+  INPUT_FORMATS,
+  sniffInputFormat,
+  type InputFormat,
+} from "./inputFormat";
+import type { ImageData } from "./qualityMetrics";
+import { readWebpCanvas, readWebpFrameDurations } from "./webpAnimation";
+import { parseWebm } from "./webmParser";
+
+export interface PreparedInput {
+  format: InputFormat;
+  data: Uint8Array; // ffmpeg MEMFS에 기록할 바이트
+  extension: string; // MEMFS 파일 확장자 (ffmpeg demuxer 선택용)
+  original: Blob; // 원본 (브라우저 디코더용 MIME 타입 지정)
+  originalSizeKB: number;
+  metadata: GifMetadata;
+}
+
+// PNG 시퀀스 기본 프레임 간격 (10fps)
+export const DEFAULT_SEQUENCE_DELAY = 100;
+
+const DEFAULT_DELAY_MS = 100;
+
+/**
+ * 입력을 읽어 포맷 판별, 메타데이터 추출, ffmpeg 입력 변환까지 수행
+ */
+export async function prepareInput(
+  input: File | string,
+  signal?: AbortSignal
+): Promise<PreparedInput> {
+  const bytes = await readInputBytes(input);
+  throwIfAborted(signal);
+
+  const format = sniffInputFormat(bytes);
+  const metadata = readInputMetadata(bytes, format);
+  const original = new Blob([bytes.slice().buffer], {
+    type: INPUT_FORMATS[format].mimeType,
+  });
+
+  // ffmpeg.wasm의 WebP 디코더는 ANMF 프레임을 읽지 못하므로 브라우저에서 합성한 프레임을 APNG로 전달
+  const data =
+    format === "webp" && metadata.frameCount > 1
+      ? await transcodeToApng(original, metadata, signal)
+      : bytes;
+
+  return {
+    format,
+    data,
+    extension:
+      data === bytes ? INPUT_FORMATS[format].extension : INPUT_FORMATS.apng.extension,
+    original,
+    originalSizeKB: bytes.byteLength / 1024,
+    metadata,
+  };
+}
+
+/**
+ * 포맷별 컨테이너에서 공통 메타데이터 추출
+ */
+export function readInputMetadata(
+  data: Uint8Array,
+  format: InputFormat = sniffInputFormat(data)
+): GifMetadata {
+  if (format === "gif") return readGifMetadata(data);
+
+  let info: {
+    width: number;
+    height: number;
+    hasAlpha: boolean;
+    frameDelays: number[];
+    loopCount: number;
+  };
+
+  switch (format) {
+    case "apng": {
+      const apng = parseApng(data);
+      info = { ...apng, frameDelays: apng.frames.map((frame) => frame.delay) };
+      break;
+    }
+    case "webp": {
+      const durations = readWebpFrameDurations(data);
+      info = {
+        ...readWebpCanvas(data),
+        frameDelays: durations.length > 0 ? durations : [DEFAULT_DELAY_MS],
+      };
+      break;
+    }
+    case "mp4": {
+      const track = readMp4VideoTrack(data);
+      info = { ...track, hasAlpha: false, frameDelays: track.frameDurations, loopCount: 0 };
+      break;
+    }
+    case "webm": {
+      const webm = parseWebm(data);
+      info = { ...webm, frameDelays: webm.frameDurations, loopCount: 0 };
+      break;
+    }
+  }
+
+  if (info.frameDelays.length === 0) {
+    throw new Error(`${INPUT_FORMATS[format].label}에 프레임이 없습니다`);
+  }
+
+  const frameCount = info.frameDelays.length;
+  const duration = info.frameDelays.reduce((sum, delay) => sum + delay, 0) / 1000;
+
+  return {
+    format,
+    frameCount,
+    fps: frameCount / duration,
+    width: info.width,
+    height: info.height,
+    hasAlpha: info.hasAlpha,
+    duration,
+    avgBitrate: (data.length * 8) / duration / 1000, // kbps
+    frames: [],
+    frameDelays: info.frameDelays,
+    loopCount: info.loopCount,
+  };
+}
+
+/**
+ * 정지 PNG 여러 장을 파일명 순서(숫자 인식)대로 이어 APNG 파일로 조립
+ */
+export async function buildPngSequence(
+  files: File[],
+  frameDelay: number = DEFAULT_SEQUENCE_DELAY
+): Promise<File> {
+  const sorted = [...files].sort((a, b) =>
+    a.name.localeCompare(b.name, undefined, { numeric: true })
+  );
+  const pngs = await Promise.all(
+    sorted.map(async (file) => new Uint8Array(await file.arrayBuffer()))
+  );
+  const apng = buildApng(pngs, pngs.map(() => frameDelay));
+
+  const baseName = sorted[0].name.replace(/[-_ ]?\d*\.[^/.]+$/, "") || "sequence";
+  return new File([apng.slice().buffer], `${baseName}.apng`, {
+    type: INPUT_FORMATS.apng.mimeType,
+  });
+}
+
+/**
+ * 디코더로 합성된 프레임을 PNG로 인코딩해 APNG로 조립
+ */
+async function transcodeToApng(
+  blob: Blob,
+  metadata: GifMetadata,
+  signal?: AbortSignal
+): Promise<Uint8Array> {
+  // 한 디코더로 순서대로 디코딩 (프레임마다 새 디코더를 열면 합성을 처음부터 반복)
+  const frames = await decodeAnimationFrames(
+    blob,
+    metadata.frameDelays.map((_, i) => i)
+  );
+
+  const pngs: Uint8Array[] = [];
+  for (const frame of frames) {
+    throwIfAborted(signal);
+    pngs.push(await encodePng(frame));
+  }
+  return buildApng(pngs, metadata.frameDelays, metadata.loopCount ?? 0);
+}
+
+async function encodePng({ data, width, height }: ImageData): Promise<Uint8Array> {
+  // 캔버스가 없는 환경(Node CLI)에서는 직접 인코딩
+  if (typeof OffscreenCanvas === "undefined" && typeof document === "undefined") {
+    return encodeRgbaPng(data, width, height);
+  }
+
+  const image = new globalThis.ImageData(new Uint8ClampedArray(data), width, height);
+
+  if (typeof OffscreenCanvas !== "undefined") {
+    const canvas = new OffscreenCanvas(width, height);
+    canvas.getContext("2d")?.putImageData(image, 0, 0);
+    const blob = await canvas.convertToBlob({ type: "image/png" });
+    return new Uint8Array(await blob.arrayBuffer());
+  }
+
+  const canvas = Object.assign(document.createElement("canvas"), { width, height });
+  canvas.getContext("2d")?.putImageData(image, 0, 0);
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, "image/png")
+  );
+  if (!blob) throw new Error("PNG 인코딩에 실패했습니다");
+  return new Uint8Array(await blob.arrayBuffer());
+}
@@ -0,0 +1,63 @@
+/**
+ * 품질 메트릭 계산 워커
+ * 메인 스레드에서 전달(transfer)받은 인코딩 데이터를 디코딩하여 메트릭 계산
+ * 메인 스레드에 프레임 디코더(ffmpeg)가 있으면 디코딩만 메인 스레드에 요청해 환경과 무관하게 같은 픽셀을 사용
+ */
+import { setFrameDecoder, type FrameDecoder } from "./animationFrames";
+import { calculateAllMetrics, type ImageData } from "./qualityMetrics";
+import type {
+  FrameDecodeRequest,
+  FrameDecodeResponse,
+  MetricsRequest,
+  MetricsResponse,
+} from "./metricsWorkerPool";
+
+const pendingDecodes = new Map<
+  number,
+  { resolve: (frames: ImageData[]) => void; reject: (error: Error) => void }
+>();
+let nextDecodeId = 1;
+
+const mainThreadDecoder: FrameDecoder = {
+  decodeFrames: (blob, frameIndices) =>
+    new Promise((resolve, reject) => {
+      const decodeId = nextDecodeId++;
+      pendingDecodes.set(decodeId, { resolve, reject });
+      const request: FrameDecodeRequest = { decodeId, blob, frameIndices };
+      self.postMessage(request);
+    }),
+};
+
+self.addEventListener(
+  "message",
+  async (event: MessageEvent<MetricsRequest | FrameDecodeResponse>) => {
+    if ("decodeId" in event.data) {
+      const { decodeId, frames, error } = event.data;
+      const pending = pendingDecodes.get(decodeId);
+      pendingDecodes.delete(decodeId);
+      if (frames) pending?.resolve(frames);
+      else pending?.reject(new Error(error));
+      return;
+    }
+
+    const { id, original, converted, options, useMainFrameDecoder } = event.data;
+    setFrameDecoder(useMainFrameDecoder ? mainThreadDecoder : null);
+
+    let response: MetricsResponse;
+    try {
+      const metrics = await calculateAllMetrics(
+        new Blob([original.buffer], { type: original.type }),
+        new Blob([converted.buffer], { type: converted.type }),
+        options
+      );
+      response = { id, metrics };
+    } catch (error) {
+      response = {
+        id,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    self.postMessage(response);
+  }
+);
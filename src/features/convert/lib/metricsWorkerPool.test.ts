@@ -0,0 +1,204 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { AbortError } from './abort';
+import { setFrameDecoder } from './animationFrames';
+import {
+  calculateAllMetricsInWorker,
+  terminateMetricsWorkers,
+  type FrameDecodeResponse,
+  type MetricsRequest,
+} from './metricsWorkerPool';
+import type { QualityMetrics } from './qualityMetrics';
+
+// 받은 요청을 기록하고 테스트에서 응답/크래시를 일으키는 가짜 Worker
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+
+  requests: MetricsRequest[] = [];
+  decoded: FrameDecodeResponse[] = [];
+  terminated = false;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onerror: ((event: { message: string; preventDefault: () => void }) => void) | null = null;
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(message: MetricsRequest | FrameDecodeResponse) {
+    if ('decodeId' in message) this.decoded.push(message);
+    else this.requests.push(message);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  respond(metrics: QualityMetrics) {
+    const request = this.requests[this.requests.length - 1];
+    this.onmessage?.({ data: { id: request.id, metrics } });
+  }
+
+  requestDecode(decodeId: number, frameIndices: number[]) {
+    this.onmessage?.({ data: { decodeId, blob: blob(), frameIndices } });
+  }
+
+  crash(message: string) {
+    this.onerror?.({ message, preventDefault: () => {} });
+  }
+}
+
+const METRICS: QualityMetrics = { ssim: 0.98, psnr: 40, deltaE: 1.2, edgePreservation: 0.95 };
+
+const blob = () => new Blob([new Uint8Array([1, 2, 3])], { type: 'image/png' });
+
+// 워커 생성 전에 요청 버퍼를 읽는 비동기 단계가 끝날 때까지 대기
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('Metrics Worker Pool', () => {
+  beforeEach(() => {
+    FakeWorker.instances = [];
+    vi.stubGlobal('Worker', FakeWorker);
+    // 코어 3개 → 워커 2개
+    vi.stubGlobal('navigator', { hardwareConcurrency: 3 });
+  });
+
+  afterEach(() => {
+    setFrameDecoder(null);
+    terminateMetricsWorkers();
+    vi.unstubAllGlobals();
+  });
+
+  it('should dispatch tasks to idle workers and queue the rest', async () => {
+    const tasks = [1, 2, 3].map(() => calculateAllMetricsInWorker(blob(), blob()));
+    await flush();
+
+    expect(FakeWorker.instances).toHaveLength(2);
+    const [first, second] = FakeWorker.instances;
+    expect(first.requests).toHaveLength(1);
+    expect(second.requests).toHaveLength(1);
+
+    // 첫 워커가 끝나면 대기 중인 작업을 이어받음
+    first.respond(METRICS);
+    expect(first.requests).toHaveLength(2);
+
+    second.respond({ ...METRICS, ssim: 0.9 });
+    first.respond({ ...METRICS, ssim: 0.8 });
+
+    const results = await Promise.all(tasks);
+    expect(results.map((metrics) => metrics.ssim)).toEqual([0.98, 0.9, 0.8]);
+  });
+
+  it('should reject the running task and replace a crashed worker', async () => {
+    const crashed = calculateAllMetricsInWorker(blob(), blob());
+    const next = calculateAllMetricsInWorker(blob(), blob());
+    const queued = calculateAllMetricsInWorker(blob(), blob());
+    await flush();
+
+    const [first, second] = FakeWorker.instances;
+    first.crash('out of memory');
+
+    await expect(crashed).rejects.toThrow('out of memory');
+    expect(first.terminated).toBe(true);
+
+    // 죽은 워커 자리에 새 워커가 생겨 대기 작업을 처리
+    expect(FakeWorker.instances).toHaveLength(3);
+    const replacement = FakeWorker.instances[2];
+    expect(replacement.requests).toHaveLength(1);
+
+    second.respond(METRICS);
+    replacement.respond(METRICS);
+    await expect(next).resolves.toEqual(METRICS);
+    await expect(queued).resolves.toEqual(METRICS);
+  });
+
+  it('should reject aborted tasks and drop them from the queue', async () => {
+    const controller = new AbortController();
+    const running = calculateAllMetricsInWorker(blob(), blob(), {}, controller.signal);
+    calculateAllMetricsInWorker(blob(), blob()).catch(() => {});
+    const waiting = calculateAllMetricsInWorker(blob(), blob(), {}, controller.signal);
+    await flush();
+
+    controller.abort();
+
+    await expect(running).rejects.toBeInstanceOf(AbortError);
+    await expect(waiting).rejects.toBeInstanceOf(AbortError);
+
+    // 취소된 대기 작업은 워커로 보내지지 않음
+    const [first, second] = FakeWorker.instances;
+    first.respond(METRICS);
+    second.respond(METRICS);
+    expect(first.requests).toHaveLength(1);
+    expect(second.requests).toHaveLength(1);
+  });
+
+  it('should remove the abort listener once a task settles', async () => {
+    const controller = new AbortController();
+    const add = vi.spyOn(controller.signal, 'addEventListener');
+    const remove = vi.spyOn(controller.signal, 'removeEventListener');
+
+    const resolved = calculateAllMetricsInWorker(blob(), blob(), {}, controller.signal);
+    const rejected = calculateAllMetricsInWorker(blob(), blob(), {}, controller.signal);
+    await flush();
+
+    const [first, second] = FakeWorker.instances;
+    first.respond(METRICS);
+    second.crash('crashed');
+    await resolved;
+    await rejected.catch(() => {});
+
+    expect(add).toHaveBeenCalledTimes(2);
+    expect(remove).toHaveBeenCalledTimes(2);
+    expect(remove.mock.calls.map(([, listener]) => listener)).toEqual(
+      add.mock.calls.map(([, listener]) => listener)
+    );
+  });
+
+  it('should terminate all workers and reject pending tasks', async () => {
+    const tasks = [1, 2, 3].map(() => calculateAllMetricsInWorker(blob(), blob()));
+    await flush();
+
+    terminateMetricsWorkers();
+
+    for (const task of tasks) {
+      await expect(task).rejects.toThrow('Metrics worker terminated');
+    }
+    expect(FakeWorker.instances.every((worker) => worker.terminated)).toBe(true);
+
+    // 종료 후 새 요청은 새 워커로 처리
+    const next = calculateAllMetricsInWorker(blob(), blob());
+    await flush();
+    expect(FakeWorker.instances).toHaveLength(3);
+    FakeWorker.instances[2].respond(METRICS);
+    await expect(next).resolves.toEqual(METRICS);
+  });
+
+  it('should decode frames for workers with the main thread frame decoder', async () => {
+    const frame = { data: new Uint8ClampedArray([10, 20, 30, 77]), width: 1, height: 1 };
+    const decodeFrames = vi.fn(async (_: Blob, indices: number[]) => indices.map(() => frame));
+
+    calculateAllMetricsInWorker(blob(), blob()).catch(() => {});
+    await flush();
+    // 등록된 디코더가 없으면 워커가 직접 디코딩
+    expect(FakeWorker.instances[0].requests[0].useMainFrameDecoder).toBe(false);
+
+    setFrameDecoder({ decodeFrames });
+    const task = calculateAllMetricsInWorker(blob(), blob());
+    await flush();
+
+    const worker = FakeWorker.instances[1];
+    expect(worker.requests[0].useMainFrameDecoder).toBe(true);
+
+    worker.requestDecode(7, [0, 2]);
+    await flush();
+    expect(decodeFrames).toHaveBeenCalledWith(expect.any(Blob), [0, 2]);
+    expect(worker.decoded).toEqual([{ decodeId: 7, frames: [frame, frame] }]);
+
+    // 디코딩 실패는 메시지로 전달
+    decodeFrames.mockRejectedValueOnce(new Error('decode failed'));
+    worker.requestDecode(8, [0]);
+    await flush();
+    expect(worker.decoded[1]).toEqual({ decodeId: 8, error: 'decode failed' });
+
+    worker.respond(METRICS);
+    await expect(task).resolves.toEqual(METRICS);
+  });
+});
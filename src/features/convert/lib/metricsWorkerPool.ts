@@ -0,0 +1,241 @@
+/**
+ * 품질 메트릭 워커 풀
+ * calculateAllMetrics와 같은 형태의 Promise API로 메트릭 계산을 전용 워커에서 병렬 실행
+ * Worker를 쓸 수 없는 환경(테스트, SSR)에서는 메인 스레드에서 계산
+ * 메인 스레드에 프레임 디코더(ffmpeg)가 등록되어 있으면 워커의 디코딩도 그 디코더에 맡김
+ */
+import { AbortError, throwIfAborted } from "./abort";
+import { getFrameDecoder } from "./animationFrames";
+import {
+  calculateAllMetrics,
+  type ImageData,
+  type MetricsOptions,
+  type QualityMetrics,
+} from "./qualityMetrics";
+
+interface EncodedImage {
+  buffer: ArrayBuffer;
+  type: string;
+}
+
+export interface MetricsRequest {
+  id: number;
+  original: EncodedImage;
+  converted: EncodedImage;
+  options: MetricsOptions;
+  useMainFrameDecoder: boolean; // 메인 스레드의 프레임 디코더로 디코딩 (FrameDecodeRequest)
+}
+
+export type MetricsResponse =
+  | { id: number; metrics: QualityMetrics; error?: undefined }
+  | { id: number; error: string; metrics?: undefined };
+
+// 워커 → 메인 스레드: 등록된 프레임 디코더로 디코딩 요청
+export interface FrameDecodeRequest {
+  decodeId: number;
+  blob: Blob;
+  frameIndices: number[];
+}
+
+export type FrameDecodeResponse =
+  | { decodeId: number; frames: ImageData[]; error?: undefined }
+  | { decodeId: number; error: string; frames?: undefined };
+
+interface PendingTask {
+  request: MetricsRequest;
+  resolve: (metrics: QualityMetrics) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  task: PendingTask | null;
+}
+
+const MAX_POOL_SIZE = 4;
+
+const queue: PendingTask[] = [];
+const workers: PoolWorker[] = [];
+let nextId = 1;
+
+/**
+ * 워커에서 품질 메트릭 계산 (calculateAllMetrics 대체)
+ */
+export async function calculateAllMetricsInWorker(
+  original: Blob,
+  converted: Blob,
+  options: MetricsOptions = {},
+  signal?: AbortSignal
+): Promise<QualityMetrics> {
+  throwIfAborted(signal);
+
+  if (typeof Worker === "undefined") {
+    return calculateAllMetrics(original, converted, options);
+  }
+
+  // 요청마다 새 버퍼를 만들어 워커로 소유권 이전 (복사 없음)
+  const request: MetricsRequest = {
+    id: nextId++,
+    original: { buffer: await original.arrayBuffer(), type: original.type },
+    converted: { buffer: await converted.arrayBuffer(), type: converted.type },
+    options,
+    useMainFrameDecoder: getFrameDecoder() !== null,
+  };
+
+  throwIfAborted(signal);
+
+  return new Promise((resolve, reject) => {
+    // 취소: 대기 중이면 큐에서 제거, 실행 중이면 결과를 버림
+    const onAbort = () => {
+      const queued = queue.indexOf(task);
+      if (queued >= 0) queue.splice(queued, 1);
+      reject(new AbortError());
+    };
+
+    // 작업이 끝나면 리스너 해제 (오래 유지되는 signal에 작업마다 클로저가 쌓이지 않도록)
+    const task: PendingTask = {
+      request,
+      resolve: (metrics) => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve(metrics);
+      },
+      reject: (error) => {
+        signal?.removeEventListener("abort", onAbort);
+        reject(error);
+      },
+    };
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+    queue.push(task);
+    dispatch();
+  });
+}
+
+/**
+ * 여러 후보를 병렬로 평가
+ * 후보별 성공/실패를 Promise.allSettled 형태로 반환
+ */
+export async function calculateMetricsBatch(
+  original: Blob,
+  candidates: Blob[],
+  options: MetricsOptions = {},
+  onSettled?: (completed: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<PromiseSettledResult<QualityMetrics>[]> {
+  let completed = 0;
+
+  return Promise.allSettled(
+    candidates.map((candidate) =>
+      calculateAllMetricsInWorker(
+        original,
+        candidate,
+        options,
+        signal
+      ).finally(() => {
+        completed++;
+        onSettled?.(completed, candidates.length);
+      })
+    )
+  );
+}
+
+/**
+ * 모든 워커 종료 (대기 중인 작업은 거부)
+ */
+export function terminateMetricsWorkers() {
+  for (const entry of workers) {
+    entry.worker.terminate();
+    entry.task?.reject(new Error("Metrics worker terminated"));
+  }
+  workers.length = 0;
+
+  for (const task of queue.splice(0)) {
+    task.reject(new Error("Metrics worker terminated"));
+  }
+}
+
+function dispatch() {
+  while (queue.length > 0) {
+    const idle = workers.find((entry) => !entry.task) ?? spawnWorker();
+    if (!idle) return;
+
+    const task = queue.shift()!;
+    idle.task = task;
+    idle.worker.postMessage(task.request, [
+      task.request.original.buffer,
+      task.request.converted.buffer,
+    ]);
+  }
+}
+
+function spawnWorker(): PoolWorker | null {
+  if (workers.length >= poolSize()) return null;
+
+  const entry: PoolWorker = {
+    worker: new Worker(new URL("./metrics.worker.ts", import.meta.url), {
+      type: "module",
+    }),
+    task: null,
+  };
+
+  entry.worker.onmessage = (
+    event: MessageEvent<MetricsResponse | FrameDecodeRequest>
+  ) => {
+    if ("decodeId" in event.data) {
+      void decodeForWorker(entry.worker, event.data);
+      return;
+    }
+
+    const task = entry.task;
+    entry.task = null;
+
+    if (task && task.request.id === event.data.id) {
+      if (event.data.error !== undefined) {
+        task.reject(new Error(event.data.error));
+      } else {
+        task.resolve(event.data.metrics);
+      }
+    }
+    dispatch();
+  };
+
+  entry.worker.onerror = (event) => {
+    // 워커 자체가 죽은 경우: 현재 작업을 거부하고 워커 교체
+    event.preventDefault();
+    entry.task?.reject(new Error(event.message || "Metrics worker crashed"));
+    entry.worker.terminate();
+    workers.splice(workers.indexOf(entry), 1);
+    dispatch();
+  };
+
+  workers.push(entry);
+  return entry;
+}
+
+/**
+ * 워커의 디코딩 요청을 메인 스레드의 프레임 디코더로 처리해 응답
+ */
+async function decodeForWorker(
+  worker: Worker,
+  { decodeId, blob, frameIndices }: FrameDecodeRequest
+) {
+  let response: FrameDecodeResponse;
+  try {
+    const decoder = getFrameDecoder();
+    if (!decoder) throw new Error("등록된 프레임 디코더가 없습니다");
+    response = { decodeId, frames: await decoder.decodeFrames(blob, frameIndices) };
+  } catch (error) {
+    response = {
+      decodeId,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+  worker.postMessage(response);
+}
+
+function poolSize(): number {
+  const cores =
+    typeof navigator !== "undefined" ? navigator.hardwareConcurrency || 2 : 2;
+  // 메인 스레드와 FFmpeg 워커를 위해 코어 하나는 남겨둠
+  return Math.max(1, Math.min(MAX_POOL_SIZE, cores - 1));
+}
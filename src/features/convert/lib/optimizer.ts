@@ -1,14 +1,64 @@
 import { FFmpeg } from "@ffmpeg/ffmpeg";
-import { fetchFile } from "@ffmpeg/util";
+import { throwIfAborted, toAbortError } from "./abort";
+import { buildCandidateReports } from "./candidateReport";
+import { execEncoder } from "./encoderExec";
+import { assertOutputFormatsSupported } from "./encoderSupport";
+import { mergeDuplicateFrames } from "./frameDuplicates";
 import {
-  analyzeGifMetadata,
   analyzePaletteSize,
+  detectDuplicateFrames,
   type GifMetadata,
 } from "./gifAnalyzer";
+import { INPUT_FORMATS, isVideoInput } from "./inputFormat";
+import { prepareInput } from "./inputSource";
 import {
-  calculateAllMetrics,
-  type QualityMetrics,
-} from "./qualityMetrics";
+  applyOutputTransform,
+  buildSelectExpression,
+  hasOutputTransform,
+  type FrameTimeline,
+  type OutputTransform,
+} from "./outputTransform";
+import {
+  calculateAllMetricsInWorker,
+  calculateMetricsBatch,
+} from "./metricsWorkerPool";
+import type { MetricsOptions, QualityMetrics } from "./qualityMetrics";
+import {
+  evaluateCandidates,
+  resolveScoringPolicy,
+  selectBestCandidate,
+  withThresholds,
+  type CriterionCheck,
+  type ScoringCandidate,
+  type ScoringPolicy,
+  type ScoringPolicyName,
+} from "./scoringPolicy";
+import {
+  QualityTargetUnreachableError,
+  searchTargetQuality,
+  type QualityTarget,
+  type TargetQualityParams,
+} from "./targetQuality";
+import {
+  searchTargetSize,
+  TargetSizeUnreachableError,
+  type TargetSizeShape,
+} from "./targetSize";
+import { searchCrf } from "./crfSearch";
+import {
+  buildAvifArgs,
+  buildGifArgs,
+  buildVideoArgs,
+  buildVideoDecodeArgs,
+  crfToQuality,
+  isVideoFormat,
+  MAX_CRF,
+  OUTPUT_FORMATS,
+  type OutputFormat,
+  type VideoFormat,
+} from "./outputFormat";
+import { deleteTempFiles } from "./tempFiles";
+import { retimeAnimatedWebp } from "./webpAnimation";
 
 export interface OptimizationConfig {
   quality: number;
@@ -25,7 +75,7 @@ export interface OptimizationConfig {
   useSharpYuv?: boolean; // RGB→YUV 변환 정확도 향상
   encodingStrategy?: "pure-lossless" | "near-lossless" | "hybrid" | "optimized-lossy";
   // 프레임 최적화
-  removeDuplicates?: boolean; // 중복 프레임 제거
+  removeDuplicates?: boolean; // 중복 프레임 병합 (표시 시간은 직전 유지 프레임에 합산)
   deltaEncoding?: boolean; // 프레임 간 차이만 저장
   // 노이즈 제거 & 전처리
   denoise?: boolean; // 노이즈 제거 활성화
@@ -34,10 +84,46 @@ export interface OptimizationConfig {
   minKeyframeInterval?: number; // 최소 키프레임 간격
   maxKeyframeInterval?: number; // 최대 키프레임 간격
   mixedMode?: boolean; // 혼합 모드 (일부 프레임 손실, 일부 무손실)
+  // 출력 형태 (목표 용량 모드)
+  scale?: number; // 해상도 배율 (기본값: 1)
+  frameStep?: number; // N프레임마다 1개만 유지 (기본값: 1)
+  // 출력 포맷 (기본값: webp)
+  outputFormat?: OutputFormat;
+  // AVIF/동영상 옵션 (outputFormat이 avif/mp4/webm일 때만 사용)
+  crf?: number; // AVIF/WebM 0-63, MP4 0-51 (낮을수록 고품질)
+  cpuUsed?: number; // 0-8: 인코딩 속도 (높을수록 빠름)
+  chromaSubsampling?: "420" | "444"; // 크로마 서브샘플링 (AVIF)
+  alphaPlane?: boolean; // 알파 포함 (AVIF 보조 이미지, WebM yuva420p)
+  // GIF 재최적화 옵션 (outputFormat이 gif일 때만 사용, 디더링은 ditherMethod)
+  maxColors?: number; // 2-256: 팔레트 색상 수
+  paletteStatsMode?: "full" | "diff" | "single"; // palettegen 통계 대상
+  transparencyDiff?: boolean; // 프레임 간 변하지 않은 픽셀 투명 처리
+}
+
+/**
+ * 후보별 평가 결과 (선택 근거 확인 및 수동 선택용)
+ */
+export interface CandidateReport {
+  index: number; // 시도 순서 (0부터)
+  blob: Blob;
+  config: OptimizationConfig;
+  sizeKB: number;
+  metrics?: QualityMetrics; // 측정 실패 시 없음
+  criteria: CriterionCheck[]; // 선택 정책의 기준 항목별 통과 여부
+  passed: boolean; // 엄격 기준 통과
+  score: number | null; // 선택 정책 점수 (평가 제외 시 null)
+  selected: boolean; // 자동 선택된 후보
+  failureReason?: string;
 }
 
+/**
+ * 후보별 실패 경고 출력 대상 (CLI는 --verbose가 아니면 무시)
+ */
+export type OptimizerLogger = Pick<Console, "warn">;
+
 export interface OptimizationResult {
   url: string;
+  blob: Blob;
   outputName: string;
   sizeKB: number;
   config: OptimizationConfig;
@@ -52,12 +138,43 @@ export interface OptimizationResult {
     isLargerThanOriginal: boolean;
     bitsPerPixel: number; // 압축 효율성 지표
   };
+  candidates: CandidateReport[]; // 시도한 모든 후보
+}
+
+// 후보 평가 옵션: 전체 애니메이션 비교 (긴 애니메이션은 최대 30프레임 균등 샘플링)
+// 선택 기준의 ΔE 임계값은 CIEDE2000 기준 (2.3 ≈ 인지 한계)
+const ANIMATION_METRICS_OPTIONS: MetricsOptions = {
+  mode: "animation",
+  maxFrames: 30,
+  deltaEFormula: "ciede2000",
+};
+
+// 원본 투명 픽셀 중 이 비율 이상이 불투명해지면 투명도 손실로 판정
+const MAX_TRANSPARENCY_LOSS = 0.01;
+
+/**
+ * GIF 폴백까지 시도했지만 원본보다 작은 결과가 없는 경우 (더 큰 파일 대신 원본 유지를 알림)
+ */
+export class NoSmallerOutputError extends Error {
+  readonly originalSizeKB: number;
+  readonly smallestSizeKB: number | null; // 시도한 후보 중 최소 용량
+
+  constructor(originalSizeKB: number, smallestSizeKB: number | null) {
+    super(
+      `원본(${originalSizeKB.toFixed(1)}KB)보다 작은 결과가 없어 원본을 그대로 사용하는 편이 좋습니다` +
+        (smallestSizeKB === null ? "" : ` (최소 ${smallestSizeKB.toFixed(1)}KB)`)
+    );
+    this.name = "NoSmallerOutputError";
+    this.originalSizeKB = originalSizeKB;
+    this.smallestSizeKB = smallestSizeKB;
+  }
 }
 
 interface CandidateResult {
   blob: Blob;
   config: OptimizationConfig;
   sizeKB: number;
+  measureBlob?: Blob; // 품질 측정용 디코딩 결과 (동영상 후보만)
 }
 
 /**
@@ -69,48 +186,234 @@ export async function optimizeGifToWebp({
   input,
   progressCallback,
   lossless = false, // 무손실 모드 (기본값: 손실)
+  signal,
+  jobId,
+  targetSizeKB,
+  qualityTarget,
+  scoringPolicy,
+  outputFormats = ["webp"],
+  gifFallback = true,
+  transform,
+  logger = console,
 }: {
   ffmpeg: FFmpeg;
   input: File | string;
   progressCallback?: (progress: number, message: string) => void;
   lossless?: boolean;
+  signal?: AbortSignal; // 취소 시 AbortError로 reject
+  jobId?: string; // 같은 ffmpeg 인스턴스에서 동시에 실행할 때 MEMFS 파일명 구분용
+  targetSizeKB?: number; // 지정 시 이 용량 이하에서 SSIM이 가장 높은 결과 탐색 (lossless 무시)
+  qualityTarget?: QualityTarget; // 지정 시 기준을 만족하는 가장 작은 결과 탐색 (lossless 무시)
+  scoringPolicy?: ScoringPolicy | ScoringPolicyName; // 후보 선택 정책 (기본값: 모드별 정책)
+  outputFormats?: OutputFormat[]; // 후보로 시도할 출력 포맷 (AVIF/GIF는 고정 조합 모드만, MP4/WebM은 CRF 탐색)
+  gifFallback?: boolean; // GIF 입력에서 모든 후보가 원본보다 크면 재최적화 GIF 시도 (기본값: true)
+  transform?: OutputTransform; // 크기/크롭/프레임레이트/구간/속도 변환 (모든 후보와 비교 기준에 동일 적용)
+  logger?: OptimizerLogger; // 후보별 실패 경고 출력 대상 (기본값: console)
 }): Promise<OptimizationResult | null> {
   if (!ffmpeg) return null;
 
+  // 변환 중 생성된 MEMFS 파일 (취소/실패 시에도 finally에서 삭제)
+  const tempFiles = new Set<string>();
+
+  try {
+    return await runOptimization({
+      ffmpeg,
+      input,
+      progressCallback,
+      lossless,
+      signal,
+      tempFiles,
+      filePrefix: jobId ? `${jobId}_` : "",
+      targetSizeKB,
+      qualityTarget,
+      scoringPolicy,
+      outputFormats,
+      gifFallback,
+      transform,
+      logger,
+    });
+  } catch (error) {
+    throw toAbortError(error, signal);
+  } finally {
+    await deleteTempFiles(ffmpeg, tempFiles);
+  }
+}
+
+async function runOptimization({
+  ffmpeg,
+  input,
+  progressCallback,
+  lossless,
+  signal,
+  tempFiles,
+  filePrefix,
+  targetSizeKB,
+  qualityTarget,
+  scoringPolicy,
+  outputFormats,
+  gifFallback,
+  transform,
+  logger,
+}: {
+  ffmpeg: FFmpeg;
+  input: File | string;
+  progressCallback?: (progress: number, message: string) => void;
+  lossless: boolean;
+  signal?: AbortSignal;
+  tempFiles: Set<string>;
+  filePrefix: string;
+  targetSizeKB?: number;
+  qualityTarget?: QualityTarget;
+  scoringPolicy?: ScoringPolicy | ScoringPolicyName;
+  outputFormats: OutputFormat[];
+  gifFallback: boolean;
+  transform?: OutputTransform;
+  logger: OptimizerLogger;
+}): Promise<OptimizationResult> {
+
   const updateProgress = (progress: number, message: string) => {
     if (progressCallback) {
       progressCallback(progress, message);
     }
   };
 
-  updateProgress(5, "GIF 메타데이터 분석 중...");
-
-  // 1단계: GIF 분석
-  const metadata = await analyzeGifMetadata(ffmpeg, input);
-  updateProgress(15, `프레임 분석 완료: ${metadata.frameCount}개 프레임`);
+  // 빌드에 없는 인코더(AVIF 등)는 후보마다 실패하므로 시작 전에 거부
+  await assertOutputFormatsSupported(ffmpeg, outputFormats);
 
-  const paletteSize = await analyzePaletteSize(input);
-  updateProgress(20, `팔레트 크기: ${paletteSize}색`);
+  updateProgress(5, "입력 메타데이터 분석 중...");
 
-  // 2단계: 설정 조합 생성
-  const configs = generateOptimizationConfigs(metadata, paletteSize, lossless);
+  // 1단계: 입력 분석 (포맷 판별 후 ffmpeg가 읽을 수 있는 형태로 준비)
+  const prepared = await prepareInput(input, signal);
+  let { metadata } = prepared;
   updateProgress(
-    25,
-    `${configs.length}개 설정 조합 테스트 시작... (${lossless ? "무손실" : "손실"} 모드)`
+    15,
+    `${INPUT_FORMATS[prepared.format].label} 프레임 분석 완료: ${metadata.frameCount}개 프레임, ${metadata.duration.toFixed(2)}초`
   );
 
+  let inputName = `${filePrefix}opt_input.${prepared.extension}`;
+  throwIfAborted(signal);
+  tempFiles.add(inputName);
+  await ffmpeg.writeFile(inputName, prepared.data, { signal });
+
+  // 출력 변환: 변환된 무손실 중간본을 모든 후보의 입력과 품질 비교 기준으로 사용
+  let transformedBlob: Blob | null = null;
+  if (transform && hasOutputTransform(transform)) {
+    const transformedName = `${filePrefix}opt_transformed.apng`;
+    const transformed = await applyOutputTransform({
+      ffmpeg,
+      inputName,
+      outputName: transformedName,
+      metadata,
+      transform,
+      tempFiles,
+      signal,
+    });
+    // 표시 시간을 다시 기록한 중간본으로 교체
+    inputName = transformedName;
+    tempFiles.add(inputName);
+    await ffmpeg.writeFile(inputName, transformed.data, { signal });
+    metadata = transformed.metadata;
+    transformedBlob = new Blob([transformed.data.slice().buffer], {
+      type: "image/png",
+    });
+    updateProgress(
+      18,
+      `출력 변환 적용: ${metadata.width}x${metadata.height}, ${metadata.frameCount}개 프레임, ${metadata.duration.toFixed(2)}초`
+    );
+  }
+
+  // 팔레트 분석은 GIF 입력만 (그 외 입력은 트루컬러로 취급)
+  const paletteSize =
+    prepared.format === "gif" ? await analyzePaletteSize(input) : 0;
+  if (prepared.format === "gif") {
+    updateProgress(20, `팔레트 크기: ${paletteSize}색`);
+  }
+
+  const useGrid = targetSizeKB === undefined && qualityTarget === undefined;
+
+  // 중복 프레임 분석 (WebP 고정 조합만): 디코딩된 픽셀 기준으로 중복이 있을 때만 병합 후보 생성
+  let duplicateTimeline: FrameTimeline | null = null;
+  if (useGrid && outputFormats.includes("webp") && metadata.frameCount > 1) {
+    const frameAnalysis = await detectDuplicateFrames(ffmpeg, inputName, metadata, {
+      prefix: `${filePrefix}dup`,
+      signal,
+    });
+    if (frameAnalysis.duplicateFrames > 0) {
+      duplicateTimeline = mergeDuplicateFrames(
+        metadata.frameDelays,
+        frameAnalysis.duplicates
+      );
+    }
+    updateProgress(
+      22,
+      `중복 프레임 분석: ${metadata.frameCount}개 중 ${frameAnalysis.duplicateFrames}개 중복`
+    );
+  }
+
+  // 2단계: 설정 조합 생성 (목표 용량/품질 모드는 고정 조합 대신 탐색)
+  const configs = useGrid
+    ? [
+        ...(outputFormats.includes("webp")
+          ? generateOptimizationConfigs(
+              metadata,
+              paletteSize,
+              lossless,
+              duplicateTimeline !== null
+            )
+          : []),
+        ...(outputFormats.includes("avif") ? generateAvifConfigs(metadata) : []),
+        ...(outputFormats.includes("gif")
+          ? generateGifConfigs(paletteSize)
+          : []),
+      ]
+    : [];
+  let startMessage = `${configs.length}개 설정 조합 테스트 시작... (${lossless ? "무손실" : "손실"} 모드, ${outputFormats.map((format) => OUTPUT_FORMATS[format].label).join("/")})`;
+  if (targetSizeKB !== undefined) {
+    startMessage = `목표 용량 ${targetSizeKB}KB 이하 설정 탐색 시작...`;
+  } else if (qualityTarget) {
+    startMessage = `품질 기준(SSIM ≥ ${qualityTarget.minSsim}, ΔE ≤ ${qualityTarget.maxDeltaE}) 탐색 시작...`;
+  }
+  updateProgress(25, startMessage);
+
   // 3단계: 각 설정으로 변환 테스트
   const candidates: CandidateResult[] = [];
-  const inputName = "opt_input.gif";
-  await ffmpeg.writeFile(inputName, await fetchFile(input));
+  const { originalSizeKB } = prepared;
+
+  // 원본 전체 애니메이션을 비교 기준으로 사용 (동영상은 브라우저 디코더용 무손실 WebP로 변환)
+  const originalBlob = transformedBlob
+    ? transformedBlob
+    : isVideoInput(prepared.format)
+    ? await decodeVideoReference(
+        ffmpeg,
+        inputName,
+        prepared.format,
+        metadata,
+        `${filePrefix}reference`,
+        tempFiles,
+        signal
+      )
+    : prepared.original;
+  // 후보별 품질 메트릭 (탐색 중 측정한 후보는 다시 계산하지 않음)
+  const candidateMetrics = new Map<CandidateResult, QualityMetrics>();
 
   for (let i = 0; i < configs.length; i++) {
+    throwIfAborted(signal);
     const config = configs[i];
     const progress = 25 + (i / configs.length) * 50;
 
     // 전략 이름 표시
     let strategyName = "";
-    switch (config.encodingStrategy) {
+    switch (
+      config.outputFormat === "avif" || config.outputFormat === "gif"
+        ? config.outputFormat
+        : config.encodingStrategy
+    ) {
+      case "avif":
+        strategyName = `AVIF (CRF=${config.crf}, ${config.chromaSubsampling})`;
+        break;
+      case "gif":
+        strategyName = `GIF (${config.maxColors}색, ${config.paletteStatsMode})`;
+        break;
       case "pure-lossless":
         strategyName = "완전 무손실";
         break;
@@ -138,117 +441,318 @@ export async function optimizeGifToWebp({
         inputName,
         config,
         metadata,
-        i
+        `${filePrefix}${i}`,
+        tempFiles,
+        signal,
+        duplicateTimeline
       );
       if (result) {
         candidates.push(result);
       }
     } catch (error) {
-      console.warn(`Config ${i} failed:`, error);
+      // 취소는 다른 후보로 넘어가지 않고 전체 중단
+      if (signal?.aborted) throw error;
+      logger.warn(`Config ${i} failed:`, error);
       // 실패한 설정은 건너뛰기
       continue;
     }
   }
 
-  if (candidates.length === 0) {
-    throw new Error("모든 변환 시도가 실패했습니다");
+  // 3단계 (목표 용량 모드): 예산 안에 들어오는 품질/해상도/프레임 간격 탐색
+  if (targetSizeKB !== undefined) {
+    const search = await searchTargetSize({
+      budgetKB: targetSizeKB,
+      signal,
+      encode: async (params) => {
+        const result = await convertWithConfig(
+          ffmpeg,
+          inputName,
+          createSearchConfig(params, metadata),
+          metadata,
+          `${filePrefix}t${params.scale}_${params.frameStep}_${params.quality}`,
+          tempFiles,
+          signal
+        );
+        if (!result) throw new Error("변환 결과가 없습니다");
+        return result;
+      },
+      onAttempt: (params, result, attempt) => {
+        updateProgress(
+          25 + Math.min(attempt / 20, 1) * 50,
+          `용량 탐색 ${attempt}회: q=${params.quality}, ${Math.round(params.scale * 100)}% → ${result ? `${result.sizeKB.toFixed(1)}KB` : "인코딩 실패"}`
+        );
+      },
+    });
+
+    if (search.fitting.length === 0) {
+      throw new TargetSizeUnreachableError(
+        targetSizeKB,
+        search.smallest?.sizeKB ?? null
+      );
+    }
+    candidates.push(...search.fitting);
   }
 
-  updateProgress(75, "품질 평가 중...");
+  // 3단계 (목표 품질 모드): 기준을 만족하는 가장 낮은 -q:v 탐색 (손실로 미달이면 무손실 시도)
+  if (qualityTarget) {
+    const search = await searchTargetQuality({
+      target: qualityTarget,
+      signal,
+      encode: async (params) => {
+        const result = await convertWithConfig(
+          ffmpeg,
+          inputName,
+          createSearchConfig(params, metadata),
+          metadata,
+          `${filePrefix}q${params.lossless ? "lossless" : params.quality}`,
+          tempFiles,
+          signal
+        );
+        if (!result) throw new Error("변환 결과가 없습니다");
+        return result;
+      },
+      measure: (candidate) =>
+        calculateAllMetricsInWorker(
+          originalBlob,
+          candidate.blob,
+          ANIMATION_METRICS_OPTIONS,
+          signal
+        ),
+      onAttempt: (params, result, attempt) => {
+        updateProgress(
+          25 + Math.min(attempt / 15, 1) * 65,
+          `품질 탐색 ${attempt}회: ${params.lossless ? "무손실" : `q=${params.quality}`} → ${result ? `SSIM ${result.metrics.ssim.toFixed(4)}, ${result.candidate.sizeKB.toFixed(1)}KB` : "인코딩 실패"}`
+        );
+      },
+    });
 
-  // 4단계: 원본 GIF를 첫 프레임 PNG로 변환 (품질 비교용)
-  const originalBlob = await extractFirstFrame(ffmpeg, inputName);
+    if (!search.best) {
+      throw new QualityTargetUnreachableError(
+        qualityTarget,
+        search.closest?.metrics ?? null
+      );
+    }
+    for (const { candidate, metrics } of search.passing) {
+      candidates.push(candidate);
+      candidateMetrics.set(candidate, metrics);
+    }
+  }
 
-  // 5단계: 품질 메트릭 계산 및 최적 후보 선택
-  let bestCandidate: CandidateResult | null = null;
-  let bestScore = -Infinity;
+  // 3단계 (동영상): 품질 기준을 만족하는 최대 CRF 탐색 (목표 용량 모드 제외)
+  const videoFormats =
+    targetSizeKB === undefined ? outputFormats.filter(isVideoFormat) : [];
+  for (const format of videoFormats) {
+    // 한 포맷의 탐색이 실패해도 이미 만든 다른 포맷의 후보는 유지
+    try {
+      const search = await searchCrf({
+        minCrf: VIDEO_CRF_RANGE[format].min,
+        maxCrf: VIDEO_CRF_RANGE[format].max,
+        target: qualityTarget,
+        signal,
+        encode: async (crf) => {
+          const result = await convertWithConfig(
+            ffmpeg,
+            inputName,
+            createVideoConfig(format, crf, metadata),
+            metadata,
+            `${filePrefix}${format}${crf}`,
+            tempFiles,
+            signal
+          );
+          if (!result) throw new Error("변환 결과가 없습니다");
+          return result;
+        },
+        measure: (candidate) =>
+          calculateAllMetricsInWorker(
+            originalBlob,
+            candidate.measureBlob ?? candidate.blob,
+            ANIMATION_METRICS_OPTIONS,
+            signal
+          ),
+        onAttempt: (crf, result, attempt) => {
+          updateProgress(
+            70 + Math.min(attempt / 6, 1) * 5,
+            `${OUTPUT_FORMATS[format].label} CRF 탐색 ${attempt}회: CRF=${crf} → ${result ? `SSIM ${result.metrics.ssim.toFixed(4)}, ${result.candidate.sizeKB.toFixed(1)}KB` : "인코딩 실패"}`
+          );
+        },
+      });
+
+      for (const { candidate, metrics } of search.measured) {
+        candidates.push(candidate);
+        candidateMetrics.set(candidate, metrics);
+      }
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      logger.warn(`${OUTPUT_FORMATS[format].label} search failed:`, error);
+    }
+  }
 
-  for (let i = 0; i < candidates.length; i++) {
-    const candidate = candidates[i];
-    const progress = 75 + (i / candidates.length) * 15;
-    updateProgress(progress, `품질 측정 (${i + 1}/${candidates.length})`);
+  // 3단계 (GIF 폴백): GIF 원본보다 작은 후보가 없으면 재최적화 GIF 후보 추가
+  // (요청한 포맷의 후보가 하나도 없으면 실패로 끝내고 요청하지 않은 GIF로 대체하지 않음)
+  const needsGifFallback =
+    gifFallback &&
+    prepared.format === "gif" &&
+    !outputFormats.includes("gif") &&
+    candidates.length > 0 &&
+    candidates.every((candidate) => candidate.sizeKB >= originalSizeKB);
+  if (needsGifFallback) {
+    const gifConfigs = generateGifConfigs(paletteSize);
+    for (let i = 0; i < gifConfigs.length; i++) {
+      throwIfAborted(signal);
+      updateProgress(
+        70 + (i / gifConfigs.length) * 5,
+        `원본보다 작은 결과가 없어 GIF 재최적화 중 (${i + 1}/${gifConfigs.length})`
+      );
 
-    try {
-      const metrics = await calculateAllMetrics(originalBlob, candidate.blob);
-
-      // 인코딩 전략에 따른 품질 기준 설정
-      let meetsQualityCriteria = false;
-
-      if (candidate.config.encodingStrategy === "pure-lossless") {
-        // 완전 무손실: 매우 엄격한 기준 (실제로는 SSIM 1.0에 가까움)
-        meetsQualityCriteria = metrics.ssim >= 0.99;
-      } else if (candidate.config.encodingStrategy === "near-lossless") {
-        // 준무손실: 시각적으로 구분 불가능한 수준
-        meetsQualityCriteria =
-          metrics.ssim >= 0.97 &&
-          metrics.deltaE <= 3.0 &&
-          metrics.edgePreservation >= 0.93;
-      } else if (candidate.config.encodingStrategy === "hybrid") {
-        // 하이브리드: 높은 품질 기준
-        meetsQualityCriteria =
-          metrics.ssim >= 0.96 &&
-          metrics.deltaE <= 4.0 &&
-          metrics.edgePreservation >= 0.92;
-      } else {
-        // 최적화 손실: 표준 기준
-        meetsQualityCriteria =
-          metrics.ssim >= 0.95 &&
-          metrics.deltaE <= 5.0 &&
-          metrics.edgePreservation >= 0.90;
+      try {
+        const result = await convertWithConfig(
+          ffmpeg,
+          inputName,
+          gifConfigs[i],
+          metadata,
+          `${filePrefix}gif${i}`,
+          tempFiles,
+          signal
+        );
+        if (result) candidates.push(result);
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        logger.warn(`GIF config ${i} failed:`, error);
       }
+    }
+  }
 
-      // 완화된 기준: 모든 전략에 대해 SSIM ≥ 0.92
-      const meetsRelaxedCriteria = metrics.ssim >= 0.92;
+  if (candidates.length === 0) {
+    throw new Error("모든 변환 시도가 실패했습니다");
+  }
 
-      if (meetsQualityCriteria || meetsRelaxedCriteria) {
-        // 점수 계산: 전략에 따라 가중치 조정
-        let qualityWeight = 0.7;
-        let sizeWeight = 0.3;
+  updateProgress(75, "품질 평가 중...");
 
-        // 무손실 모드에서는 크기 절약을 더 중요시
-        if (lossless) {
-          qualityWeight = 0.5; // 품질은 이미 보장됨
-          sizeWeight = 0.5; // 크기 최소화에 집중
-        }
+  // 4단계: 품질 메트릭 계산 (워커 풀에서 후보 병렬 평가)
+  const unmeasured = candidates.filter(
+    (candidate) => !candidateMetrics.has(candidate)
+  );
+  const settled = await calculateMetricsBatch(
+    originalBlob,
+    unmeasured.map((candidate) => candidate.measureBlob ?? candidate.blob),
+    ANIMATION_METRICS_OPTIONS,
+    (completed, total) => {
+      updateProgress(
+        75 + (completed / total) * 15,
+        `품질 측정 (${completed}/${total})`
+      );
+    },
+    signal
+  );
+  throwIfAborted(signal);
 
-        const qualityScore =
-          metrics.ssim * 0.4 +
-          (1 - Math.min(metrics.deltaE / 10, 1)) * 0.3 +
-          metrics.edgePreservation * 0.3;
+  settled.forEach((outcome, i) => {
+    if (outcome.status === "fulfilled") {
+      candidateMetrics.set(unmeasured[i], outcome.value);
+    } else {
+      logger.warn(`Quality check failed for candidate ${i}:`, outcome.reason);
+    }
+  });
 
-        const sizeScore = 1 / candidate.sizeKB;
-        const score = qualityScore * qualityWeight + sizeScore * sizeWeight;
+  // 5단계: 최적 후보 선택
+  const rejectedCandidates = new Set<CandidateResult>(); // 투명도 손실로 탈락한 후보
+  const scoringCandidates: (ScoringCandidate & { source: CandidateResult })[] = [];
 
-        if (score > bestScore) {
-          bestScore = score;
-          bestCandidate = candidate;
-        }
-      }
-    } catch (error) {
-      console.warn(`Quality check failed for candidate ${i}:`, error);
+  for (let i = 0; i < candidates.length; i++) {
+    const candidate = candidates[i];
+    const metrics = candidateMetrics.get(candidate);
+    if (!metrics) continue;
+
+    // 투명도 손실은 품질 점수와 무관하게 즉시 탈락
+    if (
+      metadata.hasAlpha &&
+      (metrics.transparencyLoss ?? 0) > MAX_TRANSPARENCY_LOSS
+    ) {
+      logger.warn(
+        `Candidate ${i} rejected: transparency lost (${((metrics.transparencyLoss ?? 0) * 100).toFixed(1)}%)`
+      );
+      rejectedCandidates.add(candidate);
       continue;
     }
+
+    scoringCandidates.push({
+      sizeKB: candidate.sizeKB,
+      config: candidate.config,
+      metrics,
+      source: candidate,
+    });
   }
 
+  // 목표 용량 모드: 예산 내 최고 품질, 목표 품질 모드: 기준을 만족하는 가장 작은 파일
+  let policy = resolveScoringPolicy(
+    scoringPolicy ??
+      (targetSizeKB !== undefined
+        ? "best-quality-under-budget"
+        : qualityTarget
+          ? "smallest-passing"
+          : "balanced")
+  );
+  if (qualityTarget) policy = withThresholds(policy, qualityTarget);
+
+  const evaluations = evaluateCandidates(scoringCandidates, policy, {
+    lossless,
+    budgetKB: targetSizeKB,
+  });
+  // GIF 폴백 시: 원본보다 작은 후보 중에서만 선택 (모두 크면 원본 유지를 알림)
+  const isSmallerThanOriginal = (candidate: { sizeKB: number }) =>
+    !needsGifFallback || candidate.sizeKB < originalSizeKB;
+  const selected = selectBestCandidate(
+    evaluations.filter((evaluation) => isSmallerThanOriginal(evaluation.candidate)),
+    policy
+  );
+  let bestCandidate: CandidateResult | null = selected?.candidate.source ?? null;
+
   // 품질 기준을 만족하는 후보가 없으면 가장 높은 품질의 후보 선택
-  if (!bestCandidate && candidates.length > 0) {
+  const fallbackCandidates = candidates.filter(
+    (candidate) => !rejectedCandidates.has(candidate) && isSmallerThanOriginal(candidate)
+  );
+  if (!bestCandidate && fallbackCandidates.length > 0) {
     updateProgress(90, "품질 기준 완화, 최상 품질 선택 중...");
-    bestCandidate = candidates.reduce((best, current) =>
+    bestCandidate = fallbackCandidates.reduce((best, current) =>
       current.config.quality > best.config.quality ? current : best
     );
   }
 
+  if (!bestCandidate && needsGifFallback) {
+    throw new NoSmallerOutputError(
+      originalSizeKB,
+      Math.min(...candidates.map((candidate) => candidate.sizeKB))
+    );
+  }
+
   if (!bestCandidate) {
-    throw new Error("최적 설정을 찾을 수 없습니다");
+    throw new Error(
+      metadata.hasAlpha
+        ? "투명도를 유지하는 변환 결과가 없습니다"
+        : "최적 설정을 찾을 수 없습니다"
+    );
   }
 
+  // 후보 리더보드: 평가에서 제외된 후보도 사유와 함께 포함
+  const candidateReports = buildCandidateReports({
+    candidates,
+    metrics: candidateMetrics,
+    evaluations,
+    rejected: rejectedCandidates,
+    selected: bestCandidate,
+  });
+
   updateProgress(95, "최종 품질 확인 중...");
 
-  // 최종 메트릭 계산
-  const finalMetrics = await calculateAllMetrics(
-    originalBlob,
-    bestCandidate.blob
-  );
+  // 최종 메트릭: 평가 단계 결과 재사용 (평가가 실패한 폴백 후보만 다시 계산)
+  const finalMetrics =
+    candidateMetrics.get(bestCandidate) ??
+    (await calculateAllMetricsInWorker(
+      originalBlob,
+      bestCandidate.measureBlob ?? bestCandidate.blob,
+      ANIMATION_METRICS_OPTIONS,
+      signal
+    ));
 
   const url = URL.createObjectURL(bestCandidate.blob);
 
@@ -259,13 +763,10 @@ export async function optimizeGifToWebp({
     baseName = input.split("/").pop()?.replace(/\.[^/.]+$/, "") || "sample";
   }
 
-  const outputName = `${baseName}_optimized.webp`;
+  const outputName = `${baseName}_optimized.${OUTPUT_FORMATS[bestCandidate.config.outputFormat ?? "webp"].extension}`;
 
-  // 원본 크기 계산
-  const originalSize =
-    input instanceof File
-      ? input.size / 1024
-      : (await (await fetch(input)).blob()).size / 1024;
+  // 원본 크기 (입력 단계에서 읽은 바이트 기준)
+  const originalSize = originalSizeKB;
 
   const compressionRatio = bestCandidate.sizeKB / originalSize;
 
@@ -278,17 +779,11 @@ export async function optimizeGifToWebp({
   const totalPixels = metadata.width * metadata.height * metadata.frameCount;
   const bitsPerPixel = (bestCandidate.sizeKB * 1024 * 8) / totalPixels;
 
-  // 임시 파일 정리
-  try {
-    await ffmpeg.deleteFile(inputName);
-  } catch {
-    // 정리 실패 무시
-  }
-
   updateProgress(100, "변환 완료!");
 
   return {
     url,
+    blob: bestCandidate.blob,
     outputName,
     sizeKB: bestCandidate.sizeKB,
     config: bestCandidate.config,
@@ -303,6 +798,7 @@ export async function optimizeGifToWebp({
       isLargerThanOriginal,
       bitsPerPixel,
     },
+    candidates: candidateReports,
   };
 }
 
@@ -313,7 +809,8 @@ export async function optimizeGifToWebp({
 function generateOptimizationConfigs(
   metadata: GifMetadata,
   paletteSize: number,
-  lossless: boolean = false
+  lossless: boolean = false,
+  hasDuplicates: boolean = false // 픽셀 비교로 중복 프레임이 확인됨
 ): OptimizationConfig[] {
   const configs: OptimizationConfig[] = [];
 
@@ -343,7 +840,7 @@ function generateOptimizationConfigs(
       method: 6, // 최고 압축 방법
       useSharpYuv: false, // 무손실에서는 불필요
       encodingStrategy: "pure-lossless",
-      removeDuplicates: hasManyFrames,
+      removeDuplicates: hasDuplicates,
       deltaEncoding: hasManyFrames,
       denoise: false, // 완전 무손실에서는 노이즈 제거 안 함
       minKeyframeInterval: metadata.frameCount > 50 ? 10 : undefined,
@@ -363,7 +860,7 @@ function generateOptimizationConfigs(
       method: 4,
       useSharpYuv: false,
       encodingStrategy: "pure-lossless",
-      removeDuplicates: hasManyFrames,
+      removeDuplicates: hasDuplicates,
       deltaEncoding: hasManyFrames,
     });
 
@@ -382,7 +879,7 @@ function generateOptimizationConfigs(
       nearLossless: 60, // 시각적으로 거의 무손실
       useSharpYuv: false,
       encodingStrategy: "near-lossless",
-      removeDuplicates: hasManyFrames,
+      removeDuplicates: hasDuplicates,
       deltaEncoding: hasManyFrames,
     });
 
@@ -400,7 +897,7 @@ function generateOptimizationConfigs(
       nearLossless: 40,
       useSharpYuv: false,
       encodingStrategy: "near-lossless",
-      removeDuplicates: hasManyFrames,
+      removeDuplicates: hasDuplicates,
       deltaEncoding: hasManyFrames,
     });
 
@@ -418,7 +915,7 @@ function generateOptimizationConfigs(
       nearLossless: 20,
       useSharpYuv: false,
       encodingStrategy: "near-lossless",
-      removeDuplicates: hasManyFrames,
+      removeDuplicates: hasDuplicates,
       deltaEncoding: hasManyFrames,
     });
 
@@ -436,7 +933,7 @@ function generateOptimizationConfigs(
       method: 6,
       useSharpYuv: true, // RGB→YUV 변환 정확도 향상
       encodingStrategy: "hybrid",
-      removeDuplicates: hasManyFrames,
+      removeDuplicates: hasDuplicates,
       deltaEncoding: hasManyFrames,
     });
 
@@ -453,7 +950,7 @@ function generateOptimizationConfigs(
       method: 6,
       useSharpYuv: true,
       encodingStrategy: "optimized-lossy",
-      removeDuplicates: hasManyFrames,
+      removeDuplicates: hasDuplicates,
       deltaEncoding: hasManyFrames,
     });
 
@@ -471,7 +968,7 @@ function generateOptimizationConfigs(
       nearLossless: 50,
       useSharpYuv: false,
       encodingStrategy: "near-lossless",
-      removeDuplicates: hasManyFrames,
+      removeDuplicates: hasDuplicates,
       deltaEncoding: hasManyFrames,
     });
 
@@ -490,7 +987,7 @@ function generateOptimizationConfigs(
       nearLossless: 30,
       useSharpYuv: false,
       encodingStrategy: "near-lossless",
-      removeDuplicates: hasManyFrames,
+      removeDuplicates: hasDuplicates,
       deltaEncoding: hasManyFrames,
       denoise: true,
       denoiseStrength: "light", // 약한 노이즈 제거
@@ -509,7 +1006,7 @@ function generateOptimizationConfigs(
       method: 6,
       useSharpYuv: true,
       encodingStrategy: "hybrid",
-      removeDuplicates: hasManyFrames,
+      removeDuplicates: hasDuplicates,
       deltaEncoding: hasManyFrames,
       denoise: true,
       denoiseStrength: "medium", // 중간 강도 노이즈 제거
@@ -545,6 +1042,161 @@ function generateOptimizationConfigs(
   return configs;
 }
 
+/**
+ * AVIF 설정 조합 생성
+ * CRF 단계별로 고품질(4:4:4)부터 고압축(4:2:0)까지 시도
+ */
+function generateAvifConfigs(metadata: GifMetadata): OptimizationConfig[] {
+  const levels: { crf: number; chromaSubsampling: "420" | "444" }[] = [
+    { crf: 20, chromaSubsampling: "444" }, // 고품질: 색 경계 보존
+    { crf: 28, chromaSubsampling: "444" },
+    { crf: 34, chromaSubsampling: "420" }, // 균형
+    { crf: 40, chromaSubsampling: "420" }, // 고압축
+  ];
+
+  return levels.map(({ crf, chromaSubsampling }) => ({
+    quality: crfToQuality(crf), // 폴백 선택 시 WebP 품질과 같은 척도로 비교
+    compression: 6,
+    preset: "picture",
+    scaleFilter: "lanczos",
+    ditherMethod: "none",
+    pixelFormat: `yuv${chromaSubsampling}p`,
+    usePalette: false,
+    lossless: false,
+    encodingStrategy: crf <= 20 ? "hybrid" : "optimized-lossy",
+    outputFormat: "avif",
+    crf,
+    cpuUsed: 6,
+    chromaSubsampling,
+    alphaPlane: metadata.hasAlpha,
+  }));
+}
+
+/**
+ * GIF 재최적화 설정 조합 생성
+ * 원본 팔레트 수준부터 색상 수를 줄여가며 손실 압축 강도를 높임
+ */
+function generateGifConfigs(paletteSize: number): OptimizationConfig[] {
+  const fullColors = paletteSize > 0 ? Math.min(256, paletteSize) : 256;
+  const levels: {
+    maxColors: number;
+    statsMode: "full" | "diff" | "single";
+    dither: string;
+  }[] = [
+    { maxColors: fullColors, statsMode: "single", dither: "none" }, // 프레임별 팔레트: 원본과 가장 가까움
+    { maxColors: fullColors, statsMode: "diff", dither: "none" }, // 움직이는 영역 위주 전역 팔레트
+    { maxColors: Math.min(128, fullColors), statsMode: "diff", dither: "bayer:bayer_scale=3" },
+    { maxColors: Math.min(64, fullColors), statsMode: "diff", dither: "bayer:bayer_scale=2" },
+  ];
+
+  return levels.map(({ maxColors, statsMode, dither }) => ({
+    quality: Math.round((maxColors / 256) * 100), // 폴백 선택 시 색상 수를 품질 척도로 사용
+    compression: 6,
+    preset: "picture",
+    scaleFilter: "lanczos",
+    ditherMethod: dither,
+    pixelFormat: "pal8",
+    usePalette: true,
+    lossless: false,
+    encodingStrategy: maxColors >= fullColors ? "hybrid" : "optimized-lossy",
+    outputFormat: "gif",
+    maxColors,
+    paletteStatsMode: statsMode,
+    transparencyDiff: true, // 중복 프레임도 투명 차분으로 거의 0바이트가 되므로 mpdecimate 불필요
+  }));
+}
+
+// 동영상 CRF 탐색 범위 (하한: 사실상 무손실, 상한: 눈에 띄는 블록 노이즈 직전)
+const VIDEO_CRF_RANGE: Record<VideoFormat, { min: number; max: number }> = {
+  mp4: { min: 16, max: 40 },
+  webm: { min: 18, max: 50 },
+};
+
+/**
+ * 동영상 CRF → 인코딩 설정
+ */
+function createVideoConfig(
+  format: VideoFormat,
+  crf: number,
+  metadata: GifMetadata
+): OptimizationConfig {
+  return {
+    quality: crfToQuality(crf, MAX_CRF[format]), // 폴백 선택 시 WebP 품질과 같은 척도로 비교
+    compression: 6,
+    preset: "picture",
+    scaleFilter: "lanczos",
+    ditherMethod: "none",
+    pixelFormat: format === "webm" && metadata.hasAlpha ? "yuva420p" : "yuv420p",
+    usePalette: false,
+    lossless: false,
+    encodingStrategy: "optimized-lossy",
+    outputFormat: format,
+    crf,
+    cpuUsed: 2,
+    alphaPlane: format === "webm" && metadata.hasAlpha,
+  };
+}
+
+/**
+ * 동영상을 품질 측정용 무손실 애니메이션 WebP로 디코딩 (원본 프레임 지연으로 재설정)
+ * 브라우저 ImageDecoder는 동영상 컨테이너를 디코딩하지 못하므로 원본/후보 모두 이 형태로 비교
+ */
+async function decodeVideoReference(
+  ffmpeg: FFmpeg,
+  inputName: string,
+  format: VideoFormat,
+  metadata: GifMetadata,
+  fileKey: string,
+  tempFiles: Set<string>,
+  signal?: AbortSignal,
+  alpha: boolean = metadata.hasAlpha
+): Promise<Blob> {
+  const proxyName = `proxy_${fileKey}.webp`;
+  tempFiles.add(proxyName);
+  await execEncoder(
+    ffmpeg,
+    buildVideoDecodeArgs({ format, alpha, inputName, outputName: proxyName }),
+    signal
+  );
+
+  const proxy = (await ffmpeg.readFile(proxyName, undefined, {
+    signal,
+  })) as Uint8Array;
+  await deleteTempFiles(ffmpeg, [proxyName]);
+  tempFiles.delete(proxyName);
+
+  return new Blob(
+    [retimeAnimatedWebp(proxy, metadata.frameDelays).slice().buffer],
+    { type: "image/webp" }
+  );
+}
+
+/**
+ * 목표 용량/품질 탐색 파라미터 → 인코딩 설정
+ * 번들된 libwebp 인코더가 지원하는 옵션(-q:v 또는 -lossless/-quality, -compression_level, -preset)만 사용
+ */
+function createSearchConfig(
+  params: TargetQualityParams & Partial<TargetSizeShape>,
+  metadata: GifMetadata
+): OptimizationConfig {
+  const lossless = params.lossless ?? false;
+
+  return {
+    quality: params.quality,
+    compression: 6,
+    // 무손실은 프리셋을 지정하면 libwebp가 픽셀을 바꾸므로 프리셋 없이 RGB 그대로 인코딩
+    preset: lossless ? "none" : "picture",
+    scaleFilter: "lanczos",
+    ditherMethod: "bayer:bayer_scale=2",
+    pixelFormat: lossless ? "bgra" : metadata.hasAlpha ? "yuva444p" : "yuv420p",
+    usePalette: false,
+    lossless,
+    encodingStrategy: lossless ? "pure-lossless" : "optimized-lossy",
+    scale: params.scale,
+    frameStep: params.frameStep,
+  };
+}
+
 /**
  * 특정 설정으로 변환 실행
  */
@@ -553,12 +1205,18 @@ async function convertWithConfig(
   inputName: string,
   config: OptimizationConfig,
   metadata: GifMetadata,
-  index: number
+  fileKey: string, // 후보별 임시 파일명 구분자
+  tempFiles: Set<string>,
+  signal?: AbortSignal,
+  duplicateTimeline?: FrameTimeline | null // 중복 프레임 병합 타임라인 (removeDuplicates일 때 사용)
 ): Promise<CandidateResult | null> {
-  const outputName = `candidate_${index}.webp`;
+  const format = config.outputFormat ?? "webp";
+  const merged = config.removeDuplicates ? duplicateTimeline : null;
+  const outputName = `candidate_${fileKey}.${OUTPUT_FORMATS[format].extension}`;
+  tempFiles.add(outputName);
 
   // === 필터 체인 구성 ===
-  let filterChain = "";
+  const filters: string[] = [];
 
   // 1. 노이즈 제거 필터 (선처리)
   if (config.denoise) {
@@ -581,40 +1239,126 @@ async function convertWithConfig(
       default:
         denoiseParams = "2:2:4:4"; // 기본값
     }
-    filterChain += `hqdn3d=${denoiseParams},`;
+    filters.push(`hqdn3d=${denoiseParams}`);
   }
 
-  // 2. 프레임 최적화: 중복 제거 (mpdecimate 필터)
-  if (config.removeDuplicates && metadata.frameCount > 10) {
-    // mpdecimate: 거의 동일한 프레임 제거 (hi/lo/frac 파라미터로 민감도 조절)
-    // hi=512, lo=64, frac=0.1은 매우 유사한 프레임만 제거
-    filterChain += "mpdecimate=hi=512:lo=64:frac=0.1,";
+  // 2. 프레임 최적화: 픽셀 비교로 찾은 중복 프레임 병합 (표시 시간은 retime에서 유지 프레임에 합산)
+  if (merged) {
+    filters.push(`select=${buildSelectExpression(merged.indices)}`);
   }
 
-  // 3. FPS 설정 (중복 제거 후 프레임레이트 조정)
-  filterChain += `fps=${metadata.fps}`;
+  // 3. 프레임 솎아내기 (목표 용량 모드): 남은 프레임의 표시 시간은 retime에서 원본 구간 합으로 보정
+  if (config.frameStep && config.frameStep > 1) {
+    filters.push(`select=not(mod(n\\,${config.frameStep}))`);
+  }
 
   // 4. 스케일 필터 (고품질 리샘플링)
-  filterChain += `,scale=iw:-1:flags=${config.scaleFilter}`;
+  // 프레임레이트는 고정하지 않음: GIF 디먹서의 실제 프레임 타임스탬프를 -vsync 0으로 그대로 전달
+  const width =
+    config.scale && config.scale < 1 ? `round(iw*${config.scale})` : "iw";
+  filters.push(`scale=${width}:-1:flags=${config.scaleFilter}`);
+
+  let filterChain = filters.join(",");
+
+  // 동영상: 인코딩 후 품질 측정용으로 무손실 WebP 디코딩본을 함께 반환
+  if (isVideoFormat(format)) {
+    const alpha = config.alphaPlane ?? false;
+    await execEncoder(
+      ffmpeg,
+      buildVideoArgs({
+        format,
+        inputName,
+        outputName,
+        filterChain,
+        options: { crf: config.crf ?? 28, speed: config.cpuUsed ?? 2, alpha },
+      }),
+      signal
+    );
+
+    const data = (await ffmpeg.readFile(outputName, undefined, {
+      signal,
+    })) as Uint8Array;
+    const blob = new Blob([data.slice().buffer], {
+      type: OUTPUT_FORMATS[format].mimeType,
+    });
+
+    const measureBlob = await decodeVideoReference(
+      ffmpeg,
+      outputName,
+      format,
+      metadata,
+      fileKey,
+      tempFiles,
+      signal,
+      alpha
+    );
+
+    await deleteTempFiles(ffmpeg, [outputName]);
+    tempFiles.delete(outputName);
+
+    return { blob, config, sizeKB: blob.size / 1024, measureBlob };
+  }
+
+  // AVIF/GIF: 포맷 전용 인코더 인자 사용 (프레임 타이밍은 컨테이너에 그대로 기록되어 retime 불필요)
+  if (format !== "webp") {
+    const args =
+      format === "avif"
+        ? buildAvifArgs({
+            inputName,
+            outputName,
+            filterChain,
+            options: {
+              crf: config.crf ?? 30,
+              cpuUsed: config.cpuUsed ?? 6,
+              chromaSubsampling: config.chromaSubsampling ?? "420",
+              alphaPlane: config.alphaPlane ?? metadata.hasAlpha,
+            },
+          })
+        : buildGifArgs({
+            inputName,
+            outputName,
+            filterChain,
+            options: {
+              maxColors: config.maxColors ?? 256,
+              statsMode: config.paletteStatsMode ?? "diff",
+              dither: config.ditherMethod,
+              transparencyDiff: config.transparencyDiff ?? true,
+            },
+          });
+    await execEncoder(ffmpeg, args, signal);
+
+    const data = (await ffmpeg.readFile(outputName, undefined, {
+      signal,
+    })) as Uint8Array;
+    const blob = new Blob([data.slice().buffer], {
+      type: OUTPUT_FORMATS[format].mimeType,
+    });
+
+    await deleteTempFiles(ffmpeg, [outputName]);
+    tempFiles.delete(outputName);
+
+    return { blob, config, sizeKB: blob.size / 1024 };
+  }
 
   // 팔레트 사용 시
   if (config.usePalette) {
-    const paletteFile = `palette_${index}.png`;
+    const paletteFile = `palette_${fileKey}.png`;
+    tempFiles.add(paletteFile);
 
     // 팔레트 생성
-    await ffmpeg.exec([
+    await execEncoder(ffmpeg, [
       "-i",
       inputName,
       "-vf",
       `palettegen=max_colors=256:stats_mode=diff`,
       "-y",
       paletteFile,
-    ]);
+    ], signal);
 
     // 팔레트 적용
     filterChain += `[x];[x][1:v]paletteuse=dither=${config.ditherMethod}`;
 
-    await ffmpeg.exec([
+    await execEncoder(ffmpeg, [
       "-i",
       inputName,
       "-i",
@@ -632,16 +1376,15 @@ async function convertWithConfig(
       "-loop",
       "0",
       "-an",
+      "-vsync",
+      "0",
       "-y",
       outputName,
-    ]);
+    ], signal);
 
     // 팔레트 파일 삭제
-    try {
-      await ffmpeg.deleteFile(paletteFile);
-    } catch {
-      // 무시
-    }
+    await deleteTempFiles(ffmpeg, [paletteFile]);
+    tempFiles.delete(paletteFile);
   } else {
     // === 일반 변환 (고급 WebP 옵션 적용) ===
     filterChain += `,format=${config.pixelFormat}`;
@@ -690,23 +1433,27 @@ async function convertWithConfig(
       "-loop",
       "0",
       "-an", // 오디오 제거
+      "-vsync", "0", // 원본 프레임 타이밍 유지
       "-map_metadata", "-1", // 메타데이터 제거 (크기 절약)
       "-y",
       outputName
     );
 
-    await ffmpeg.exec(ffmpegArgs);
+    await execEncoder(ffmpeg, ffmpegArgs, signal);
   }
 
-  const data = (await ffmpeg.readFile(outputName)) as Uint8Array;
-  const blob = new Blob([data.slice().buffer], { type: "image/webp" });
+  const data = (await ffmpeg.readFile(outputName, undefined, {
+    signal,
+  })) as Uint8Array;
+
+  // 원본 프레임별 지연을 ANMF 표시 시간에 그대로 반영 (가변 지연, 마지막 프레임 정지 보존)
+  // 중복을 병합했으면 유지 프레임별로 합산한 지연을 1:1로 기록
+  const retimed = retimeAnimatedWebp(data, merged ? merged.delays : metadata.frameDelays);
+  const blob = new Blob([retimed.slice().buffer], { type: "image/webp" });
 
   // 출력 파일 삭제
-  try {
-    await ffmpeg.deleteFile(outputName);
-  } catch {
-    // 무시
-  }
+  await deleteTempFiles(ffmpeg, [outputName]);
+  tempFiles.delete(outputName);
 
   return {
     blob,
@@ -714,34 +1461,3 @@ async function convertWithConfig(
     sizeKB: blob.size / 1024,
   };
 }
-
-/**
- * GIF의 첫 프레임을 PNG로 추출 (품질 비교용)
- */
-async function extractFirstFrame(
-  ffmpeg: FFmpeg,
-  inputName: string
-): Promise<Blob> {
-  const frameName = "first_frame.png";
-
-  await ffmpeg.exec([
-    "-i",
-    inputName,
-    "-vframes",
-    "1",
-    "-f",
-    "image2",
-    frameName,
-  ]);
-
-  const data = (await ffmpeg.readFile(frameName)) as Uint8Array;
-  const blob = new Blob([data.slice().buffer], { type: "image/png" });
-
-  try {
-    await ffmpeg.deleteFile(frameName);
-  } catch {
-    // 무시
-  }
-
-  return blob;
-}
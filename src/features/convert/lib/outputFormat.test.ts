@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildAvifArgs,
+  buildGifArgs,
+  buildVideoArgs,
+  buildVideoDecodeArgs,
+  buildVideoSnippet,
+  crfToQuality,
+  MAX_CRF,
+  outputFormatOf,
+  qualityToCrf,
+} from './outputFormat';
+
+describe('Output Format', () => {
+  it('should map WebP quality onto the AVIF CRF range and back', () => {
+    expect(qualityToCrf(100)).toBe(0);
+    expect(qualityToCrf(0)).toBe(63);
+    expect(qualityToCrf(150)).toBe(0);
+    expect(crfToQuality(0)).toBe(100);
+    expect(crfToQuality(63)).toBe(0);
+    expect(Math.abs(crfToQuality(qualityToCrf(80)) - 80)).toBeLessThanOrEqual(1);
+  });
+
+  it('should detect the format from the file name', () => {
+    expect(outputFormatOf('a_optimized.AVIF')).toBe('avif');
+    expect(outputFormatOf('a.webp')).toBe('webp');
+    expect(outputFormatOf('a_optimized.gif')).toBe('gif');
+    expect(outputFormatOf('a_optimized.mp4')).toBe('mp4');
+    expect(outputFormatOf('noext')).toBe('webp');
+  });
+
+  it('should encode alpha as a separate stream when an alpha plane is requested', () => {
+    const options = { crf: 30, cpuUsed: 6, chromaSubsampling: '444' as const };
+    const withAlpha = buildAvifArgs({
+      inputName: 'in.gif',
+      outputName: 'out.avif',
+      filterChain: 'scale=iw:-1',
+      options: { ...options, alphaPlane: true },
+    });
+    const opaque = buildAvifArgs({
+      inputName: 'in.gif',
+      outputName: 'out.avif',
+      filterChain: 'scale=iw:-1',
+      options: { ...options, alphaPlane: false },
+    });
+
+    expect(withAlpha).toContain('-filter_complex');
+    expect(withAlpha.filter((arg) => arg === '-map')).toHaveLength(2);
+    expect(withAlpha.join(' ')).toContain('alphaextract');
+    expect(opaque[opaque.indexOf('-filter:v') + 1]).toBe('scale=iw:-1,format=yuv444p');
+    expect(opaque).not.toContain('-map');
+
+    for (const args of [withAlpha, opaque]) {
+      expect(args[args.indexOf('-c:v') + 1]).toBe('libaom-av1');
+      expect(args[args.indexOf('-crf') + 1]).toBe('30');
+      expect(args[args.indexOf('-f') + 1]).toBe('avif');
+      expect(args.at(-1)).toBe('out.avif');
+    }
+  });
+
+  it('should build a single-pass palette GIF with rectangle diffing', () => {
+    const args = buildGifArgs({
+      inputName: 'in.gif',
+      outputName: 'out.gif',
+      filterChain: 'scale=iw:-1',
+      options: { maxColors: 500, statsMode: 'single', dither: 'none', transparencyDiff: true },
+    });
+    const graph = args[args.indexOf('-filter_complex') + 1];
+
+    expect(graph).toContain('palettegen=max_colors=256:stats_mode=single');
+    expect(graph).toContain('paletteuse=dither=none:diff_mode=rectangle:new=1');
+    expect(args[args.indexOf('-gifflags') + 1]).toBe('+offsetting+transdiff');
+    expect(args.at(-1)).toBe('out.gif');
+  });
+
+  it('should keep alpha only for VP9 WebM and pad dimensions to even sizes', () => {
+    const options = { crf: 30, speed: 4, alpha: true };
+    const webm = buildVideoArgs({
+      format: 'webm',
+      inputName: 'in.gif',
+      outputName: 'out.webm',
+      filterChain: 'scale=iw:-1',
+      options,
+    });
+    const mp4 = buildVideoArgs({
+      format: 'mp4',
+      inputName: 'in.gif',
+      outputName: 'out.mp4',
+      filterChain: 'scale=iw:-1',
+      options,
+    });
+
+    expect(webm[webm.indexOf('-c:v') + 1]).toBe('libvpx-vp9');
+    expect(webm[webm.indexOf('-pix_fmt') + 1]).toBe('yuva420p');
+    expect(webm[webm.indexOf('-auto-alt-ref') + 1]).toBe('0');
+    expect(mp4[mp4.indexOf('-c:v') + 1]).toBe('libx264');
+    expect(mp4[mp4.indexOf('-pix_fmt') + 1]).toBe('yuv420p');
+    expect(mp4[mp4.indexOf('-preset') + 1]).toBe('fast');
+    expect(mp4).toContain('+faststart');
+    expect(mp4[mp4.indexOf('-filter:v') + 1]).toContain('scale=trunc(iw/2)*2:trunc(ih/2)*2');
+    expect(qualityToCrf(0, MAX_CRF.mp4)).toBe(51);
+  });
+
+  it('should decode VP9 alpha with libvpx for measurement and suggest video markup', () => {
+    const decode = buildVideoDecodeArgs({
+      format: 'webm',
+      alpha: true,
+      inputName: 'out.webm',
+      outputName: 'proxy.webp',
+    });
+
+    expect(decode.slice(0, 3)).toEqual(['-c:v', 'libvpx-vp9', '-i']);
+    expect(decode[decode.indexOf('-lossless') + 1]).toBe('1');
+    expect(buildVideoSnippet('a.mp4', 'mp4')).toContain('<video autoplay loop muted playsinline>');
+    expect(buildVideoSnippet('a.mp4', 'mp4')).toContain('type="video/mp4"');
+  });
+});
@@ -0,0 +1,335 @@
+/**
+ * 출력 포맷 정의 및 AVIF/GIF/동영상 인코더 인자 구성
+ * WebP(libwebp), AVIF(libaom-av1 이미지 시퀀스), 재최적화 GIF,
+ * 무음 반복 동영상(H.264 MP4, VP9 WebM)을 같은 변환 파이프라인에서 사용
+ * AVIF는 AV1 인코더가 포함된 ffmpeg 빌드에서만 사용 가능 (encoderSupport에서 확인)
+ */
+
+export type OutputFormat = "webp" | "avif" | "gif" | "mp4" | "webm";
+
+export type VideoFormat = Extract<OutputFormat, "mp4" | "webm">;
+
+// encoder: 인코더 지원 확인(encoderSupport)에 사용하는 ffmpeg 인코더 이름
+export const OUTPUT_FORMATS: Record<
+  OutputFormat,
+  { label: string; extension: string; mimeType: string; encoder: string }
+> = {
+  webp: { label: "WebP", extension: "webp", mimeType: "image/webp", encoder: "libwebp" },
+  avif: { label: "AVIF", extension: "avif", mimeType: "image/avif", encoder: "libaom-av1" },
+  gif: { label: "GIF (재최적화)", extension: "gif", mimeType: "image/gif", encoder: "gif" },
+  mp4: { label: "MP4 (H.264)", extension: "mp4", mimeType: "video/mp4", encoder: "libx264" },
+  webm: { label: "WebM (VP9)", extension: "webm", mimeType: "video/webm", encoder: "libvpx-vp9" },
+};
+
+// 포맷별 CRF 최댓값 (낮을수록 고품질)
+export const MAX_CRF: Record<"avif" | VideoFormat, number> = {
+  avif: 63,
+  mp4: 51,
+  webm: 63,
+};
+
+export interface AvifEncodeOptions {
+  crf: number; // 0-63 (낮을수록 고품질)
+  cpuUsed: number; // 0-8 (높을수록 빠르지만 압축률 낮음)
+  chromaSubsampling: "420" | "444";
+  alphaPlane: boolean; // 알파를 별도 보조 이미지(alpha plane)로 인코딩
+}
+
+export interface GifEncodeOptions {
+  maxColors: number; // 2-256: 팔레트 색상 수 (줄일수록 손실 압축)
+  statsMode: "full" | "diff" | "single"; // palettegen 통계 대상 (single: 프레임별 팔레트)
+  dither: string; // paletteuse 디더링 (none이면 평탄한 영역 압축에 유리)
+  transparencyDiff: boolean; // 이전 프레임과 같은 픽셀을 투명 처리해 프레임 간 차분 저장
+}
+
+export interface VideoEncodeOptions {
+  crf: number; // MP4 0-51, WebM 0-63 (낮을수록 고품질)
+  speed: number; // 0-8 (높을수록 빠르지만 압축률 낮음)
+  alpha: boolean; // WebM(VP9)만 지원: yuva420p로 알파 인코딩
+}
+
+// x264 프리셋 (speed 0-8에 대응)
+const X264_PRESETS = [
+  "veryslow",
+  "slower",
+  "slow",
+  "medium",
+  "fast",
+  "faster",
+  "veryfast",
+  "superfast",
+  "ultrafast",
+];
+
+/**
+ * WebP 품질(0-100)을 CRF(최댓값-0)로 변환
+ */
+export function qualityToCrf(
+  quality: number,
+  maxCrf: number = MAX_CRF.avif
+): number {
+  const clamped = Math.min(100, Math.max(0, quality));
+  return Math.round(maxCrf - (clamped / 100) * maxCrf);
+}
+
+/**
+ * CRF(0-최댓값)를 WebP 품질 척도(100-0)로 변환 (후보 간 품질 비교용)
+ */
+export function crfToQuality(crf: number, maxCrf: number = MAX_CRF.avif): number {
+  return Math.round(100 - (Math.min(maxCrf, Math.max(0, crf)) / maxCrf) * 100);
+}
+
+/**
+ * 동영상 출력 포맷인지 확인
+ */
+export function isVideoFormat(format: OutputFormat): format is VideoFormat {
+  return format === "mp4" || format === "webm";
+}
+
+/**
+ * 파일명 확장자로 출력 포맷 판별 (알 수 없으면 WebP)
+ */
+export function outputFormatOf(fileName: string): OutputFormat {
+  const extension = fileName.toLowerCase().split(".").pop();
+  const format = (Object.keys(OUTPUT_FORMATS) as OutputFormat[]).find(
+    (key) => OUTPUT_FORMATS[key].extension === extension
+  );
+  return format ?? "webp";
+}
+
+/**
+ * AVIF 시퀀스 인코딩 ffmpeg 인자
+ * 알파가 있으면 색상/알파를 두 스트림으로 분리해 muxer가 alpha 보조 트랙으로 기록
+ *
+ * @param filterChain 포맷 변환 전까지의 필터 체인 (스케일 등)
+ */
+export function buildAvifArgs({
+  inputName,
+  outputName,
+  filterChain,
+  options,
+}: {
+  inputName: string;
+  outputName: string;
+  filterChain: string;
+  options: AvifEncodeOptions;
+}): string[] {
+  const pixelFormat = `yuv${options.chromaSubsampling}p`;
+  const args = ["-i", inputName];
+
+  if (options.alphaPlane) {
+    args.push(
+      "-filter_complex",
+      `[0:v]${filterChain},format=rgba,split[c][a];` +
+        `[c]format=${pixelFormat}[color];` +
+        `[a]alphaextract,format=gray[alpha]`,
+      "-map",
+      "[color]",
+      "-map",
+      "[alpha]"
+    );
+  } else {
+    args.push("-filter:v", `${filterChain},format=${pixelFormat}`);
+  }
+
+  args.push(
+    "-c:v",
+    OUTPUT_FORMATS.avif.encoder,
+    "-crf",
+    String(options.crf),
+    "-b:v",
+    "0", // CRF 전용 (비트레이트 제한 없음)
+    "-cpu-used",
+    String(options.cpuUsed),
+    "-row-mt",
+    "1",
+    "-an",
+    "-vsync",
+    "0", // 원본 프레임 타이밍 유지 (stts에 그대로 기록)
+    "-map_metadata",
+    "-1",
+    "-f",
+    "avif",
+    "-y",
+    outputName
+  );
+
+  return args;
+}
+
+/**
+ * GIF 재최적화 ffmpeg 인자 (gifsicle 방식)
+ * - palettegen/paletteuse 단일 패스로 입력에 맞춘 팔레트 생성
+ * - diff_mode=rectangle: 변경된 사각형 영역만 다시 디더링
+ * - offsetting: 프레임을 변경 영역으로 잘라 저장, transdiff: 변하지 않은 픽셀은 투명 처리
+ *
+ * @param filterChain 팔레트 처리 전까지의 필터 체인 (스케일 등)
+ */
+export function buildGifArgs({
+  inputName,
+  outputName,
+  filterChain,
+  options,
+}: {
+  inputName: string;
+  outputName: string;
+  filterChain: string;
+  options: GifEncodeOptions;
+}): string[] {
+  const maxColors = Math.min(256, Math.max(2, Math.round(options.maxColors)));
+  const paletteuse = [
+    `dither=${options.dither}`,
+    "diff_mode=rectangle",
+    ...(options.statsMode === "single" ? ["new=1"] : []),
+  ].join(":");
+
+  return [
+    "-i",
+    inputName,
+    "-filter_complex",
+    `[0:v]${filterChain},split[s0][s1];` +
+      `[s0]palettegen=max_colors=${maxColors}:stats_mode=${options.statsMode}:reserve_transparent=1[p];` +
+      `[s1][p]paletteuse=${paletteuse}`,
+    "-gifflags",
+    options.transparencyDiff ? "+offsetting+transdiff" : "+offsetting-transdiff",
+    "-loop",
+    "0",
+    "-an",
+    "-vsync",
+    "0", // 원본 프레임 지연 유지
+    "-map_metadata",
+    "-1",
+    "-f",
+    "gif",
+    "-y",
+    outputName,
+  ];
+}
+
+/**
+ * 무음 반복 동영상 인코딩 ffmpeg 인자
+ * yuv420p 크로마 서브샘플링을 위해 가로/세로를 짝수로 맞춤
+ *
+ * @param filterChain 포맷 변환 전까지의 필터 체인 (스케일 등)
+ */
+export function buildVideoArgs({
+  format,
+  inputName,
+  outputName,
+  filterChain,
+  options,
+}: {
+  format: VideoFormat;
+  inputName: string;
+  outputName: string;
+  filterChain: string;
+  options: VideoEncodeOptions;
+}): string[] {
+  const speed = Math.min(8, Math.max(0, Math.round(options.speed)));
+  const alpha = format === "webm" && options.alpha;
+  const pixelFormat = alpha ? "yuva420p" : "yuv420p";
+
+  const args = [
+    "-i",
+    inputName,
+    "-filter:v",
+    `${filterChain},scale=trunc(iw/2)*2:trunc(ih/2)*2,format=${pixelFormat}`,
+  ];
+
+  if (format === "mp4") {
+    args.push(
+      "-c:v",
+      "libx264",
+      "-crf",
+      String(options.crf),
+      "-preset",
+      X264_PRESETS[speed],
+      "-pix_fmt",
+      pixelFormat,
+      "-movflags",
+      "+faststart" // 다운로드 완료 전 재생 시작
+    );
+  } else {
+    args.push(
+      "-c:v",
+      "libvpx-vp9",
+      "-crf",
+      String(options.crf),
+      "-b:v",
+      "0", // CRF 전용 (비트레이트 제한 없음)
+      "-deadline",
+      "good",
+      "-cpu-used",
+      String(Math.min(5, speed)),
+      "-row-mt",
+      "1",
+      "-pix_fmt",
+      pixelFormat
+    );
+    // 알파는 alt-ref 프레임과 함께 사용할 수 없음
+    if (alpha) args.push("-auto-alt-ref", "0");
+  }
+
+  args.push(
+    "-an",
+    "-vsync",
+    "0", // 원본 프레임 타이밍 유지 (가변 프레임레이트)
+    "-map_metadata",
+    "-1",
+    "-f",
+    format,
+    "-y",
+    outputName
+  );
+
+  return args;
+}
+
+/**
+ * 품질 측정용 디코딩 인자: 동영상을 무손실 애니메이션 WebP로 변환
+ * (브라우저 ImageDecoder는 동영상 컨테이너를 디코딩하지 못함)
+ * VP9 알파는 libvpx 디코더로만 복원되므로 입력 앞에 디코더를 지정
+ */
+export function buildVideoDecodeArgs({
+  format,
+  alpha,
+  inputName,
+  outputName,
+}: {
+  format: VideoFormat;
+  alpha: boolean;
+  inputName: string;
+  outputName: string;
+}): string[] {
+  return [
+    ...(format === "webm" && alpha ? ["-c:v", "libvpx-vp9"] : []),
+    "-i",
+    inputName,
+    "-c:v",
+    "libwebp",
+    "-lossless",
+    "1",
+    "-compression_level",
+    "0", // 측정용이므로 속도 우선
+    "-pix_fmt",
+    "bgra", // 브라우저 재생과 같은 RGB로 변환해 무손실 저장
+    "-loop",
+    "0",
+    "-an",
+    "-vsync",
+    "0",
+    "-y",
+    outputName,
+  ];
+}
+
+/**
+ * GIF 대체용 <video> 마크업
+ */
+export function buildVideoSnippet(fileName: string, format: VideoFormat): string {
+  return [
+    "<video autoplay loop muted playsinline>",
+    `  <source src="${fileName}" type="${OUTPUT_FORMATS[format].mimeType}">`,
+    "</video>",
+  ].join("\n");
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildTransformFilter,
+  computeOutputSize,
+  hasOutputTransform,
+  planFrameTimeline,
+} from './outputTransform';
+
+describe('Output Size', () => {
+  it('should fit within the max box while preserving aspect ratio without upscaling', () => {
+    expect(computeOutputSize(400, 300, { maxWidth: 200 })).toEqual({ width: 200, height: 150 });
+    expect(computeOutputSize(400, 300, { maxWidth: 200, maxHeight: 100 })).toEqual({ width: 133, height: 100 });
+    expect(computeOutputSize(400, 300, { maxWidth: 1000 })).toEqual({ width: 400, height: 300 });
+  });
+
+  it('should apply the crop before the size limit and clamp it to the source', () => {
+    expect(
+      computeOutputSize(400, 300, { crop: { x: 100, y: 50, width: 200, height: 100 }, maxWidth: 100 })
+    ).toEqual({ width: 100, height: 50 });
+    expect(computeOutputSize(400, 300, { crop: { x: 350, y: 0, width: 200, height: 500 } })).toEqual({
+      width: 50,
+      height: 300,
+    });
+  });
+});
+
+describe('Frame Timeline', () => {
+  it('should keep every frame when no timing transform is set', () => {
+    expect(planFrameTimeline([100, 50, 80], {})).toEqual({ indices: [0, 1, 2], delays: [100, 50, 80] });
+  });
+
+  it('should trim to the frame range and scale delays by speed', () => {
+    expect(planFrameTimeline([100, 100, 100, 100, 100], { trim: { start: 1, end: 4 }, speed: 2 })).toEqual({
+      indices: [1, 2, 3],
+      delays: [50, 50, 50],
+    });
+  });
+
+  it('should merge frames above the fps cap while preserving total duration', () => {
+    const delays = Array.from({ length: 10 }, () => 20); // 50fps, 200ms
+    const plan = planFrameTimeline(delays, { maxFps: 20 });
+
+    expect(plan.indices).toEqual([0, 3, 6, 9]);
+    expect(plan.delays).toEqual([60, 60, 60, 20]);
+    expect(plan.delays.reduce((sum, d) => sum + d, 0)).toBe(200);
+  });
+
+  it('should drop and retime frames before trimming and speed', () => {
+    const plan = planFrameTimeline([100, 100, 100, 100], {
+      frameEdits: { dropped: [1], delays: { 2: 300 } },
+      speed: 2,
+    });
+
+    expect(plan).toEqual({ indices: [0, 2, 3], delays: [50, 150, 50] });
+    expect(hasOutputTransform({ frameEdits: { dropped: [], delays: { 0: 40 } } })).toBe(true);
+    expect(hasOutputTransform({ frameEdits: { dropped: [], delays: {} } })).toBe(false);
+  });
+
+  it('should reject dropping every frame', () => {
+    expect(() => planFrameTimeline([100, 100], { frameEdits: { dropped: [0, 1], delays: {} } })).toThrow();
+  });
+});
+
+describe('Transform Filter', () => {
+  const metadata = { width: 400, height: 300, frameCount: 6 };
+
+  it('should select kept frames, then crop, then scale', () => {
+    const transform = { crop: { x: 0, y: 0, width: 200, height: 200 }, maxWidth: 100, trim: { start: 1, end: 6 } };
+    const filter = buildTransformFilter(metadata, transform, { indices: [1, 2, 3, 5], delays: [] });
+
+    expect(filter).toBe(
+      'select=between(n\\,1\\,3)+eq(n\\,5),crop=200:200:0:0,scale=100:100:flags=lanczos'
+    );
+  });
+
+  it('should emit no filter when the transform keeps the source unchanged', () => {
+    expect(buildTransformFilter(metadata, { maxWidth: 800 }, { indices: [0, 1, 2, 3, 4, 5], delays: [] })).toBe('');
+    expect(hasOutputTransform({})).toBe(false);
+    expect(hasOutputTransform({ speed: 1 })).toBe(false);
+    expect(hasOutputTransform({ maxFps: 15 })).toBe(true);
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * 출력 변환 (크기 제한, 크롭, 프레임레이트 상한, 구간 자르기, 재생 속도)
+ * 변환을 한 번만 적용한 무손실 APNG 중간본을 만들어 모든 후보의 인코더 입력과
+ * 품질 비교 기준으로 함께 사용 (후보와 원본을 같은 크기/타임라인에서 비교)
+ */
+import { FFmpeg } from "@ffmpeg/ffmpeg";
+import { retimeApng } from "./apng";
+import type { GifMetadata } from "./gifAnalyzer";
+import { readInputMetadata } from "./inputSource";
+import { deleteTempFiles } from "./tempFiles";
+
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FrameEdits {
+  dropped: number[]; // 제외할 원본 프레임 인덱스 (표시 시간도 함께 빠짐)
+  delays: Record<number, number>; // 원본 프레임 인덱스별 새 표시 시간 (ms)
+}
+
+export interface OutputTransform {
+  maxWidth?: number; // 비율을 유지한 채 이 너비 이하로 축소 (확대하지 않음)
+  maxHeight?: number;
+  crop?: CropRect; // 원본 좌표 기준 (크기 제한보다 먼저 적용)
+  maxFps?: number; // 프레임 간격이 1/maxFps초 이상이 되도록 프레임 병합
+  trim?: { start: number; end: number }; // 유지할 프레임 범위 [start, end)
+  speed?: number; // 재생 속도 배율 (2 = 2배 빠르게)
+  frameEdits?: FrameEdits; // 프레임 검사기에서 지정한 프레임 제외/표시 시간 변경
+}
+
+export const EMPTY_FRAME_EDITS: FrameEdits = { dropped: [], delays: {} };
+
+export interface FrameTimeline {
+  indices: number[]; // 유지할 원본 프레임 인덱스
+  delays: number[]; // 유지한 프레임별 표시 시간 (ms)
+}
+
+/**
+ * 적용할 변환이 있는지 확인
+ */
+export function hasOutputTransform(transform?: OutputTransform): boolean {
+  if (!transform) return false;
+  return (
+    transform.maxWidth !== undefined ||
+    transform.maxHeight !== undefined ||
+    transform.crop !== undefined ||
+    transform.maxFps !== undefined ||
+    transform.trim !== undefined ||
+    (transform.speed !== undefined && transform.speed !== 1) ||
+    hasFrameEdits(transform.frameEdits)
+  );
+}
+
+/**
+ * 프레임 제외/표시 시간 변경이 있는지 확인
+ */
+export function hasFrameEdits(edits?: FrameEdits): boolean {
+  return !!edits && (edits.dropped.length > 0 || Object.keys(edits.delays).length > 0);
+}
+
+/**
+ * 크롭 영역을 원본 범위로 보정
+ */
+export function clampCrop(
+  crop: CropRect,
+  sourceWidth: number,
+  sourceHeight: number
+): CropRect {
+  const x = Math.min(sourceWidth - 1, Math.max(0, Math.round(crop.x)));
+  const y = Math.min(sourceHeight - 1, Math.max(0, Math.round(crop.y)));
+  return {
+    x,
+    y,
+    width: Math.min(sourceWidth - x, Math.max(1, Math.round(crop.width))),
+    height: Math.min(sourceHeight - y, Math.max(1, Math.round(crop.height))),
+  };
+}
+
+/**
+ * 크롭 후 최대 크기에 맞춘 출력 해상도 (비율 유지, 확대 없음)
+ */
+export function computeOutputSize(
+  sourceWidth: number,
+  sourceHeight: number,
+  transform: OutputTransform
+): { width: number; height: number } {
+  const { width, height } = transform.crop
+    ? clampCrop(transform.crop, sourceWidth, sourceHeight)
+    : { width: sourceWidth, height: sourceHeight };
+
+  const scale = Math.min(
+    1,
+    transform.maxWidth ? transform.maxWidth / width : 1,
+    transform.maxHeight ? transform.maxHeight / height : 1
+  );
+
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+/**
+ * 프레임 편집 → 구간 자르기 → 속도 변경 → 프레임레이트 상한 순으로 프레임 타임라인 계산
+ * 상한을 넘는 프레임은 직전 유지 프레임에 병합해 전체 재생 시간을 보존
+ */
+export function planFrameTimeline(
+  frameDelays: number[],
+  transform: OutputTransform
+): FrameTimeline {
+  const start = Math.max(0, Math.min(frameDelays.length - 1, transform.trim?.start ?? 0));
+  const end = Math.max(start + 1, Math.min(frameDelays.length, transform.trim?.end ?? frameDelays.length));
+  const speed = transform.speed && transform.speed > 0 ? transform.speed : 1;
+  const minInterval = transform.maxFps && transform.maxFps > 0 ? 1000 / transform.maxFps : 0;
+
+  const dropped = new Set(transform.frameEdits?.dropped);
+  const delays = transform.frameEdits?.delays ?? {};
+
+  // 속도 적용 후 남은 각 프레임의 원본 인덱스와 시작 시각
+  const frames: { index: number; start: number }[] = [];
+  let time = 0;
+  for (let i = start; i < end; i++) {
+    if (dropped.has(i)) continue;
+    frames.push({ index: i, start: time });
+    time += (delays[i] ?? frameDelays[i]) / speed;
+  }
+  const total = time;
+
+  if (frames.length === 0) {
+    throw new Error("모든 프레임을 제외할 수는 없습니다");
+  }
+
+  const kept: typeof frames = [];
+  for (const frame of frames) {
+    const last = kept[kept.length - 1];
+    if (last === undefined || frame.start - last.start >= minInterval - 1e-6) {
+      kept.push(frame);
+    }
+  }
+
+  // 누적 시각을 반올림해 ms 단위 오차가 쌓이지 않도록 함
+  return {
+    indices: kept.map((frame) => frame.index),
+    delays: kept.map((frame, k) => {
+      const next = k + 1 < kept.length ? kept[k + 1].start : total;
+      return Math.round(next) - Math.round(frame.start);
+    }),
+  };
+}
+
+/**
+ * 프레임 선택/크롭/스케일 필터 체인 (변환이 없으면 빈 문자열)
+ */
+export function buildTransformFilter(
+  metadata: Pick<GifMetadata, "width" | "height" | "frameCount">,
+  transform: OutputTransform,
+  timeline: FrameTimeline
+): string {
+  const filters: string[] = [];
+
+  if (timeline.indices.length < metadata.frameCount) {
+    filters.push(`select=${buildSelectExpression(timeline.indices)}`);
+  }
+
+  if (transform.crop) {
+    const crop = clampCrop(transform.crop, metadata.width, metadata.height);
+    filters.push(`crop=${crop.width}:${crop.height}:${crop.x}:${crop.y}`);
+  }
+
+  const size = computeOutputSize(metadata.width, metadata.height, transform);
+  const cropped = transform.crop
+    ? clampCrop(transform.crop, metadata.width, metadata.height)
+    : metadata;
+  if (size.width !== cropped.width || size.height !== cropped.height) {
+    filters.push(`scale=${size.width}:${size.height}:flags=lanczos`);
+  }
+
+  return filters.join(",");
+}
+
+/**
+ * 변환을 적용한 무손실 APNG 중간본 생성
+ * 프레임 표시 시간은 계획한 타임라인으로 다시 기록하고, 메타데이터도 중간본 기준으로 갱신
+ */
+export async function applyOutputTransform({
+  ffmpeg,
+  inputName,
+  outputName,
+  metadata,
+  transform,
+  tempFiles,
+  signal,
+}: {
+  ffmpeg: FFmpeg;
+  inputName: string;
+  outputName: string;
+  metadata: GifMetadata;
+  transform: OutputTransform;
+  tempFiles?: Set<string>;
+  signal?: AbortSignal;
+}): Promise<{ data: Uint8Array; metadata: GifMetadata }> {
+  const timeline = planFrameTimeline(metadata.frameDelays, transform);
+  const filter = buildTransformFilter(metadata, transform, timeline);
+
+  tempFiles?.add(outputName);
+  await ffmpeg.exec(
+    [
+      "-i",
+      inputName,
+      "-filter:v",
+      filter ? `${filter},format=rgba` : "format=rgba",
+      "-c:v",
+      "apng",
+      "-plays",
+      "0",
+      "-an",
+      "-vsync",
+      "0",
+      "-f",
+      "apng",
+      "-y",
+      outputName,
+    ],
+    undefined,
+    { signal }
+  );
+
+  const encoded = (await ffmpeg.readFile(outputName, undefined, {
+    signal,
+  })) as Uint8Array;
+  await deleteTempFiles(ffmpeg, [outputName]);
+  tempFiles?.delete(outputName);
+
+  const data = retimeApng(encoded, timeline.delays);
+  return {
+    data,
+    metadata: {
+      ...readInputMetadata(data, "apng"),
+      // 입력 형식/알파/반복은 원본 기준 유지 (중간본은 항상 RGBA)
+      format: metadata.format,
+      hasAlpha: metadata.hasAlpha,
+      loopCount: metadata.loopCount,
+    },
+  };
+}
+
+/**
+ * 유지할 프레임 인덱스 → select 필터 식 (연속 구간은 between으로 묶음)
+ */
+export function buildSelectExpression(indices: number[]): string {
+  const ranges: [number, number][] = [];
+  for (const index of indices) {
+    const last = ranges[ranges.length - 1];
+    if (last && last[1] === index - 1) {
+      last[1] = index;
+    } else {
+      ranges.push([index, index]);
+    }
+  }
+
+  return ranges
+    .map(([from, to]) => (from === to ? `eq(n\\,${from})` : `between(n\\,${from}\\,${to})`))
+    .join("+");
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { bisectParameter } from './parameterSearch';
+
+// 품질(q)에 따라 용량이 선형으로 증가하는 가상 인코더
+const fakeSize = async (q: number) => 10 + q * 2;
+
+describe('Parameter Bisection', () => {
+  it('should find the highest value that fits a budget', async () => {
+    const { best, steps } = await bisectParameter({
+      low: 0,
+      high: 100,
+      evaluate: fakeSize,
+      accept: (size) => size <= 120,
+      prefer: 'high',
+    });
+
+    // 10 + 2q ≤ 120 → q ≤ 55
+    expect(best?.value).toBeGreaterThanOrEqual(54);
+    expect(best?.value).toBeLessThanOrEqual(55);
+    expect(best?.result).toBeLessThanOrEqual(120);
+    expect(steps.length).toBeLessThanOrEqual(8);
+  });
+
+  it('should find the lowest value that meets a quality target', async () => {
+    const { best } = await bisectParameter({
+      low: 0,
+      high: 100,
+      evaluate: async (q) => q / 100,
+      accept: (ssim) => ssim >= 0.9,
+      prefer: 'low',
+      maxSteps: 12,
+    });
+
+    expect(best?.value).toBe(90);
+  });
+
+  it('should stop after the preferred end passes', async () => {
+    const { best, steps } = await bisectParameter({
+      low: 0,
+      high: 100,
+      evaluate: fakeSize,
+      accept: () => true,
+      prefer: 'high',
+    });
+
+    expect(best?.value).toBe(100);
+    expect(steps).toHaveLength(1);
+  });
+
+  it('should report when no value satisfies the condition', async () => {
+    const { best, steps } = await bisectParameter({
+      low: 0,
+      high: 100,
+      evaluate: fakeSize,
+      accept: (size) => size <= 5,
+      prefer: 'high',
+    });
+
+    expect(best).toBeNull();
+    expect(steps.map((s) => s.value)).toEqual([100, 0]);
+  });
+
+  it('should respect the step budget', async () => {
+    const { steps } = await bisectParameter({
+      low: 0,
+      high: 1000,
+      evaluate: fakeSize,
+      accept: (size) => size <= 777,
+      prefer: 'high',
+      maxSteps: 4,
+    });
+
+    expect(steps).toHaveLength(4);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * 인코더 파라미터 이분 탐색
+ * 결과가 파라미터에 대해 단조(monotone)라고 가정하고 조건을 만족하는 경계값을 찾음
+ * 예: 용량 예산을 만족하는 가장 높은 -q:v, 품질 기준을 만족하는 가장 낮은 -q:v
+ */
+
+export interface SearchStep<T> {
+  value: number;
+  result: T;
+  accepted: boolean;
+}
+
+export interface SearchOutcome<T> {
+  best: SearchStep<T> | null; // 조건을 만족하는 경계값 (없으면 null)
+  steps: SearchStep<T>[]; // 평가 순서대로 기록
+}
+
+/**
+ * 정수 파라미터 이분 탐색
+ *
+ * @param prefer "high": accept가 낮은 값에서 참 → 참인 가장 높은 값 탐색
+ *               "low": accept가 높은 값에서 참 → 참인 가장 낮은 값 탐색
+ * @param precision 경계 구간이 이 값 이하로 좁혀지면 종료
+ * @param maxSteps 최대 평가 횟수 (양 끝 평가 포함)
+ */
+export async function bisectParameter<T>({
+  low,
+  high,
+  evaluate,
+  accept,
+  prefer,
+  precision = 1,
+  maxSteps = 8,
+}: {
+  low: number;
+  high: number;
+  evaluate: (value: number) => Promise<T>;
+  accept: (result: T) => boolean;
+  prefer: "high" | "low";
+  precision?: number;
+  maxSteps?: number;
+}): Promise<SearchOutcome<T>> {
+  if (low > high) {
+    throw new Error("Invalid search range");
+  }
+
+  const steps: SearchStep<T>[] = [];
+  const run = async (value: number) => {
+    const result = await evaluate(value);
+    const step = { value, result, accepted: accept(result) };
+    steps.push(step);
+    return step;
+  };
+
+  // 1. 선호하는 끝값이 통과하면 바로 종료
+  const preferred = await run(prefer === "high" ? high : low);
+  if (preferred.accepted || low === high) {
+    return { best: preferred.accepted ? preferred : null, steps };
+  }
+
+  // 2. 반대쪽 끝값도 실패하면 조건을 만족하는 값이 없음
+  const fallback = await run(prefer === "high" ? low : high);
+  if (!fallback.accepted) {
+    return { best: null, steps };
+  }
+
+  // 3. 통과(pass)와 실패(fail) 경계를 좁힘
+  let pass = fallback;
+  let failValue = preferred.value;
+
+  while (
+    Math.abs(failValue - pass.value) > precision &&
+    steps.length < maxSteps
+  ) {
+    const mid = Math.round((pass.value + failValue) / 2);
+    if (mid === pass.value || mid === failValue) break;
+
+    const step = await run(mid);
+    if (step.accepted) {
+      pass = step;
+    } else {
+      failValue = mid;
+    }
+  }
+
+  return { best: pass, steps };
+}
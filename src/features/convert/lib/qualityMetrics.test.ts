@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import type { QualityMetrics } from './qualityMetrics';
+import { aggregateFrameMetrics, type QualityMetrics } from './qualityMetrics';
 
 describe('Quality Metrics Module', () => {
   describe('Quality Thresholds Documentation', () => {
@@ -144,4 +144,34 @@ describe('Quality Metrics Module', () => {
       expect(fair).toBeLessThan(3.0); // Fair
     });
   });
+
+  describe('Animation Metrics Aggregation', () => {
+    const frame = (sourceIndex: number, metrics: QualityMetrics) => ({
+      sourceIndex,
+      candidateIndex: sourceIndex,
+      timestamp: sourceIndex * 100 + 50,
+      metrics,
+    });
+
+    it('should report mean, worst values and the worst frame index', () => {
+      const result = aggregateFrameMetrics([
+        frame(0, { ssim: 0.99, psnr: 45, deltaE: 1, edgePreservation: 0.98 }),
+        frame(1, { ssim: 0.9, psnr: 30, deltaE: 4, edgePreservation: 0.9 }),
+        frame(2, { ssim: 0.96, psnr: 39, deltaE: 1.6, edgePreservation: 0.94 }),
+      ]);
+
+      expect(result.mean.ssim).toBeCloseTo(0.95, 6);
+      expect(result.mean.psnr).toBeCloseTo(38, 6);
+      expect(result.mean.deltaE).toBeCloseTo(2.2, 6);
+      expect(result.mean.edgePreservation).toBeCloseTo(0.94, 6);
+
+      expect(result.min).toEqual({ ssim: 0.9, psnr: 30, deltaE: 4, edgePreservation: 0.9 });
+      expect(result.worstFrameIndex).toBe(1);
+      expect(result.frames).toHaveLength(3);
+    });
+
+    it('should reject an empty frame list', () => {
+      expect(() => aggregateFrameMetrics([])).toThrow();
+    });
+  });
 });
@@ -1,15 +1,71 @@
 /**
  * 품질 측정 모듈
- * SSIM, PSNR, ΔE2000 등의 지각적 품질 메트릭 계산
+ * SSIM, PSNR, ΔE(CIEDE2000/CIE94/CIE76) 등의 지각적 품질 메트릭 계산
  */
 
+import {
+  deltaE2000,
+  deltaE76,
+  deltaE94,
+  rgbToLab,
+  type DeltaEFormula,
+} from "./colorDifference";
+import { computeMSSSIM, computeSSIM, type SSIMOptions } from "./ssim";
+import {
+  calculateAlphaMetrics,
+  compositeOverBackground,
+  hasTransparentPixels,
+  type BackgroundMode,
+} from "./alphaMetrics";
+import {
+  alignFramesByTimestamp,
+  decodeAnimationFrames,
+  readAnimationTimeline,
+  supportsAnimationDecoding,
+} from "./animationFrames";
+import { decodeImage } from "./imageDecoder";
+import { resizeImageData } from "./resample";
+
 export interface QualityMetrics {
   ssim: number;
   psnr: number;
-  deltaE: number;
+  deltaE: number; // deltaEFormula로 계산한 색차 (기본값: CIEDE2000)
   edgePreservation: number;
+  deltaEFormula?: DeltaEFormula;
+  deltaE76?: number;
+  deltaE94?: number;
+  deltaE2000?: number;
+  msssim?: number; // MetricsOptions.msssim 사용 시
+  alphaMismatch?: number; // 평균 알파 차이 (0~1)
+  transparencyLoss?: number; // 원본 투명 픽셀 중 불투명해진 비율 (0~1)
+  animation?: AnimationQualityMetrics; // 애니메이션 모드에서만 존재
+}
+
+export interface FrameQualityMetrics {
+  sourceIndex: number;
+  candidateIndex: number;
+  timestamp: number; // ms
+  metrics: QualityMetrics;
+}
+
+export interface AnimationQualityMetrics {
+  frames: FrameQualityMetrics[];
+  mean: QualityMetrics;
+  min: QualityMetrics; // 프레임별 최악값 (SSIM/PSNR/엣지는 최솟값, ΔE·알파 불일치는 최댓값)
+  worstFrameIndex: number; // SSIM이 가장 낮은 원본 프레임 인덱스
+}
+
+export interface MetricsOptions {
+  mode?: "first-frame" | "animation";
+  maxFrames?: number; // 애니메이션 모드에서 비교할 최대 프레임 수 (균등 샘플링)
+  deltaEFormula?: DeltaEFormula; // deltaE 필드에 사용할 색차 공식 (기본값: ciede2000)
+  ssim?: SSIMOptions; // SSIM 윈도우/채널 설정
+  msssim?: boolean; // MS-SSIM 추가 계산 여부
+  backgrounds?: BackgroundMode[]; // 투명 영역 합성 배경 (기본값: 체커보드)
 }
 
+export type { BackgroundMode, SSIMOptions };
+
 export interface ImageData {
   data: Uint8ClampedArray;
   width: number;
@@ -17,107 +73,36 @@ export interface ImageData {
 }
 
 /**
- * Canvas를 사용하여 이미지 데이터 추출
+ * 이미지 픽셀 추출 (애니메이션은 첫 프레임)
+ * 환경에 맞는 디코더(ffmpeg / OffscreenCanvas / DOM canvas)를 자동 선택
  */
 export async function getImageData(blob: Blob): Promise<ImageData> {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    const url = URL.createObjectURL(blob);
-
-    img.onload = () => {
-      const canvas = document.createElement("canvas");
-      canvas.width = img.width;
-      canvas.height = img.height;
-
-      const ctx = canvas.getContext("2d", { willReadFrequently: true });
-      if (!ctx) {
-        reject(new Error("Failed to get canvas context"));
-        return;
-      }
-
-      ctx.drawImage(img, 0, 0);
-      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-
-      URL.revokeObjectURL(url);
-      resolve({
-        data: imageData.data,
-        width: canvas.width,
-        height: canvas.height,
-      });
-    };
-
-    img.onerror = () => {
-      URL.revokeObjectURL(url);
-      reject(new Error("Failed to load image"));
-    };
-
-    img.src = url;
-  });
+  return decodeImage(blob);
 }
 
 /**
  * SSIM (Structural Similarity Index) 계산
  * 두 이미지 간의 구조적 유사도를 측정 (0~1, 1이 완전히 동일)
+ * 기본값은 표준 11×11 가우시안 윈도우, 휘도 채널, stride 1
  */
-export function calculateSSIM(img1: ImageData, img2: ImageData): number {
-  if (
-    img1.width !== img2.width ||
-    img1.height !== img2.height ||
-    img1.data.length !== img2.data.length
-  ) {
-    throw new Error("Image dimensions must match");
-  }
-
-  const C1 = 6.5025; // (K1 * L)^2, K1 = 0.01, L = 255
-  const C2 = 58.5225; // (K2 * L)^2, K2 = 0.03, L = 255
-
-  let ssimSum = 0;
-  let count = 0;
-
-  // 8x8 블록 단위로 SSIM 계산 (성능 최적화)
-  const blockSize = 8;
-  for (let y = 0; y < img1.height - blockSize; y += blockSize) {
-    for (let x = 0; x < img1.width - blockSize; x += blockSize) {
-      const block1: number[] = [];
-      const block2: number[] = [];
-
-      // 블록 내 픽셀의 휘도(Luminance) 수집
-      for (let by = 0; by < blockSize; by++) {
-        for (let bx = 0; bx < blockSize; bx++) {
-          const idx = ((y + by) * img1.width + (x + bx)) * 4;
-          const l1 = rgbToLuminance(
-            img1.data[idx],
-            img1.data[idx + 1],
-            img1.data[idx + 2]
-          );
-          const l2 = rgbToLuminance(
-            img2.data[idx],
-            img2.data[idx + 1],
-            img2.data[idx + 2]
-          );
-          block1.push(l1);
-          block2.push(l2);
-        }
-      }
-
-      // 평균, 분산, 공분산 계산
-      const mu1 = mean(block1);
-      const mu2 = mean(block2);
-      const sigma1Sq = variance(block1, mu1);
-      const sigma2Sq = variance(block2, mu2);
-      const sigma12 = covariance(block1, block2, mu1, mu2);
-
-      // SSIM 공식
-      const ssim =
-        ((2 * mu1 * mu2 + C1) * (2 * sigma12 + C2)) /
-        ((mu1 * mu1 + mu2 * mu2 + C1) * (sigma1Sq + sigma2Sq + C2));
-
-      ssimSum += ssim;
-      count++;
-    }
-  }
+export function calculateSSIM(
+  img1: ImageData,
+  img2: ImageData,
+  options?: SSIMOptions
+): number {
+  return computeSSIM(img1, img2, options);
+}
 
-  return count > 0 ? ssimSum / count : 0;
+/**
+ * MS-SSIM (Multi-Scale SSIM) 계산
+ * 여러 해상도에서의 구조적 유사도를 가중 결합 (0~1)
+ */
+export function calculateMSSSIM(
+  img1: ImageData,
+  img2: ImageData,
+  options?: SSIMOptions
+): number {
+  return computeMSSSIM(img1, img2, options);
 }
 
 /**
@@ -166,6 +151,28 @@ export function calculatePSNR(img1: ImageData, img2: ImageData): number {
  * 인간이 지각하는 색상 차이를 측정 (< 2.3은 인지 불가능)
  */
 export function calculateDeltaE2000(img1: ImageData, img2: ImageData): number {
+  return calculateColorDifferences(img1, img2).ciede2000;
+}
+
+/**
+ * 지정한 공식으로 평균 색차 계산
+ */
+export function calculateDeltaE(
+  img1: ImageData,
+  img2: ImageData,
+  formula: DeltaEFormula = "ciede2000"
+): number {
+  return calculateColorDifferences(img1, img2)[formula];
+}
+
+/**
+ * 세 가지 색차 공식의 평균값을 한 번의 LAB 변환으로 계산
+ * 원본(img1)을 기준색으로 사용 (CIE94는 비대칭)
+ */
+export function calculateColorDifferences(
+  img1: ImageData,
+  img2: ImageData
+): Record<DeltaEFormula, number> {
   if (
     img1.width !== img2.width ||
     img1.height !== img2.height ||
@@ -174,33 +181,39 @@ export function calculateDeltaE2000(img1: ImageData, img2: ImageData): number {
     throw new Error("Image dimensions must match");
   }
 
-  let deltaESum = 0;
+  let sum76 = 0;
+  let sum94 = 0;
+  let sum2000 = 0;
   let count = 0;
 
   // 샘플링으로 성능 최적화 (100개 픽셀당 1개)
   const samplingRate = 100;
 
   for (let i = 0; i < img1.data.length; i += 4 * samplingRate) {
-    const rgb1 = {
+    const lab1 = rgbToLab({
       r: img1.data[i],
       g: img1.data[i + 1],
       b: img1.data[i + 2],
-    };
-    const rgb2 = {
+    });
+    const lab2 = rgbToLab({
       r: img2.data[i],
       g: img2.data[i + 1],
       b: img2.data[i + 2],
-    };
-
-    const lab1 = rgbToLab(rgb1);
-    const lab2 = rgbToLab(rgb2);
+    });
 
-    const deltaE = deltaE2000(lab1, lab2);
-    deltaESum += deltaE;
+    sum76 += deltaE76(lab1, lab2);
+    sum94 += deltaE94(lab1, lab2);
+    sum2000 += deltaE2000(lab1, lab2);
     count++;
   }
 
-  return count > 0 ? deltaESum / count : 0;
+  if (count === 0) return { cie76: 0, cie94: 0, ciede2000: 0 };
+
+  return {
+    cie76: sum76 / count,
+    cie94: sum94 / count,
+    ciede2000: sum2000 / count,
+  };
 }
 
 /**
@@ -287,97 +300,209 @@ function rgbToLuminance(r: number, g: number, b: number): number {
   return 0.299 * r + 0.587 * g + 0.114 * b;
 }
 
-function mean(values: number[]): number {
-  return values.reduce((a, b) => a + b, 0) / values.length;
-}
+/**
+ * 한 쌍의 이미지에 대한 모든 품질 메트릭 계산
+ * 투명 픽셀이 있으면 각 배경에 합성한 뒤 비교하고 배경별 최악값을 사용
+ */
+export function calculateFrameMetrics(
+  img1: ImageData,
+  img2: ImageData,
+  options: Pick<
+    MetricsOptions,
+    "deltaEFormula" | "ssim" | "msssim" | "backgrounds"
+  > = {}
+): QualityMetrics {
+  const { backgrounds = DEFAULT_BACKGROUNDS } = options;
+  const alpha = calculateAlphaMetrics(img1, img2);
+
+  if (
+    backgrounds.length === 0 ||
+    (!hasTransparentPixels(img1) && !hasTransparentPixels(img2))
+  ) {
+    return { ...calculateOpaqueMetrics(img1, img2, options), ...alpha };
+  }
 
-function variance(values: number[], mean: number): number {
-  return (
-    values.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) /
-    values.length
+  const perBackground = backgrounds.map((background) =>
+    calculateOpaqueMetrics(
+      compositeOverBackground(img1, background),
+      compositeOverBackground(img2, background),
+      options
+    )
   );
+
+  return { ...combineMetrics(perBackground, "worst"), ...alpha };
 }
 
-function covariance(
-  values1: number[],
-  values2: number[],
-  mean1: number,
-  mean2: number
-): number {
-  let sum = 0;
-  for (let i = 0; i < values1.length; i++) {
-    sum += (values1[i] - mean1) * (values2[i] - mean2);
-  }
-  return sum / values1.length;
+function calculateOpaqueMetrics(
+  img1: ImageData,
+  img2: ImageData,
+  options: Pick<MetricsOptions, "deltaEFormula" | "ssim" | "msssim">
+): QualityMetrics {
+  const { deltaEFormula = "ciede2000" } = options;
+  const colorDifferences = calculateColorDifferences(img1, img2);
+
+  return {
+    ssim: calculateSSIM(img1, img2, options.ssim),
+    psnr: calculatePSNR(img1, img2),
+    deltaE: colorDifferences[deltaEFormula],
+    edgePreservation: calculateEdgePreservation(img1, img2),
+    deltaEFormula,
+    deltaE76: colorDifferences.cie76,
+    deltaE94: colorDifferences.cie94,
+    deltaE2000: colorDifferences.ciede2000,
+    ...(options.msssim && {
+      msssim: calculateMSSSIM(img1, img2, options.ssim),
+    }),
+  };
 }
 
-// RGB → LAB 색공간 변환
-function rgbToLab(rgb: {
-  r: number;
-  g: number;
-  b: number;
-}): { L: number; a: number; b: number } {
-  // RGB → XYZ
-  let r = rgb.r / 255;
-  let g = rgb.g / 255;
-  let b = rgb.b / 255;
-
-  r = r > 0.04045 ? Math.pow((r + 0.055) / 1.055, 2.4) : r / 12.92;
-  g = g > 0.04045 ? Math.pow((g + 0.055) / 1.055, 2.4) : g / 12.92;
-  b = b > 0.04045 ? Math.pow((b + 0.055) / 1.055, 2.4) : b / 12.92;
-
-  let x = r * 0.4124564 + g * 0.3575761 + b * 0.1804375;
-  let y = r * 0.2126729 + g * 0.7151522 + b * 0.072175;
-  let z = r * 0.0193339 + g * 0.119192 + b * 0.9503041;
-
-  // XYZ → LAB (D65 illuminant)
-  x /= 0.95047;
-  y /= 1.0;
-  z /= 1.08883;
-
-  x = x > 0.008856 ? Math.pow(x, 1 / 3) : 7.787 * x + 16 / 116;
-  y = y > 0.008856 ? Math.pow(y, 1 / 3) : 7.787 * y + 16 / 116;
-  z = z > 0.008856 ? Math.pow(z, 1 / 3) : 7.787 * z + 16 / 116;
-
-  const L = 116 * y - 16;
-  const a = 500 * (x - y);
-  const bVal = 200 * (y - z);
-
-  return { L, a, b: bVal };
+// 투명 영역 비교 시 기본 합성 배경
+const DEFAULT_BACKGROUNDS: BackgroundMode[] = ["checkerboard"];
+
+// 집계 시 값이 클수록 좋은 메트릭 / 작을수록 좋은 메트릭
+const HIGHER_IS_BETTER = ["ssim", "psnr", "edgePreservation", "msssim"] as const;
+const LOWER_IS_BETTER = [
+  "deltaE",
+  "deltaE76",
+  "deltaE94",
+  "deltaE2000",
+  "alphaMismatch",
+  "transparencyLoss",
+] as const;
+
+/**
+ * 여러 메트릭 세트를 평균 또는 최악값으로 결합
+ * (최악값: SSIM/PSNR/엣지는 최솟값, ΔE와 알파 불일치는 최댓값)
+ */
+function combineMetrics(
+  values: QualityMetrics[],
+  method: "mean" | "worst"
+): QualityMetrics {
+  const result: QualityMetrics = {
+    ssim: 0,
+    psnr: 0,
+    deltaE: 0,
+    edgePreservation: 0,
+  };
+
+  for (const key of [...HIGHER_IS_BETTER, ...LOWER_IS_BETTER]) {
+    const series = values.map((m) => m[key]);
+    if (series.some((value) => value === undefined)) continue;
+
+    const numbers = series as number[];
+    if (method === "mean") {
+      result[key] =
+        numbers.reduce((sum, value) => sum + value, 0) / numbers.length;
+    } else {
+      result[key] = (LOWER_IS_BETTER as readonly string[]).includes(key)
+        ? Math.max(...numbers)
+        : Math.min(...numbers);
+    }
+  }
+
+  if (values[0].deltaEFormula) {
+    result.deltaEFormula = values[0].deltaEFormula;
+  }
+
+  return result;
 }
 
-// ΔE2000 계산 (간소화 버전)
-function deltaE2000(
-  lab1: { L: number; a: number; b: number },
-  lab2: { L: number; a: number; b: number }
-): number {
-  // 간단한 ΔE*ab 공식 사용 (완전한 CIEDE2000은 매우 복잡함)
-  const deltaL = lab1.L - lab2.L;
-  const deltaA = lab1.a - lab2.a;
-  const deltaB = lab1.b - lab2.b;
+/**
+ * 프레임별 메트릭을 평균/최악값으로 집계
+ */
+export function aggregateFrameMetrics(
+  frames: FrameQualityMetrics[]
+): AnimationQualityMetrics {
+  if (frames.length === 0) {
+    throw new Error("No frames to aggregate");
+  }
+
+  const values = frames.map((frame) => frame.metrics);
+  const mean = combineMetrics(values, "mean");
+  const min = combineMetrics(values, "worst");
+
+  let worst = frames[0];
+  for (const frame of frames) {
+    if (frame.metrics.ssim < worst.metrics.ssim) worst = frame;
+  }
 
-  return Math.sqrt(deltaL * deltaL + deltaA * deltaA + deltaB * deltaB);
+  return {
+    frames,
+    mean,
+    min,
+    worstFrameIndex: worst.sourceIndex,
+  };
 }
 
 /**
  * 모든 품질 메트릭을 한번에 계산
+ * animation 모드: 원본/변환본의 전체(또는 샘플링된) 프레임을 재생 시각 기준으로 정렬해 비교하고
+ * 평균값을 최상위 메트릭으로 반환 (ImageDecoder 미지원 환경은 첫 프레임 비교로 대체)
  */
 export async function calculateAllMetrics(
   original: Blob,
-  converted: Blob
+  converted: Blob,
+  options: MetricsOptions = {}
 ): Promise<QualityMetrics> {
+  const { mode = "first-frame" } = options;
+
+  if (mode === "animation" && supportsAnimationDecoding()) {
+    return calculateAnimationMetrics(original, converted, options);
+  }
+
   const img1 = await getImageData(original);
   const img2 = await getImageData(converted);
 
-  const ssim = calculateSSIM(img1, img2);
-  const psnr = calculatePSNR(img1, img2);
-  const deltaE = calculateDeltaE2000(img1, img2);
-  const edgePreservation = calculateEdgePreservation(img1, img2);
+  // 해상도가 다른 후보(축소 출력)는 원본 해상도로 확대해 비교
+  return calculateFrameMetrics(
+    img1,
+    resizeImageData(img2, img1.width, img1.height),
+    options
+  );
+}
 
-  return {
-    ssim,
-    psnr,
-    deltaE,
-    edgePreservation,
-  };
+async function calculateAnimationMetrics(
+  original: Blob,
+  converted: Blob,
+  options: MetricsOptions
+): Promise<QualityMetrics> {
+  const sourceTimeline = readAnimationTimeline(
+    new Uint8Array(await original.arrayBuffer()),
+    original.type
+  );
+  const candidateTimeline = readAnimationTimeline(
+    new Uint8Array(await converted.arrayBuffer()),
+    converted.type
+  );
+
+  const pairs = alignFramesByTimestamp(
+    sourceTimeline,
+    candidateTimeline,
+    options.maxFrames
+  );
+
+  const sourceFrames = await decodeAnimationFrames(
+    original,
+    pairs.map((pair) => pair.sourceIndex)
+  );
+  const candidateFrames = await decodeAnimationFrames(
+    converted,
+    pairs.map((pair) => pair.candidateIndex)
+  );
+
+  const frames = pairs.map((pair, i) => ({
+    ...pair,
+    metrics: calculateFrameMetrics(
+      sourceFrames[i],
+      resizeImageData(
+        candidateFrames[i],
+        sourceFrames[i].width,
+        sourceFrames[i].height
+      ),
+      options
+    ),
+  }));
+
+  const animation = aggregateFrameMetrics(frames);
+  return { ...animation.mean, animation };
 }
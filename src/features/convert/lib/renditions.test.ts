@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { buildPictureSnippet, planRenditions } from './renditions';
+
+describe('Rendition Planning', () => {
+  it('should combine widths and densities without upscaling past the source', () => {
+    const specs = planRenditions(1000, [640, 320, 1280], [1, 2]);
+
+    expect(specs.map((s) => `${s.width}@${s.density}=${s.pixelWidth}`)).toEqual([
+      '320@1=320',
+      '320@2=640',
+      '640@1=640',
+    ]);
+  });
+
+  it('should fall back to a single source-width rendition when every combination is too large', () => {
+    expect(planRenditions(200, [320, 640], [1, 2])).toEqual([{ width: 200, density: 1, pixelWidth: 200 }]);
+  });
+});
+
+describe('Picture Snippet', () => {
+  it('should emit density srcsets per width with a GIF img fallback', () => {
+    const snippet = buildPictureSnippet(
+      [
+        { width: 320, density: 1, fileName: 'cat-320.webp' },
+        { width: 320, density: 2, fileName: 'cat-640.avif' },
+        { width: 640, density: 1, fileName: 'cat-640.avif' },
+        { width: 640, density: 2, fileName: 'cat-1280.avif' },
+      ],
+      { src: 'cat.gif', width: 640, height: 480, alt: 'A "cat"' }
+    );
+
+    expect(snippet).toBe(
+      [
+        '<picture>',
+        '  <source type="image/avif" media="(max-width: 320px)" srcset="cat-640.avif 2x">',
+        '  <source type="image/webp" media="(max-width: 320px)" srcset="cat-320.webp 1x">',
+        '  <source type="image/avif" srcset="cat-640.avif 1x, cat-1280.avif 2x">',
+        '  <img src="cat.gif" width="640" height="480" alt="A &quot;cat&quot;" loading="lazy">',
+        '</picture>',
+      ].join('\n')
+    );
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * 반응형 출력 세트
+ * 표시 너비 × 픽셀 밀도(1x/2x) 조합마다 optimizeGifToWebp로 독립 최적화한 결과를 모아
+ * <picture>/srcset 마크업과 GIF 폴백을 함께 생성
+ */
+import { FFmpeg } from "@ffmpeg/ffmpeg";
+import { createZip, type ZipEntry } from "../../../shared/lib/zip";
+import { throwIfAborted } from "./abort";
+import { convertToWebp } from "./convertToWebp";
+import { readInputBytes, type GifMetadata } from "./gifAnalyzer";
+import { readInputMetadata } from "./inputSource";
+import { optimizeGifToWebp, type OptimizationResult } from "./optimizer";
+import {
+  isVideoFormat,
+  OUTPUT_FORMATS,
+  outputFormatOf,
+  type OutputFormat,
+} from "./outputFormat";
+import {
+  computeOutputSize,
+  hasOutputTransform,
+  type OutputTransform,
+} from "./outputTransform";
+
+export interface RenditionSpec {
+  width: number; // 표시 너비 (CSS px)
+  density: number; // 픽셀 밀도 (1x, 2x)
+  pixelWidth: number; // 실제 출력 너비 (width × density, 원본 너비 이하)
+}
+
+export interface Rendition extends RenditionSpec {
+  name: string; // 예: "640w@2x"
+  fileName: string; // 세트 내 파일명 (같은 픽셀 너비는 파일 공유)
+  result: OptimizationResult;
+}
+
+export interface RenditionSet {
+  renditions: Rendition[];
+  fallback: { fileName: string; blob: Blob; width: number; height: number };
+  snippet: string; // <picture> 마크업
+}
+
+export const DEFAULT_RENDITION_WIDTHS = [320, 640, 1280];
+export const DEFAULT_RENDITION_DENSITIES = [1, 2];
+
+// 같은 표시 너비에 여러 포맷이 섞이면 압축 효율이 높은 포맷을 먼저 제시
+const SOURCE_TYPE_ORDER: OutputFormat[] = ["avif", "webp", "gif"];
+
+type OptimizeOptions = Omit<
+  Parameters<typeof optimizeGifToWebp>[0],
+  "ffmpeg" | "input" | "progressCallback" | "signal" | "jobId"
+>;
+
+/**
+ * 표시 너비 × 밀도 조합 계획 (원본보다 큰 조합은 확대하지 않고 제외)
+ * 모든 조합이 원본보다 크면 원본 너비 1x 하나만 생성
+ */
+export function planRenditions(
+  sourceWidth: number,
+  widths: number[] = DEFAULT_RENDITION_WIDTHS,
+  densities: number[] = DEFAULT_RENDITION_DENSITIES
+): RenditionSpec[] {
+  const specs: RenditionSpec[] = [];
+
+  for (const width of [...new Set(widths)].sort((a, b) => a - b)) {
+    for (const density of [...new Set(densities)].sort((a, b) => a - b)) {
+      const pixelWidth = Math.round(width * density);
+      if (pixelWidth > sourceWidth) continue;
+      specs.push({ width, density, pixelWidth });
+    }
+  }
+
+  return specs.length > 0
+    ? specs
+    : [{ width: sourceWidth, density: 1, pixelWidth: sourceWidth }];
+}
+
+/**
+ * 반응형 세트 생성: 픽셀 너비별로 한 번씩 최적화하고 마크업/폴백을 함께 반환
+ */
+export async function optimizeRenditions({
+  ffmpeg,
+  input,
+  widths = DEFAULT_RENDITION_WIDTHS,
+  densities = DEFAULT_RENDITION_DENSITIES,
+  alt = "",
+  progressCallback,
+  signal,
+  jobId,
+  ...options
+}: OptimizeOptions & {
+  ffmpeg: FFmpeg;
+  input: File | string;
+  widths?: number[];
+  densities?: number[];
+  alt?: string; // <img> 대체 텍스트
+  progressCallback?: (progress: number, message: string) => void;
+  signal?: AbortSignal;
+  jobId?: string;
+}): Promise<RenditionSet> {
+  const bytes = await readInputBytes(input);
+  throwIfAborted(signal);
+  const metadata = readInputMetadata(bytes);
+  const transform: OutputTransform = options.transform ?? {};
+
+  // 크롭/크기 제한을 먼저 반영한 너비 기준으로 계획
+  const source = computeOutputSize(metadata.width, metadata.height, transform);
+  const specs = planRenditions(source.width, widths, densities);
+  const pixelWidths = [...new Set(specs.map((spec) => spec.pixelWidth))];
+
+  // <picture>에 넣을 수 없는 동영상 포맷은 후보에서 제외
+  const imageFormats = (options.outputFormats ?? ["webp"]).filter(
+    (format) => !isVideoFormat(format)
+  );
+  const baseName = baseNameOf(input);
+  const results = new Map<number, { fileName: string; result: OptimizationResult }>();
+
+  for (let i = 0; i < pixelWidths.length; i++) {
+    const pixelWidth = pixelWidths[i];
+    const result = await optimizeGifToWebp({
+      ...options,
+      ffmpeg,
+      input,
+      outputFormats: imageFormats.length > 0 ? imageFormats : ["webp"],
+      transform: {
+        ...transform,
+        maxWidth: Math.min(pixelWidth, transform.maxWidth ?? Infinity),
+      },
+      signal,
+      jobId: `${jobId ? `${jobId}_` : ""}r${pixelWidth}`,
+      progressCallback: (progress, message) =>
+        progressCallback?.(
+          ((i + progress / 100) / (pixelWidths.length + 1)) * 100,
+          `[${pixelWidth}px ${i + 1}/${pixelWidths.length}] ${message}`
+        ),
+    });
+    if (!result) throw new Error("변환 결과가 없습니다");
+
+    const format = result.config.outputFormat ?? "webp";
+    results.set(pixelWidth, {
+      fileName: `${baseName}-${pixelWidth}.${OUTPUT_FORMATS[format].extension}`,
+      result,
+    });
+  }
+
+  progressCallback?.(
+    (pixelWidths.length / (pixelWidths.length + 1)) * 100,
+    "GIF 폴백 준비 중..."
+  );
+  const largestWidth = Math.max(...specs.map((spec) => spec.width));
+  const fallback = await createGifFallback(
+    ffmpeg,
+    input,
+    bytes,
+    metadata,
+    { ...transform, maxWidth: Math.min(largestWidth, transform.maxWidth ?? Infinity) },
+    signal,
+    jobId
+  );
+
+  const renditions = specs.map((spec) => ({
+    ...spec,
+    name: `${spec.width}w@${spec.density}x`,
+    ...results.get(spec.pixelWidth)!,
+  }));
+
+  progressCallback?.(100, "반응형 세트 생성 완료!");
+
+  return {
+    renditions,
+    fallback: { ...fallback, fileName: `${baseName}.gif` },
+    snippet: buildPictureSnippet(renditions, {
+      src: `${baseName}.gif`,
+      width: fallback.width,
+      height: fallback.height,
+      alt,
+    }),
+  };
+}
+
+/**
+ * 표시 너비별 <source media srcset="… 1x, … 2x"> + GIF <img> 폴백 마크업 생성
+ * 가장 큰 표시 너비는 media 조건 없이 기본 소스로 사용
+ */
+export function buildPictureSnippet(
+  renditions: Pick<Rendition, "width" | "density" | "fileName">[],
+  fallback: { src: string; width: number; height: number; alt: string }
+): string {
+  const widths = [...new Set(renditions.map((r) => r.width))].sort((a, b) => a - b);
+  const lines = ["<picture>"];
+
+  widths.forEach((width, i) => {
+    const media = i < widths.length - 1 ? ` media="(max-width: ${width}px)"` : "";
+    const group = renditions
+      .filter((r) => r.width === width)
+      .sort((a, b) => a.density - b.density);
+
+    for (const format of SOURCE_TYPE_ORDER) {
+      const sources = group.filter((r) => outputFormatOf(r.fileName) === format);
+      if (sources.length === 0) continue;
+
+      const srcset = sources.map((r) => `${r.fileName} ${r.density}x`).join(", ");
+      lines.push(
+        `  <source type="${OUTPUT_FORMATS[format].mimeType}"${media} srcset="${srcset}">`
+      );
+    }
+  });
+
+  lines.push(
+    `  <img src="${fallback.src}" width="${fallback.width}" height="${fallback.height}" alt="${escapeAttribute(fallback.alt)}" loading="lazy">`,
+    "</picture>"
+  );
+  return lines.join("\n");
+}
+
+/**
+ * 세트 전체(렌디션 + GIF 폴백 + picture.html)를 ZIP으로 묶기
+ */
+export async function createRenditionZip(set: RenditionSet): Promise<Blob> {
+  const entries: ZipEntry[] = [];
+  const added = new Set<string>();
+
+  for (const { fileName, result } of set.renditions) {
+    if (added.has(fileName)) continue; // 같은 픽셀 너비를 공유하는 조합
+    added.add(fileName);
+    entries.push({ name: fileName, data: new Uint8Array(await result.blob.arrayBuffer()) });
+  }
+
+  entries.push(
+    {
+      name: set.fallback.fileName,
+      data: new Uint8Array(await set.fallback.blob.arrayBuffer()),
+    },
+    { name: "picture.html", data: new TextEncoder().encode(`${set.snippet}\n`) }
+  );
+
+  return createZip(entries);
+}
+
+/**
+ * GIF 원본은 그대로, 그 외 입력(또는 크롭 등 변환 지정 시)은 가장 큰 1x 너비의 GIF로 변환해 폴백으로 사용
+ */
+async function createGifFallback(
+  ffmpeg: FFmpeg,
+  input: File | string,
+  bytes: Uint8Array,
+  metadata: GifMetadata,
+  transform: OutputTransform,
+  signal?: AbortSignal,
+  jobId?: string
+): Promise<{ blob: Blob; width: number; height: number }> {
+  const size = computeOutputSize(metadata.width, metadata.height, transform);
+
+  if (
+    metadata.format === "gif" &&
+    size.width === metadata.width &&
+    size.height === metadata.height &&
+    !hasOutputTransform({ ...transform, maxWidth: undefined, maxHeight: undefined })
+  ) {
+    return {
+      blob: new Blob([bytes.slice().buffer], { type: "image/gif" }),
+      ...size,
+    };
+  }
+
+  const converted = await convertToWebp({
+    ffmpeg,
+    input,
+    quality: 85,
+    compression: 4,
+    format: "gif",
+    transform,
+    signal,
+    jobId: `${jobId ? `${jobId}_` : ""}fallback`,
+  });
+  if (!converted) throw new Error("GIF 폴백 생성에 실패했습니다");
+  URL.revokeObjectURL(converted.url);
+
+  return { blob: converted.blob, ...size };
+}
+
+function baseNameOf(input: File | string): string {
+  if (typeof input !== "string" && input instanceof File) {
+    return input.name.replace(/\.[^/.]+$/, "");
+  }
+  if (input.includes("/")) {
+    return input.split("/").pop()?.replace(/\.[^/.]+$/, "") || "sample";
+  }
+  return "converted";
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { resizeImageData } from './resample';
+import type { ImageData } from './qualityMetrics';
+
+function solid(width: number, height: number, rgba: [number, number, number, number]): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) data.set(rgba, i);
+  return { data, width, height };
+}
+
+describe('Image Resampling', () => {
+  it('should return the same image when the size is unchanged', () => {
+    const img = solid(4, 4, [10, 20, 30, 255]);
+    expect(resizeImageData(img, 4, 4)).toBe(img);
+  });
+
+  it('should preserve flat colors when upscaling', () => {
+    const resized = resizeImageData(solid(3, 2, [200, 100, 50, 128]), 9, 6);
+
+    expect(resized.width).toBe(9);
+    expect(resized.height).toBe(6);
+    for (let i = 0; i < resized.data.length; i += 4) {
+      expect(Array.from(resized.data.subarray(i, i + 4))).toEqual([200, 100, 50, 128]);
+    }
+  });
+
+  it('should interpolate between neighbouring pixels', () => {
+    // 왼쪽 검정, 오른쪽 흰색 2×1 이미지 → 4×1로 확대
+    const img: ImageData = {
+      data: new Uint8ClampedArray([0, 0, 0, 255, 255, 255, 255, 255]),
+      width: 2,
+      height: 1,
+    };
+    const resized = resizeImageData(img, 4, 1);
+    const reds = [0, 1, 2, 3].map((x) => resized.data[x * 4]);
+
+    expect(reds[0]).toBe(0);
+    expect(reds[3]).toBe(255);
+    expect(reds[1]).toBeGreaterThan(0);
+    expect(reds[1]).toBeLessThan(reds[2]);
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * RGBA 이미지 리샘플링
+ * 축소 출력(스케일 변경 후보)을 원본 해상도에서 비교하기 위한 쌍선형 보간
+ */
+import type { ImageData } from "./qualityMetrics";
+
+/**
+ * 쌍선형 보간으로 이미지 크기 변경 (같은 크기면 원본 그대로 반환)
+ */
+export function resizeImageData(
+  img: ImageData,
+  width: number,
+  height: number
+): ImageData {
+  if (img.width === width && img.height === height) return img;
+  if (width <= 0 || height <= 0 || img.width <= 0 || img.height <= 0) {
+    throw new Error("Invalid image size");
+  }
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  // 픽셀 중심 정렬 (half-pixel offset)
+  const scaleX = img.width / width;
+  const scaleY = img.height / height;
+
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(Math.max((y + 0.5) * scaleY - 0.5, 0), img.height - 1);
+    const y0 = Math.floor(sy);
+    const y1 = Math.min(y0 + 1, img.height - 1);
+    const fy = sy - y0;
+
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(Math.max((x + 0.5) * scaleX - 0.5, 0), img.width - 1);
+      const x0 = Math.floor(sx);
+      const x1 = Math.min(x0 + 1, img.width - 1);
+      const fx = sx - x0;
+
+      const i00 = (y0 * img.width + x0) * 4;
+      const i01 = (y0 * img.width + x1) * 4;
+      const i10 = (y1 * img.width + x0) * 4;
+      const i11 = (y1 * img.width + x1) * 4;
+      const out = (y * width + x) * 4;
+
+      for (let c = 0; c < 4; c++) {
+        const top = img.data[i00 + c] * (1 - fx) + img.data[i01 + c] * fx;
+        const bottom = img.data[i10 + c] * (1 - fx) + img.data[i11 + c] * fx;
+        data[out + c] = top * (1 - fy) + bottom * fy;
+      }
+    }
+  }
+
+  return { data, width, height };
+}
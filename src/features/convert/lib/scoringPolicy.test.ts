@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BALANCED_POLICY,
+  BEST_QUALITY_UNDER_BUDGET_POLICY,
+  evaluateCandidates,
+  resolveScoringPolicy,
+  selectBestCandidate,
+  SMALLEST_PASSING_POLICY,
+  withThresholds,
+  type ScoringCandidate,
+  type ScoringPolicy,
+} from './scoringPolicy';
+import type { OptimizationConfig } from './optimizer';
+
+const baseConfig: OptimizationConfig = {
+  quality: 80,
+  compression: 6,
+  preset: 'picture',
+  scaleFilter: 'lanczos',
+  ditherMethod: 'none',
+  pixelFormat: 'yuva420p',
+  usePalette: false,
+  lossless: false,
+  encodingStrategy: 'optimized-lossy',
+};
+
+const candidate = (
+  name: string,
+  sizeKB: number,
+  ssim: number,
+  deltaE: number,
+  edgePreservation: number,
+  config: Partial<OptimizationConfig> = {}
+): ScoringCandidate & { name: string } => ({
+  name,
+  sizeKB,
+  config: { ...baseConfig, ...config },
+  metrics: { ssim, psnr: 40, deltaE, edgePreservation },
+});
+
+const select = (
+  candidates: (ScoringCandidate & { name: string })[],
+  policy: ScoringPolicy,
+  budgetKB?: number
+) =>
+  selectBestCandidate(
+    evaluateCandidates(candidates, policy, { lossless: false, budgetKB }),
+    policy
+  )?.candidate.name;
+
+describe('Scoring Policy', () => {
+  const candidates = [
+    candidate('high', 100, 0.99, 1, 0.98),
+    candidate('mid', 40, 0.96, 3, 0.93),
+    candidate('low', 20, 0.93, 6, 0.85),
+  ];
+
+  it('should keep size scores bounded and independent of units', () => {
+    const evaluations = evaluateCandidates(candidates, BALANCED_POLICY, { lossless: false });
+    for (const { score } of evaluations) {
+      expect(score).toBeGreaterThan(0);
+      expect(score).toBeLessThanOrEqual(1);
+    }
+
+    // 모든 용량을 같은 비율로 바꿔도 점수는 동일
+    const scaled = candidates.map((c) => ({ ...c, sizeKB: c.sizeKB * 1024 }));
+    const scaledEvaluations = evaluateCandidates(scaled, BALANCED_POLICY, { lossless: false });
+    scaledEvaluations.forEach((e, i) => expect(e.score).toBeCloseTo(evaluations[i].score, 10));
+  });
+
+  it('should apply thresholds per encoding strategy', () => {
+    const nearLossless = candidate('nl', 50, 0.965, 2, 0.95, { encodingStrategy: 'near-lossless' });
+    const lossy = candidate('lossy', 50, 0.965, 2, 0.95);
+    const [nl, ly] = evaluateCandidates([nearLossless, lossy], BALANCED_POLICY, { lossless: false });
+
+    expect(nl.passed).toBe(false); // 준무손실은 SSIM ≥ 0.97 필요
+    expect(nl.failureReason).toContain('SSIM');
+    expect(nl.criteria.find((c) => c.name === 'ssim')?.passed).toBe(false);
+    expect(ly.passed).toBe(true);
+  });
+
+  it('balanced: should trade quality against size', () => {
+    expect(select(candidates, BALANCED_POLICY)).toBe('mid');
+  });
+
+  it('balanced: should fall back to relaxed criteria when nothing passes', () => {
+    const weak = [candidate('a', 30, 0.93, 8, 0.8), candidate('b', 10, 0.9, 9, 0.7)];
+    expect(select(weak, BALANCED_POLICY)).toBe('a');
+    expect(select([candidate('c', 10, 0.9, 9, 0.7)], BALANCED_POLICY)).toBeUndefined();
+  });
+
+  it('smallest-passing: should pick the smallest candidate meeting the thresholds', () => {
+    expect(select(candidates, SMALLEST_PASSING_POLICY)).toBe('mid');
+
+    // 동일 용량이면 SSIM이 높은 후보
+    const tied = [candidate('a', 40, 0.96, 3, 0.93), candidate('b', 40, 0.97, 3, 0.93)];
+    expect(select(tied, SMALLEST_PASSING_POLICY)).toBe('b');
+  });
+
+  it('best-quality-under-budget: should pick the best quality within the budget', () => {
+    expect(select(candidates, BEST_QUALITY_UNDER_BUDGET_POLICY, 50)).toBe('mid');
+    expect(select(candidates, BEST_QUALITY_UNDER_BUDGET_POLICY, 200)).toBe('high');
+    expect(select(candidates, BEST_QUALITY_UNDER_BUDGET_POLICY, 10)).toBeUndefined();
+
+    const [high] = evaluateCandidates(candidates, BEST_QUALITY_UNDER_BUDGET_POLICY, {
+      lossless: false,
+      budgetKB: 50,
+    });
+    expect(high.failureReason).toContain('용량');
+  });
+
+  it('should override thresholds for every strategy with withThresholds', () => {
+    const policy = withThresholds(SMALLEST_PASSING_POLICY, { minSsim: 0.98, maxDeltaE: 2 });
+    expect(select(candidates, policy)).toBe('high');
+    expect(select([candidate('low', 20, 0.93, 6, 0.85)], policy)).toBeUndefined();
+  });
+
+  it('should resolve built-in policies by name', () => {
+    expect(resolveScoringPolicy()).toBe(BALANCED_POLICY);
+    expect(resolveScoringPolicy('smallest-passing')).toBe(SMALLEST_PASSING_POLICY);
+    expect(resolveScoringPolicy(BEST_QUALITY_UNDER_BUDGET_POLICY)).toBe(
+      BEST_QUALITY_UNDER_BUDGET_POLICY
+    );
+  });
+});
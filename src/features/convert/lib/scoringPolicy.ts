@@ -0,0 +1,293 @@
+/**
+ * 후보 선택 정책
+ * 인코딩 전략별 품질 기준, 점수 정규화/가중치, 동점 처리 규칙을 하나의 정책으로 묶어
+ * 최적화 결과 선택 방식을 교체할 수 있게 함
+ */
+import type { OptimizationConfig } from "./optimizer";
+import type { QualityMetrics } from "./qualityMetrics";
+
+export type EncodingStrategy = NonNullable<OptimizationConfig["encodingStrategy"]>;
+
+export type ScoringPolicyName =
+  | "balanced"
+  | "smallest-passing"
+  | "best-quality-under-budget";
+
+export interface QualityThresholds {
+  minSsim?: number;
+  maxDeltaE?: number;
+  minEdgePreservation?: number;
+}
+
+export interface ScoringCandidate {
+  sizeKB: number;
+  config: OptimizationConfig;
+  metrics: QualityMetrics;
+}
+
+export interface ScoringContext {
+  lossless: boolean;
+  budgetKB?: number; // 용량 예산 (respectBudget 정책에서 사용)
+}
+
+export interface ScoreWeights {
+  quality: number;
+  size: number;
+}
+
+// 음수면 a 우선, 양수면 b 우선
+export type Tiebreaker = (a: ScoringCandidate, b: ScoringCandidate) => number;
+
+export interface ScoringPolicy {
+  name: string;
+  label: string; // UI 표시 이름
+  thresholds: Partial<Record<EncodingStrategy, QualityThresholds>> & {
+    default: QualityThresholds;
+  };
+  relaxed?: QualityThresholds; // 엄격 기준을 만족하는 후보가 없을 때 허용하는 완화 기준
+  respectBudget?: boolean; // budgetKB를 넘는 후보는 탈락
+  weights: (context: ScoringContext) => ScoreWeights;
+  tiebreakers: Tiebreaker[];
+}
+
+export type CriterionName = "ssim" | "deltaE" | "edgePreservation" | "size";
+
+export interface CriterionCheck {
+  name: CriterionName;
+  value: number;
+  limit: number;
+  passed: boolean;
+}
+
+export interface CandidateEvaluation<T extends ScoringCandidate> {
+  candidate: T;
+  criteria: CriterionCheck[]; // 엄격 기준 항목별 결과
+  passed: boolean; // 엄격 기준 통과
+  passedRelaxed: boolean; // 완화 기준 통과 (엄격 기준 통과 시 true)
+  score: number; // 0~1 (품질 점수와 정규화된 용량 점수의 가중합)
+  failureReason?: string;
+}
+
+/**
+ * 전략별 기본 품질 기준 (기존 최적화 기준)
+ */
+export const STRATEGY_THRESHOLDS: ScoringPolicy["thresholds"] = {
+  // 완전 무손실: 매우 엄격한 기준 (실제로는 SSIM 1.0에 가까움)
+  "pure-lossless": { minSsim: 0.99 },
+  // 준무손실: 시각적으로 구분 불가능한 수준
+  "near-lossless": { minSsim: 0.97, maxDeltaE: 3.0, minEdgePreservation: 0.93 },
+  // 하이브리드: 높은 품질 기준
+  hybrid: { minSsim: 0.96, maxDeltaE: 4.0, minEdgePreservation: 0.92 },
+  // 최적화 손실: 표준 기준
+  default: { minSsim: 0.95, maxDeltaE: 5.0, minEdgePreservation: 0.9 },
+};
+
+export const smallerSize: Tiebreaker = (a, b) => a.sizeKB - b.sizeKB;
+export const higherSsim: Tiebreaker = (a, b) => b.metrics.ssim - a.metrics.ssim;
+
+/**
+ * 균형: 품질 70% + 용량 30% (무손실 모드는 품질이 이미 보장되므로 50:50)
+ */
+export const BALANCED_POLICY: ScoringPolicy = {
+  name: "balanced",
+  label: "균형 (품질 + 용량)",
+  thresholds: STRATEGY_THRESHOLDS,
+  relaxed: { minSsim: 0.92 },
+  weights: ({ lossless }) =>
+    lossless ? { quality: 0.5, size: 0.5 } : { quality: 0.7, size: 0.3 },
+  tiebreakers: [smallerSize, higherSsim],
+};
+
+/**
+ * 기준 통과 후보 중 가장 작은 파일
+ */
+export const SMALLEST_PASSING_POLICY: ScoringPolicy = {
+  name: "smallest-passing",
+  label: "기준 통과 최소 용량",
+  thresholds: STRATEGY_THRESHOLDS,
+  relaxed: { minSsim: 0.92 },
+  weights: () => ({ quality: 0, size: 1 }),
+  tiebreakers: [higherSsim],
+};
+
+/**
+ * 용량 예산 안에서 품질 최고
+ */
+export const BEST_QUALITY_UNDER_BUDGET_POLICY: ScoringPolicy = {
+  name: "best-quality-under-budget",
+  label: "예산 내 최고 품질",
+  thresholds: { default: {} },
+  respectBudget: true,
+  weights: () => ({ quality: 1, size: 0 }),
+  tiebreakers: [higherSsim, smallerSize],
+};
+
+export const SCORING_POLICIES: Record<ScoringPolicyName, ScoringPolicy> = {
+  balanced: BALANCED_POLICY,
+  "smallest-passing": SMALLEST_PASSING_POLICY,
+  "best-quality-under-budget": BEST_QUALITY_UNDER_BUDGET_POLICY,
+};
+
+/**
+ * 정책 이름 또는 객체를 정책으로 변환
+ */
+export function resolveScoringPolicy(
+  policy: ScoringPolicy | ScoringPolicyName = "balanced"
+): ScoringPolicy {
+  return typeof policy === "string" ? SCORING_POLICIES[policy] : policy;
+}
+
+/**
+ * 모든 전략에 같은 품질 기준을 적용한 정책 생성 (완화 기준 없음)
+ */
+export function withThresholds(
+  policy: ScoringPolicy,
+  thresholds: QualityThresholds
+): ScoringPolicy {
+  return { ...policy, thresholds: { default: thresholds }, relaxed: undefined };
+}
+
+/**
+ * 품질 점수 (0~1): SSIM 40% + ΔE 30% (10 이상은 0점) + 엣지 보존 30%
+ */
+export function qualityScore(metrics: QualityMetrics): number {
+  return (
+    metrics.ssim * 0.4 +
+    (1 - Math.min(metrics.deltaE / 10, 1)) * 0.3 +
+    metrics.edgePreservation * 0.3
+  );
+}
+
+/**
+ * 모든 후보 평가 (입력 순서 유지)
+ */
+export function evaluateCandidates<T extends ScoringCandidate>(
+  candidates: T[],
+  policy: ScoringPolicy,
+  context: ScoringContext
+): CandidateEvaluation<T>[] {
+  // 용량 점수는 가장 작은 후보 대비 비율로 정규화 (0~1, 단위 무관)
+  const minSizeKB = Math.min(...candidates.map((c) => c.sizeKB));
+  const { quality, size } = policy.weights(context);
+  const weightSum = quality + size || 1;
+
+  return candidates.map((candidate) => {
+    const strategy = candidate.config.encodingStrategy;
+    const thresholds =
+      (strategy && policy.thresholds[strategy]) || policy.thresholds.default;
+
+    const criteria = checkThresholds(candidate, thresholds);
+    if (policy.respectBudget && context.budgetKB !== undefined) {
+      criteria.push({
+        name: "size",
+        value: candidate.sizeKB,
+        limit: context.budgetKB,
+        passed: candidate.sizeKB <= context.budgetKB,
+      });
+    }
+
+    const passed = criteria.every((c) => c.passed);
+    const budgetCheck = criteria.find((c) => c.name === "size");
+    const passedRelaxed =
+      passed ||
+      (policy.relaxed !== undefined &&
+        (budgetCheck?.passed ?? true) &&
+        checkThresholds(candidate, policy.relaxed).every((c) => c.passed));
+
+    const sizeScore = candidate.sizeKB > 0 ? minSizeKB / candidate.sizeKB : 0;
+    const score =
+      (qualityScore(candidate.metrics) * quality + sizeScore * size) /
+      weightSum;
+
+    const failed = criteria.filter((c) => !c.passed);
+    return {
+      candidate,
+      criteria,
+      passed,
+      passedRelaxed,
+      score,
+      failureReason:
+        failed.length > 0 ? failed.map(describeFailure).join(", ") : undefined,
+    };
+  });
+}
+
+/**
+ * 최적 후보 선택
+ * 엄격 기준 통과 후보 → 없으면 완화 기준 통과 후보 중 점수 최고 (동점은 tiebreakers 순서)
+ */
+export function selectBestCandidate<T extends ScoringCandidate>(
+  evaluations: CandidateEvaluation<T>[],
+  policy: ScoringPolicy
+): CandidateEvaluation<T> | null {
+  const strict = evaluations.filter((e) => e.passed);
+  const pool =
+    strict.length > 0 ? strict : evaluations.filter((e) => e.passedRelaxed);
+  if (pool.length === 0) return null;
+
+  return pool.reduce((best, current) =>
+    compareEvaluations(current, best, policy) < 0 ? current : best
+  );
+}
+
+function compareEvaluations<T extends ScoringCandidate>(
+  a: CandidateEvaluation<T>,
+  b: CandidateEvaluation<T>,
+  policy: ScoringPolicy
+): number {
+  const scoreDiff = b.score - a.score;
+  if (Math.abs(scoreDiff) > 1e-9) return scoreDiff;
+
+  for (const tiebreaker of policy.tiebreakers) {
+    const result = tiebreaker(a.candidate, b.candidate);
+    if (result !== 0) return result;
+  }
+  return 0;
+}
+
+function checkThresholds(
+  candidate: ScoringCandidate,
+  thresholds: QualityThresholds
+): CriterionCheck[] {
+  const { metrics } = candidate;
+  const checks: CriterionCheck[] = [];
+
+  if (thresholds.minSsim !== undefined) {
+    checks.push({
+      name: "ssim",
+      value: metrics.ssim,
+      limit: thresholds.minSsim,
+      passed: metrics.ssim >= thresholds.minSsim,
+    });
+  }
+  if (thresholds.maxDeltaE !== undefined) {
+    checks.push({
+      name: "deltaE",
+      value: metrics.deltaE,
+      limit: thresholds.maxDeltaE,
+      passed: metrics.deltaE <= thresholds.maxDeltaE,
+    });
+  }
+  if (thresholds.minEdgePreservation !== undefined) {
+    checks.push({
+      name: "edgePreservation",
+      value: metrics.edgePreservation,
+      limit: thresholds.minEdgePreservation,
+      passed: metrics.edgePreservation >= thresholds.minEdgePreservation,
+    });
+  }
+  return checks;
+}
+
+function describeFailure(check: CriterionCheck): string {
+  switch (check.name) {
+    case "ssim":
+      return `SSIM ${check.value.toFixed(4)} < ${check.limit}`;
+    case "deltaE":
+      return `ΔE ${check.value.toFixed(2)} > ${check.limit}`;
+    case "edgePreservation":
+      return `엣지 보존 ${(check.value * 100).toFixed(1)}% < ${(check.limit * 100).toFixed(0)}%`;
+    case "size":
+      return `용량 ${check.value.toFixed(1)}KB > ${check.limit}KB`;
+  }
+}
@@ -0,0 +1,223 @@
+import { describe, it, expect } from 'vitest';
+import { computeMSSSIM, computeSSIM, computeSSIMMap } from './ssim';
+import { calculateSSIM, type ImageData } from './qualityMetrics';
+
+const C1 = 6.5025;
+const C2 = 58.5225;
+
+// 결정적 의사난수 (재현 가능한 테스트 이미지)
+function createRandom(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 0x100000000;
+  };
+}
+
+function createImage(
+  width: number,
+  height: number,
+  pixel: (x: number, y: number) => [number, number, number, number?]
+): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [r, g, b, a = 255] = pixel(x, y);
+      data.set([r, g, b, a], (y * width + x) * 4);
+    }
+  }
+  return { data, width, height };
+}
+
+function noiseImage(width: number, height: number, seed: number): ImageData {
+  const random = createRandom(seed);
+  return createImage(width, height, () => {
+    const v = Math.floor(random() * 256);
+    return [v, v, v];
+  });
+}
+
+function addNoise(img: ImageData, amount: number, seed: number): ImageData {
+  const random = createRandom(seed);
+  const data = new Uint8ClampedArray(img.data);
+  for (let i = 0; i < data.length; i += 4) {
+    const delta = Math.round((random() - 0.5) * 2 * amount);
+    data[i] += delta;
+    data[i + 1] += delta;
+    data[i + 2] += delta;
+  }
+  return { ...img, data };
+}
+
+// 정의 그대로의 느린 참조 구현: 모든 11×11 가우시안 윈도우를 직접 계산 (휘도 채널)
+function referenceSSIM(img1: ImageData, img2: ImageData): number {
+  const size = 11;
+  const sigma = 1.5;
+  const weights: number[][] = [];
+  let total = 0;
+  for (let i = 0; i < size; i++) {
+    weights.push([]);
+    for (let j = 0; j < size; j++) {
+      const w = Math.exp(-((i - 5) ** 2 + (j - 5) ** 2) / (2 * sigma * sigma));
+      weights[i].push(w);
+      total += w;
+    }
+  }
+
+  const luma = (img: ImageData, x: number, y: number) => {
+    const idx = (y * img.width + x) * 4;
+    return 0.299 * img.data[idx] + 0.587 * img.data[idx + 1] + 0.114 * img.data[idx + 2];
+  };
+
+  let sum = 0;
+  let count = 0;
+  for (let top = 0; top <= img1.height - size; top++) {
+    for (let left = 0; left <= img1.width - size; left++) {
+      let mx = 0, my = 0, sxx = 0, syy = 0, sxy = 0;
+      for (let i = 0; i < size; i++) {
+        for (let j = 0; j < size; j++) {
+          const w = weights[i][j] / total;
+          const a = luma(img1, left + j, top + i);
+          const b = luma(img2, left + j, top + i);
+          mx += w * a;
+          my += w * b;
+          sxx += w * a * a;
+          syy += w * b * b;
+          sxy += w * a * b;
+        }
+      }
+      const vx = sxx - mx * mx;
+      const vy = syy - my * my;
+      const cov = sxy - mx * my;
+      sum +=
+        ((2 * mx * my + C1) * (2 * cov + C2)) /
+        ((mx * mx + my * my + C1) * (vx + vy + C2));
+      count++;
+    }
+  }
+  return sum / count;
+}
+
+describe('SSIM', () => {
+  const original = noiseImage(40, 32, 1);
+  const distorted = addNoise(original, 20, 2);
+
+  it('should be exactly 1 for identical images', () => {
+    expect(computeSSIM(original, original)).toBe(1);
+    expect(computeSSIM(original, original, { channels: 'rgba' })).toBe(1);
+  });
+
+  it('should match the definition with an 11x11 gaussian window', () => {
+    expect(computeSSIM(original, distorted)).toBeCloseTo(referenceSSIM(original, distorted), 10);
+  });
+
+  it('should match the analytic value for flat images', () => {
+    // 분산이 0이면 대비·구조 항은 1이 되고 휘도 항만 남음
+    const dark = createImage(16, 16, () => [100, 100, 100]);
+    const light = createImage(16, 16, () => [110, 110, 110]);
+    const expected = (2 * 100 * 110 + C1) / (100 * 100 + 110 * 110 + C1);
+
+    expect(computeSSIM(dark, light)).toBeCloseTo(expected, 10);
+  });
+
+  it('should include the right and bottom edge strips', () => {
+    const base = createImage(37, 29, () => [128, 128, 128]);
+    const edited = createImage(37, 29, (x, y) =>
+      x === 36 || y === 28 ? [0, 0, 0] : [128, 128, 128]
+    );
+
+    expect(computeSSIM(base, edited)).toBeLessThan(0.99);
+  });
+
+  it('should approximate the full result with a larger stride', () => {
+    const full = computeSSIM(original, distorted);
+    const strided = computeSSIM(original, distorted, { stride: 4 });
+
+    expect(strided).toBeCloseTo(full, 1);
+  });
+
+  it('should detect chroma-only differences in rgb mode', () => {
+    // 휘도는 거의 같고 색상만 다른 이미지
+    const random = createRandom(3);
+    const values = Array.from({ length: 24 * 24 }, () => random());
+    const a = createImage(24, 24, (x, y) => {
+      const v = values[y * 24 + x];
+      return [Math.round(200 * v), Math.round(100 * (1 - v)), 120];
+    });
+    const b = createImage(24, 24, (x, y) => {
+      const v = values[y * 24 + x];
+      return [Math.round(200 * (1 - v)), Math.round(100 * v + 50), 40];
+    });
+
+    expect(computeSSIM(a, b, { channels: 'rgb' })).toBeLessThan(computeSSIM(a, b));
+  });
+
+  it('should ignore hidden colors of transparent pixels in rgba mode', () => {
+    const transparentRed = createImage(16, 16, () => [255, 0, 0, 0]);
+    const transparentBlue = createImage(16, 16, () => [0, 0, 255, 0]);
+    const opaqueBlue = createImage(16, 16, () => [0, 0, 255, 255]);
+
+    expect(computeSSIM(transparentRed, transparentBlue, { channels: 'rgba' })).toBe(1);
+    // RGB만 보면 동일하지만 알파 인식 모드에서는 차이로 잡혀야 함
+    expect(computeSSIM(transparentBlue, opaqueBlue, { channels: 'rgb' })).toBe(1);
+    expect(computeSSIM(transparentBlue, opaqueBlue, { channels: 'rgba' })).toBeLessThan(0.6);
+  });
+
+  it('should shrink the window for images smaller than 11 pixels', () => {
+    const tiny = noiseImage(6, 4, 4);
+    expect(computeSSIM(tiny, tiny)).toBe(1);
+    expect(computeSSIM(tiny, addNoise(tiny, 30, 5))).toBeLessThan(1);
+  });
+
+  it('should be exposed through calculateSSIM with options', () => {
+    expect(calculateSSIM(original, distorted, { window: 'box', windowSize: 8 })).toBe(
+      computeSSIM(original, distorted, { window: 'box', windowSize: 8 })
+    );
+  });
+});
+
+describe('MS-SSIM', () => {
+  it('should be exactly 1 for identical images', () => {
+    const img = noiseImage(64, 64, 6);
+    expect(computeMSSSIM(img, img)).toBe(1);
+  });
+
+  it('should reduce to the weighted luminance term for flat images', () => {
+    // 64px: 64, 32, 16 스케일 사용 (8px는 윈도우보다 작음) → 마지막 스케일 가중치만 휘도 항에 적용
+    const dark = createImage(64, 64, () => [100, 100, 100]);
+    const light = createImage(64, 64, () => [110, 110, 110]);
+    const luminance = (2 * 100 * 110 + C1) / (100 * 100 + 110 * 110 + C1);
+    const weight = 0.3001 / (0.0448 + 0.2856 + 0.3001);
+
+    expect(computeMSSSIM(dark, light)).toBeCloseTo(Math.pow(luminance, weight), 10);
+  });
+
+  it('should rank stronger distortion lower', () => {
+    const img = noiseImage(96, 96, 7);
+    const mild = computeMSSSIM(img, addNoise(img, 5, 8));
+    const strong = computeMSSSIM(img, addNoise(img, 40, 9));
+
+    expect(mild).toBeGreaterThan(strong);
+    expect(mild).toBeLessThan(1);
+    expect(strong).toBeGreaterThanOrEqual(0);
+  });
+});
+
+describe('SSIM Map', () => {
+  it('should localize the loss and keep the same mean as computeSSIM', () => {
+    const img = noiseImage(48, 32, 10);
+    // 오른쪽 아래 모서리만 손상
+    const damaged = createImage(48, 32, (x, y) => {
+      const i = (y * 48 + x) * 4;
+      const v = img.data[i];
+      return x >= 36 && y >= 20 ? [255 - v, 255 - v, 255 - v] : [v, v, v];
+    });
+
+    const map = computeSSIMMap(img, damaged);
+
+    expect(map.values).toHaveLength(48 * 32);
+    expect(map.mean).toBeCloseTo(computeSSIM(img, damaged), 10);
+    expect(map.values[0]).toBeCloseTo(1, 10);
+    expect(map.values[31 * 48 + 47]).toBeLessThan(0.5);
+  });
+});
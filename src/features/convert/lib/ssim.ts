@@ -0,0 +1,376 @@
+/**
+ * SSIM / MS-SSIM 계산 엔진
+ * Wang et al. (2004) 기준: 11×11 가우시안 윈도우(σ=1.5), K1=0.01, K2=0.03, L=255
+ * 분리 가능한(separable) 필터로 윈도우 통계를 계산하고 이미지 가장자리까지 모두 포함
+ */
+import type { ImageData } from "./qualityMetrics";
+
+export interface SSIMOptions {
+  window?: "gaussian" | "box"; // 기본값: gaussian
+  windowSize?: number; // 기본값: 11 (이미지가 더 작으면 이미지 크기로 축소)
+  sigma?: number; // 가우시안 표준편차, 기본값: 1.5
+  stride?: number; // 윈도우 이동 간격, 기본값: 1 (1보다 크면 빠르지만 근사치)
+  channels?: "luma" | "rgb" | "rgba"; // rgba: 알파로 premultiply한 RGB + 알파 채널
+}
+
+export interface SSIMMap {
+  width: number;
+  height: number;
+  values: Float32Array; // 픽셀별 지역 SSIM (해당 픽셀을 중심으로 한 윈도우 값, 가장자리는 가장 가까운 윈도우)
+  mean: number; // computeSSIM과 같은 평균값
+}
+
+interface PlaneSSIM {
+  ssim: number;
+  cs: number; // 대비·구조 항 평균 (MS-SSIM용)
+}
+
+const C1 = 6.5025; // (K1 * L)^2, K1 = 0.01, L = 255
+const C2 = 58.5225; // (K2 * L)^2, K2 = 0.03, L = 255
+
+// MS-SSIM 스케일별 가중치 (Wang, Simoncelli, Bovik 2003)
+const MS_SSIM_WEIGHTS = [0.0448, 0.2856, 0.3001, 0.2363, 0.1333];
+
+/**
+ * 평균 SSIM 계산 (채널별 결과의 평균)
+ */
+export function computeSSIM(
+  img1: ImageData,
+  img2: ImageData,
+  options: SSIMOptions = {}
+): number {
+  assertSameSize(img1, img2);
+
+  const planes1 = extractPlanes(img1, options.channels);
+  const planes2 = extractPlanes(img2, options.channels);
+  const kernel = createKernel(img1.width, img1.height, options);
+  const stride = Math.max(1, Math.floor(options.stride ?? 1));
+
+  let sum = 0;
+  for (let c = 0; c < planes1.length; c++) {
+    sum += ssimPlane(
+      planes1[c],
+      planes2[c],
+      img1.width,
+      img1.height,
+      kernel,
+      stride
+    ).ssim;
+  }
+  return sum / planes1.length;
+}
+
+/**
+ * 지역 SSIM 맵 (품질 손실 위치 시각화용, stride는 항상 1)
+ */
+export function computeSSIMMap(
+  img1: ImageData,
+  img2: ImageData,
+  options: SSIMOptions = {}
+): SSIMMap {
+  assertSameSize(img1, img2);
+
+  const { width, height } = img1;
+  const planes1 = extractPlanes(img1, options.channels);
+  const planes2 = extractPlanes(img2, options.channels);
+  const kernel = createKernel(width, height, options);
+  const columns = width - kernel.length + 1;
+  const rows = height - kernel.length + 1;
+
+  // 채널별 윈도우 SSIM을 평균
+  const windows = new Float64Array(rows * columns);
+  let mean = 0;
+  for (let c = 0; c < planes1.length; c++) {
+    const plane = ssimPlane(planes1[c], planes2[c], width, height, kernel, 1, (index, ssim) => {
+      windows[index] += ssim / planes1.length;
+    });
+    mean += plane.ssim / planes1.length;
+  }
+
+  // 윈도우 좌상단 좌표 → 중심 픽셀 좌표로 옮기고 가장자리는 가장 가까운 윈도우로 채움
+  const half = Math.floor(kernel.length / 2);
+  const values = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const row = Math.min(rows - 1, Math.max(0, y - half));
+    for (let x = 0; x < width; x++) {
+      const column = Math.min(columns - 1, Math.max(0, x - half));
+      values[y * width + x] = windows[row * columns + column];
+    }
+  }
+
+  return { width, height, values, mean };
+}
+
+/**
+ * MS-SSIM (다중 스케일 SSIM)
+ * 2×2 평균 다운샘플링으로 최대 5단계, 윈도우보다 작아지는 스케일은 제외하고 가중치 재정규화
+ */
+export function computeMSSSIM(
+  img1: ImageData,
+  img2: ImageData,
+  options: SSIMOptions = {}
+): number {
+  assertSameSize(img1, img2);
+
+  let planes1 = extractPlanes(img1, options.channels);
+  let planes2 = extractPlanes(img2, options.channels);
+  let width = img1.width;
+  let height = img1.height;
+  const windowSize = options.windowSize ?? 11;
+  const stride = Math.max(1, Math.floor(options.stride ?? 1));
+
+  // 사용할 스케일 수 결정 (최소 1단계)
+  let levels = 1;
+  while (
+    levels < MS_SSIM_WEIGHTS.length &&
+    Math.min(width, height) >> levels >= windowSize
+  ) {
+    levels++;
+  }
+  const weights = MS_SSIM_WEIGHTS.slice(0, levels);
+  const weightSum = weights.reduce((a, b) => a + b, 0);
+
+  let result = 1;
+  for (let level = 0; level < levels; level++) {
+    const kernel = createKernel(width, height, options);
+    let ssim = 0;
+    let cs = 0;
+    for (let c = 0; c < planes1.length; c++) {
+      const plane = ssimPlane(
+        planes1[c],
+        planes2[c],
+        width,
+        height,
+        kernel,
+        stride
+      );
+      ssim += plane.ssim / planes1.length;
+      cs += plane.cs / planes1.length;
+    }
+
+    const weight = weights[level] / weightSum;
+    // 음수 항은 0으로 (분수 거듭제곱의 NaN 방지)
+    const term = level === levels - 1 ? ssim : cs;
+    result *= Math.pow(Math.max(term, 0), weight);
+
+    if (level < levels - 1) {
+      planes1 = planes1.map((plane) => downsample(plane, width, height));
+      planes2 = planes2.map((plane) => downsample(plane, width, height));
+      width = Math.floor(width / 2);
+      height = Math.floor(height / 2);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 단일 채널 SSIM
+ * 가로 방향으로 윈도우 통계(μx, μy, E[x²], E[y²], E[xy])를 먼저 구한 뒤 세로 방향으로 합산
+ */
+function ssimPlane(
+  x: Float64Array,
+  y: Float64Array,
+  width: number,
+  height: number,
+  kernel: Float64Array,
+  stride: number,
+  onWindow?: (index: number, ssim: number) => void // 윈도우별 값 (행 우선 순서)
+): PlaneSSIM {
+  const size = kernel.length;
+  const xs = windowPositions(width, size, stride);
+  const ys = windowPositions(height, size, stride);
+  const columns = xs.length;
+  const rows = ys.length;
+
+  // 1. 가로 방향 가중합 (모든 행 × 윈도우 열)
+  const hx = new Float64Array(height * columns);
+  const hy = new Float64Array(height * columns);
+  const hxx = new Float64Array(height * columns);
+  const hyy = new Float64Array(height * columns);
+  const hxy = new Float64Array(height * columns);
+
+  for (let row = 0; row < height; row++) {
+    const rowOffset = row * width;
+    for (let j = 0; j < columns; j++) {
+      const start = rowOffset + xs[j];
+      let sx = 0;
+      let sy = 0;
+      let sxx = 0;
+      let syy = 0;
+      let sxy = 0;
+      for (let k = 0; k < size; k++) {
+        const w = kernel[k];
+        const a = x[start + k];
+        const b = y[start + k];
+        sx += w * a;
+        sy += w * b;
+        sxx += w * a * a;
+        syy += w * b * b;
+        sxy += w * a * b;
+      }
+      const idx = row * columns + j;
+      hx[idx] = sx;
+      hy[idx] = sy;
+      hxx[idx] = sxx;
+      hyy[idx] = syy;
+      hxy[idx] = sxy;
+    }
+  }
+
+  // 2. 세로 방향 가중합 → 윈도우별 SSIM
+  let ssimSum = 0;
+  let csSum = 0;
+
+  for (let i = 0; i < rows; i++) {
+    const top = ys[i];
+    for (let j = 0; j < columns; j++) {
+      let mx = 0;
+      let my = 0;
+      let exx = 0;
+      let eyy = 0;
+      let exy = 0;
+      for (let k = 0; k < size; k++) {
+        const w = kernel[k];
+        const idx = (top + k) * columns + j;
+        mx += w * hx[idx];
+        my += w * hy[idx];
+        exx += w * hxx[idx];
+        eyy += w * hyy[idx];
+        exy += w * hxy[idx];
+      }
+
+      const sigmaX = exx - mx * mx;
+      const sigmaY = eyy - my * my;
+      const sigmaXY = exy - mx * my;
+
+      const cs = (2 * sigmaXY + C2) / (sigmaX + sigmaY + C2);
+      const ssim = ((2 * mx * my + C1) / (mx * mx + my * my + C1)) * cs;
+
+      ssimSum += ssim;
+      csSum += cs;
+      onWindow?.(i * columns + j, ssim);
+    }
+  }
+
+  const count = rows * columns;
+  return {
+    ssim: count > 0 ? ssimSum / count : 1,
+    cs: count > 0 ? csSum / count : 1,
+  };
+}
+
+/**
+ * 윈도우 시작 위치: 0부터 stride 간격, 마지막 윈도우는 항상 가장자리에 맞춤
+ */
+function windowPositions(length: number, size: number, stride: number): number[] {
+  const last = length - size;
+  if (last < 0) return [];
+
+  const positions: number[] = [];
+  for (let p = 0; p <= last; p += stride) {
+    positions.push(p);
+  }
+  if (positions[positions.length - 1] !== last) {
+    positions.push(last);
+  }
+  return positions;
+}
+
+/**
+ * 정규화된 1차원 윈도우 가중치 (2차원 윈도우 = 외적)
+ */
+function createKernel(
+  width: number,
+  height: number,
+  options: SSIMOptions
+): Float64Array {
+  const size = Math.max(
+    1,
+    Math.min(options.windowSize ?? 11, width, height)
+  );
+  const sigma = options.sigma ?? 1.5;
+  const kernel = new Float64Array(size);
+  const center = (size - 1) / 2;
+
+  let sum = 0;
+  for (let i = 0; i < size; i++) {
+    const value =
+      options.window === "box"
+        ? 1
+        : Math.exp(-((i - center) ** 2) / (2 * sigma * sigma));
+    kernel[i] = value;
+    sum += value;
+  }
+  for (let i = 0; i < size; i++) {
+    kernel[i] /= sum;
+  }
+  return kernel;
+}
+
+/**
+ * RGBA 데이터를 비교할 채널 평면으로 분리
+ */
+function extractPlanes(
+  img: ImageData,
+  channels: SSIMOptions["channels"] = "luma"
+): Float64Array[] {
+  const pixelCount = img.width * img.height;
+  const { data } = img;
+
+  if (channels === "luma") {
+    const luma = new Float64Array(pixelCount);
+    for (let i = 0; i < pixelCount; i++) {
+      const idx = i * 4;
+      luma[i] = 0.299 * data[idx] + 0.587 * data[idx + 1] + 0.114 * data[idx + 2];
+    }
+    return [luma];
+  }
+
+  const planeCount = channels === "rgba" ? 4 : 3;
+  const planes = Array.from(
+    { length: planeCount },
+    () => new Float64Array(pixelCount)
+  );
+
+  for (let i = 0; i < pixelCount; i++) {
+    const idx = i * 4;
+    // 알파 인식 모드: 투명 픽셀의 숨은 RGB 값은 비교에서 제외되도록 premultiply
+    const alpha = channels === "rgba" ? data[idx + 3] / 255 : 1;
+    planes[0][i] = data[idx] * alpha;
+    planes[1][i] = data[idx + 1] * alpha;
+    planes[2][i] = data[idx + 2] * alpha;
+    if (planeCount === 4) planes[3][i] = data[idx + 3];
+  }
+
+  return planes;
+}
+
+function downsample(
+  plane: Float64Array,
+  width: number,
+  height: number
+): Float64Array {
+  const outWidth = Math.floor(width / 2);
+  const outHeight = Math.floor(height / 2);
+  const out = new Float64Array(outWidth * outHeight);
+
+  for (let y = 0; y < outHeight; y++) {
+    for (let x = 0; x < outWidth; x++) {
+      const idx = 2 * y * width + 2 * x;
+      out[y * outWidth + x] =
+        (plane[idx] + plane[idx + 1] + plane[idx + width] + plane[idx + width + 1]) / 4;
+    }
+  }
+  return out;
+}
+
+function assertSameSize(img1: ImageData, img2: ImageData) {
+  if (
+    img1.width !== img2.width ||
+    img1.height !== img2.height ||
+    img1.data.length !== img2.data.length
+  ) {
+    throw new Error("Image dimensions must match");
+  }
+}
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import {
+  meetsQualityTarget,
+  QualityTargetUnreachableError,
+  searchTargetQuality,
+  type TargetQualityParams,
+} from './targetQuality';
+import { AbortError } from './abort';
+import type { QualityMetrics } from './qualityMetrics';
+
+interface FakeCandidate {
+  params: TargetQualityParams;
+  sizeKB: number;
+}
+
+// 가상 인코더: 손실은 q에 비례해 커지고 선명해짐, 무손실은 원본과 같고 가장 큼
+const encode = async (params: TargetQualityParams): Promise<FakeCandidate> => ({
+  params,
+  sizeKB: params.lossless ? 150 : 10 + params.quality,
+});
+
+const measure = async ({ params }: FakeCandidate): Promise<QualityMetrics> =>
+  params.lossless
+    ? { ssim: 1, psnr: Infinity, deltaE: 0, edgePreservation: 1 }
+    : { ssim: 0.8 + params.quality * 0.002, psnr: 35, deltaE: (100 - params.quality) / 10, edgePreservation: 0.9 };
+
+describe('Target Quality Search', () => {
+  it('should check SSIM and ΔE thresholds together', () => {
+    const target = { minSsim: 0.95, maxDeltaE: 2 };
+    expect(meetsQualityTarget({ ssim: 0.96, psnr: 0, deltaE: 1.5, edgePreservation: 0 }, target)).toBe(true);
+    expect(meetsQualityTarget({ ssim: 0.96, psnr: 0, deltaE: 2.5, edgePreservation: 0 }, target)).toBe(false);
+    expect(meetsQualityTarget({ ssim: 0.94, psnr: 0, deltaE: 1.5, edgePreservation: 0 }, target)).toBe(false);
+  });
+
+  it('should find the lowest passing lossy quality', async () => {
+    // 손실: SSIM ≥ 0.97 → q ≥ 85, ΔE ≤ 2 → q ≥ 80 ⇒ q = 85 (95KB 부근)
+    const { best, passing } = await searchTargetQuality({
+      target: { minSsim: 0.97, maxDeltaE: 2 },
+      encode,
+      measure,
+    });
+
+    // 손실이 통과하면 무손실은 시도하지 않음
+    expect(passing).toHaveLength(1);
+    expect(best!.candidate.params.lossless).toBeUndefined();
+    expect(best!.candidate.params.quality).toBeGreaterThanOrEqual(85);
+    expect(best!.candidate.params.quality).toBeLessThanOrEqual(87);
+  });
+
+  it('should fall back to lossless when lossy cannot meet the target', async () => {
+    // 손실 SSIM을 0.99로 제한 → SSIM ≥ 0.999는 무손실만 가능
+    const { best } = await searchTargetQuality({
+      target: { minSsim: 0.999, maxDeltaE: 0.5 },
+      encode,
+      measure: async (candidate) => {
+        const metrics = await measure(candidate);
+        return candidate.params.lossless ? metrics : { ...metrics, ssim: Math.min(metrics.ssim, 0.99) };
+      },
+    });
+
+    expect(best!.candidate.params).toEqual({ quality: 100, lossless: true });
+  });
+
+  it('should report the closest candidate when no setting passes', async () => {
+    const { best, closest } = await searchTargetQuality({
+      target: { minSsim: 1.1, maxDeltaE: 0 },
+      encode,
+      measure,
+    });
+
+    expect(best).toBeNull();
+    expect(closest!.metrics.ssim).toBeCloseTo(1, 5);
+
+    const error = new QualityTargetUnreachableError({ minSsim: 1.1, maxDeltaE: 0 }, closest!.metrics);
+    expect(error.name).toBe('QualityTargetUnreachableError');
+    expect(error.message).toContain('최고 SSIM 1.0000');
+  });
+
+  it('should not encode the same parameters twice', async () => {
+    const seen: string[] = [];
+    await searchTargetQuality({
+      target: { minSsim: 0.97, maxDeltaE: 2 },
+      encode: async (params) => {
+        seen.push(JSON.stringify(params));
+        return encode(params);
+      },
+      measure,
+    });
+
+    expect(new Set(seen).size).toBe(seen.length);
+  });
+
+  it('should treat a failed encode as a miss and keep bisecting', async () => {
+    const failures: number[] = [];
+    const { best, attempts } = await searchTargetQuality({
+      target: { minSsim: 0.97, maxDeltaE: 2 },
+      // 중간 품질 구간에서는 인코더가 중단됨
+      encode: async (params) => {
+        if (params.quality >= 40 && params.quality < 70) throw new Error('encoder crashed');
+        return encode(params);
+      },
+      measure,
+      onAttempt: (params, result) => {
+        if (!result) failures.push(params.quality);
+      },
+    });
+
+    expect(failures.length).toBeGreaterThan(0);
+    expect(attempts).toBeGreaterThan(failures.length);
+    expect(best!.candidate.params.quality).toBeGreaterThanOrEqual(85);
+    expect(best!.candidate.params.quality).toBeLessThanOrEqual(87);
+  });
+
+  it('should return no candidate when every encode fails', async () => {
+    const { best, closest, attempts } = await searchTargetQuality({
+      target: { minSsim: 0.97, maxDeltaE: 2 },
+      encode: async () => {
+        throw new Error('encoder crashed');
+      },
+      measure,
+    });
+
+    expect(best).toBeNull();
+    expect(closest).toBeNull();
+    expect(attempts).toBeGreaterThan(0);
+  });
+
+  it('should stop on cancellation instead of treating it as a failed encode', async () => {
+    await expect(
+      searchTargetQuality({
+        target: { minSsim: 0.97, maxDeltaE: 2 },
+        encode: async () => {
+          throw new AbortError();
+        },
+        measure,
+      })
+    ).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
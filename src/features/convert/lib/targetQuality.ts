@@ -0,0 +1,157 @@
+/**
+ * 목표 품질 탐색
+ * "SSIM ≥ X, ΔE ≤ Y를 만족하는 가장 작은 파일"을 입력마다 이분 탐색으로 찾음
+ * - 손실: 기준을 만족하는 가장 낮은 -q:v
+ * - 무손실: 손실로 기준을 만족하지 못할 때만 -lossless 1로 한 번 시도
+ * 고정 그리드 대신 탐색하므로 최적점이 미리 정한 값 사이에 있어도 찾을 수 있음
+ * 인코딩/측정에 실패한 시도는 기준 미달과 같이 취급하고 탐색을 계속함
+ */
+import { isAbortError, throwIfAborted } from "./abort";
+import { bisectParameter } from "./parameterSearch";
+import type { QualityMetrics } from "./qualityMetrics";
+
+export interface QualityTarget {
+  minSsim: number;
+  maxDeltaE: number;
+}
+
+export interface TargetQualityParams {
+  quality: number; // -q:v (무손실 모드에서는 -quality: 압축 노력)
+  lossless?: boolean; // 지정 시 -lossless 1 사용
+}
+
+export interface MeasuredCandidate<T> {
+  candidate: T;
+  metrics: QualityMetrics;
+}
+
+export interface TargetQualitySearchResult<T> {
+  passing: MeasuredCandidate<T>[]; // 기준을 만족하는 후보 (탐색별 최소 용량)
+  best: MeasuredCandidate<T> | null; // 기준을 만족하는 가장 작은 후보
+  closest: MeasuredCandidate<T> | null; // 기준 미달 시 보고용: SSIM이 가장 높은 후보
+  attempts: number; // 실패한 시도 포함
+}
+
+/**
+ * 품질 기준을 만족하지 못한 경우
+ */
+export class QualityTargetUnreachableError extends Error {
+  readonly target: QualityTarget;
+  readonly closest: QualityMetrics | null;
+
+  constructor(target: QualityTarget, closest: QualityMetrics | null) {
+    super(
+      closest
+        ? `품질 기준(SSIM ≥ ${target.minSsim}, ΔE ≤ ${target.maxDeltaE})을 만족하는 설정이 없습니다 (최고 SSIM ${closest.ssim.toFixed(4)}, ΔE ${closest.deltaE.toFixed(2)})`
+        : `품질 기준(SSIM ≥ ${target.minSsim}, ΔE ≤ ${target.maxDeltaE})을 만족하는 설정이 없습니다`
+    );
+    this.name = "QualityTargetUnreachableError";
+    this.target = target;
+    this.closest = closest;
+  }
+}
+
+const MIN_QUALITY = 5;
+const MAX_QUALITY = 100;
+
+/**
+ * 메트릭이 품질 기준을 만족하는지 확인
+ */
+export function meetsQualityTarget(
+  metrics: QualityMetrics,
+  target: QualityTarget
+): boolean {
+  return metrics.ssim >= target.minSsim && metrics.deltaE <= target.maxDeltaE;
+}
+
+/**
+ * 기준을 만족하는 최소 용량 후보 탐색
+ */
+export async function searchTargetQuality<T extends { sizeKB: number }>({
+  target,
+  encode,
+  measure,
+  signal,
+  onAttempt,
+}: {
+  target: QualityTarget;
+  encode: (params: TargetQualityParams) => Promise<T>;
+  measure: (candidate: T) => Promise<QualityMetrics>;
+  signal?: AbortSignal;
+  onAttempt?: (
+    params: TargetQualityParams,
+    result: MeasuredCandidate<T> | null, // 실패 시 null
+    attempt: number
+  ) => void;
+}): Promise<TargetQualitySearchResult<T>> {
+  const cache = new Map<string, Promise<MeasuredCandidate<T> | null>>();
+  const measured: MeasuredCandidate<T>[] = [];
+  let attempts = 0;
+
+  // 같은 파라미터는 한 번만 인코딩/측정
+  const evaluate = (params: TargetQualityParams) => {
+    const key = `${params.lossless ? "lossless" : "q"}:${params.quality}`;
+    let pending = cache.get(key);
+    if (!pending) {
+      pending = (async () => {
+        throwIfAborted(signal);
+        let result: MeasuredCandidate<T> | null = null;
+        try {
+          const candidate = await encode(params);
+          throwIfAborted(signal);
+          result = { candidate, metrics: await measure(candidate) };
+          measured.push(result);
+        } catch (error) {
+          // 취소는 탐색 전체 중단, 인코딩/측정 실패는 이 시도만 제외 (기준 미달과 같이 취급)
+          if (signal?.aborted || isAbortError(error)) throw error;
+        }
+        attempts++;
+        onAttempt?.(params, result, attempts);
+        return result;
+      })();
+      cache.set(key, pending);
+    }
+    return pending;
+  };
+
+  const passes = (
+    result: MeasuredCandidate<T> | null
+  ): result is MeasuredCandidate<T> =>
+    result !== null && meetsQualityTarget(result.metrics, target);
+
+  const passing: MeasuredCandidate<T>[] = [];
+
+  // 1. 손실: 기준을 만족하는 가장 낮은 품질
+  const lossy = await bisectParameter({
+    low: MIN_QUALITY,
+    high: MAX_QUALITY,
+    evaluate: (quality) => evaluate({ quality }),
+    accept: passes,
+    prefer: "low",
+    precision: 2,
+    maxSteps: 7,
+  });
+  if (lossy.best?.result) passing.push(lossy.best.result);
+
+  // 2. 무손실: 손실 최고 품질로도 기준 미달일 때의 마지막 시도 (용량이 커서 손실이 통과하면 생략)
+  if (!lossy.best) {
+    const lossless = await evaluate({ quality: 100, lossless: true });
+    if (passes(lossless)) passing.push(lossless);
+  }
+
+  const best = passing.reduce<MeasuredCandidate<T> | null>(
+    (smallest, current) =>
+      !smallest || current.candidate.sizeKB < smallest.candidate.sizeKB
+        ? current
+        : smallest,
+    null
+  );
+
+  const closest = measured.reduce<MeasuredCandidate<T> | null>(
+    (highest, current) =>
+      !highest || current.metrics.ssim > highest.metrics.ssim ? current : highest,
+    null
+  );
+
+  return { passing, best, closest, attempts };
+}
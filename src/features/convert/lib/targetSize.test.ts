@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { searchTargetSize, TargetSizeUnreachableError, type TargetSizeParams } from './targetSize';
+
+interface FakeCandidate {
+  params: TargetSizeParams;
+  sizeKB: number;
+}
+
+// 가상 인코더: 용량 ∝ 품질 × 해상도² / 프레임 간격
+function fakeEncoder() {
+  return async (params: TargetSizeParams): Promise<FakeCandidate> => {
+    const base = 20 + params.quality * 3;
+    return { params, sizeKB: (base * params.scale * params.scale) / params.frameStep };
+  };
+}
+
+describe('Target Size Search', () => {
+  it('should find the highest lossy quality under the budget at full size', async () => {
+    const { fitting } = await searchTargetSize({ budgetKB: 200, encode: fakeEncoder() });
+
+    // 20 + 3q ≤ 200 → q ≤ 60 (정밀도 3)
+    const lossy = fitting.find((c) => c.params.scale === 1);
+    expect(lossy).toBeDefined();
+    expect(lossy!.params.quality).toBeGreaterThanOrEqual(57);
+    expect(lossy!.params.quality).toBeLessThanOrEqual(60);
+    expect(lossy!.sizeKB).toBeLessThanOrEqual(200);
+  });
+
+  it('should fall back to smaller shapes for tight budgets', async () => {
+    // 원본 해상도 최저 품질도 35KB → 축소가 필요
+    const { fitting } = await searchTargetSize({ budgetKB: 30, encode: fakeEncoder() });
+
+    expect(fitting.length).toBeGreaterThan(0);
+    expect(fitting.every((c) => c.params.scale < 1 && c.sizeKB <= 30)).toBe(true);
+  });
+
+  it('should report the smallest attempt when the budget is unreachable', async () => {
+    const { fitting, smallest, attempts } = await searchTargetSize({ budgetKB: 1, encode: fakeEncoder() });
+
+    expect(fitting).toHaveLength(0);
+    expect(smallest!.params).toMatchObject({ scale: 0.5, frameStep: 2, quality: 5 });
+    expect(attempts).toBeGreaterThan(0);
+  });
+
+  it('should treat failed encodes as misses and keep searching', async () => {
+    const encode = fakeEncoder();
+    const { fitting, smallest } = await searchTargetSize({
+      budgetKB: 200,
+      // 높은 품질에서는 인코더가 실패 (지원하지 않는 옵션 등)
+      encode: async (params) => {
+        if (params.quality > 50) throw new Error('ffmpeg 인코딩 실패 (종료 코드 1)');
+        return encode(params);
+      },
+    });
+
+    expect(fitting[0].params).toMatchObject({ scale: 1, frameStep: 1 });
+    expect(fitting[0].params.quality).toBeLessThanOrEqual(50);
+    expect(smallest!.sizeKB).toBeGreaterThan(0);
+  });
+
+  it('should stop when aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      searchTargetSize({ budgetKB: 100, encode: fakeEncoder(), signal: controller.signal })
+    ).rejects.toThrow('변환이 취소되었습니다');
+  });
+
+  it('should describe the unreachable budget with the smallest size found', () => {
+    const error = new TargetSizeUnreachableError(50, 72.34);
+
+    expect(error.name).toBe('TargetSizeUnreachableError');
+    expect(error.message).toBe('목표 용량 50KB를 맞출 수 없습니다 (최소 72.3KB)');
+    expect(error.smallestSizeKB).toBe(72.34);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * 목표 용량 탐색
+ * 용량 예산(KB) 안에 들어오는 인코딩 설정을 품질 손실이 적은 순서로 탐색
+ * 출력 형태(해상도 배율/프레임 간격)마다 -q:v 이분 탐색으로 예산 내 최고 품질 탐색
+ * 인코딩에 실패한 시도는 예산 초과와 같이 취급하고 탐색을 계속함
+ * 최종 선택(SSIM 최고)은 메트릭 계산 후 optimizer에서 수행
+ */
+import { isAbortError, throwIfAborted } from "./abort";
+import { bisectParameter } from "./parameterSearch";
+
+export interface TargetSizeParams {
+  quality: number; // -q:v
+  scale: number; // 해상도 배율 (1=원본)
+  frameStep: number; // N프레임마다 1개 유지 (1=전체)
+}
+
+export interface TargetSizeShape {
+  scale: number;
+  frameStep: number;
+}
+
+export interface TargetSizeSearchResult<T> {
+  fitting: T[]; // 예산을 만족하는 후보 (형태별 최고 품질)
+  smallest: T | null; // 시도한 결과 중 가장 작은 후보 (예산 미달 보고용)
+  attempts: number;
+}
+
+/**
+ * 가장 작은 설정으로도 목표 용량을 맞출 수 없는 경우
+ */
+export class TargetSizeUnreachableError extends Error {
+  readonly budgetKB: number;
+  readonly smallestSizeKB: number | null; // 탐색 중 얻은 최소 용량
+
+  constructor(budgetKB: number, smallestSizeKB: number | null) {
+    super(
+      smallestSizeKB === null
+        ? `목표 용량 ${budgetKB}KB를 맞출 수 없습니다`
+        : `목표 용량 ${budgetKB}KB를 맞출 수 없습니다 (최소 ${smallestSizeKB.toFixed(1)}KB)`
+    );
+    this.name = "TargetSizeUnreachableError";
+    this.budgetKB = budgetKB;
+    this.smallestSizeKB = smallestSizeKB;
+  }
+}
+
+// 품질 손실이 작은 순서의 출력 형태
+export const TARGET_SIZE_SHAPES: TargetSizeShape[] = [
+  { scale: 1, frameStep: 1 },
+  { scale: 0.85, frameStep: 1 },
+  { scale: 0.7, frameStep: 1 },
+  { scale: 0.7, frameStep: 2 },
+  { scale: 0.5, frameStep: 1 },
+  { scale: 0.5, frameStep: 2 },
+];
+
+// 이 품질 이상으로 예산을 맞추면 더 작은 형태는 탐색하지 않음
+const GOOD_ENOUGH_QUALITY = 70;
+
+const MIN_QUALITY = 5;
+const MAX_QUALITY = 95;
+
+/**
+ * 예산 내 후보 탐색
+ */
+export async function searchTargetSize<T extends { sizeKB: number }>({
+  budgetKB,
+  encode,
+  shapes = TARGET_SIZE_SHAPES,
+  signal,
+  onAttempt,
+}: {
+  budgetKB: number;
+  encode: (params: TargetSizeParams) => Promise<T>;
+  shapes?: TargetSizeShape[];
+  signal?: AbortSignal;
+  onAttempt?: (params: TargetSizeParams, result: T | null, attempt: number) => void; // 실패 시 result는 null
+}): Promise<TargetSizeSearchResult<T>> {
+  if (!(budgetKB > 0)) {
+    throw new Error("목표 용량은 0보다 커야 합니다");
+  }
+
+  const fitting: T[] = [];
+  let smallest: T | null = null;
+  let attempts = 0;
+
+  const run = async (params: TargetSizeParams): Promise<T | null> => {
+    throwIfAborted(signal);
+    let result: T | null = null;
+    try {
+      result = await encode(params);
+    } catch (error) {
+      // 취소는 탐색 전체 중단, 인코딩 실패는 이 시도만 제외 (예산 초과와 같이 취급)
+      if (signal?.aborted || isAbortError(error)) throw error;
+    }
+    attempts++;
+    if (result && (!smallest || result.sizeKB < smallest.sizeKB)) smallest = result;
+    onAttempt?.(params, result, attempts);
+    return result;
+  };
+
+  const fits = (result: T | null): result is T =>
+    result !== null && result.sizeKB <= budgetKB;
+
+  // 형태별 손실 품질 탐색
+  for (const shape of shapes) {
+    const { best } = await bisectParameter({
+      low: MIN_QUALITY,
+      high: MAX_QUALITY,
+      evaluate: (quality) => run({ quality, ...shape }),
+      accept: fits,
+      prefer: "high",
+      precision: 3,
+      maxSteps: 7,
+    });
+
+    if (best && fits(best.result)) {
+      fitting.push(best.result);
+      if (best.value >= GOOD_ENOUGH_QUALITY) break;
+    }
+  }
+
+  return { fitting, smallest, attempts };
+}
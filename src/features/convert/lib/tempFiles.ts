@@ -0,0 +1,15 @@
+import { FFmpeg } from "@ffmpeg/ffmpeg";
+
+/**
+ * MEMFS 임시 파일 일괄 삭제
+ * 취소/실패 후에도 호출되므로 없는 파일이나 종료된 인스턴스의 에러는 무시
+ */
+export async function deleteTempFiles(ffmpeg: FFmpeg, files: Iterable<string>) {
+  for (const file of files) {
+    try {
+      await ffmpeg.deleteFile(file);
+    } catch {
+      // 정리 실패 무시
+    }
+  }
+}
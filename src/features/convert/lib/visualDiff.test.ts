@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import type { ImageData } from './qualityMetrics';
+import {
+  computeDiffHeatmap,
+  computeFrameSSIMMap,
+  heatColor,
+  renderSSIMMap,
+} from './visualDiff';
+
+function solid(width: number, height: number, rgba: number[]): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) data.set(rgba, i);
+  return { data, width, height };
+}
+
+describe('Visual Diff', () => {
+  it('heatColor는 검정에서 빨강으로 보간', () => {
+    expect(heatColor(0)).toEqual([0, 0, 0]);
+    expect(heatColor(1)).toEqual([255, 0, 0]);
+    expect(heatColor(0.25)).toEqual([0, 0, 255]);
+    expect(heatColor(2)).toEqual([255, 0, 0]);
+  });
+
+  it('차이 히트맵은 바뀐 픽셀만 색으로 표시', () => {
+    const original = solid(4, 4, [100, 100, 100, 255]);
+    const converted = solid(4, 4, [100, 100, 100, 255]);
+    converted.data.set([100, 140, 100, 255], 0);
+
+    const heatmap = computeDiffHeatmap(original, converted);
+
+    expect(heatmap.maxDiff).toBe(40);
+    expect(heatmap.changedRatio).toBeCloseTo(1 / 16);
+    expect(Array.from(heatmap.image.data.slice(4, 8))).toEqual([0, 0, 0, 255]);
+    expect(Array.from(heatmap.image.data.slice(0, 3))).not.toEqual([0, 0, 0]);
+  });
+
+  it('축소된 변환본은 원본 해상도로 맞춰 비교', () => {
+    const original = solid(8, 8, [50, 60, 70, 255]);
+    const converted = solid(4, 4, [50, 60, 70, 255]);
+
+    const heatmap = computeDiffHeatmap(original, converted);
+
+    expect(heatmap.image.width).toBe(8);
+    expect(heatmap.maxDiff).toBe(0);
+  });
+
+  it('동일한 프레임의 SSIM 맵 오버레이는 완전히 투명', () => {
+    const image = solid(16, 16, [10, 200, 30, 255]);
+    for (let i = 0; i < image.data.length; i += 12) image.data[i] = 240;
+
+    const map = computeFrameSSIMMap(image, image);
+    const overlay = renderSSIMMap(map);
+
+    expect(map.mean).toBeCloseTo(1, 5);
+    expect(overlay.data.filter((_, i) => i % 4 === 3).every((alpha) => alpha === 0)).toBe(true);
+  });
+});
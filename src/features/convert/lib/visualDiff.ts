@@ -0,0 +1,114 @@
+/**
+ * 시각적 비교 이미지 생성
+ * 원본/변환본 프레임의 픽셀 차이 히트맵과 지역 SSIM 맵을 RGBA 이미지로 만들어 비교 뷰어에서 표시
+ */
+import { compositeOverBackground, hasTransparentPixels } from "./alphaMetrics";
+import type { ImageData } from "./qualityMetrics";
+import { resizeImageData } from "./resample";
+import { computeSSIMMap, type SSIMMap } from "./ssim";
+
+export interface DiffHeatmap {
+  image: ImageData;
+  maxDiff: number; // 픽셀별 최대 채널 차이의 최댓값 (0-255)
+  changedRatio: number; // 차이가 있는 픽셀 비율 (0~1)
+}
+
+// 검정(차이 없음) → 파랑 → 청록 → 노랑 → 빨강(최대 차이)
+const HEAT_STOPS: [number, number, number][] = [
+  [0, 0, 0],
+  [0, 0, 255],
+  [0, 255, 255],
+  [255, 255, 0],
+  [255, 0, 0],
+];
+
+/**
+ * 변환본을 원본 해상도에 맞춤 (축소 출력은 지표 계산과 같은 방식으로 확대)
+ */
+export function matchOriginalSize(original: ImageData, converted: ImageData): ImageData {
+  return resizeImageData(converted, original.width, original.height);
+}
+
+/**
+ * 픽셀별 최대 채널(RGBA) 차이 히트맵
+ * gain배 증폭해 작은 손실도 보이게 함 (기본값 4: 차이 64 이상이면 최대 색)
+ */
+export function computeDiffHeatmap(
+  original: ImageData,
+  converted: ImageData,
+  gain = 4
+): DiffHeatmap {
+  const target = matchOriginalSize(original, converted);
+  const { width, height } = original;
+  const data = new Uint8ClampedArray(width * height * 4);
+  let maxDiff = 0;
+  let changed = 0;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const diff = Math.max(
+      Math.abs(original.data[i] - target.data[i]),
+      Math.abs(original.data[i + 1] - target.data[i + 1]),
+      Math.abs(original.data[i + 2] - target.data[i + 2]),
+      Math.abs(original.data[i + 3] - target.data[i + 3])
+    );
+    if (diff > 0) changed++;
+    maxDiff = Math.max(maxDiff, diff);
+
+    data.set(heatColor(Math.min(1, (diff * gain) / 255)), i);
+    data[i + 3] = 255;
+  }
+
+  return {
+    image: { data, width, height },
+    maxDiff,
+    changedRatio: changed / (width * height),
+  };
+}
+
+/**
+ * 지표 엔진과 같은 조건(휘도, 투명 영역은 체커보드 합성)의 지역 SSIM 맵
+ */
+export function computeFrameSSIMMap(original: ImageData, converted: ImageData): SSIMMap {
+  const target = matchOriginalSize(original, converted);
+
+  if (!hasTransparentPixels(original) && !hasTransparentPixels(target)) {
+    return computeSSIMMap(original, target);
+  }
+  return computeSSIMMap(
+    compositeOverBackground(original, "checkerboard"),
+    compositeOverBackground(target, "checkerboard")
+  );
+}
+
+/**
+ * SSIM 맵을 오버레이 이미지로 변환
+ * 손실이 클수록(1 - SSIM) 진하고 붉게, 손실이 없는 영역은 투명
+ */
+export function renderSSIMMap(map: SSIMMap): ImageData {
+  const data = new Uint8ClampedArray(map.width * map.height * 4);
+
+  for (let i = 0; i < map.values.length; i++) {
+    // SSIM 0.5 이하는 최대 강도로 표시
+    const loss = Math.min(1, Math.max(0, (1 - map.values[i]) * 2));
+    data.set(heatColor(loss), i * 4);
+    data[i * 4 + 3] = Math.round(Math.sqrt(loss) * 255);
+  }
+
+  return { data, width: map.width, height: map.height };
+}
+
+/**
+ * 0~1 값을 히트맵 색으로 변환 (구간별 선형 보간)
+ */
+export function heatColor(t: number): [number, number, number] {
+  const position = Math.min(1, Math.max(0, t)) * (HEAT_STOPS.length - 1);
+  const index = Math.min(HEAT_STOPS.length - 2, Math.floor(position));
+  const fraction = position - index;
+  const [from, to] = [HEAT_STOPS[index], HEAT_STOPS[index + 1]];
+
+  return [
+    Math.round(from[0] + (to[0] - from[0]) * fraction),
+    Math.round(from[1] + (to[1] - from[1]) * fraction),
+    Math.round(from[2] + (to[2] - from[2]) * fraction),
+  ];
+}
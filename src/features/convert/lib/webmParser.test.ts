@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { parseWebm } from './webmParser';
+import { buildWebm } from '../../../test/webmFixture';
+
+describe('WebM Parser', () => {
+  const tracks = [
+    { number: 1, type: 2 }, // 오디오 트랙은 무시
+    { number: 2, type: 1, width: 320, height: 240 },
+  ];
+
+  it('should derive frame durations from block timestamps across clusters', () => {
+    const webm = parseWebm(
+      buildWebm({
+        duration: 500,
+        tracks,
+        clusters: [
+          { timecode: 0, blocks: [{ track: 2, relative: 0 }, { track: 1, relative: 10 }, { track: 2, relative: 40 }] },
+          { timecode: 100, blocks: [{ track: 2, relative: 0, group: true }, { track: 2, relative: 300 }] },
+        ],
+      })
+    );
+
+    expect(webm.width).toBe(320);
+    expect(webm.height).toBe(240);
+    expect(webm.hasAlpha).toBe(false);
+    // 마지막 프레임은 세그먼트 길이(500ms)까지
+    expect(webm.frameDurations).toEqual([40, 60, 300, 100]);
+  });
+
+  it('should apply the timecode scale and prefer the default duration for the last frame', () => {
+    const webm = parseWebm(
+      buildWebm({
+        timecodeScale: 100_000, // 0.1ms 단위
+        tracks: [{ number: 1, type: 1, width: 2, height: 2, alphaMode: 1, defaultDuration: 50_000_000 }],
+        clusters: [{ timecode: 0, blocks: [{ track: 1, relative: 0 }, { track: 1, relative: 500 }] }],
+      })
+    );
+
+    expect(webm.hasAlpha).toBe(true);
+    expect(webm.frameDurations).toEqual([50, 50]);
+  });
+
+  it('should handle unknown-size segments and clusters', () => {
+    const webm = parseWebm(
+      buildWebm({
+        unknownSize: true,
+        tracks: [{ number: 1, type: 1, width: 16, height: 16 }],
+        clusters: [
+          { timecode: 0, blocks: [{ track: 1, relative: 0 }, { track: 1, relative: 33 }] },
+          { timecode: 66, blocks: [{ track: 1, relative: 0 }] },
+        ],
+      })
+    );
+
+    expect(webm.frameDurations).toEqual([33, 33, 33]);
+  });
+
+  it('should reject files without a video track or EBML header', () => {
+    expect(() => parseWebm(buildWebm({ tracks: [{ number: 1, type: 2 }], clusters: [] }))).toThrow(
+      'WebM에 비디오 트랙이 없습니다'
+    );
+    expect(() => parseWebm(new Uint8Array(16))).toThrow('Not a valid WebM file');
+  });
+});
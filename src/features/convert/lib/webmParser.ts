@@ -0,0 +1,232 @@
+/**
+ * WebM(Matroska) 컨테이너 파서
+ * EBML 요소를 직접 읽어 비디오 트랙 해상도/알파 여부와 블록 타임스탬프로 프레임 타이밍을 추출
+ * (프레임 디코딩은 하지 않음)
+ */
+
+export interface WebmContainer {
+  width: number;
+  height: number;
+  hasAlpha: boolean; // VP9 알파 (Video.AlphaMode = 1)
+  frameDurations: number[]; // 프레임별 표시 시간 (ms, 표시 순서)
+}
+
+// EBML 요소 ID (길이 표시 비트 포함)
+const EBML_HEADER = 0x1a45dfa3;
+const SEGMENT = 0x18538067;
+const INFO = 0x1549a966;
+const TIMECODE_SCALE = 0x2ad7b1;
+const DURATION = 0x4489;
+const TRACKS = 0x1654ae6b;
+const TRACK_ENTRY = 0xae;
+const TRACK_NUMBER = 0xd7;
+const TRACK_TYPE = 0x83;
+const DEFAULT_DURATION = 0x23e383;
+const VIDEO = 0xe0;
+const PIXEL_WIDTH = 0xb0;
+const PIXEL_HEIGHT = 0xba;
+const ALPHA_MODE = 0x53c0;
+const CLUSTER = 0x1f43b675;
+const CLUSTER_TIMECODE = 0xe7;
+const SIMPLE_BLOCK = 0xa3;
+const BLOCK_GROUP = 0xa0;
+const BLOCK = 0xa1;
+
+// 하위 요소를 이어서 읽는 컨테이너 요소 (크기 미지정 요소도 내부로 진입)
+const MASTER_ELEMENTS = new Set([
+  SEGMENT,
+  INFO,
+  TRACKS,
+  TRACK_ENTRY,
+  VIDEO,
+  CLUSTER,
+  BLOCK_GROUP,
+]);
+
+const VIDEO_TRACK_TYPE = 1;
+const DEFAULT_TIMECODE_SCALE = 1_000_000; // ns
+const DEFAULT_DELAY_MS = 100;
+
+interface WebmTrack {
+  number: number;
+  type: number;
+  width: number;
+  height: number;
+  alphaMode: number;
+  defaultDuration: number | null; // ns
+}
+
+/**
+ * WebM 바이트 배열을 파싱하여 비디오 트랙 정보 반환
+ * 요소 계층을 순서대로 평탄하게 훑으며 최근 TrackEntry/Cluster 문맥에 값을 적용
+ * (라이브 녹화처럼 크기가 지정되지 않은 Segment/Cluster도 처리)
+ */
+export function parseWebm(data: Uint8Array): WebmContainer {
+  if (data.length < 4 || readId(data, 0)?.value !== EBML_HEADER) {
+    throw new Error("Not a valid WebM file");
+  }
+
+  let timecodeScale = DEFAULT_TIMECODE_SCALE;
+  let segmentDuration: number | null = null; // TimecodeScale 단위
+  let clusterTimecode = 0;
+  let track: WebmTrack | null = null;
+  const tracks: WebmTrack[] = [];
+  const blocks: { track: number; timecode: number }[] = [];
+
+  let offset = 0;
+  while (offset < data.length) {
+    const id = readId(data, offset);
+    const size = id && readSize(data, offset + id.length);
+    if (!id || !size) break;
+
+    const start = offset + id.length + size.length;
+    const end = size.value === null ? data.length : Math.min(data.length, start + size.value);
+
+    if (MASTER_ELEMENTS.has(id.value)) {
+      if (id.value === TRACK_ENTRY) {
+        track = {
+          number: 0,
+          type: 0,
+          width: 0,
+          height: 0,
+          alphaMode: 0,
+          defaultDuration: null,
+        };
+        tracks.push(track);
+      }
+      offset = start;
+      continue;
+    }
+    if (size.value === null) break; // 크기 미지정 데이터 요소는 해석 불가
+
+    switch (id.value) {
+      case TIMECODE_SCALE:
+        timecodeScale = readUint(data, start, end) || DEFAULT_TIMECODE_SCALE;
+        break;
+      case DURATION:
+        segmentDuration = readFloat(data, start, end);
+        break;
+      case TRACK_NUMBER:
+        if (track) track.number = readUint(data, start, end);
+        break;
+      case TRACK_TYPE:
+        if (track) track.type = readUint(data, start, end);
+        break;
+      case DEFAULT_DURATION:
+        if (track) track.defaultDuration = readUint(data, start, end);
+        break;
+      case PIXEL_WIDTH:
+        if (track) track.width = readUint(data, start, end);
+        break;
+      case PIXEL_HEIGHT:
+        if (track) track.height = readUint(data, start, end);
+        break;
+      case ALPHA_MODE:
+        if (track) track.alphaMode = readUint(data, start, end);
+        break;
+      case CLUSTER_TIMECODE:
+        clusterTimecode = readUint(data, start, end);
+        break;
+      case SIMPLE_BLOCK:
+      case BLOCK: {
+        // 블록: 트랙 번호(vint) + 클러스터 기준 상대 타임코드(int16) + 플래그
+        const trackNumber = readSize(data, start);
+        const timecodeOffset = start + (trackNumber?.length ?? 0);
+        if (trackNumber?.value != null && timecodeOffset + 2 <= end) {
+          const raw = (data[timecodeOffset] << 8) | data[timecodeOffset + 1];
+          const relative = (raw << 16) >> 16; // 부호 확장
+          blocks.push({ track: trackNumber.value, timecode: clusterTimecode + relative });
+        }
+        break;
+      }
+    }
+
+    offset = end;
+  }
+
+  const video = tracks.find((t) => t.type === VIDEO_TRACK_TYPE);
+  if (!video) {
+    throw new Error("WebM에 비디오 트랙이 없습니다");
+  }
+
+  // B-프레임이 없어도 표시 순서를 보장하기 위해 정렬
+  const timecodes = blocks
+    .filter((block) => block.track === video.number)
+    .map((block) => block.timecode)
+    .sort((a, b) => a - b);
+  const toMs = (timecode: number) => (timecode * timecodeScale) / 1_000_000;
+
+  const frameDurations = timecodes.slice(1).map((timecode, i) => toMs(timecode - timecodes[i]));
+  if (timecodes.length > 0) {
+    // 마지막 프레임: 트랙 기본 길이 → 세그먼트 전체 길이 → 직전 프레임 길이 순으로 추정
+    const last = timecodes[timecodes.length - 1];
+    const remaining = segmentDuration !== null ? toMs(segmentDuration - last) : 0;
+    frameDurations.push(
+      video.defaultDuration !== null
+        ? video.defaultDuration / 1_000_000
+        : remaining > 0
+          ? remaining
+          : (frameDurations[frameDurations.length - 1] ?? DEFAULT_DELAY_MS)
+    );
+  }
+
+  return {
+    width: video.width,
+    height: video.height,
+    hasAlpha: video.alphaMode === 1,
+    frameDurations,
+  };
+}
+
+/**
+ * 요소 ID (길이 표시 비트를 유지한 1~4바이트 값)
+ */
+function readId(
+  data: Uint8Array,
+  offset: number
+): { value: number; length: number } | null {
+  const first = data[offset];
+  if (first === undefined || first === 0) return null;
+
+  const length = Math.clz32(first) - 23; // 첫 번째 1비트 위치 = 길이
+  if (length > 4 || offset + length > data.length) return null;
+
+  let value = 0;
+  for (let i = 0; i < length; i++) value = value * 256 + data[offset + i];
+  return { value, length };
+}
+
+/**
+ * 가변 길이 정수 (길이 표시 비트 제거, 모든 비트가 1이면 크기 미지정 = null)
+ */
+function readSize(
+  data: Uint8Array,
+  offset: number
+): { value: number | null; length: number } | null {
+  const first = data[offset];
+  if (first === undefined || first === 0) return null;
+
+  const length = Math.clz32(first) - 23;
+  if (offset + length > data.length) return null;
+
+  let value = first & (0xff >> length);
+  let unknown = value === 0xff >> length;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + data[offset + i];
+    unknown &&= data[offset + i] === 0xff;
+  }
+  return { value: unknown ? null : value, length };
+}
+
+function readUint(data: Uint8Array, start: number, end: number): number {
+  let value = 0;
+  for (let i = start; i < end; i++) value = value * 256 + data[i];
+  return value;
+}
+
+function readFloat(data: Uint8Array, start: number, end: number): number | null {
+  const view = new DataView(data.buffer, data.byteOffset + start, end - start);
+  if (end - start === 4) return view.getFloat32(0);
+  if (end - start === 8) return view.getFloat64(0);
+  return null;
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { readWebpFrameDurations, readWebpFrameImages, retimeAnimatedWebp } from './webpAnimation';
+import { parseGif } from './gifParser';
+import { buildGif } from '../../../test/gifFixture';
+import { buildAnimatedWebp } from '../../../test/webpFixture';
+
+describe('Animated WebP Frame Timing', () => {
+  // 마지막 프레임에서 2초 정지하는 GIF
+  const gif = parseGif(
+    buildGif({
+      width: 10,
+      height: 10,
+      frames: [{ delay: 4 }, { delay: 4 }, { delay: 7 }, { delay: 200 }],
+    })
+  );
+  const sourceDelays = gif.frames.map((f) => f.delay);
+
+  it('should read ANMF frame durations', () => {
+    expect(readWebpFrameDurations(buildAnimatedWebp([40, 70, 2000]))).toEqual([40, 70, 2000]);
+  });
+
+  it('should match the per-frame durations of the source GIF', () => {
+    // 고정 FPS로 인코딩되어 타이밍이 균일해진 출력
+    const encoded = buildAnimatedWebp([100, 100, 100, 100]);
+
+    const output = readWebpFrameDurations(retimeAnimatedWebp(encoded, sourceDelays));
+
+    expect(output).toEqual(sourceDelays);
+    expect(output.reduce((a, b) => a + b, 0)).toBe(2150);
+  });
+
+  it('should sum source delays when the encoder merged frames', () => {
+    // 2번째 프레임이 1번째와 동일해 병합되고, 마지막 프레임 길이를 잃은 출력
+    const encoded = buildAnimatedWebp([80, 70, 1]);
+
+    const output = readWebpFrameDurations(retimeAnimatedWebp(encoded, sourceDelays));
+
+    expect(output).toEqual([80, 70, 2000]);
+  });
+
+  it('should apply target delays on top of the source timeline', () => {
+    const encoded = buildAnimatedWebp([40, 40, 70, 2000]);
+
+    const output = readWebpFrameDurations(
+      retimeAnimatedWebp(encoded, sourceDelays, [40, 40, 70, 500])
+    );
+
+    expect(output).toEqual([40, 40, 70, 500]);
+  });
+
+  it('should leave the input untouched', () => {
+    const encoded = buildAnimatedWebp([100, 100, 100, 100]);
+    retimeAnimatedWebp(encoded, sourceDelays);
+    expect(readWebpFrameDurations(encoded)).toEqual([100, 100, 100, 100]);
+  });
+
+  it('should reject non-WebP data', () => {
+    expect(() => readWebpFrameDurations(new Uint8Array(16))).toThrow('Not a valid WebP file');
+  });
+});
+
+describe('Animated WebP Frame Images', () => {
+  it('should split ANMF frames into standalone still WebP files', () => {
+    const frames = readWebpFrameImages(buildAnimatedWebp([40, 70]));
+
+    expect(frames).toHaveLength(2);
+    expect(frames[0]).toMatchObject({ left: 0, top: 0, width: 1, height: 1, blend: 'over', disposal: 'none' });
+
+    // RIFF 헤더 + 원래 VP8L 청크 (패딩 포함)
+    const image = frames[1].image;
+    const text = (offset: number) => String.fromCharCode(...image.subarray(offset, offset + 4));
+    expect([text(0), text(8), text(12)]).toEqual(['RIFF', 'WEBP', 'VP8L']);
+    expect(new DataView(image.buffer).getUint32(4, true)).toBe(image.length - 8);
+  });
+});
@@ -0,0 +1,316 @@
+/**
+ * 애니메이션 WebP 컨테이너 유틸리티
+ * RIFF 청크를 직접 읽어 ANMF 프레임 표시 시간을 조회/수정하고,
+ * 프레임 비트스트림을 정지 WebP로 분리 (애니메이션을 읽지 못하는 디코더용)
+ */
+
+export interface WebpAnimationFrame {
+  durationOffset: number; // ANMF 페이로드 내 duration 필드의 절대 위치
+  duration: number; // ms
+}
+
+export interface WebpCanvas {
+  width: number;
+  height: number;
+  hasAlpha: boolean;
+  loopCount: number; // ANIM 반복 횟수 (0=무한)
+}
+
+export interface WebpFrameImage {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  blend: "source" | "over"; // over: 이전 캔버스 위에 알파 합성
+  disposal: "none" | "background"; // background: 다음 프레임 전에 영역을 투명으로 지움
+  image: Uint8Array; // 프레임 비트스트림만 담은 정지 WebP
+}
+
+const MAX_DURATION = 0xffffff; // ANMF duration은 24비트
+
+/**
+ * 애니메이션 WebP의 ANMF 프레임 목록 추출
+ * 정지 WebP(VP8/VP8L 단일 프레임)이면 빈 배열 반환
+ */
+export function readWebpAnimationFrames(
+  data: Uint8Array
+): WebpAnimationFrame[] {
+  if (
+    data.length < 12 ||
+    readFourCC(data, 0) !== "RIFF" ||
+    readFourCC(data, 8) !== "WEBP"
+  ) {
+    throw new Error("Not a valid WebP file");
+  }
+
+  const frames: WebpAnimationFrame[] = [];
+  let offset = 12;
+
+  while (offset + 8 <= data.length) {
+    const fourCC = readFourCC(data, offset);
+    const size = readUint32(data, offset + 4);
+
+    if (fourCC === "ANMF" && offset + 24 <= data.length) {
+      const durationOffset = offset + 8 + 12;
+      frames.push({
+        durationOffset,
+        duration: readUint24(data, durationOffset),
+      });
+    }
+
+    // 청크는 짝수 바이트로 패딩됨
+    offset += 8 + size + (size & 1);
+  }
+
+  return frames;
+}
+
+/**
+ * WebP 캔버스 크기/알파/반복 횟수
+ * 확장 형식(VP8X)은 헤더에서, 단순 형식(VP8/VP8L)은 비트스트림 헤더에서 읽음
+ */
+export function readWebpCanvas(data: Uint8Array): WebpCanvas {
+  readWebpAnimationFrames(data); // RIFF/WEBP 시그니처 검증
+
+  const fourCC = readFourCC(data, 12);
+  const payload = 20;
+
+  if (fourCC === "VP8X") {
+    // VP8X: flags(1) + reserved(3) + canvas width-1(3) + canvas height-1(3)
+    let loopCount = 0;
+    let offset = payload + readUint32(data, 16);
+    while (offset + 8 <= data.length) {
+      const size = readUint32(data, offset + 4);
+      if (readFourCC(data, offset) === "ANIM" && offset + 14 <= data.length) {
+        // ANIM: background color(4) + loop count(2)
+        loopCount = data[offset + 12] | (data[offset + 13] << 8);
+        break;
+      }
+      offset += 8 + size + (size & 1);
+    }
+
+    return {
+      width: readUint24(data, payload + 4) + 1,
+      height: readUint24(data, payload + 7) + 1,
+      hasAlpha: (data[payload] & 0x10) !== 0,
+      loopCount,
+    };
+  }
+
+  if (fourCC === "VP8L") {
+    // VP8L: signature(1) + width-1(14비트) + height-1(14비트) + alpha(1비트)
+    const bits = readUint32(data, payload + 1);
+    return {
+      width: (bits & 0x3fff) + 1,
+      height: ((bits >>> 14) & 0x3fff) + 1,
+      hasAlpha: ((bits >>> 28) & 1) === 1,
+      loopCount: 0,
+    };
+  }
+
+  // VP8: frame tag(3) + start code(3) + width(14비트) + height(14비트)
+  return {
+    width: (data[payload + 6] | (data[payload + 7] << 8)) & 0x3fff,
+    height: (data[payload + 8] | (data[payload + 9] << 8)) & 0x3fff,
+    hasAlpha: false,
+    loopCount: 0,
+  };
+}
+
+/**
+ * ANMF 프레임마다 위치/합성 방식과 단독으로 디코딩 가능한 정지 WebP를 추출
+ * 알파(ALPH)가 있는 손실 프레임은 VP8X 헤더를 붙여 알파까지 유지
+ */
+export function readWebpFrameImages(data: Uint8Array): WebpFrameImage[] {
+  return readWebpAnimationFrames(data).map(({ durationOffset }) => {
+    // ANMF 페이로드: x/2(3) y/2(3) width-1(3) height-1(3) duration(3) flags(1) + 프레임 청크
+    const payload = durationOffset - 12;
+    const size = readUint32(data, payload - 4);
+    const width = readUint24(data, payload + 6) + 1;
+    const height = readUint24(data, payload + 9) + 1;
+    const flags = data[payload + 15];
+
+    const chunks: Uint8Array[] = [];
+    let hasAlpha = false;
+    let offset = payload + 16;
+    while (offset + 8 <= payload + size) {
+      const fourCC = readFourCC(data, offset);
+      const chunkSize = readUint32(data, offset + 4);
+      const end = Math.min(data.length, offset + 8 + chunkSize + (chunkSize & 1));
+      if (fourCC === "ALPH" || fourCC === "VP8 " || fourCC === "VP8L") {
+        chunks.push(data.subarray(offset, end));
+        hasAlpha ||= fourCC === "ALPH";
+      }
+      offset = end;
+    }
+
+    if (hasAlpha) {
+      // VP8X: alpha 플래그 + 캔버스 크기
+      const header = new Uint8Array(18);
+      header.set([0x56, 0x50, 0x38, 0x58, 10, 0, 0, 0, 0x10]);
+      writeUint24(header, 12, width - 1);
+      writeUint24(header, 15, height - 1);
+      chunks.unshift(header);
+    }
+
+    const bodySize = 4 + chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    const image = new Uint8Array(8 + bodySize);
+    image.set([0x52, 0x49, 0x46, 0x46]); // RIFF
+    writeUint32(image, 4, bodySize);
+    image.set([0x57, 0x45, 0x42, 0x50], 8); // WEBP
+    let position = 12;
+    for (const chunk of chunks) {
+      image.set(chunk, position);
+      position += chunk.length;
+    }
+
+    return {
+      left: readUint24(data, payload) * 2,
+      top: readUint24(data, payload + 3) * 2,
+      width,
+      height,
+      blend: flags & 0x02 ? "source" : "over",
+      disposal: flags & 0x01 ? "background" : "none",
+      image,
+    };
+  });
+}
+
+/**
+ * 애니메이션 WebP의 프레임별 표시 시간 (ms)
+ */
+export function readWebpFrameDurations(data: Uint8Array): number[] {
+  return readWebpAnimationFrames(data).map((frame) => frame.duration);
+}
+
+/**
+ * 인코딩된 WebP의 ANMF 표시 시간을 원본 프레임 지연으로 재설정
+ * 인코더가 프레임을 병합/제거한 경우 각 출력 프레임 시작 시각을 원본 타임라인에 맞춰
+ * 대응하는 원본 프레임 구간의 지연 합계를 부여 (전체 재생 시간 보존)
+ *
+ * @param sourceDelays 인코더에 입력된 원본 프레임 지연 (ms)
+ * @param targetDelays 출력에 적용할 프레임 지연 (기본값: sourceDelays)
+ */
+export function retimeAnimatedWebp(
+  data: Uint8Array,
+  sourceDelays: number[],
+  targetDelays: number[] = sourceDelays
+): Uint8Array {
+  const frames = readWebpAnimationFrames(data);
+  if (frames.length === 0 || sourceDelays.length === 0) return data;
+
+  const sourceIndices = mapFramesToSource(
+    frames.map((frame) => frame.duration),
+    sourceDelays
+  );
+
+  const output = data.slice();
+  for (let i = 0; i < frames.length; i++) {
+    const start = sourceIndices[i];
+    const end = i + 1 < frames.length ? sourceIndices[i + 1] : sourceDelays.length;
+
+    let duration = 0;
+    for (let k = start; k < end; k++) {
+      duration += targetDelays[k] ?? 0;
+    }
+
+    writeUint24(
+      output,
+      frames[i].durationOffset,
+      Math.min(Math.round(duration), MAX_DURATION)
+    );
+  }
+
+  return output;
+}
+
+/**
+ * 출력 프레임을 원본 프레임 인덱스에 대응
+ * 프레임 수가 같으면 1:1, 다르면 시작 시각이 가장 가까운 원본 프레임 (단조 증가 보장)
+ */
+function mapFramesToSource(
+  outputDurations: number[],
+  sourceDelays: number[]
+): number[] {
+  if (outputDurations.length === sourceDelays.length) {
+    return outputDurations.map((_, i) => i);
+  }
+
+  const sourceStarts: number[] = [];
+  let time = 0;
+  for (const delay of sourceDelays) {
+    sourceStarts.push(time);
+    time += delay;
+  }
+
+  const indices: number[] = [];
+  let outputStart = 0;
+  for (let i = 0; i < outputDurations.length; i++) {
+    const remaining = outputDurations.length - i;
+    const minIndex = i === 0 ? 0 : indices[i - 1] + 1;
+    const maxIndex = sourceDelays.length - remaining;
+
+    const nearest = i === 0 ? 0 : findNearestIndex(sourceStarts, outputStart);
+    indices.push(Math.min(Math.max(nearest, minIndex), Math.max(maxIndex, minIndex)));
+
+    outputStart += outputDurations[i];
+  }
+
+  return indices;
+}
+
+function findNearestIndex(sortedValues: number[], target: number): number {
+  let low = 0;
+  let high = sortedValues.length - 1;
+
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (sortedValues[mid] < target) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  if (
+    low > 0 &&
+    Math.abs(sortedValues[low - 1] - target) <= Math.abs(sortedValues[low] - target)
+  ) {
+    return low - 1;
+  }
+  return low;
+}
+
+function readFourCC(data: Uint8Array, offset: number): string {
+  return String.fromCharCode(
+    data[offset],
+    data[offset + 1],
+    data[offset + 2],
+    data[offset + 3]
+  );
+}
+
+function readUint24(data: Uint8Array, offset: number): number {
+  return data[offset] | (data[offset + 1] << 8) | (data[offset + 2] << 16);
+}
+
+function readUint32(data: Uint8Array, offset: number): number {
+  return (
+    (data[offset] |
+      (data[offset + 1] << 8) |
+      (data[offset + 2] << 16) |
+      (data[offset + 3] << 24)) >>>
+    0
+  );
+}
+
+function writeUint24(data: Uint8Array, offset: number, value: number) {
+  data[offset] = value & 0xff;
+  data[offset + 1] = (value >> 8) & 0xff;
+  data[offset + 2] = (value >> 16) & 0xff;
+}
+
+function writeUint32(data: Uint8Array, offset: number, value: number) {
+  writeUint24(data, offset, value);
+  data[offset + 3] = (value >>> 24) & 0xff;
+}
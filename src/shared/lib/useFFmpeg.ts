@@ -1,4 +1,4 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { FFmpeg } from "@ffmpeg/ffmpeg";
 import { loadingMessages } from "../constants/loadingMessages";
 
@@ -7,28 +7,71 @@ export function useFFmpeg() {
   const [ready, setReady] = useState(false);
   const [progress, setProgress] = useState(0);
   const [loadingMessage, setLoadingMessage] = useState("");
+  const ffmpegRef = useRef<FFmpeg | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const load = useCallback(async () => {
+    const ff = new FFmpeg();
+    ff.on("progress", ({ progress }) => {
+      const percent = Math.round(progress * 100);
+      setProgress(percent);
+      const step = Math.floor(percent / (100 / loadingMessages.length));
+      if (step >= 0 && step < loadingMessages.length) {
+        setLoadingMessage(loadingMessages[step]);
+      }
+    });
+    ffmpegRef.current = ff;
+    await ff.load();
+    // 로드 중에 다시 취소/재시작된 경우 이전 인스턴스는 반영하지 않음
+    if (ffmpegRef.current !== ff) return;
+    setFfmpeg(ff);
+    setReady(true);
+  }, []);
 
   useEffect(() => {
-    (async () => {
-      const ff = new FFmpeg();
-      ff.on("progress", ({ progress }) => {
-        const percent = Math.round(progress * 100);
-        setProgress(percent);
-        const step = Math.floor(percent / (100 / loadingMessages.length));
-        if (step >= 0 && step < loadingMessages.length) {
-          setLoadingMessage(loadingMessages[step]);
-        }
-      });
-      await ff.load();
-      setFfmpeg(ff);
-      setReady(true);
-    })().catch(console.error);
+    load().catch(console.error);
+  }, [load]);
+
+  /**
+   * 새 변환 작업용 AbortSignal 발급 (이전 작업이 남아 있으면 취소)
+   */
+  const createAbortSignal = useCallback(() => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    return controller.signal;
   }, []);
 
+  /**
+   * 진행 중인 변환 취소
+   * 실행 중인 ffmpeg.exec는 중단할 수 없으므로 인스턴스를 종료하고 새로 로드
+   */
+  const cancel = useCallback(() => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+
+    ffmpegRef.current?.terminate();
+    ffmpegRef.current = null;
+    setFfmpeg(null);
+    setReady(false);
+
+    load().catch(console.error);
+  }, [load]);
+
   const resetProgress = () => {
     setProgress(0);
     setLoadingMessage("");
   };
 
-  return { ffmpeg, ready, progress, loadingMessage, setProgress, setLoadingMessage, resetProgress } as const;
+  return {
+    ffmpeg,
+    ready,
+    progress,
+    loadingMessage,
+    setProgress,
+    setLoadingMessage,
+    resetProgress,
+    createAbortSignal,
+    cancel,
+  } as const;
 }
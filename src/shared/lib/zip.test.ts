@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { crc32, createZip } from './zip';
+
+const encoder = new TextEncoder();
+
+async function readZip(blob: Blob) {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const decoder = new TextDecoder();
+
+  const endOffset = bytes.length - 22;
+  expect(view.getUint32(endOffset, true)).toBe(0x06054b50);
+
+  const count = view.getUint16(endOffset + 10, true);
+  let cursor = view.getUint32(endOffset + 16, true);
+  const files: { name: string; data: Uint8Array; crc: number; flags: number }[] = [];
+
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(cursor, true)).toBe(0x02014b50);
+    const crc = view.getUint32(cursor + 16, true);
+    const size = view.getUint32(cursor + 20, true);
+    const nameLength = view.getUint16(cursor + 28, true);
+    const localOffset = view.getUint32(cursor + 42, true);
+    const name = decoder.decode(bytes.subarray(cursor + 46, cursor + 46 + nameLength));
+
+    expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+    const localNameLength = view.getUint16(localOffset + 26, true);
+    const dataStart = localOffset + 30 + localNameLength;
+
+    files.push({
+      name,
+      crc,
+      flags: view.getUint16(localOffset + 6, true),
+      data: bytes.slice(dataStart, dataStart + size),
+    });
+    cursor += 46 + nameLength;
+  }
+
+  return files;
+}
+
+describe('ZIP Writer', () => {
+  it('should compute the standard CRC-32 check value', () => {
+    expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array(0))).toBe(0);
+  });
+
+  it('should store entries that can be read back', async () => {
+    const webp = new Uint8Array([0x52, 0x49, 0x46, 0x46, 1, 2, 3, 4]);
+    const manifest = encoder.encode('{"files":[]}');
+
+    const files = await readZip(
+      createZip([
+        { name: '바나나.webp', data: webp },
+        { name: 'manifest.json', data: manifest },
+      ])
+    );
+
+    expect(files.map((f) => f.name)).toEqual(['바나나.webp', 'manifest.json']);
+    expect(Array.from(files[0].data)).toEqual(Array.from(webp));
+    expect(files[0].crc).toBe(crc32(webp));
+    expect(files[0].flags & 0x0800).toBe(0x0800);
+    expect(new TextDecoder().decode(files[1].data)).toBe('{"files":[]}');
+  });
+
+  it('should produce a valid empty archive', async () => {
+    const blob = createZip([]);
+    expect(blob.size).toBe(22);
+    expect(await readZip(blob)).toEqual([]);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * 브라우저용 ZIP 생성기 (무압축 STORE 방식)
+ * WebP는 이미 압축된 포맷이라 DEFLATE 이득이 거의 없으므로 저장만 수행
+ * 파일명은 UTF-8 플래그(bit 11)로 기록해 한글 이름도 그대로 유지
+ */
+
+export interface ZipEntry {
+  name: string; // 아카이브 내부 경로 ("/" 구분)
+  data: Uint8Array;
+  lastModified?: Date;
+}
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const UTF8_FLAG = 0x0800;
+const VERSION = 20; // 2.0: 기본 기능만 사용
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * CRC-32 (IEEE 802.3)
+ */
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * ZIP 아카이브 생성
+ */
+export function createZip(entries: ZipEntry[]): Blob {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array<ArrayBuffer>[] = [];
+  const centralDirectory: Uint8Array<ArrayBuffer>[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const size = entry.data.length;
+    const { time, date } = toDosDateTime(entry.lastModified ?? new Date());
+
+    // 로컬 파일 헤더 (30바이트 + 파일명)
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, LOCAL_FILE_HEADER, true);
+    lv.setUint16(4, VERSION, true);
+    lv.setUint16(6, UTF8_FLAG, true);
+    lv.setUint16(8, 0, true); // STORE
+    lv.setUint16(10, time, true);
+    lv.setUint16(12, date, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, size, true);
+    lv.setUint32(22, size, true);
+    lv.setUint16(26, name.length, true);
+    lv.setUint16(28, 0, true);
+    local.set(name, 30);
+
+    // 중앙 디렉터리 항목 (46바이트 + 파일명)
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, CENTRAL_DIRECTORY_HEADER, true);
+    cv.setUint16(4, VERSION, true);
+    cv.setUint16(6, VERSION, true);
+    cv.setUint16(8, UTF8_FLAG, true);
+    cv.setUint16(10, 0, true);
+    cv.setUint16(12, time, true);
+    cv.setUint16(14, date, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, size, true);
+    cv.setUint32(24, size, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    parts.push(local, new Uint8Array(entry.data));
+    centralDirectory.push(central);
+    offset += local.length + size;
+  }
+
+  const directorySize = centralDirectory.reduce((sum, c) => sum + c.length, 0);
+
+  // 중앙 디렉터리 끝 레코드 (22바이트)
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  ev.setUint16(8, entries.length, true);
+  ev.setUint16(10, entries.length, true);
+  ev.setUint32(12, directorySize, true);
+  ev.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralDirectory, end], {
+    type: "application/zip",
+  });
+}
+
+/**
+ * MS-DOS 날짜/시간 (2초 단위, 1980년 이후)
+ */
+function toDosDateTime(value: Date): { time: number; date: number } {
+  const year = Math.max(1980, value.getFullYear());
+  return {
+    time:
+      (value.getHours() << 11) |
+      (value.getMinutes() << 5) |
+      Math.floor(value.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate(),
+  };
+}
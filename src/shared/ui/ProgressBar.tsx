@@ -1,22 +1,51 @@
-export function ProgressBar({ progress, theme, message }: { progress: number; theme: string; message?: string }) {
+export function ProgressBar({
+  progress,
+  theme,
+  message,
+  onCancel,
+}: {
+  progress: number;
+  theme: string;
+  message?: string;
+  onCancel?: () => void;
+}) {
   return (
     <div style={{ textAlign: "center", width: "100%", maxWidth: 420, marginTop: 12 }}>
-      <div
-        style={{
-          height: 8,
-          background: "#eee",
-          borderRadius: 8,
-          overflow: "hidden",
-        }}
-      >
+      <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
         <div
           style={{
-            width: `${progress}%`,
-            height: "100%",
-            background: theme,
-            transition: "width 0.2s ease",
+            flex: 1,
+            height: 8,
+            background: "#eee",
+            borderRadius: 8,
+            overflow: "hidden",
           }}
-        />
+        >
+          <div
+            style={{
+              width: `${progress}%`,
+              height: "100%",
+              background: theme,
+              transition: "width 0.2s ease",
+            }}
+          />
+        </div>
+        {onCancel ? (
+          <button
+            onClick={onCancel}
+            style={{
+              padding: "4px 12px",
+              borderRadius: 6,
+              border: "1px solid #ccc",
+              background: "#fff",
+              color: "#555",
+              fontSize: 12,
+              cursor: "pointer",
+            }}
+          >
+            취소
+          </button>
+        ) : null}
       </div>
       <p style={{ fontSize: 12, color: "#555", marginTop: 6 }}>{progress}% 완료</p>
       {message ? (
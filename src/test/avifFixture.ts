@@ -0,0 +1,32 @@
+// 테스트용 최소 AVIF 시퀀스/MP4 바이트 생성기 (moov/stts 구조만 정확하고 샘플 데이터는 없음)
+
+export interface AvifFixtureTrack {
+  handler: string; // "pict" (색상) 또는 "auxv" (알파)
+  timescale: number;
+  sttsEntries: [sampleCount: number, sampleDelta: number][];
+  mdhdVersion?: 0 | 1;
+  size?: [width: number, height: number]; // 지정 시 tkhd 기록
+}
+
+export function buildAvifSequence(tracks: AvifFixtureTrack[], brand = 'avis'): Uint8Array {
+  const u32 = (value: number) => [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+  const fourCC = (value: string) => Array.from(value, (c) => c.charCodeAt(0));
+  const box = (type: string, payload: number[]) => [...u32(8 + payload.length), ...fourCC(type), ...payload];
+
+  const trak = ({ handler, timescale, sttsEntries, mdhdVersion = 0, size }: AvifFixtureTrack) => {
+    // tkhd v0: 고정 필드 76바이트 뒤에 16.16 고정소수점 width/height
+    const tkhd = size ? box('tkhd', [...new Array(76).fill(0), ...u32(size[0] * 65536), ...u32(size[1] * 65536)]) : [];
+    const mdhd =
+      mdhdVersion === 1
+        ? box('mdhd', [1, 0, 0, 0, ...u32(0), ...u32(0), ...u32(0), ...u32(0), ...u32(timescale), ...u32(0), ...u32(0), 0, 0, 0, 0])
+        : box('mdhd', [0, 0, 0, 0, ...u32(0), ...u32(0), ...u32(timescale), ...u32(0), 0, 0, 0, 0]);
+    const hdlr = box('hdlr', [0, 0, 0, 0, ...u32(0), ...fourCC(handler), ...u32(0), ...u32(0), ...u32(0), 0]);
+    const stts = box('stts', [0, 0, 0, 0, ...u32(sttsEntries.length), ...sttsEntries.flatMap(([count, delta]) => [...u32(count), ...u32(delta)])]);
+    return box('trak', [...tkhd, ...box('mdia', [...mdhd, ...hdlr, ...box('minf', box('stbl', stts))])]);
+  };
+
+  return new Uint8Array([
+    ...box('ftyp', [...fourCC(brand), ...u32(0), ...fourCC('avif'), ...fourCC(brand)]),
+    ...box('moov', tracks.flatMap(trak)),
+  ]);
+}
@@ -0,0 +1,74 @@
+// 테스트용 최소 GIF 바이트 생성기 (블록 구조만 정확하고 이미지 데이터는 고정된 1픽셀 LZW)
+
+export interface GifFixtureFrame {
+  delay: number; // 1/100초
+  disposal?: number; // 0-3
+  transparentIndex?: number;
+  left?: number;
+  top?: number;
+  width?: number;
+  height?: number;
+  localPaletteSize?: number;
+  interlaced?: boolean;
+}
+
+export function buildGif({
+  width,
+  height,
+  frames,
+  globalPaletteSize = 4,
+  loopCount,
+  version = "89a",
+}: {
+  width: number;
+  height: number;
+  frames: GifFixtureFrame[];
+  globalPaletteSize?: number;
+  loopCount?: number;
+  version?: "87a" | "89a";
+}): Uint8Array {
+  const bytes: number[] = [];
+  const push16 = (value: number) => bytes.push(value & 0xff, (value >> 8) & 0xff);
+
+  bytes.push(...Array.from(`GIF${version}`, (c) => c.charCodeAt(0)));
+  push16(width);
+  push16(height);
+  bytes.push(
+    globalPaletteSize > 0 ? 0x80 | (Math.log2(globalPaletteSize) - 1) : 0,
+    0,
+    0
+  );
+  bytes.push(...new Array(globalPaletteSize * 3).fill(0));
+
+  if (loopCount !== undefined) {
+    bytes.push(0x21, 0xff, 11);
+    bytes.push(...Array.from("NETSCAPE2.0", (c) => c.charCodeAt(0)));
+    bytes.push(3, 1);
+    push16(loopCount);
+    bytes.push(0);
+  }
+
+  for (const frame of frames) {
+    const hasTransparency = frame.transparentIndex !== undefined;
+    bytes.push(0x21, 0xf9, 4);
+    bytes.push(((frame.disposal ?? 0) << 2) | (hasTransparency ? 1 : 0));
+    push16(frame.delay);
+    bytes.push(frame.transparentIndex ?? 0, 0);
+
+    const localPaletteSize = frame.localPaletteSize ?? 0;
+    bytes.push(0x2c);
+    push16(frame.left ?? 0);
+    push16(frame.top ?? 0);
+    push16(frame.width ?? width);
+    push16(frame.height ?? height);
+    bytes.push(
+      (localPaletteSize > 0 ? 0x80 | (Math.log2(localPaletteSize) - 1) : 0) |
+        (frame.interlaced ? 0x40 : 0)
+    );
+    bytes.push(...new Array(localPaletteSize * 3).fill(0));
+    bytes.push(2, 2, 0x44, 0x01, 0);
+  }
+
+  bytes.push(0x3b);
+  return new Uint8Array(bytes);
+}
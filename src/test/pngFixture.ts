@@ -0,0 +1,65 @@
+// 테스트용 최소 PNG/APNG 바이트 생성기 (청크 구조만 정확하고 이미지 데이터와 CRC는 더미)
+
+export interface ApngFixtureFrame {
+  delayNum: number;
+  delayDen: number;
+  dispose?: number; // 0-2
+  blend?: number; // 0-1
+}
+
+export function buildPng({
+  width,
+  height,
+  colorType = 6,
+  palette,
+  transparency = false,
+  frames,
+  loopCount = 0,
+  idat = [0x78, 0x9c, 0x03, 0x00],
+}: {
+  width: number;
+  height: number;
+  colorType?: number;
+  palette?: number[];
+  transparency?: boolean;
+  frames?: ApngFixtureFrame[]; // 지정 시 APNG (acTL/fcTL/fdAT)
+  loopCount?: number;
+  idat?: number[];
+}): Uint8Array {
+  const u16 = (value: number) => [(value >>> 8) & 0xff, value & 0xff];
+  const u32 = (value: number) => [(value >>> 24) & 0xff, (value >>> 16) & 0xff, ...u16(value)];
+  const chunk = (type: string, payload: number[]) => [
+    ...u32(payload.length),
+    ...Array.from(type, (c) => c.charCodeAt(0)),
+    ...payload,
+    0, 0, 0, 0,
+  ];
+
+  const bytes = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+  bytes.push(...chunk('IHDR', [...u32(width), ...u32(height), 8, colorType, 0, 0, 0]));
+  if (frames) bytes.push(...chunk('acTL', [...u32(frames.length), ...u32(loopCount)]));
+  if (palette) bytes.push(...chunk('PLTE', palette));
+  if (transparency) bytes.push(...chunk('tRNS', [0]));
+
+  let sequence = 0;
+  const fcTL = ({ delayNum, delayDen, dispose = 0, blend = 0 }: ApngFixtureFrame) =>
+    chunk('fcTL', [
+      ...u32(sequence++),
+      ...u32(width),
+      ...u32(height),
+      ...u32(0),
+      ...u32(0),
+      ...u16(delayNum),
+      ...u16(delayDen),
+      dispose,
+      blend,
+    ]);
+
+  (frames ?? [null]).forEach((frame, i) => {
+    if (frame) bytes.push(...fcTL(frame));
+    bytes.push(...(i === 0 ? chunk('IDAT', idat) : chunk('fdAT', [...u32(sequence++), ...idat])));
+  });
+
+  bytes.push(...chunk('IEND', []));
+  return new Uint8Array(bytes);
+}
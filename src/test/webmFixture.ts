@@ -0,0 +1,97 @@
+// 테스트용 최소 WebM 바이트 생성기 (EBML 요소 구조만 정확하고 프레임 비트스트림은 더미)
+
+export interface WebmFixtureTrack {
+  number: number;
+  type: number; // 1: 비디오, 2: 오디오
+  width?: number;
+  height?: number;
+  alphaMode?: number;
+  defaultDuration?: number; // ns
+}
+
+export interface WebmFixtureCluster {
+  timecode: number;
+  blocks: { track: number; relative: number; group?: boolean }[];
+}
+
+export function buildWebm({
+  timecodeScale,
+  duration,
+  tracks,
+  clusters,
+  unknownSize = false,
+}: {
+  timecodeScale?: number;
+  duration?: number; // TimecodeScale 단위 (float64)
+  tracks: WebmFixtureTrack[];
+  clusters: WebmFixtureCluster[];
+  unknownSize?: boolean; // Segment/Cluster 크기를 미지정으로 기록 (라이브 녹화 형태)
+}): Uint8Array {
+  const id = (value: number) => {
+    const bytes: number[] = [];
+    for (let v = value; v > 0; v = Math.floor(v / 256)) bytes.unshift(v & 0xff);
+    return bytes;
+  };
+  // 크기는 항상 8바이트 vint로 기록
+  const size = (value: number | null) =>
+    value === null
+      ? [0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]
+      : [0x01, 0, 0, 0, (value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+  const element = (elementId: number, payload: number[], unknown = false) => [
+    ...id(elementId),
+    ...size(unknown ? null : payload.length),
+    ...payload,
+  ];
+  const uint = (elementId: number, value: number) => {
+    const bytes = id(value);
+    return element(elementId, bytes.length > 0 ? bytes : [0]);
+  };
+  const float64 = (elementId: number, value: number) => {
+    const view = new DataView(new ArrayBuffer(8));
+    view.setFloat64(0, value);
+    return element(elementId, Array.from(new Uint8Array(view.buffer)));
+  };
+
+  const info = element(0x1549a966, [
+    ...(timecodeScale !== undefined ? uint(0x2ad7b1, timecodeScale) : []),
+    ...(duration !== undefined ? float64(0x4489, duration) : []),
+  ]);
+
+  const trackEntries = tracks.map((track) =>
+    element(0xae, [
+      ...uint(0xd7, track.number),
+      ...uint(0x83, track.type),
+      ...(track.defaultDuration !== undefined ? uint(0x23e383, track.defaultDuration) : []),
+      ...(track.type === 1
+        ? element(0xe0, [
+            ...uint(0xb0, track.width ?? 0),
+            ...uint(0xba, track.height ?? 0),
+            ...(track.alphaMode !== undefined ? uint(0x53c0, track.alphaMode) : []),
+          ])
+        : []),
+    ])
+  );
+
+  const clusterElements = clusters.map((cluster) =>
+    element(
+      0x1f43b675,
+      [
+        ...uint(0xe7, cluster.timecode),
+        ...cluster.blocks.flatMap(({ track, relative, group }) => {
+          const block = [0x80 | track, (relative >> 8) & 0xff, relative & 0xff, 0x80, 0x00];
+          return group ? element(0xa0, element(0xa1, block)) : element(0xa3, block);
+        }),
+      ],
+      unknownSize
+    )
+  );
+
+  return new Uint8Array([
+    ...element(0x1a45dfa3, element(0x4282, Array.from('webm', (c) => c.charCodeAt(0)))),
+    ...element(
+      0x18538067,
+      [...info, ...element(0x1654ae6b, trackEntries.flat()), ...clusterElements.flat()],
+      unknownSize
+    ),
+  ]);
+}
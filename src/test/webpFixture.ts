@@ -0,0 +1,26 @@
+// 테스트용 최소 애니메이션 WebP 바이트 생성기 (ANMF 헤더만 정확하고 프레임 비트스트림은 더미)
+
+export function buildAnimatedWebp(
+  durations: number[],
+  { width = 1, height = 1, alpha = false, loopCount = 0 } = {}
+): Uint8Array {
+  const chunks: number[][] = [];
+  const u24 = (value: number) => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff];
+  const u32 = (value: number) => [...u24(value), (value >> 24) & 0xff];
+  const chunk = (fourCC: string, payload: number[]) => {
+    const bytes = [...Array.from(fourCC, (c) => c.charCodeAt(0)), ...u32(payload.length), ...payload];
+    if (payload.length & 1) bytes.push(0);
+    return bytes;
+  };
+
+  chunks.push(chunk('VP8X', [alpha ? 0x12 : 0x02, 0, 0, 0, ...u24(width - 1), ...u24(height - 1)]));
+  chunks.push(chunk('ANIM', [0, 0, 0, 0, loopCount & 0xff, loopCount >> 8]));
+  for (const duration of durations) {
+    // 홀수 길이 더미 프레임 데이터로 패딩 처리까지 검증
+    const frameData = chunk('VP8L', [0x2f, 0, 0, 0, 0]);
+    chunks.push(chunk('ANMF', [...u24(0), ...u24(0), ...u24(0), ...u24(0), ...u24(duration), 0, ...frameData]));
+  }
+
+  const body = [...Array.from('WEBP', (c) => c.charCodeAt(0)), ...chunks.flat()];
+  return new Uint8Array([...Array.from('RIFF', (c) => c.charCodeAt(0)), ...u32(body.length), ...body]);
+}
@@ -0,0 +1,98 @@
+import { useState, type CSSProperties, type DragEvent } from "react";
+import { collectDroppedFiles } from "../../features/batch/lib/collectFiles";
+import {
+  INPUT_ACCEPT,
+  isSupportedInputFile,
+} from "../../features/convert/lib/inputFormat";
+
+export function BatchDropZone({
+  theme,
+  onFiles,
+  disabled,
+}: {
+  theme: string;
+  onFiles: (files: File[]) => void;
+  disabled?: boolean;
+}) {
+  const [dragging, setDragging] = useState(false);
+
+  const handleDrop = async (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragging(false);
+    if (disabled) return;
+
+    const files = await collectDroppedFiles(e.dataTransfer);
+    if (files.length > 0) onFiles(files);
+  };
+
+  return (
+    <div
+      onDragOver={(e) => {
+        e.preventDefault();
+        if (!disabled) setDragging(true);
+      }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={handleDrop}
+      style={{
+        border: `2px dashed ${dragging ? theme : "#ccc"}`,
+        background: dragging ? `${theme}11` : "#fafafa",
+        borderRadius: 12,
+        padding: "24px 16px",
+        textAlign: "center",
+        color: "#555",
+        fontSize: 14,
+        opacity: disabled ? 0.6 : 1,
+      }}
+    >
+      <p style={{ margin: "0 0 12px" }}>
+        GIF·APNG·WebP·MP4·WebM 파일이나 폴더를 여기로 끌어다 놓으세요
+      </p>
+      <div style={{ display: "flex", gap: 8, justifyContent: "center" }}>
+        <label style={pickerStyle(theme, disabled)}>
+          파일 선택
+          <input
+            type="file"
+            accept={INPUT_ACCEPT}
+            multiple
+            disabled={disabled}
+            onChange={(e) => {
+              const files = Array.from(e.target.files ?? []).filter(isSupportedInputFile);
+              if (files.length > 0) onFiles(files);
+              e.target.value = "";
+            }}
+            style={{ display: "none" }}
+          />
+        </label>
+        <label style={pickerStyle(theme, disabled)}>
+          폴더 선택
+          <input
+            type="file"
+            // 폴더 선택 (비표준 속성이라 JSX 타입에 없음)
+            {...{ webkitdirectory: "" }}
+            multiple
+            disabled={disabled}
+            onChange={(e) => {
+              const files = Array.from(e.target.files ?? []).filter(isSupportedInputFile);
+              if (files.length > 0) onFiles(files);
+              e.target.value = "";
+            }}
+            style={{ display: "none" }}
+          />
+        </label>
+      </div>
+    </div>
+  );
+}
+
+function pickerStyle(theme: string, disabled?: boolean): CSSProperties {
+  return {
+    padding: "8px 16px",
+    borderRadius: 8,
+    border: `1px solid ${theme}`,
+    color: theme,
+    background: "#fff",
+    fontSize: 13,
+    fontWeight: 500,
+    cursor: disabled ? "not-allowed" : "pointer",
+  };
+}
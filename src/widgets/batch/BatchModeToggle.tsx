@@ -0,0 +1,37 @@
+const MODES = [
+  { value: false, label: "단일 변환" },
+  { value: true, label: "일괄 변환" },
+];
+
+// 단일/일괄 변환 모드 전환
+export function BatchModeToggle({
+  theme,
+  batchMode,
+  setBatchMode,
+}: {
+  theme: string;
+  batchMode: boolean;
+  setBatchMode: (v: boolean) => void;
+}) {
+  return (
+    <div style={{ display: "flex", gap: 8, marginBottom: 16 }}>
+      {MODES.map(({ value, label }) => (
+        <button
+          key={label}
+          onClick={() => setBatchMode(value)}
+          style={{
+            padding: "8px 20px",
+            borderRadius: 20,
+            border: `1px solid ${theme}`,
+            background: batchMode === value ? theme : "#fff",
+            color: batchMode === value ? "#fff" : theme,
+            fontWeight: 500,
+            cursor: "pointer",
+          }}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { useState } from "react";
+import {
+  batchZipName,
+  createBatchZip,
+} from "../../features/batch/lib/batchExport";
+import { BatchDropZone } from "./BatchDropZone";
+import { BatchSummaryTable } from "./BatchSummaryTable";
+import type { BatchConversion } from "./useBatchConversion";
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
+export function BatchPanel({
+  theme,
+  ready,
+  batch: { queue, items, concurrency, setConcurrency },
+}: {
+  theme: string;
+  ready: boolean;
+  batch: BatchConversion;
+}) {
+  const [exporting, setExporting] = useState(false);
+  const active = items.some(
+    (item) => item.status === "queued" || item.status === "running"
+  );
+  const doneCount = items.filter((item) => item.status === "done").length;
+
+  // 완료된 결과 + manifest.json을 ZIP으로 다운로드
+  const handleDownloadZip = async () => {
+    setExporting(true);
+    try {
+      const zip = await createBatchZip(items);
+      const url = URL.createObjectURL(zip);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = batchZipName(items);
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    } catch (error) {
+      console.error("ZIP 생성 실패:", error);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        marginTop: 16,
+        background: "#fff",
+        borderRadius: 16,
+        padding: 24,
+        width: "100%",
+        maxWidth: 900,
+        boxShadow: "0 2px 10px rgba(0,0,0,0.05)",
+      }}
+    >
+      {!ready ? (
+        <p style={{ textAlign: "center", color: "#999" }}>
+          ⚙️ 바나나브레드 엔진을 로딩 중입니다...
+        </p>
+      ) : (
+        <BatchDropZone theme={theme} onFiles={queue.add} />
+      )}
+
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "space-between",
+          gap: 12,
+          margin: "16px 0",
+          fontSize: 14,
+          color: "#555",
+        }}
+      >
+        <label style={{ display: "flex", alignItems: "center", gap: 8 }}>
+          동시 변환 수
+          <select
+            value={concurrency}
+            onChange={(e) => setConcurrency(Number(e.target.value))}
+            style={{ padding: "4px 8px", borderRadius: 6, border: "1px solid #ccc" }}
+          >
+            {CONCURRENCY_OPTIONS.map((value) => (
+              <option key={value} value={value}>
+                {value}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div style={{ display: "flex", gap: 8 }}>
+          {doneCount > 0 && (
+            <button
+              onClick={handleDownloadZip}
+              disabled={exporting}
+              style={buttonStyle(theme)}
+            >
+              {exporting ? "ZIP 생성 중..." : `ZIP 다운로드 (${doneCount}개)`}
+            </button>
+          )}
+          {active && (
+            <button onClick={queue.cancelAll} style={buttonStyle("#555")}>
+              전체 취소
+            </button>
+          )}
+          {items.length > 0 && !active && (
+            <button onClick={queue.clear} style={buttonStyle("#555")}>
+              목록 비우기
+            </button>
+          )}
+        </div>
+      </div>
+
+      <BatchSummaryTable
+        theme={theme}
+        items={items}
+        onRetry={queue.retry}
+        onCancel={queue.cancel}
+        onRemove={queue.remove}
+      />
+    </div>
+  );
+}
+
+function buttonStyle(color: string) {
+  return {
+    padding: "6px 12px",
+    borderRadius: 6,
+    border: `1px solid ${color}`,
+    background: "#fff",
+    color,
+    fontSize: 13,
+    cursor: "pointer",
+  };
+}
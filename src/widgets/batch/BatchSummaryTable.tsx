@@ -0,0 +1,162 @@
+import type { CSSProperties } from "react";
+import type {
+  BatchItem,
+  BatchItemStatus,
+} from "../../features/batch/lib/conversionQueue";
+import type { ConversionResult } from "../../features/convert/lib/convertToWebp";
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  queued: "대기",
+  running: "변환 중",
+  done: "완료",
+  error: "실패",
+  cancelled: "취소됨",
+};
+
+const STRATEGY_LABELS: Record<string, string> = {
+  "pure-lossless": "완전 무손실",
+  "near-lossless": "준무손실",
+  hybrid: "하이브리드",
+  "optimized-lossy": "최적화 손실",
+};
+
+export function BatchSummaryTable({
+  theme,
+  items,
+  onRetry,
+  onCancel,
+  onRemove,
+}: {
+  theme: string;
+  items: BatchItem<ConversionResult>[];
+  onRetry: (id: string) => void;
+  onCancel: (id: string) => void;
+  onRemove: (id: string) => void;
+}) {
+  if (items.length === 0) return null;
+
+  const done = items.filter((item) => item.status === "done");
+  const originalTotal = done.reduce((sum, item) => sum + item.file.size / 1024, 0);
+  const convertedTotal = done.reduce(
+    (sum, item) => sum + (item.result?.sizeKB ?? 0),
+    0
+  );
+
+  return (
+    <div style={{ width: "100%", overflowX: "auto" }}>
+      <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+        <thead>
+          <tr style={{ background: "#f5f5f5", color: "#555" }}>
+            <th style={cellStyle}>파일</th>
+            <th style={cellStyle}>상태</th>
+            <th style={cellStyle}>원본</th>
+            <th style={cellStyle}>변환</th>
+            <th style={cellStyle}>절감률</th>
+            <th style={cellStyle}>전략</th>
+            <th style={cellStyle}>SSIM</th>
+            <th style={cellStyle}>ΔE</th>
+            <th style={cellStyle} />
+          </tr>
+        </thead>
+        <tbody>
+          {items.map((item) => {
+            const { result } = item;
+            const originalKB = item.file.size / 1024;
+            const savings = result
+              ? ((originalKB - result.sizeKB) / originalKB) * 100
+              : null;
+
+            return (
+              <tr key={item.id} style={{ borderBottom: "1px solid #eee" }}>
+                <td style={{ ...cellStyle, textAlign: "left", maxWidth: 200, wordBreak: "break-all" }}>
+                  {item.file.webkitRelativePath || item.file.name}
+                </td>
+                <td style={cellStyle}>
+                  {item.status === "running" ? (
+                    <div title={item.message}>
+                      <div style={{ height: 6, background: "#eee", borderRadius: 6, overflow: "hidden", minWidth: 60 }}>
+                        <div style={{ width: `${item.progress}%`, height: "100%", background: theme }} />
+                      </div>
+                      <span style={{ fontSize: 11, color: "#777" }}>{Math.round(item.progress)}%</span>
+                    </div>
+                  ) : (
+                    <span
+                      title={item.error}
+                      style={{ color: item.status === "error" ? "#dc2626" : item.status === "done" ? "#16a34a" : "#777" }}
+                    >
+                      {STATUS_LABELS[item.status]}
+                    </span>
+                  )}
+                </td>
+                <td style={cellStyle}>{originalKB.toFixed(1)} KB</td>
+                <td style={cellStyle}>{result ? `${result.sizeKB.toFixed(1)} KB` : "-"}</td>
+                <td style={{ ...cellStyle, color: savings !== null && savings < 0 ? "#dc2626" : "#111" }}>
+                  {savings !== null ? `${savings.toFixed(1)}%` : "-"}
+                </td>
+                <td style={cellStyle}>
+                  {result?.encodingStrategy ? STRATEGY_LABELS[result.encodingStrategy] ?? result.encodingStrategy : "-"}
+                </td>
+                <td style={cellStyle}>{result?.metrics ? result.metrics.ssim.toFixed(4) : "-"}</td>
+                <td style={cellStyle}>{result?.metrics ? result.metrics.deltaE.toFixed(2) : "-"}</td>
+                <td style={{ ...cellStyle, whiteSpace: "nowrap" }}>
+                  {result && (
+                    <a href={result.url} download={result.outputName} style={{ ...actionStyle, color: theme }}>
+                      다운로드
+                    </a>
+                  )}
+                  {(item.status === "error" || item.status === "cancelled") && (
+                    <button onClick={() => onRetry(item.id)} style={actionStyle}>
+                      재시도
+                    </button>
+                  )}
+                  {(item.status === "queued" || item.status === "running") && (
+                    <button onClick={() => onCancel(item.id)} style={actionStyle}>
+                      취소
+                    </button>
+                  )}
+                  {item.status !== "running" && (
+                    <button onClick={() => onRemove(item.id)} style={actionStyle}>
+                      삭제
+                    </button>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+        {done.length > 0 && (
+          <tfoot>
+            <tr style={{ fontWeight: 600 }}>
+              <td style={{ ...cellStyle, textAlign: "left" }}>
+                합계 ({done.length}/{items.length})
+              </td>
+              <td style={cellStyle} />
+              <td style={cellStyle}>{originalTotal.toFixed(1)} KB</td>
+              <td style={cellStyle}>{convertedTotal.toFixed(1)} KB</td>
+              <td style={cellStyle}>
+                {(((originalTotal - convertedTotal) / originalTotal) * 100).toFixed(1)}%
+              </td>
+              <td style={cellStyle} colSpan={4} />
+            </tr>
+          </tfoot>
+        )}
+      </table>
+    </div>
+  );
+}
+
+const cellStyle: CSSProperties = {
+  padding: "8px 6px",
+  textAlign: "center",
+};
+
+const actionStyle: CSSProperties = {
+  marginLeft: 6,
+  padding: 0,
+  border: "none",
+  background: "none",
+  color: "#555",
+  fontSize: 12,
+  cursor: "pointer",
+  textDecoration: "underline",
+};
@@ -0,0 +1,86 @@
+import { useEffect, useState } from "react";
+import type { BatchTaskContext } from "../../features/batch/lib/conversionQueue";
+import { createFFmpegPool } from "../../features/batch/lib/ffmpegPool";
+import { useConversionQueue } from "../../features/batch/lib/useConversionQueue";
+import {
+  convertToWebp,
+  convertToWebpOptimized,
+  type ConversionResult,
+} from "../../features/convert/lib/convertToWebp";
+import type { OutputFormat } from "../../features/convert/lib/outputFormat";
+import type { OutputTransform } from "../../features/convert/lib/outputTransform";
+import type { QualityTarget } from "../../features/convert/lib/targetQuality";
+import type { ScoringPolicyName } from "../../features/convert/lib/scoringPolicy";
+
+/**
+ * 일괄 변환에 적용할 설정 (단일 변환 화면의 현재 설정)
+ */
+export interface BatchConversionSettings {
+  useOptimizer: boolean;
+  lossless: boolean;
+  quality: number; // 기본 변환
+  compression: number; // 기본 변환
+  format: OutputFormat; // 기본 변환 포맷
+  targetSizeKB: number | null;
+  qualityTarget: QualityTarget | null;
+  scoringPolicy: ScoringPolicyName | null;
+  outputFormats: OutputFormat[]; // 최적화 모드 비교 포맷
+  gifFallback: boolean;
+  transform: OutputTransform;
+}
+
+/**
+ * 일괄 변환 큐와 ffmpeg 풀
+ * 단일/일괄 모드를 전환해도 진행 중인 작업이 유지되도록 패널이 아닌 앱 수준에서 호출
+ */
+export function useBatchConversion(settings: BatchConversionSettings) {
+  const [concurrency, setConcurrency] = useState(1);
+
+  // exec는 인스턴스마다 순차 실행되므로 동시에 도는 항목마다 풀에서 별도 ffmpeg를 빌림
+  const [pool] = useState(() => createFFmpegPool());
+  useEffect(() => () => pool.terminate(), [pool]);
+
+  const runItem = async (
+    file: File,
+    { id, signal, onProgress }: BatchTaskContext
+  ): Promise<ConversionResult> => {
+    const ffmpeg = await pool.acquire();
+    try {
+      const result = settings.useOptimizer
+        ? await convertToWebpOptimized({
+            ffmpeg,
+            input: file,
+            progressCallback: onProgress,
+            lossless: settings.lossless,
+            signal,
+            jobId: id,
+            targetSizeKB: settings.targetSizeKB ?? undefined,
+            qualityTarget: settings.qualityTarget ?? undefined,
+            scoringPolicy: settings.scoringPolicy ?? undefined,
+            outputFormats: settings.outputFormats,
+            gifFallback: settings.gifFallback,
+            transform: settings.transform,
+          })
+        : await convertToWebp({
+            ffmpeg,
+            input: file,
+            quality: settings.quality,
+            compression: settings.compression,
+            format: settings.format,
+            signal,
+            jobId: id,
+            transform: settings.transform,
+          });
+
+      if (!result) throw new Error("변환 결과가 없습니다");
+      return result;
+    } finally {
+      pool.release(ffmpeg);
+    }
+  };
+  const { queue, items } = useConversionQueue(runItem, concurrency);
+
+  return { queue, items, concurrency, setConcurrency };
+}
+
+export type BatchConversion = ReturnType<typeof useBatchConversion>;
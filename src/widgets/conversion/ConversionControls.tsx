@@ -1,4 +1,13 @@
+import { useState } from "react";
 import { CompressionControl } from "../../shared/ui/CompressionControl";
+import {
+  INPUT_ACCEPT,
+  isPngFile,
+} from "../../features/convert/lib/inputFormat";
+import {
+  buildPngSequence,
+  DEFAULT_SEQUENCE_DELAY,
+} from "../../features/convert/lib/inputSource";
 
 export function ConversionControls({
   theme,
@@ -27,6 +36,30 @@ export function ConversionControls({
   ready: boolean;
   onToggleSample?: () => void;
 }) {
+  const [inputError, setInputError] = useState<string | null>(null);
+
+  // 여러 장을 선택하면 PNG 시퀀스로 보고 APNG 하나로 조립
+  const handleFiles = async (files: File[]) => {
+    setInputError(null);
+    if (files.length <= 1) {
+      setInputFile(files[0] ?? null);
+      return;
+    }
+
+    if (!files.every(isPngFile)) {
+      setInputError("여러 파일은 PNG 시퀀스만 선택할 수 있습니다");
+      setInputFile(null);
+      return;
+    }
+
+    try {
+      setInputFile(await buildPngSequence(files));
+    } catch (error) {
+      setInputError(error instanceof Error ? error.message : String(error));
+      setInputFile(null);
+    }
+  };
+
   return (
     <div
       style={{
@@ -55,16 +88,14 @@ export function ConversionControls({
                   color: "#555",
                 }}
               >
-                변환할 GIF 파일 선택
+                변환할 파일 선택 (GIF, APNG, WebP, MP4, WebM)
               </label>
               <input
                 id="file"
                 type="file"
-                accept="image/gif"
-                onChange={(e) => {
-                  const file = e.target.files?.[0] ?? null;
-                  setInputFile(file);
-                }}
+                accept={INPUT_ACCEPT}
+                multiple
+                onChange={(e) => handleFiles(Array.from(e.target.files ?? []))}
                 style={{
                   display: "block",
                   width: "100%",
@@ -76,8 +107,14 @@ export function ConversionControls({
                   color: "#333",
                 }}
               />
+              {inputError && (
+                <p style={{ color: "#d33", fontSize: 13, margin: "0 0 8px" }}>
+                  {inputError}
+                </p>
+              )}
               <small style={{ color: "#777" }}>
-                또는 샘플 이미지를 사용할 수 있습니다.
+                PNG 여러 장은 파일명 순서대로 {1000 / DEFAULT_SEQUENCE_DELAY}fps
+                시퀀스로 변환합니다. 또는 샘플 이미지를 사용할 수 있습니다.
               </small>
             </div>
           )}
@@ -0,0 +1,218 @@
+import { useEffect, useMemo } from "react";
+import type { CSSProperties } from "react";
+import type { InspectedFrame } from "../../features/convert/lib/gifAnalyzer";
+import type { GifDisposalMethod } from "../../features/convert/lib/gifParser";
+import {
+  EMPTY_FRAME_EDITS,
+  hasFrameEdits,
+  type FrameEdits,
+} from "../../features/convert/lib/outputTransform";
+
+const DISPOSAL_LABELS: Record<GifDisposalMethod, string> = {
+  none: "지정 안 함",
+  keep: "유지",
+  background: "배경으로 지움",
+  previous: "이전 상태 복원",
+};
+
+// 브라우저가 20ms 미만 지연을 100ms로 늘리므로 그 이상만 허용
+const MIN_FRAME_DELAY = 20;
+
+/**
+ * GIF 프레임 검사기
+ * 프레임별 지연, 처리 방식, 영역, 로컬 팔레트 크기, 중복 여부를 필름스트립으로 보여주고
+ * 변환 전에 프레임 제외/표시 시간 변경을 지정
+ */
+export function FrameInspector({
+  theme,
+  ready,
+  frames,
+  inspecting,
+  error,
+  onInspect,
+  edits,
+  setEdits,
+}: {
+  theme: string;
+  ready: boolean;
+  frames: InspectedFrame[] | null;
+  inspecting: boolean;
+  error: string | null;
+  onInspect: () => void;
+  edits: FrameEdits;
+  setEdits: (v: FrameEdits) => void;
+}) {
+  const thumbnails = useMemo(
+    () => frames?.map(({ image }) => URL.createObjectURL(image)) ?? [],
+    [frames]
+  );
+
+  useEffect(() => {
+    return () => thumbnails.forEach((url) => URL.revokeObjectURL(url));
+  }, [thumbnails]);
+
+  const dropped = new Set(edits.dropped);
+  const delayOf = ({ frame }: InspectedFrame) => edits.delays[frame.index] ?? frame.delay;
+  const keptFrames = frames?.filter(({ frame }) => !dropped.has(frame.index)) ?? [];
+
+  const toggleDrop = (index: number) =>
+    setEdits({
+      ...edits,
+      dropped: dropped.has(index)
+        ? edits.dropped.filter((i) => i !== index)
+        : [...edits.dropped, index].sort((a, b) => a - b),
+    });
+
+  const retime = (inspected: InspectedFrame, value: string, min: number) => {
+    const delays = { ...edits.delays };
+    const delay = Math.max(min, Math.round(Number(value) || 0));
+    // 원래 값으로 되돌리면 편집에서 제외
+    if (delay === inspected.frame.delay) {
+      delete delays[inspected.frame.index];
+    } else {
+      delays[inspected.frame.index] = delay;
+    }
+    setEdits({ ...edits, delays });
+  };
+
+  const totalDuration = (list: InspectedFrame[], delay: (f: InspectedFrame) => number) =>
+    (list.reduce((sum, f) => sum + delay(f), 0) / 1000).toFixed(2);
+
+  return (
+    <div style={cardStyle}>
+      <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+        <span style={{ fontSize: "0.95rem", fontWeight: 500 }}>프레임 검사</span>
+        <button
+          onClick={onInspect}
+          disabled={!ready || inspecting}
+          style={{ ...buttonStyle, borderColor: theme, color: theme }}
+        >
+          {inspecting ? "분석 중..." : frames ? "다시 분석" : "프레임 분석"}
+        </button>
+        {frames && hasFrameEdits(edits) && (
+          <button
+            onClick={() => setEdits(EMPTY_FRAME_EDITS)}
+            style={{ ...buttonStyle, marginLeft: "auto" }}
+          >
+            편집 초기화
+          </button>
+        )}
+      </div>
+
+      {error && <p style={{ fontSize: "0.85rem", color: "#c0392b" }}>{error}</p>}
+
+      {frames && (
+        <>
+          <p style={{ margin: "8px 0", fontSize: "0.85rem", color: "#666" }}>
+            {frames.length}프레임 중 {keptFrames.length}개 사용 · 재생 시간{" "}
+            {totalDuration(frames, ({ frame }) => frame.delay)}초 →{" "}
+            {totalDuration(keptFrames, delayOf)}초 · 중복{" "}
+            {frames.filter(({ duplicate }) => duplicate).length}개
+          </p>
+
+          <div style={{ display: "flex", gap: 8, overflowX: "auto", paddingBottom: 8 }}>
+            {frames.map((inspected, i) => {
+              const { frame, duplicate } = inspected;
+              const isDropped = dropped.has(frame.index);
+
+              return (
+                <div
+                  key={frame.index}
+                  style={{
+                    ...frameCardStyle,
+                    opacity: isDropped ? 0.4 : 1,
+                    borderColor: duplicate ? "#f0ad4e" : "#eee",
+                  }}
+                >
+                  <img src={thumbnails[i]} alt={`프레임 ${frame.index + 1}`} style={thumbnailStyle} />
+                  <div style={{ display: "flex", justifyContent: "space-between" }}>
+                    <strong>#{frame.index + 1}</strong>
+                    {duplicate && <span style={{ color: "#f0ad4e" }}>중복</span>}
+                  </div>
+                  {/* 입력 중에는 그대로 두고 포커스를 잃을 때 최소값으로 보정 */}
+                  <label style={{ display: "flex", alignItems: "center", gap: 4 }}>
+                    <input
+                      type="number"
+                      min={MIN_FRAME_DELAY}
+                      step={10}
+                      value={delayOf(inspected)}
+                      disabled={isDropped}
+                      onChange={(e) => retime(inspected, e.target.value, 1)}
+                      onBlur={(e) => retime(inspected, e.target.value, MIN_FRAME_DELAY)}
+                      style={delayInputStyle}
+                    />
+                    ms
+                  </label>
+                  <span title="처리 방식">{DISPOSAL_LABELS[frame.disposal]}</span>
+                  <span title="프레임 영역">
+                    {frame.width}×{frame.height} @{frame.left},{frame.top}
+                  </span>
+                  <span title="로컬 팔레트">
+                    {frame.localPaletteSize > 0 ? `로컬 ${frame.localPaletteSize}색` : "전역 팔레트"}
+                  </span>
+                  {/* 마지막 남은 프레임은 제외할 수 없음 */}
+                  <button
+                    onClick={() => toggleDrop(frame.index)}
+                    disabled={!isDropped && keptFrames.length === 1}
+                    style={buttonStyle}
+                  >
+                    {isDropped ? "복원" : "제외"}
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+const cardStyle: CSSProperties = {
+  marginTop: 16,
+  padding: 16,
+  backgroundColor: "white",
+  borderRadius: 8,
+  boxShadow: "0 1px 3px rgba(0,0,0,0.08)",
+  maxWidth: 600,
+  width: "100%",
+  boxSizing: "border-box",
+};
+
+const buttonStyle: CSSProperties = {
+  padding: "4px 10px",
+  borderRadius: 6,
+  border: "1px solid #ccc",
+  background: "#fff",
+  fontSize: 12,
+  cursor: "pointer",
+};
+
+const frameCardStyle: CSSProperties = {
+  flex: "0 0 120px",
+  display: "flex",
+  flexDirection: "column",
+  gap: 4,
+  padding: 6,
+  border: "2px solid #eee",
+  borderRadius: 8,
+  fontSize: 11,
+  color: "#555",
+};
+
+// 투명 영역이 보이도록 체커보드 배경
+const thumbnailStyle: CSSProperties = {
+  width: "100%",
+  height: 80,
+  objectFit: "contain",
+  background: "repeating-conic-gradient(#ddd 0% 25%, #fff 0% 50%) 50% / 12px 12px",
+  borderRadius: 4,
+};
+
+const delayInputStyle: CSSProperties = {
+  width: 60,
+  padding: "2px 4px",
+  borderRadius: 4,
+  border: "1px solid #ccc",
+  fontSize: 11,
+};
@@ -0,0 +1,160 @@
+import type { CSSProperties } from "react";
+import type {
+  CropRect,
+  OutputTransform,
+} from "../../features/convert/lib/outputTransform";
+
+const inputStyle: CSSProperties = {
+  width: 70,
+  padding: "4px 8px",
+  borderRadius: 6,
+  border: "1px solid #ccc",
+};
+
+const rowStyle: CSSProperties = {
+  display: "flex",
+  alignItems: "center",
+  flexWrap: "wrap",
+  gap: 8,
+  marginTop: 8,
+  fontSize: "0.85rem",
+  color: "#666",
+};
+
+const DEFAULT_CROP: CropRect = { x: 0, y: 0, width: 320, height: 240 };
+
+/**
+ * 출력 변환 설정 (크기 제한, 크롭, 프레임레이트 상한, 구간, 속도)
+ * 빈 칸은 해당 변환을 적용하지 않음
+ */
+export function TransformControls({
+  transform,
+  setTransform,
+}: {
+  transform: OutputTransform;
+  setTransform: (v: OutputTransform) => void;
+}) {
+  const update = (patch: Partial<OutputTransform>) =>
+    setTransform({ ...transform, ...patch });
+
+  // 빈 값은 undefined (변환 해제), 그 외에는 최소값 이상으로 보정
+  const parse = (value: string, min: number) =>
+    value === "" ? undefined : Math.max(min, Number(value) || min);
+
+  return (
+    <div style={{ marginTop: 12, paddingTop: 12, borderTop: "1px solid #eee" }}>
+      <span style={{ fontSize: "0.95rem", fontWeight: 500 }}>출력 변환</span>
+
+      <div style={rowStyle}>
+        최대 크기
+        <input
+          type="number"
+          min={1}
+          placeholder="너비"
+          value={transform.maxWidth ?? ""}
+          onChange={(e) => update({ maxWidth: parse(e.target.value, 1) })}
+          style={inputStyle}
+        />
+        ×
+        <input
+          type="number"
+          min={1}
+          placeholder="높이"
+          value={transform.maxHeight ?? ""}
+          onChange={(e) => update({ maxHeight: parse(e.target.value, 1) })}
+          style={inputStyle}
+        />
+        px (비율 유지)
+      </div>
+
+      <div style={rowStyle}>
+        <label style={{ display: "flex", alignItems: "center", gap: 6, cursor: "pointer" }}>
+          <input
+            type="checkbox"
+            checked={transform.crop !== undefined}
+            onChange={(e) => update({ crop: e.target.checked ? DEFAULT_CROP : undefined })}
+            style={{ cursor: "pointer" }}
+          />
+          크롭
+        </label>
+        {transform.crop &&
+          (["x", "y", "width", "height"] as (keyof CropRect)[]).map((key) => (
+            <input
+              key={key}
+              type="number"
+              min={key === "x" || key === "y" ? 0 : 1}
+              title={key}
+              placeholder={key}
+              value={transform.crop![key]}
+              onChange={(e) =>
+                update({
+                  crop: {
+                    ...transform.crop!,
+                    [key]: Math.max(key === "x" || key === "y" ? 0 : 1, Number(e.target.value) || 0),
+                  },
+                })
+              }
+              style={inputStyle}
+            />
+          ))}
+      </div>
+
+      <div style={rowStyle}>
+        최대 FPS
+        <input
+          type="number"
+          min={1}
+          value={transform.maxFps ?? ""}
+          onChange={(e) => update({ maxFps: parse(e.target.value, 1) })}
+          style={inputStyle}
+        />
+        속도
+        <input
+          type="number"
+          min={0.1}
+          step={0.25}
+          value={transform.speed ?? 1}
+          onChange={(e) => update({ speed: parse(e.target.value, 0.1) })}
+          style={inputStyle}
+        />
+        배
+      </div>
+
+      {/* 프레임 구간은 1부터 세는 값으로 표시 (내부는 0부터, 끝 미포함) */}
+      <div style={rowStyle}>
+        프레임 구간
+        <input
+          type="number"
+          min={1}
+          placeholder="시작"
+          value={transform.trim ? transform.trim.start + 1 : ""}
+          onChange={(e) => {
+            const start = parse(e.target.value, 1);
+            update({
+              trim:
+                start === undefined
+                  ? undefined
+                  : { start: start - 1, end: Math.max(start, transform.trim?.end ?? Infinity) },
+            });
+          }}
+          style={inputStyle}
+        />
+        ~
+        <input
+          type="number"
+          min={1}
+          placeholder="끝"
+          value={transform.trim && Number.isFinite(transform.trim.end) ? transform.trim.end : ""}
+          onChange={(e) => {
+            const end = parse(e.target.value, 1);
+            update({
+              trim: { start: transform.trim?.start ?? 0, end: end ?? Infinity },
+            });
+          }}
+          style={inputStyle}
+        />
+        번째
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,284 @@
+import { Fragment, useEffect, useMemo, useState } from "react";
+import type { CSSProperties } from "react";
+import type { CandidateReport } from "../../features/convert/lib/optimizer";
+import {
+  isVideoFormat,
+  OUTPUT_FORMATS,
+} from "../../features/convert/lib/outputFormat";
+
+const STRATEGY_LABELS: Record<string, string> = {
+  "pure-lossless": "완전 무손실",
+  "near-lossless": "준무손실",
+  hybrid: "하이브리드",
+  "optimized-lossy": "최적화 손실",
+};
+
+/**
+ * 최적화 후보 리더보드
+ * 점수 순으로 모든 후보를 보여주고, 미리보기/다운로드/결과로 사용 가능
+ */
+export function CandidateTable({
+  theme,
+  candidates,
+  activeIndex,
+  outputFileName,
+  onUse,
+}: {
+  theme: string;
+  candidates: CandidateReport[];
+  activeIndex: number | null; // 현재 결과로 표시 중인 후보
+  outputFileName: string;
+  onUse: (candidate: CandidateReport) => void;
+}) {
+  const [previewIndex, setPreviewIndex] = useState<number | null>(null);
+
+  // 미리보기 URL은 펼친 후보 하나만 유지
+  const previewUrl = useMemo(() => {
+    const candidate = candidates.find((c) => c.index === previewIndex);
+    return candidate ? URL.createObjectURL(candidate.blob) : null;
+  }, [candidates, previewIndex]);
+
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+    };
+  }, [previewUrl]);
+
+  if (candidates.length === 0) return null;
+
+  // 점수 높은 순 (평가 제외 후보는 뒤로)
+  const sorted = [...candidates].sort(
+    (a, b) => (b.score ?? -Infinity) - (a.score ?? -Infinity) || a.index - b.index
+  );
+
+  const handleDownload = (candidate: CandidateReport) => {
+    const url = URL.createObjectURL(candidate.blob);
+    const link = document.createElement("a");
+    link.href = url;
+    const { extension } = OUTPUT_FORMATS[candidate.config.outputFormat ?? "webp"];
+    link.download = outputFileName.replace(
+      /\.[^.]+$/,
+      `_candidate${candidate.index + 1}.${extension}`
+    );
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  return (
+    <div
+      style={{
+        marginTop: 24,
+        width: "100%",
+        maxWidth: 900,
+        background: "#fff",
+        borderRadius: 16,
+        padding: 24,
+        boxShadow: "0 2px 10px rgba(0,0,0,0.05)",
+      }}
+    >
+      <h3
+        style={{
+          fontSize: 18,
+          marginBottom: 16,
+          fontWeight: 500,
+          color: theme,
+          textAlign: "center",
+        }}
+      >
+        🏁 후보 비교 ({candidates.length}개)
+      </h3>
+
+      <div style={{ width: "100%", overflowX: "auto" }}>
+        <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+          <thead>
+            <tr style={{ background: "#f5f5f5", color: "#555" }}>
+              <th style={cellStyle}>#</th>
+              <th style={cellStyle}>전략</th>
+              <th style={cellStyle}>설정</th>
+              <th style={cellStyle}>용량</th>
+              <th style={cellStyle}>SSIM</th>
+              <th style={cellStyle}>ΔE</th>
+              <th style={cellStyle}>엣지</th>
+              <th style={cellStyle}>점수</th>
+              <th style={cellStyle}>판정</th>
+              <th style={cellStyle} />
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.map((candidate) => {
+              const { config, metrics } = candidate;
+              const failed = (name: string) =>
+                candidate.criteria.some((c) => c.name === name && !c.passed);
+              const isActive = candidate.index === activeIndex;
+
+              return (
+                <Fragment key={candidate.index}>
+                  <tr
+                    style={{
+                      borderBottom: "1px solid #eee",
+                      background: isActive ? "#f0f7ff" : undefined,
+                    }}
+                  >
+                    <td style={cellStyle}>
+                      {candidate.index + 1}
+                      {candidate.selected && (
+                        <span title="자동 선택" style={{ marginLeft: 4 }}>
+                          ⭐
+                        </span>
+                      )}
+                    </td>
+                    <td style={cellStyle}>
+                      {config.encodingStrategy
+                        ? STRATEGY_LABELS[config.encodingStrategy] ?? config.encodingStrategy
+                        : "-"}
+                    </td>
+                    <td style={{ ...cellStyle, fontSize: 12, color: "#666" }}>
+                      {describeConfig(candidate)}
+                    </td>
+                    <td style={cellStyle}>{candidate.sizeKB.toFixed(1)} KB</td>
+                    <td style={{ ...cellStyle, color: failed("ssim") ? "#dc2626" : "#111" }}>
+                      {metrics ? metrics.ssim.toFixed(4) : "-"}
+                    </td>
+                    <td style={{ ...cellStyle, color: failed("deltaE") ? "#dc2626" : "#111" }}>
+                      {metrics ? metrics.deltaE.toFixed(2) : "-"}
+                    </td>
+                    <td
+                      style={{
+                        ...cellStyle,
+                        color: failed("edgePreservation") ? "#dc2626" : "#111",
+                      }}
+                    >
+                      {metrics ? `${(metrics.edgePreservation * 100).toFixed(1)}%` : "-"}
+                    </td>
+                    <td style={cellStyle}>
+                      {candidate.score !== null ? candidate.score.toFixed(3) : "-"}
+                    </td>
+                    <td style={cellStyle}>
+                      <span
+                        title={candidate.failureReason}
+                        style={{ color: candidate.passed ? "#16a34a" : "#dc2626" }}
+                      >
+                        {candidate.passed ? "통과" : "미달"}
+                      </span>
+                      {candidate.failureReason && (
+                        <div style={{ fontSize: 11, color: "#999", marginTop: 2 }}>
+                          {candidate.failureReason}
+                        </div>
+                      )}
+                    </td>
+                    <td style={{ ...cellStyle, whiteSpace: "nowrap" }}>
+                      <button
+                        onClick={() =>
+                          setPreviewIndex(
+                            candidate.index === previewIndex ? null : candidate.index
+                          )
+                        }
+                        style={actionStyle}
+                      >
+                        {candidate.index === previewIndex ? "닫기" : "미리보기"}
+                      </button>
+                      <button onClick={() => handleDownload(candidate)} style={actionStyle}>
+                        다운로드
+                      </button>
+                      {!isActive && (
+                        <button
+                          onClick={() => onUse(candidate)}
+                          style={{ ...actionStyle, color: theme }}
+                        >
+                          결과로 사용
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                  {candidate.index === previewIndex && previewUrl && (
+                    <tr>
+                      <td colSpan={10} style={{ padding: 12, textAlign: "center" }}>
+                        {isVideoFormat(candidate.config.outputFormat ?? "webp") ? (
+                          <video
+                            src={previewUrl}
+                            autoPlay
+                            loop
+                            muted
+                            playsInline
+                            style={{ maxWidth: "100%", borderRadius: 12 }}
+                          />
+                        ) : (
+                          <img
+                            src={previewUrl}
+                            alt="candidate preview"
+                            style={{ maxWidth: "100%", borderRadius: 12 }}
+                          />
+                        )}
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function describeConfig({ config }: CandidateReport): string {
+  if (config.outputFormat === "avif") {
+    return [
+      "AVIF",
+      `CRF ${config.crf}`,
+      `s${config.cpuUsed}`,
+      config.chromaSubsampling === "444" ? "4:4:4" : "4:2:0",
+      ...(config.alphaPlane ? ["알파"] : []),
+    ].join(" · ");
+  }
+
+  if (config.outputFormat === "mp4" || config.outputFormat === "webm") {
+    return [
+      config.outputFormat === "mp4" ? "MP4" : "WebM",
+      `CRF ${config.crf}`,
+      ...(config.alphaPlane ? ["알파"] : []),
+    ].join(" · ");
+  }
+
+  if (config.outputFormat === "gif") {
+    return [
+      "GIF",
+      `${config.maxColors}색`,
+      config.paletteStatsMode,
+      config.ditherMethod === "none" ? "디더링 없음" : config.ditherMethod.split(":")[0],
+    ].join(" · ");
+  }
+
+  const parts = [
+    config.lossless
+      ? config.nearLossless !== undefined
+        ? `NL ${config.nearLossless}`
+        : "무손실"
+      : `q ${config.quality}`,
+    `m ${config.method ?? config.compression}`,
+  ];
+  if (config.scale !== undefined && config.scale !== 1) {
+    parts.push(`${Math.round(config.scale * 100)}%`);
+  }
+  if (config.frameStep !== undefined && config.frameStep > 1) {
+    parts.push(`1/${config.frameStep} 프레임`);
+  }
+  return parts.join(" · ");
+}
+
+const cellStyle: CSSProperties = {
+  padding: "8px 6px",
+  textAlign: "center",
+};
+
+const actionStyle: CSSProperties = {
+  marginLeft: 6,
+  padding: 0,
+  border: "none",
+  background: "none",
+  color: "#555",
+  fontSize: 12,
+  cursor: "pointer",
+  textDecoration: "underline",
+};
@@ -0,0 +1,492 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { CSSProperties, PointerEvent as ReactPointerEvent } from "react";
+import {
+  alignFramesByTimestamp,
+  decodeAnimationFrames,
+  readAnimationTimeline,
+  supportsAnimationDecoding,
+  type FramePair,
+} from "../../features/convert/lib/animationFrames";
+import { INPUT_FORMATS, sniffInputFormat } from "../../features/convert/lib/inputFormat";
+import { getImageData, type ImageData } from "../../features/convert/lib/qualityMetrics";
+import {
+  computeDiffHeatmap,
+  computeFrameSSIMMap,
+  matchOriginalSize,
+  renderSSIMMap,
+} from "../../features/convert/lib/visualDiff";
+
+type ViewMode = "side" | "split" | "diff" | "ssim";
+
+interface ComparisonSources {
+  original: Blob;
+  converted: Blob;
+  pairs: FramePair[];
+  animated: boolean; // 프레임별 디코딩 가능 (아니면 첫 프레임만 비교)
+  frameCount: number; // 원본 프레임 수
+}
+
+interface ViewState {
+  zoom: number; // 1 = 전체 보기
+  cx: number; // 화면 중앙에 오는 이미지 위치 (너비/높이 대비 0~1)
+  cy: number;
+}
+
+const FIT_VIEW: ViewState = { zoom: 1, cx: 0.5, cy: 0.5 };
+
+const VIEW_MODES: { mode: ViewMode; label: string }[] = [
+  { mode: "side", label: "나란히" },
+  { mode: "split", label: "분할" },
+  { mode: "diff", label: "차이 히트맵" },
+  { mode: "ssim", label: "SSIM 맵" },
+];
+
+const MAX_ZOOM = 16;
+
+/**
+ * 원본/변환본 비교 뷰어
+ * 나란히 보기(줌/이동 동기화), 분할 슬라이더, 픽셀 차이 히트맵, SSIM 맵 오버레이, 프레임 단위 이동
+ */
+export function ComparisonViewer({
+  theme,
+  originalUrl,
+  convertedUrl,
+  convertedType,
+}: {
+  theme: string;
+  originalUrl: string;
+  convertedUrl: string;
+  convertedType: string; // 변환본 MIME 타입 (프레임 타임라인 파싱용)
+}) {
+  const [sources, setSources] = useState<ComparisonSources | null>(null);
+  const [frame, setFrame] = useState<{ original: ImageData; converted: ImageData } | null>(
+    null
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [pairIndex, setPairIndex] = useState(0);
+  const [mode, setMode] = useState<ViewMode>("side");
+  const [view, setView] = useState<ViewState>(FIT_VIEW);
+  const [split, setSplit] = useState(0.5);
+  const [overlayOpacity, setOverlayOpacity] = useState(0.8);
+
+  const leftCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const rightCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const dragRef = useRef<{ kind: "pan" | "split"; x: number; y: number } | null>(null);
+
+  // 원본/변환본 로드 및 재생 시각 기준 프레임 정렬
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      const [originalBytes, convertedBytes] = await Promise.all(
+        [originalUrl, convertedUrl].map(async (url) =>
+          new Uint8Array(await (await fetch(url)).arrayBuffer())
+        )
+      );
+      const original = new Blob([originalBytes.slice().buffer], {
+        type: INPUT_FORMATS[sniffInputFormat(originalBytes)].mimeType,
+      });
+      const converted = new Blob([convertedBytes.slice().buffer], { type: convertedType });
+
+      const sourceTimeline = readAnimationTimeline(originalBytes, original.type);
+      const candidateTimeline = readAnimationTimeline(convertedBytes, convertedType);
+      const animated = supportsAnimationDecoding();
+
+      if (cancelled) return;
+      setSources({
+        original,
+        converted,
+        pairs: animated
+          ? alignFramesByTimestamp(sourceTimeline, candidateTimeline)
+          : [{ sourceIndex: 0, candidateIndex: 0, timestamp: 0 }],
+        animated,
+        frameCount: sourceTimeline.length,
+      });
+      setPairIndex(0);
+      setError(null);
+    })().catch((e) => {
+      if (!cancelled) setError(e instanceof Error ? e.message : String(e));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [originalUrl, convertedUrl, convertedType]);
+
+  const pair = sources?.pairs[Math.min(pairIndex, sources.pairs.length - 1)];
+
+  // 현재 프레임 쌍 디코딩
+  useEffect(() => {
+    if (!sources || !pair) return;
+    let cancelled = false;
+
+    const decode = (blob: Blob, index: number) =>
+      sources.animated
+        ? decodeAnimationFrames(blob, [index]).then(([image]) => image)
+        : getImageData(blob);
+
+    Promise.all([
+      decode(sources.original, pair.sourceIndex),
+      decode(sources.converted, pair.candidateIndex),
+    ])
+      .then(([original, converted]) => {
+        if (cancelled) return;
+        setFrame({ original, converted: matchOriginalSize(original, converted) });
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : String(e));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sources, pair]);
+
+  const diff = useMemo(
+    () => (frame && mode === "diff" ? computeDiffHeatmap(frame.original, frame.converted) : null),
+    [frame, mode]
+  );
+  const ssimMap = useMemo(
+    () => (frame && mode === "ssim" ? computeFrameSSIMMap(frame.original, frame.converted) : null),
+    [frame, mode]
+  );
+
+  const layers = useMemo(() => {
+    if (!frame) return null;
+    return {
+      original: toCanvas(frame.original),
+      converted: toCanvas(frame.converted),
+      diff: diff ? toCanvas(diff.image) : null,
+      ssim: ssimMap ? toCanvas(renderSSIMMap(ssimMap)) : null,
+    };
+  }, [frame, diff, ssimMap]);
+
+  // 캔버스 그리기 (두 캔버스가 같은 view를 공유해 줌/이동이 동기화됨)
+  useEffect(() => {
+    if (!layers) return;
+    const left = leftCanvasRef.current;
+    const right = rightCanvasRef.current;
+
+    if (mode === "side") {
+      if (left) paint(left, view, (ctx) => ctx.drawImage(layers.original, 0, 0));
+      if (right) paint(right, view, (ctx) => ctx.drawImage(layers.converted, 0, 0));
+    } else if (mode === "split" && left) {
+      paint(left, view, (ctx) => {
+        ctx.drawImage(layers.converted, 0, 0);
+        // 분할선 왼쪽은 원본: 클립 경로는 화면 좌표로 만들고 그리기는 view 변환으로
+        ctx.save();
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.beginPath();
+        ctx.rect(0, 0, left.width * split, left.height);
+        ctx.restore();
+        ctx.save();
+        ctx.clip();
+        ctx.drawImage(layers.original, 0, 0);
+        ctx.restore();
+
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.fillStyle = "#fff";
+        ctx.fillRect(Math.round(left.width * split) - 1, 0, 2, left.height);
+      });
+    } else if (mode === "diff" && left && layers.diff) {
+      const heatmap = layers.diff;
+      paint(left, view, (ctx) => ctx.drawImage(heatmap, 0, 0));
+    } else if (mode === "ssim" && left && layers.ssim) {
+      const overlay = layers.ssim;
+      paint(left, view, (ctx) => {
+        ctx.drawImage(layers.converted, 0, 0);
+        ctx.globalAlpha = overlayOpacity;
+        ctx.drawImage(overlay, 0, 0);
+        ctx.globalAlpha = 1;
+      });
+    }
+  }, [layers, mode, view, split, overlayOpacity]);
+
+  // 휠 줌: 포인터 아래 지점을 고정한 채 확대/축소 (페이지 스크롤을 막기 위해 passive: false)
+  useEffect(() => {
+    if (!frame) return;
+    const canvases = [leftCanvasRef.current, rightCanvasRef.current].filter(
+      (canvas): canvas is HTMLCanvasElement => canvas !== null
+    );
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const canvas = e.currentTarget as HTMLCanvasElement;
+      const rect = canvas.getBoundingClientRect();
+      // 화면 중앙 기준 포인터 위치 (-0.5~0.5)
+      const px = (e.clientX - rect.left) / rect.width - 0.5;
+      const py = (e.clientY - rect.top) / rect.height - 0.5;
+
+      setView((current) => {
+        const zoom = Math.min(MAX_ZOOM, Math.max(1, current.zoom * (e.deltaY < 0 ? 1.25 : 0.8)));
+        // 줌 전후로 포인터 아래의 이미지 위치가 같도록 중심 이동
+        return clampView({
+          zoom,
+          cx: current.cx + px / current.zoom - px / zoom,
+          cy: current.cy + py / current.zoom - py / zoom,
+        });
+      });
+    };
+
+    canvases.forEach((canvas) => canvas.addEventListener("wheel", handleWheel, { passive: false }));
+    return () =>
+      canvases.forEach((canvas) => canvas.removeEventListener("wheel", handleWheel));
+  }, [frame, mode]);
+
+  const handlePointerDown = (e: ReactPointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const nearSplit =
+      mode === "split" && Math.abs(e.clientX - (rect.left + rect.width * split)) < 12;
+    dragRef.current = { kind: nearSplit ? "split" : "pan", x: e.clientX, y: e.clientY };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: ReactPointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+
+    if (drag.kind === "split") {
+      setSplit(Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)));
+      return;
+    }
+
+    // 화면 이동량 → 이미지 위치 이동량
+    const dx = (e.clientX - drag.x) / rect.width;
+    const dy = (e.clientY - drag.y) / rect.height;
+    dragRef.current = { ...drag, x: e.clientX, y: e.clientY };
+    setView((current) =>
+      clampView({ ...current, cx: current.cx - dx / current.zoom, cy: current.cy - dy / current.zoom })
+    );
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const zoomBy = (factor: number) => {
+    setView((current) => clampView({ ...current, zoom: current.zoom * factor }));
+  };
+
+  if (error) {
+    return (
+      <p style={{ fontSize: 13, color: "#c0392b", marginTop: 16 }}>
+        비교 뷰어를 열 수 없습니다: {error}
+      </p>
+    );
+  }
+  if (!sources || !frame || !pair) {
+    return <p style={{ fontSize: 13, color: "#777", marginTop: 16 }}>비교 프레임 디코딩 중...</p>;
+  }
+
+  const canvasProps = {
+    width: frame.original.width,
+    height: frame.original.height,
+    onPointerDown: handlePointerDown,
+    onPointerMove: handlePointerMove,
+    onPointerUp: handlePointerUp,
+    onPointerCancel: handlePointerUp,
+  };
+  const lastPair = sources.pairs.length - 1;
+
+  return (
+    <div style={{ marginTop: 24, textAlign: "left" }}>
+      <h4 style={{ fontSize: 15, fontWeight: 500, textAlign: "center" }}>상세 비교</h4>
+
+      <div style={{ display: "flex", flexWrap: "wrap", gap: 8, marginBottom: 12 }}>
+        {VIEW_MODES.map(({ mode: value, label }) => (
+          <button
+            key={value}
+            onClick={() => setMode(value)}
+            style={{
+              ...buttonStyle,
+              borderColor: theme,
+              background: mode === value ? theme : "#fff",
+              color: mode === value ? "#fff" : theme,
+            }}
+          >
+            {label}
+          </button>
+        ))}
+        <div style={{ marginLeft: "auto", display: "flex", gap: 4, alignItems: "center" }}>
+          <button onClick={() => zoomBy(0.5)} style={smallButtonStyle}>
+            －
+          </button>
+          <span style={{ fontSize: 12, color: "#555", minWidth: 44, textAlign: "center" }}>
+            {Math.round(view.zoom * 100)}%
+          </span>
+          <button onClick={() => zoomBy(2)} style={smallButtonStyle}>
+            ＋
+          </button>
+          <button onClick={() => setView(FIT_VIEW)} style={smallButtonStyle}>
+            맞춤
+          </button>
+        </div>
+      </div>
+
+      {mode === "side" ? (
+        <div style={{ display: "flex", gap: 8 }}>
+          <figure style={figureStyle}>
+            <canvas ref={leftCanvasRef} {...canvasProps} style={canvasStyle} />
+            <figcaption style={captionStyle}>원본</figcaption>
+          </figure>
+          <figure style={figureStyle}>
+            <canvas ref={rightCanvasRef} {...canvasProps} style={canvasStyle} />
+            <figcaption style={captionStyle}>변환본</figcaption>
+          </figure>
+        </div>
+      ) : (
+        <figure style={{ ...figureStyle, width: "100%" }}>
+          <canvas
+            ref={leftCanvasRef}
+            {...canvasProps}
+            style={{ ...canvasStyle, cursor: mode === "split" ? "ew-resize" : "grab" }}
+          />
+          <figcaption style={captionStyle}>
+            {mode === "split" && "← 원본 | 변환본 → (분할선을 드래그)"}
+            {mode === "diff" &&
+              diff &&
+              `최대 채널 차이 ${diff.maxDiff} · 변경된 픽셀 ${(diff.changedRatio * 100).toFixed(1)}% (4배 증폭)`}
+            {mode === "ssim" && ssimMap && `프레임 SSIM ${ssimMap.mean.toFixed(4)} (붉을수록 구조 손실이 큼)`}
+          </figcaption>
+        </figure>
+      )}
+
+      {mode === "ssim" && (
+        <label style={{ display: "flex", alignItems: "center", gap: 8, fontSize: 13, color: "#555" }}>
+          오버레이 불투명도
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={overlayOpacity}
+            onChange={(e) => setOverlayOpacity(Number(e.target.value))}
+            style={{ flex: 1 }}
+          />
+        </label>
+      )}
+
+      {sources.pairs.length > 1 && (
+        <div style={{ display: "flex", alignItems: "center", gap: 8, marginTop: 8 }}>
+          <button
+            onClick={() => setPairIndex((index) => Math.max(0, index - 1))}
+            disabled={pairIndex === 0}
+            style={smallButtonStyle}
+          >
+            ◀
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={lastPair}
+            value={pairIndex}
+            onChange={(e) => setPairIndex(Number(e.target.value))}
+            style={{ flex: 1 }}
+          />
+          <button
+            onClick={() => setPairIndex((index) => Math.min(lastPair, index + 1))}
+            disabled={pairIndex === lastPair}
+            style={smallButtonStyle}
+          >
+            ▶
+          </button>
+          <span style={{ fontSize: 12, color: "#555", whiteSpace: "nowrap" }}>
+            원본 {pair.sourceIndex + 1}/{sources.frameCount} ↔ 변환본 {pair.candidateIndex + 1} ·{" "}
+            {Math.round(pair.timestamp)}ms
+          </span>
+        </div>
+      )}
+      {!sources.animated && sources.frameCount > 1 && (
+        <p style={{ fontSize: 12, color: "#999" }}>
+          이 브라우저는 프레임 단위 디코딩(ImageDecoder)을 지원하지 않아 첫 프레임만 비교합니다
+        </p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * 줌 범위를 제한하고 이미지 밖이 보이지 않도록 중심 위치 보정
+ */
+function clampView(view: ViewState): ViewState {
+  const zoom = Math.min(MAX_ZOOM, Math.max(1, view.zoom));
+  const half = 1 / (2 * zoom);
+  return {
+    zoom,
+    cx: Math.min(1 - half, Math.max(half, view.cx)),
+    cy: Math.min(1 - half, Math.max(half, view.cy)),
+  };
+}
+
+/**
+ * view 기준 변환을 적용해 그리기 (확대 시 픽셀이 보이도록 보간 끔)
+ */
+function paint(
+  canvas: HTMLCanvasElement,
+  view: ViewState,
+  draw: (ctx: CanvasRenderingContext2D) => void
+) {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  ctx.imageSmoothingEnabled = view.zoom < 2;
+  ctx.setTransform(
+    view.zoom,
+    0,
+    0,
+    view.zoom,
+    canvas.width * (0.5 - view.cx * view.zoom),
+    canvas.height * (0.5 - view.cy * view.zoom)
+  );
+  draw(ctx);
+}
+
+function toCanvas({ data, width, height }: ImageData): HTMLCanvasElement {
+  const canvas = Object.assign(document.createElement("canvas"), { width, height });
+  canvas
+    .getContext("2d")
+    ?.putImageData(new globalThis.ImageData(new Uint8ClampedArray(data), width, height), 0, 0);
+  return canvas;
+}
+
+const buttonStyle: CSSProperties = {
+  padding: "6px 12px",
+  borderRadius: 8,
+  border: "1px solid",
+  fontSize: 13,
+  cursor: "pointer",
+};
+
+const smallButtonStyle: CSSProperties = {
+  padding: "4px 8px",
+  borderRadius: 6,
+  border: "1px solid #ddd",
+  background: "#fff",
+  fontSize: 12,
+  cursor: "pointer",
+};
+
+const figureStyle: CSSProperties = {
+  flex: 1,
+  margin: 0,
+  minWidth: 0,
+};
+
+const canvasStyle: CSSProperties = {
+  width: "100%",
+  borderRadius: 8,
+  background:
+    "repeating-conic-gradient(#eee 0% 25%, #fff 0% 50%) 50% / 16px 16px",
+  cursor: "grab",
+  touchAction: "none",
+};
+
+const captionStyle: CSSProperties = {
+  fontSize: 12,
+  color: "#777",
+  textAlign: "center",
+  marginTop: 4,
+};
@@ -0,0 +1,156 @@
+import { useState } from "react";
+import type { CSSProperties } from "react";
+import {
+  createRenditionZip,
+  type RenditionSet,
+} from "../../features/convert/lib/renditions";
+import { OUTPUT_FORMATS } from "../../features/convert/lib/outputFormat";
+
+/**
+ * 반응형 세트 결과: 렌디션 목록, <picture> 마크업, 세트 ZIP 다운로드
+ */
+export function RenditionSetView({
+  theme,
+  set,
+}: {
+  theme: string;
+  set: RenditionSet;
+}) {
+  const [exporting, setExporting] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const download = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  const handleDownloadZip = async () => {
+    setExporting(true);
+    try {
+      const zip = await createRenditionZip(set);
+      download(zip, set.fallback.fileName.replace(/\.gif$/, "_responsive.zip"));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(set.snippet);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <div style={{ marginTop: 24, textAlign: "left" }}>
+      <h4 style={{ fontSize: 15, fontWeight: 500, textAlign: "center" }}>
+        반응형 세트 ({set.renditions.length}개 조합)
+      </h4>
+
+      <div style={{ width: "100%", overflowX: "auto" }}>
+        <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+          <thead>
+            <tr style={{ background: "#f5f5f5", color: "#555" }}>
+              <th style={cellStyle}>조합</th>
+              <th style={cellStyle}>해상도</th>
+              <th style={cellStyle}>형식</th>
+              <th style={cellStyle}>용량</th>
+              <th style={cellStyle}>SSIM</th>
+              <th style={cellStyle} />
+            </tr>
+          </thead>
+          <tbody>
+            {set.renditions.map(({ name, fileName, result }) => (
+              <tr key={name} style={{ borderBottom: "1px solid #eee" }}>
+                <td style={cellStyle}>{name}</td>
+                <td style={cellStyle}>
+                  {result.metadata.width}×{result.metadata.height}
+                </td>
+                <td style={cellStyle}>
+                  {OUTPUT_FORMATS[result.config.outputFormat ?? "webp"].label}
+                </td>
+                <td style={cellStyle}>{result.sizeKB.toFixed(1)} KB</td>
+                <td style={cellStyle}>{result.metrics.ssim.toFixed(4)}</td>
+                <td style={cellStyle}>
+                  <button onClick={() => download(result.blob, fileName)} style={actionStyle}>
+                    {fileName}
+                  </button>
+                </td>
+              </tr>
+            ))}
+            <tr>
+              <td style={cellStyle}>폴백</td>
+              <td style={cellStyle}>
+                {set.fallback.width}×{set.fallback.height}
+              </td>
+              <td style={cellStyle}>GIF</td>
+              <td style={cellStyle}>{(set.fallback.blob.size / 1024).toFixed(1)} KB</td>
+              <td style={cellStyle}>-</td>
+              <td style={cellStyle}>
+                <button
+                  onClick={() => download(set.fallback.blob, set.fallback.fileName)}
+                  style={actionStyle}
+                >
+                  {set.fallback.fileName}
+                </button>
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      <pre
+        style={{
+          fontSize: 12,
+          background: "#f6f6f6",
+          borderRadius: 8,
+          padding: 12,
+          overflowX: "auto",
+        }}
+      >
+        {set.snippet}
+      </pre>
+
+      <div style={{ display: "flex", gap: 8 }}>
+        <button onClick={handleCopy} style={{ ...buttonStyle, borderColor: theme, color: theme }}>
+          {copied ? "복사됨" : "마크업 복사"}
+        </button>
+        <button
+          onClick={handleDownloadZip}
+          disabled={exporting}
+          style={{ ...buttonStyle, borderColor: theme, color: theme }}
+        >
+          {exporting ? "ZIP 생성 중..." : "세트 ZIP 다운로드"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+const cellStyle: CSSProperties = {
+  padding: "8px 6px",
+  textAlign: "center",
+};
+
+const actionStyle: CSSProperties = {
+  padding: 0,
+  border: "none",
+  background: "none",
+  color: "#555",
+  fontSize: 12,
+  cursor: "pointer",
+  textDecoration: "underline",
+};
+
+const buttonStyle: CSSProperties = {
+  flex: 1,
+  padding: "10px 0",
+  borderRadius: 8,
+  border: "1px solid",
+  background: "#fff",
+  fontWeight: 500,
+  cursor: "pointer",
+};
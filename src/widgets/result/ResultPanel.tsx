@@ -1,4 +1,13 @@
 import { SAMPLE_GIF } from "../../shared/constants/sample";
+import {
+  buildVideoSnippet,
+  isVideoFormat,
+  OUTPUT_FORMATS,
+  outputFormatOf,
+} from "../../features/convert/lib/outputFormat";
+import type { RenditionSet } from "../../features/convert/lib/renditions";
+import { ComparisonViewer } from "./ComparisonViewer";
+import { RenditionSetView } from "./RenditionSetView";
 
 export function ResultPanel({
   theme,
@@ -6,8 +15,10 @@ export function ResultPanel({
   outputFileName,
   isSample,
   originalUrl,
+  originalIsVideo,
   originalSize,
   convertedSize,
+  renditionSet,
   onAddPortfolio,
 }: {
   theme: string;
@@ -15,12 +26,16 @@ export function ResultPanel({
   outputFileName: string;
   isSample: boolean;
   originalUrl: string | null;
+  originalIsVideo: boolean; // MP4/WebM 입력은 <video>로 미리보기
   originalSize: number | null;
   convertedSize: number | null;
+  renditionSet?: RenditionSet | null; // 반응형 세트 모드 결과
   onAddPortfolio: () => void;
 }) {
   if (!outputUrl) return null;
 
+  const outputFormat = outputFormatOf(outputFileName);
+
   return (
     <div
       style={{
@@ -55,13 +70,23 @@ export function ResultPanel({
               style={{ width: "100%", borderRadius: 12, marginBottom: 8 }}
             />
           ) : (
-            originalUrl && (
+            originalUrl &&
+            (originalIsVideo ? (
+              <video
+                src={originalUrl}
+                autoPlay
+                loop
+                muted
+                playsInline
+                style={{ width: "100%", borderRadius: 12, marginBottom: 8 }}
+              />
+            ) : (
               <img
                 src={originalUrl}
                 alt="original"
                 style={{ width: "100%", borderRadius: 12, marginBottom: 8 }}
               />
-            )
+            ))
           )}
           {originalSize && (
             <p style={{ fontSize: 13, color: "#777" }}>
@@ -71,20 +96,58 @@ export function ResultPanel({
         </div>
 
         <div>
-          <h4 style={{ fontSize: 15, fontWeight: 500 }}>변환본 (WebP)</h4>
-          <img
-            src={outputUrl}
-            alt="converted"
-            style={{ width: "100%", borderRadius: 12, marginBottom: 8 }}
-          />
+          <h4 style={{ fontSize: 15, fontWeight: 500 }}>변환본 ({OUTPUT_FORMATS[outputFormat].label})</h4>
+          {isVideoFormat(outputFormat) ? (
+            <video
+              src={outputUrl}
+              autoPlay
+              loop
+              muted
+              playsInline
+              style={{ width: "100%", borderRadius: 12, marginBottom: 8 }}
+            />
+          ) : (
+            <img
+              src={outputUrl}
+              alt="converted"
+              style={{ width: "100%", borderRadius: 12, marginBottom: 8 }}
+            />
+          )}
           {convertedSize && (
             <p style={{ fontSize: 13, color: "#777" }}>
               {convertedSize.toFixed(1)} KB
             </p>
           )}
+          {/* GIF 대신 <video>로 삽입할 때 쓸 마크업 */}
+          {isVideoFormat(outputFormat) && (
+            <pre
+              style={{
+                textAlign: "left",
+                fontSize: 12,
+                background: "#f6f6f6",
+                borderRadius: 8,
+                padding: 12,
+                overflowX: "auto",
+              }}
+            >
+              {buildVideoSnippet(outputFileName, outputFormat)}
+            </pre>
+          )}
         </div>
       </div>
 
+      {/* 이미지 출력만 픽셀 단위 비교 (비디오 입출력은 <video> 미리보기로 확인) */}
+      {!isVideoFormat(outputFormat) && !originalIsVideo && (isSample || originalUrl) && (
+        <ComparisonViewer
+          theme={theme}
+          originalUrl={isSample ? SAMPLE_GIF : originalUrl!}
+          convertedUrl={outputUrl}
+          convertedType={OUTPUT_FORMATS[outputFormat].mimeType}
+        />
+      )}
+
+      {renditionSet && <RenditionSetView theme={theme} set={renditionSet} />}
+
       <div
         style={{
           display: "flex",
@@ -0,0 +1,18 @@
+import { defineConfig } from "vite";
+
+// Node CLI 번들 (node_modules 의존성은 번들하지 않고 실행 시 불러옴)
+export default defineConfig({
+  publicDir: false, // 웹 앱의 public/ 정적 파일은 CLI 출력에 복사하지 않음
+  build: {
+    ssr: "src/cli/gif2webp-opt.ts",
+    outDir: "dist/cli",
+    target: "node20",
+    emptyOutDir: true,
+    rollupOptions: {
+      output: {
+        entryFileNames: "[name].js",
+        banner: "#!/usr/bin/env node",
+      },
+    },
+  },
+});